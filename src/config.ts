@@ -48,6 +48,79 @@ export interface Config {
    */
   cacheDefaultTTL: number;
 
+  /**
+   * How long (ms) expired cache entries are kept and served stale
+   * while they are refreshed in the background. 0 disables
+   * stale-while-revalidate.
+   * @default 600000 (10 minutes)
+   */
+  cacheStaleTTL: number;
+
+  /**
+   * Enable/disable the persistent disk cache tier under TABLEAU_TEMP_DIR
+   * @default false
+   */
+  diskCacheEnabled: boolean;
+
+  /**
+   * Maximum total size of the disk cache in megabytes
+   * @default 100
+   */
+  diskCacheMaxSizeMb: number;
+
+  /**
+   * Maximum attempts per API request, including the first
+   * (retries apply to 429, 5xx and network timeouts)
+   * @default 3
+   */
+  retryMaxAttempts: number;
+
+  /**
+   * Base delay in milliseconds for exponential retry backoff
+   * @default 500
+   */
+  retryBaseDelayMs: number;
+
+  /**
+   * Maximum delay in milliseconds between retries; a longer
+   * Retry-After from the server is not waited out
+   * @default 10000
+   */
+  retryMaxDelayMs: number;
+
+  /**
+   * Enable/disable the process-wide client-side rate limiter
+   * @default true
+   */
+  rateLimitEnabled: boolean;
+
+  /**
+   * Sustained requests per second allowed across all tools
+   * @default 5
+   */
+  rateLimitRps: number;
+
+  /**
+   * Maximum burst of requests above the sustained rate
+   * @default 10
+   */
+  rateLimitBurst: number;
+
+  /**
+   * Maximum requests waiting for the rate limiter before new ones are rejected
+   * @default 100
+   */
+  rateLimitMaxQueue: number;
+
+  /**
+   * Per-endpoint-group quotas in requests per second, applied on top of
+   * the global rate. Set via RATE_LIMIT_GROUP_RPS as "group=rps" pairs
+   * (e.g. "search=1,download=0.2"); groups are download, image, search,
+   * discovery, profile, workbooks and api.
+   * @default { download: 0.5, image: 2, search: 2 }
+   */
+  rateLimitGroupRps: Record<string, number>;
+
   /**
    * Maximum concurrent API requests for parallel pagination
    * @default 3
@@ -59,6 +132,62 @@ export interface Config {
    * @default 100
    */
   batchDelayMs: number;
+
+  /**
+   * Python interpreter with the tableauhyperapi package, used to read
+   * .hyper extracts; extracts fall back to workbook metadata without it
+   * @default "python3"
+   */
+  hyperApiPython: string;
+
+  /**
+   * Transport used to communicate with MCP clients
+   * @default "stdio"
+   */
+  transport: "stdio" | "http";
+
+  /**
+   * Port for the HTTP transport
+   * @default 3000
+   */
+  httpPort: number;
+
+  /**
+   * Bind address for the HTTP transport
+   * @default "127.0.0.1"
+   */
+  httpHost: string;
+}
+
+/**
+ * Default per-endpoint-group rate limits in requests per second
+ */
+const DEFAULT_GROUP_RPS: Record<string, number> = {
+  download: 0.5,
+  image: 2,
+  search: 2,
+};
+
+/**
+ * Parses "group=rps" pairs and merges them over the default group quotas
+ *
+ * @param value - Comma-separated pairs, e.g. "search=1,download=0.2"
+ * @returns Quotas by group name; invalid pairs are ignored
+ */
+function parseGroupRps(value: string | undefined): Record<string, number> {
+  const quotas = { ...DEFAULT_GROUP_RPS };
+  if (!value) {
+    return quotas;
+  }
+
+  for (const pair of value.split(",")) {
+    const [group, rps] = pair.split("=").map(part => part.trim());
+    const parsed = parseFloat(rps);
+    if (group && !isNaN(parsed)) {
+      quotas[group] = parsed;
+    }
+  }
+  return quotas;
 }
 
 /**
@@ -83,8 +212,27 @@ export function getConfig(): Config {
     cacheEnabled: process.env.CACHE_ENABLED !== "false",
     cacheMaxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || "1000", 10),
     cacheDefaultTTL: parseInt(process.env.CACHE_DEFAULT_TTL || "300000", 10),
+    cacheStaleTTL: parseInt(process.env.CACHE_STALE_TTL || "600000", 10),
+    diskCacheEnabled: process.env.DISK_CACHE_ENABLED === "true",
+    diskCacheMaxSizeMb: parseInt(process.env.DISK_CACHE_MAX_SIZE_MB || "100", 10),
+    // Retry settings
+    retryMaxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || "3", 10),
+    retryBaseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || "500", 10),
+    retryMaxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || "10000", 10),
+    // Rate limit settings
+    rateLimitEnabled: process.env.RATE_LIMIT_ENABLED !== "false",
+    rateLimitRps: parseFloat(process.env.RATE_LIMIT_RPS || "5"),
+    rateLimitBurst: parseInt(process.env.RATE_LIMIT_BURST || "10", 10),
+    rateLimitMaxQueue: parseInt(process.env.RATE_LIMIT_MAX_QUEUE || "100", 10),
+    rateLimitGroupRps: parseGroupRps(process.env.RATE_LIMIT_GROUP_RPS),
     // Pagination settings
     maxConcurrency: parseInt(process.env.MAX_CONCURRENCY || "3", 10),
     batchDelayMs: parseInt(process.env.BATCH_DELAY_MS || "100", 10),
+    // Extract settings
+    hyperApiPython: process.env.HYPER_API_PYTHON || "python3",
+    // Transport settings
+    transport: process.env.MCP_TRANSPORT === "http" ? "http" : "stdio",
+    httpPort: parseInt(process.env.MCP_HTTP_PORT || "3000", 10),
+    httpHost: process.env.MCP_HTTP_HOST || "127.0.0.1",
   };
 }
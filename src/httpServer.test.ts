@@ -0,0 +1,109 @@
+/**
+ * Tests for the HTTP transport host
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "net";
+import http from "http";
+import { startHttpServer, RunningHttpServer, HTTP_PATHS } from "./httpServer.js";
+
+/**
+ * Send a request with explicit headers (fetch doesn't allow overriding Host)
+ */
+function rawRequest(url: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method: "POST", headers }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }));
+  });
+}
+
+describe("httpServer", () => {
+  let running: RunningHttpServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    running = await startHttpServer({ port: 0, host: "127.0.0.1" });
+    const address = running.httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterAll(async () => {
+    await running.close();
+  });
+
+  it("should report health", async () => {
+    const response = await fetch(`${baseUrl}${HTTP_PATHS.HEALTH}`);
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.status).toBe("ok");
+    expect(body.sessions).toEqual({ streamableHttp: 0, sse: 0 });
+  });
+
+  it("should reject requests without a session that are not initialize requests", async () => {
+    const response = await fetch(`${baseUrl}${HTTP_PATHS.MCP}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Accept": "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject unknown session IDs", async () => {
+    const response = await fetch(`${baseUrl}${HTTP_PATHS.MCP}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Accept": "application/json, text/event-stream",
+        "Mcp-Session-Id": "does-not-exist"
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it("should create a session on initialize", async () => {
+    const response = await fetch(`${baseUrl}${HTTP_PATHS.MCP}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Accept": "application/json, text/event-stream" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" }
+        }
+      })
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("mcp-session-id")).toBeTruthy();
+    await response.text();
+    expect(running.sessionCount()).toBe(1);
+  });
+
+  it("should return 404 for unknown paths", async () => {
+    const response = await fetch(`${baseUrl}/unknown`);
+    expect(response.status).toBe(404);
+  });
+
+  it("should reject requests from a foreign Host or Origin", async () => {
+    const headers = { "Content-Type": "application/json", "Accept": "application/json, text/event-stream" };
+    const port = (running.httpServer.address() as AddressInfo).port;
+
+    // DNS rebinding: an attacker's name resolving to 127.0.0.1
+    expect(await rawRequest(`${baseUrl}${HTTP_PATHS.MCP}`, { ...headers, Host: `evil.example:${port}` })).toBe(403);
+    expect(await rawRequest(`${baseUrl}${HTTP_PATHS.MCP}`, { ...headers, Origin: "http://evil.example" })).toBe(403);
+    expect(await rawRequest(`${baseUrl}${HTTP_PATHS.MESSAGES}?sessionId=x`, { ...headers, Origin: "http://evil.example" }))
+      .toBe(403);
+
+    // Loopback names and same-host origins pass the check (and fail later for lack of a session)
+    expect(await rawRequest(`${baseUrl}${HTTP_PATHS.MCP}`, { ...headers, Host: `localhost:${port}` })).toBe(400);
+    expect(await rawRequest(`${baseUrl}${HTTP_PATHS.MCP}`, { ...headers, Origin: `http://localhost:${port}` })).toBe(400);
+  });
+});
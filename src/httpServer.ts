@@ -0,0 +1,329 @@
+/**
+ * HTTP transport host for the MCP server
+ *
+ * Serves the same server created by createServer() over HTTP so that a
+ * single instance can be shared by several MCP clients. Supports:
+ * - MCP Streamable HTTP on /mcp (POST, GET and DELETE)
+ * - Legacy HTTP+SSE on /sse (stream) and /messages (client posts)
+ * - A health endpoint on /health
+ *
+ * Every client session gets its own Server instance and transport,
+ * tracked by session ID until the client disconnects or deletes it.
+ *
+ * To block DNS rebinding, MCP requests must carry a Host header naming
+ * the address the server listens on, and any Origin header must name that
+ * same host.
+ */
+
+import http, { IncomingMessage, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import { AddressInfo } from "net";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "./server.js";
+
+/**
+ * Options for starting the HTTP server
+ */
+export interface HttpServerOptions {
+  /** Port to listen on */
+  port: number;
+  /** Address to bind to */
+  host: string;
+}
+
+/**
+ * Path constants for the HTTP endpoints
+ */
+export const HTTP_PATHS = {
+  /** Streamable HTTP endpoint */
+  MCP: "/mcp",
+  /** Legacy SSE stream endpoint */
+  SSE: "/sse",
+  /** Legacy SSE message endpoint */
+  MESSAGES: "/messages",
+  /** Health check endpoint */
+  HEALTH: "/health",
+} as const;
+
+/** Maximum accepted request body size (4 MB) */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Bind addresses that only accept local connections */
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+/** Bind addresses that accept connections on every interface */
+const WILDCARD_HOSTS = ["0.0.0.0", "::", ""];
+
+/**
+ * Running HTTP server handle
+ */
+export interface RunningHttpServer {
+  /** Underlying Node HTTP server */
+  httpServer: http.Server;
+  /** Number of currently open MCP sessions */
+  sessionCount: () => number;
+  /** Close all sessions and stop listening */
+  close: () => Promise<void>;
+}
+
+/**
+ * Read and JSON-parse a request body
+ *
+ * @param req - Incoming HTTP request
+ * @returns Parsed JSON body, or undefined when the body is empty
+ * @throws Error if the body is too large or is not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text.length > 0 ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Write a JSON-RPC error response (used before a transport owns the request)
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null
+  });
+}
+
+/** Format a host and port as they appear in a Host header */
+function hostWithPort(host: string, port: number): string {
+  return host.includes(":") ? `[${host}]:${port}` : `${host}:${port}`;
+}
+
+/**
+ * List the Host header values the server answers to
+ *
+ * A loopback bind answers to any loopback name; a wildcard bind can be
+ * reached under any name, so the Host header isn't restricted (null).
+ */
+function allowedHostHeaders(host: string, port: number): Set<string> | null {
+  if (WILDCARD_HOSTS.includes(host)) return null;
+  const hosts = LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host];
+  return new Set(hosts.map(name => hostWithPort(name, port)));
+}
+
+/**
+ * Check a request's Host and Origin headers against the listening address
+ *
+ * @returns An error message, or undefined when the request is allowed
+ */
+function validateRequestHeaders(req: IncomingMessage, allowedHosts: Set<string> | null): string | undefined {
+  const hostHeader = req.headers.host;
+  if (allowedHosts && (!hostHeader || !allowedHosts.has(hostHeader))) {
+    return `Invalid Host header: ${hostHeader ?? "(missing)"}`;
+  }
+
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    let originHost: string | undefined;
+    try {
+      originHost = new URL(origin).host;
+    } catch {
+      originHost = undefined;
+    }
+    const allowed = allowedHosts ? originHost !== undefined && allowedHosts.has(originHost) : originHost === hostHeader;
+    if (!allowed) {
+      return `Invalid Origin header: ${origin}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Starts the MCP server on an HTTP transport
+ *
+ * @param options - Port and bind address
+ * @returns Handle for inspecting and closing the running server
+ *
+ * @example
+ * ```typescript
+ * const running = await startHttpServer({ port: 3000, host: "127.0.0.1" });
+ * // ... later
+ * await running.close();
+ * ```
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+  let allowedHosts: Set<string> | null = null;
+
+  /**
+   * Handle Streamable HTTP requests on /mcp
+   */
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    // Existing session
+    if (sessionId) {
+      const transport = streamableTransports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // New sessions must start with an initialize request
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        streamableTransports.set(newSessionId, transport);
+        console.error(`[HTTP] Session initialized: ${newSessionId}`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+        console.error(`[HTTP] Session closed: ${transport.sessionId}`);
+      }
+    };
+
+    const server = createServer();
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Handle legacy SSE stream requests on /sse
+   */
+  async function handleSseStream(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(HTTP_PATHS.MESSAGES, res);
+    sseTransports.set(transport.sessionId, transport);
+    console.error(`[HTTP] SSE session opened: ${transport.sessionId}`);
+
+    res.on("close", () => {
+      sseTransports.delete(transport.sessionId);
+      console.error(`[HTTP] SSE session closed: ${transport.sessionId}`);
+    });
+
+    const server = createServer();
+    await server.connect(transport);
+  }
+
+  /**
+   * Handle legacy SSE client messages on /messages
+   */
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId") || "";
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    const body = await readJsonBody(req);
+    await transport.handlePostMessage(req, res, body);
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+    const method = req.method || "GET";
+
+    try {
+      if (url.pathname === HTTP_PATHS.HEALTH && method === "GET") {
+        sendJson(res, 200, {
+          status: "ok",
+          server: "tableau-public-mcp-server",
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+          sessions: {
+            streamableHttp: streamableTransports.size,
+            sse: sseTransports.size
+          }
+        });
+        return;
+      }
+
+      const headerError = validateRequestHeaders(req, allowedHosts);
+      if (headerError) {
+        console.error(`[HTTP] Rejected ${method} ${url.pathname}: ${headerError}`);
+        sendJsonRpcError(res, 403, -32000, `Forbidden: ${headerError}`);
+        return;
+      }
+
+      if (url.pathname === HTTP_PATHS.MCP && ["POST", "GET", "DELETE"].includes(method)) {
+        await handleStreamable(req, res);
+        return;
+      }
+
+      if (url.pathname === HTTP_PATHS.SSE && method === "GET") {
+        await handleSseStream(res);
+        return;
+      }
+
+      if (url.pathname === HTTP_PATHS.MESSAGES && method === "POST") {
+        await handleSseMessage(req, res, url);
+        return;
+      }
+
+      sendJson(res, 404, { error: "Not found", path: url.pathname });
+    } catch (error) {
+      console.error(`[HTTP] Error handling ${method} ${url.pathname}:`, error);
+      if (!res.headersSent) {
+        if (error instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, -32700, "Parse error: Invalid JSON");
+        } else {
+          sendJsonRpcError(res, 500, -32603, "Internal server error");
+        }
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      // Use the bound port, which differs from options.port when that is 0
+      allowedHosts = allowedHostHeaders(options.host, (httpServer.address() as AddressInfo).port);
+      resolve();
+    });
+  });
+
+  return {
+    httpServer,
+    sessionCount: () => streamableTransports.size + sseTransports.size,
+    close: async () => {
+      for (const transport of [...streamableTransports.values(), ...sseTransports.values()]) {
+        await transport.close().catch(() => {});
+      }
+      streamableTransports.clear();
+      sseTransports.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  };
+}
@@ -4,8 +4,14 @@
  * Tableau Public MCP Server - Entry Point
  *
  * This is the main entry point for the Tableau Public MCP server.
- * It creates the server instance and connects it to stdio transport
- * for communication with MCP clients like Claude Desktop.
+ * It creates the server instance and connects it to a transport for
+ * communication with MCP clients:
+ * - stdio (default) for local clients like Claude Desktop
+ * - HTTP (Streamable HTTP with SSE fallback) for shared instances
+ *
+ * Select the transport with `--transport http` or MCP_TRANSPORT=http.
+ * The HTTP port and bind address come from `--port`/`--host` or
+ * MCP_HTTP_PORT/MCP_HTTP_HOST.
  *
  * The server provides tools for accessing Tableau Public APIs:
  * - User profiles and metadata
@@ -17,20 +23,94 @@
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createServer } from "./server.js";
+import { startHttpServer, RunningHttpServer } from "./httpServer.js";
+import { getConfig, Config } from "./config.js";
+
+/**
+ * Transport settings resolved from config and CLI flags
+ */
+interface TransportOptions {
+  transport: Config["transport"];
+  port: number;
+  host: string;
+}
+
+/**
+ * Running HTTP server, if the HTTP transport was selected
+ */
+let runningHttpServer: RunningHttpServer | undefined;
+
+/**
+ * Resolves transport options from CLI flags, falling back to config
+ *
+ * Supports both `--flag value` and `--flag=value` forms for
+ * `--transport`, `--port` and `--host`.
+ *
+ * @param argv - Command line arguments (without node and script path)
+ * @returns Resolved transport options
+ */
+function parseTransportOptions(argv: string[]): TransportOptions {
+  const config = getConfig();
+  const options: TransportOptions = {
+    transport: config.transport,
+    port: config.httpPort,
+    host: config.httpHost
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+
+    const equalsIndex = arg.indexOf("=");
+    const flag = equalsIndex >= 0 ? arg.slice(0, equalsIndex) : arg;
+    const readValue = (): string => {
+      if (equalsIndex >= 0) return arg.slice(equalsIndex + 1);
+      i++;
+      return argv[i] ?? "";
+    };
+
+    if (flag === "--transport") {
+      const value = readValue();
+      if (value !== "stdio" && value !== "http") {
+        throw new Error(`Invalid --transport value: '${value}' (expected 'stdio' or 'http')`);
+      }
+      options.transport = value;
+    } else if (flag === "--port") {
+      const value = readValue();
+      options.port = parseInt(value, 10);
+      if (Number.isNaN(options.port)) {
+        throw new Error(`Invalid --port value: '${value}'`);
+      }
+    } else if (flag === "--host") {
+      options.host = readValue();
+    }
+  }
+
+  return options;
+}
 
 /**
  * Main entry point for the MCP server
  *
  * Performs the following steps:
- * 1. Creates the MCP server with all registered tools
- * 2. Creates a stdio transport for client communication
- * 3. Connects the server to the transport
+ * 1. Resolves the transport from CLI flags and environment
+ * 2. For HTTP, starts the HTTP host (one server per client session)
+ * 3. For stdio, creates the MCP server and connects it to stdio
  * 4. Handles errors and exits gracefully on failure
  */
 async function main(): Promise<void> {
   try {
     console.error("[Main] Starting Tableau Public MCP Server...");
 
+    const options = parseTransportOptions(process.argv.slice(2));
+
+    if (options.transport === "http") {
+      runningHttpServer = await startHttpServer({ port: options.port, host: options.host });
+      console.error(`[Main] Tableau Public MCP Server listening on http://${options.host}:${options.port}`);
+      console.error("[Main] Streamable HTTP: /mcp, SSE: /sse + /messages, health: /health");
+      return;
+    }
+
     // Create the MCP server with all tools registered
     const server = createServer();
     console.error("[Main] Server created successfully");
@@ -81,7 +161,7 @@ process.on("unhandledRejection", (reason: unknown) => {
  */
 process.on("SIGINT", () => {
   console.error("[Main] Received SIGINT, shutting down gracefully...");
-  process.exit(0);
+  shutdown();
 });
 
 /**
@@ -89,8 +169,18 @@ process.on("SIGINT", () => {
  */
 process.on("SIGTERM", () => {
   console.error("[Main] Received SIGTERM, shutting down gracefully...");
-  process.exit(0);
+  shutdown();
 });
 
+/**
+ * Closes the HTTP server (if running) and exits
+ */
+function shutdown(): void {
+  if (!runningHttpServer) {
+    process.exit(0);
+  }
+  runningHttpServer.close().finally(() => process.exit(0));
+}
+
 // Start the server
 main();
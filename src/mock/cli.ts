@@ -0,0 +1,102 @@
+/**
+ * Command line entry point for the mock Tableau Public server
+ *
+ * Replay recorded fixtures (default):
+ *   npx tsx src/mock/cli.ts --port 4010
+ *
+ * Record new fixtures from the live site:
+ *   npx tsx src/mock/cli.ts --port 4010 --mode record
+ *
+ * Then point the MCP server or a benchmark at it:
+ *   TABLEAU_PUBLIC_BASE_URL=http://127.0.0.1:4010 npx tsx src/benchmark/votdBenchmark.ts
+ *
+ * Flags (each also settable by environment variable):
+ * - --port (MOCK_PORT, default 4010)
+ * - --host (MOCK_HOST, default 127.0.0.1)
+ * - --mode replay|record (MOCK_MODE, default replay)
+ * - --fixtures (MOCK_FIXTURES_DIR, default fixtures/tableau-public)
+ * - --upstream (MOCK_UPSTREAM, default https://public.tableau.com)
+ */
+
+import { startMockServer, MockServerOptions, DEFAULT_FIXTURES_DIR, DEFAULT_UPSTREAM } from "./mockServer.js";
+
+/**
+ * Resolves mock server options from CLI flags, falling back to environment
+ *
+ * Supports both `--flag value` and `--flag=value` forms.
+ *
+ * @param argv - Command line arguments (without node and script path)
+ * @returns Resolved options
+ */
+function parseMockOptions(argv: string[]): MockServerOptions {
+  const options: MockServerOptions = {
+    port: parseInt(process.env.MOCK_PORT || "4010", 10),
+    host: process.env.MOCK_HOST || "127.0.0.1",
+    mode: process.env.MOCK_MODE === "record" ? "record" : "replay",
+    fixturesDir: process.env.MOCK_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+    upstream: process.env.MOCK_UPSTREAM || DEFAULT_UPSTREAM
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+
+    const equalsIndex = arg.indexOf("=");
+    const flag = equalsIndex >= 0 ? arg.slice(0, equalsIndex) : arg;
+    const readValue = (): string => {
+      if (equalsIndex >= 0) return arg.slice(equalsIndex + 1);
+      i++;
+      return argv[i] ?? "";
+    };
+
+    if (flag === "--port") {
+      const value = readValue();
+      options.port = parseInt(value, 10);
+      if (Number.isNaN(options.port)) {
+        throw new Error(`Invalid --port value: '${value}'`);
+      }
+    } else if (flag === "--host") {
+      options.host = readValue();
+    } else if (flag === "--mode") {
+      const value = readValue();
+      if (value !== "replay" && value !== "record") {
+        throw new Error(`Invalid --mode value: '${value}' (expected 'replay' or 'record')`);
+      }
+      options.mode = value;
+    } else if (flag === "--fixtures") {
+      options.fixturesDir = readValue();
+    } else if (flag === "--upstream") {
+      options.upstream = readValue();
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Starts the mock server and stops it on SIGINT/SIGTERM
+ */
+async function main(): Promise<void> {
+  try {
+    const options = parseMockOptions(process.argv.slice(2));
+    const running = await startMockServer(options);
+
+    console.error(`[Mock] Listening on ${running.url}`);
+    if (options.mode === "record") {
+      console.error(`[Mock] Recording responses from ${options.upstream} into ${options.fixturesDir}`);
+    }
+    console.error(`[Mock] Set TABLEAU_PUBLIC_BASE_URL=${running.url} to use it`);
+
+    const shutdown = (): void => {
+      console.error("[Mock] Shutting down...");
+      running.close().finally(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  } catch (error) {
+    console.error("[Mock] Failed to start mock server:", error);
+    process.exit(1);
+  }
+}
+
+main();
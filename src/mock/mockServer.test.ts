@@ -0,0 +1,109 @@
+/**
+ * Tests for the mock Tableau Public server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs/promises";
+import { startMockServer, RunningMockServer, fixtureKey, loadFixtures, DEFAULT_FIXTURES_DIR } from "./mockServer.js";
+
+describe("fixtureKey", () => {
+  it("should ignore query parameter order", () => {
+    const a = fixtureKey({ method: "get", path: "/p", query: { start: "0", count: "20" } });
+    const b = fixtureKey({ method: "GET", path: "/p", query: { count: "20", start: "0" } });
+    expect(a).toBe(b);
+    expect(a).toBe("GET /p?count=20&start=0");
+  });
+});
+
+describe("mock server", () => {
+  let replay: RunningMockServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    replay = await startMockServer({
+      port: 0,
+      host: "127.0.0.1",
+      fixturesDir: DEFAULT_FIXTURES_DIR,
+      mode: "replay"
+    });
+  });
+
+  afterAll(async () => {
+    await replay.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should replay recorded JSON responses", async () => {
+    const response = await fetch(`${replay.url}/profile/api/sample.author`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    expect(await response.json()).toMatchObject({ profileName: "sample.author" });
+  });
+
+  it("should match query parameters in any order", async () => {
+    const response = await fetch(
+      `${replay.url}/public/apis/bff/v1/search/query-workbooks?start=0&query=superstore&language=en-us&count=20`
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).results).toHaveLength(2);
+  });
+
+  it("should replay binary responses", async () => {
+    const response = await fetch(`${replay.url}/workbooks/SuperstoreSales.twb`);
+    const body = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    // .twbx files are zip archives
+    expect(body.subarray(0, 2).toString()).toBe("PK");
+  });
+
+  it("should return 404 for unrecorded requests", async () => {
+    const response = await fetch(`${replay.url}/profile/api/nobody`);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ request: "GET /profile/api/nobody" });
+  });
+
+  describe("record mode", () => {
+    let directory: string;
+    let recorder: RunningMockServer;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "mock-fixtures-test-"));
+      recorder = await startMockServer({
+        port: 0,
+        host: "127.0.0.1",
+        fixturesDir: directory,
+        mode: "record",
+        upstream: replay.url
+      });
+    });
+
+    afterEach(async () => {
+      await recorder.close();
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should proxy upstream responses and save them as fixtures", async () => {
+      const response = await fetch(`${recorder.url}/profile/api/single_workbook/SuperstoreSales`);
+      expect(await response.json()).toMatchObject({ workbookRepoUrl: "SuperstoreSales" });
+
+      await fetch(`${recorder.url}/workbooks/SuperstoreSales.twb`);
+      await fetch(`${recorder.url}/profile/api/nobody`);
+
+      const fixtures = await loadFixtures(directory);
+      expect([...fixtures.keys()].sort()).toEqual([
+        "GET /profile/api/nobody",
+        "GET /profile/api/single_workbook/SuperstoreSales",
+        "GET /workbooks/SuperstoreSales.twb"
+      ]);
+      expect(fixtures.get("GET /profile/api/nobody")?.response.status).toBe(404);
+      expect(fixtures.get("GET /workbooks/SuperstoreSales.twb")?.response.bodyBase64).toBeDefined();
+      expect(recorder.fixtureCount()).toBe(3);
+    });
+  });
+});
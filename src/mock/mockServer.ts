@@ -0,0 +1,329 @@
+/**
+ * Offline mock of the Tableau Public site
+ *
+ * Serves recorded responses for the endpoints the tools call so tool
+ * flows and benchmarks can run deterministically without network access.
+ * Point the MCP server at it with TABLEAU_PUBLIC_BASE_URL. Two modes:
+ * - replay: answer from fixture files, 404 for unrecorded requests
+ * - record: proxy to the real site and save each response as a fixture
+ *
+ * Each fixture is one JSON file holding the request it answers (method,
+ * path and query) and the response (status, content type and body).
+ * JSON bodies are stored as-is so fixtures stay readable and editable;
+ * other bodies (images, .twb downloads) are stored base64-encoded.
+ */
+
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createHash } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import axios from "axios";
+
+/**
+ * Mock server mode
+ */
+export type MockMode = "replay" | "record";
+
+/**
+ * Options for starting the mock server
+ */
+export interface MockServerOptions {
+  /** Port to listen on (0 for a random free port) */
+  port: number;
+  /** Address to bind to */
+  host: string;
+  /** Directory holding fixture files */
+  fixturesDir: string;
+  /** Replay fixtures or record new ones */
+  mode: MockMode;
+  /** Site proxied in record mode */
+  upstream?: string;
+}
+
+/**
+ * Request a fixture answers
+ */
+export interface FixtureRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+}
+
+/**
+ * Recorded response
+ */
+export interface FixtureResponse {
+  status: number;
+  contentType: string;
+  /** Parsed JSON body */
+  body?: unknown;
+  /** Raw body for non-JSON responses */
+  bodyBase64?: string;
+}
+
+/**
+ * One recorded request/response pair
+ */
+export interface Fixture {
+  request: FixtureRequest;
+  response: FixtureResponse;
+}
+
+/**
+ * Running mock server handle
+ */
+export interface RunningMockServer {
+  /** Underlying Node HTTP server */
+  httpServer: http.Server;
+  /** Base URL to use as TABLEAU_PUBLIC_BASE_URL */
+  url: string;
+  /** Number of fixtures currently loaded */
+  fixtureCount: () => number;
+  /** Stop listening */
+  close: () => Promise<void>;
+}
+
+/** Default site proxied in record mode */
+export const DEFAULT_UPSTREAM = "https://public.tableau.com";
+
+/** Default fixture directory, relative to the working directory */
+export const DEFAULT_FIXTURES_DIR = path.join("fixtures", "tableau-public");
+
+/**
+ * Build the lookup key for a request
+ *
+ * Query parameters are sorted so parameter order doesn't matter.
+ */
+export function fixtureKey(request: FixtureRequest): string {
+  const query = new URLSearchParams(
+    Object.entries(request.query).sort(([a], [b]) => a.localeCompare(b))
+  ).toString();
+  return `${request.method.toUpperCase()} ${request.path}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Build the file name a fixture is saved under
+ *
+ * Readable slug of the path plus a short hash of the full key, so
+ * requests differing only in query parameters get separate files.
+ *
+ * @example
+ * ```typescript
+ * fixtureFileName({ method: "GET", path: "/profile/api/wjsutton", query: {} });
+ * // "get-profile-api-wjsutton-1a2b3c4d.json"
+ * ```
+ */
+export function fixtureFileName(request: FixtureRequest): string {
+  const slug = `${request.method}${request.path}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  const hash = createHash("sha256").update(fixtureKey(request)).digest("hex").slice(0, 8);
+  return `${slug}-${hash}.json`;
+}
+
+/**
+ * Load every fixture in a directory, keyed by request
+ *
+ * Files that can't be parsed are skipped with a warning.
+ *
+ * @param fixturesDir - Directory holding fixture files
+ * @returns Fixtures by fixtureKey(); empty if the directory doesn't exist
+ */
+export async function loadFixtures(fixturesDir: string): Promise<Map<string, Fixture>> {
+  const fixtures = new Map<string, Fixture>();
+
+  let files: string[];
+  try {
+    files = await fs.readdir(fixturesDir);
+  } catch {
+    return fixtures;
+  }
+
+  for (const file of files.filter(f => f.endsWith(".json")).sort()) {
+    try {
+      const fixture = JSON.parse(await fs.readFile(path.join(fixturesDir, file), "utf-8")) as Fixture;
+      fixtures.set(fixtureKey(fixture.request), fixture);
+    } catch (error) {
+      console.error(`[Mock] Skipping invalid fixture ${file}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return fixtures;
+}
+
+/**
+ * Save a fixture to the directory
+ *
+ * @returns Path of the written file
+ */
+export async function saveFixture(fixturesDir: string, fixture: Fixture): Promise<string> {
+  await fs.mkdir(fixturesDir, { recursive: true });
+  const filePath = path.join(fixturesDir, fixtureFileName(fixture.request));
+  await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + "\n");
+  return filePath;
+}
+
+/**
+ * Convert an incoming request URL to a fixture request
+ */
+function toFixtureRequest(method: string, url: URL): FixtureRequest {
+  return {
+    method: method.toUpperCase(),
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams)
+  };
+}
+
+/**
+ * Write a fixture response
+ */
+function sendFixture(res: ServerResponse, response: FixtureResponse): void {
+  const body = response.bodyBase64 !== undefined
+    ? Buffer.from(response.bodyBase64, "base64")
+    : Buffer.from(JSON.stringify(response.body ?? null));
+
+  res.writeHead(response.status, {
+    "Content-Type": response.contentType,
+    "Content-Length": body.length
+  });
+  res.end(body);
+}
+
+/**
+ * Fetch a request from the upstream site and convert it to a fixture
+ *
+ * Conditional headers aren't forwarded so the full body is recorded.
+ */
+async function recordFromUpstream(
+  upstream: string,
+  request: FixtureRequest,
+  accept: string | undefined
+): Promise<Fixture> {
+  const response = await axios.request<ArrayBuffer>({
+    method: request.method,
+    url: `${upstream}${request.path}`,
+    params: request.query,
+    responseType: "arraybuffer",
+    timeout: 120000,
+    validateStatus: () => true,
+    headers: {
+      "User-Agent": "tableau-public-mcp-server/1.0.0",
+      "Accept": accept || "application/json"
+    }
+  });
+
+  const contentType = String(response.headers["content-type"] || "application/octet-stream");
+  const buffer = Buffer.from(response.data);
+  const fixtureResponse: FixtureResponse = { status: response.status, contentType };
+
+  if (contentType.includes("json")) {
+    try {
+      fixtureResponse.body = JSON.parse(buffer.toString("utf-8"));
+    } catch {
+      fixtureResponse.bodyBase64 = buffer.toString("base64");
+    }
+  } else {
+    fixtureResponse.bodyBase64 = buffer.toString("base64");
+  }
+
+  return { request, response: fixtureResponse };
+}
+
+/**
+ * Starts the mock Tableau Public server
+ *
+ * @param options - Port, bind address, fixture directory and mode
+ * @returns Handle with the base URL to point the tools at
+ *
+ * @example
+ * ```typescript
+ * const mock = await startMockServer({
+ *   port: 0,
+ *   host: "127.0.0.1",
+ *   fixturesDir: "fixtures/tableau-public",
+ *   mode: "replay"
+ * });
+ * process.env.TABLEAU_PUBLIC_BASE_URL = mock.url;
+ * // ... later
+ * await mock.close();
+ * ```
+ */
+export async function startMockServer(options: MockServerOptions): Promise<RunningMockServer> {
+  const fixtures = await loadFixtures(options.fixturesDir);
+  const upstream = (options.upstream || DEFAULT_UPSTREAM).replace(/\/+$/, "");
+
+  console.error(`[Mock] Loaded ${fixtures.size} fixtures from ${options.fixturesDir} (${options.mode} mode)`);
+
+  /**
+   * Answer from fixtures, or 404 with a hint to record the request
+   */
+  function handleReplay(res: ServerResponse, request: FixtureRequest): void {
+    const key = fixtureKey(request);
+    const fixture = fixtures.get(key);
+
+    if (!fixture) {
+      console.error(`[Mock] No fixture for ${key}`);
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({
+        error: "No fixture recorded for this request",
+        request: key,
+        suggestion: "Start the mock server in record mode to capture it"
+      }));
+      return;
+    }
+
+    console.error(`[Mock] Replay ${key} -> ${fixture.response.status}`);
+    sendFixture(res, fixture.response);
+  }
+
+  /**
+   * Proxy to the upstream site and save the response
+   */
+  async function handleRecord(req: IncomingMessage, res: ServerResponse, request: FixtureRequest): Promise<void> {
+    const fixture = await recordFromUpstream(upstream, request, req.headers.accept);
+    const filePath = await saveFixture(options.fixturesDir, fixture);
+    fixtures.set(fixtureKey(request), fixture);
+
+    console.error(`[Mock] Recorded ${fixtureKey(request)} -> ${fixture.response.status} (${path.basename(filePath)})`);
+    sendFixture(res, fixture.response);
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+    const request = toFixtureRequest(req.method || "GET", url);
+
+    try {
+      if (options.mode === "record") {
+        await handleRecord(req, res, request);
+      } else {
+        handleReplay(res, request);
+      }
+    } catch (error) {
+      console.error(`[Mock] Error handling ${fixtureKey(request)}:`, error instanceof Error ? error.message : error);
+      if (!res.headersSent) {
+        res.writeHead(502, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Failed to record upstream response" }));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+
+  return {
+    httpServer,
+    url: `http://${options.host}:${address.port}`,
+    fixtureCount: () => fixtures.size,
+    close: () => new Promise<void>((resolve) => httpServer.close(() => resolve()))
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * End-to-end tool flows against the mock Tableau Public server
+ *
+ * Unlike the per-tool tests, nothing is mocked in-process: the tools make
+ * real HTTP requests through apiClient to the mock server selected with
+ * TABLEAU_PUBLIC_BASE_URL, which replays the recorded fixtures.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import * as fs from "fs/promises";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { startMockServer, RunningMockServer, DEFAULT_FIXTURES_DIR } from "./mockServer.js";
+
+describe("tool flows against the mock server", () => {
+  let mock: RunningMockServer;
+  let server: Server;
+  let tools: typeof import("../tools/tools.js");
+  const downloads: string[] = [];
+
+  beforeAll(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mock = await startMockServer({
+      port: 0,
+      host: "127.0.0.1",
+      fixturesDir: DEFAULT_FIXTURES_DIR,
+      mode: "replay"
+    });
+
+    // apiClient reads the base URL when first imported
+    process.env.TABLEAU_PUBLIC_BASE_URL = mock.url;
+    process.env.RETRY_MAX_ATTEMPTS = "1";
+    tools = await import("../tools/tools.js");
+
+    server = new Server(
+      { name: "test-server", version: "1.0.0" },
+      { capabilities: { tools: {} } }
+    );
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    for (const file of downloads) {
+      await fs.rm(file, { recursive: true, force: true });
+    }
+    delete process.env.TABLEAU_PUBLIC_BASE_URL;
+    delete process.env.RETRY_MAX_ATTEMPTS;
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Find a registered tool by name
+   */
+  function getTool(name: string) {
+    const tool = tools.toolFactories.map(factory => factory(server)).find(t => t.name === name);
+    if (!tool) {
+      throw new Error(`Tool not registered: ${name}`);
+    }
+    return tool;
+  }
+
+  it("should fetch a user profile", async () => {
+    const result = await getTool("get_user_profile").callback({ username: "sample.author" });
+
+    const value = result.unwrap();
+    expect(value.isError).toBe(false);
+    expect(value.structuredContent).toMatchObject({ displayName: "Sample Author" });
+  });
+
+  it("should fetch workbook details with a direct URL", async () => {
+    const result = await getTool("get_workbook_details").callback({ workbookName: "SuperstoreSales" });
+
+    expect(result.unwrap().structuredContent).toMatchObject({
+      title: "Superstore Sales",
+      directUrl: expect.stringContaining("/viz/SuperstoreSales/Overview")
+    });
+  });
+
+  it("should search visualizations", async () => {
+    const result = await getTool("search_visualizations").callback({ query: "superstore" });
+
+    const content = result.unwrap().structuredContent as { results: unknown[] };
+    expect(content.results).toHaveLength(2);
+  });
+
+  it("should list Viz of the Day winners", async () => {
+    const result = await getTool("get_viz_of_day").callback({});
+
+    expect(result.unwrap().isError).toBe(false);
+    expect(result.unwrap().content[0].text).toContain("Ocean Temperatures");
+  });
+
+  it("should list featured authors", async () => {
+    const result = await getTool("get_featured_authors").callback({});
+
+    expect(result.unwrap().structuredContent).toMatchObject({
+      authors: expect.arrayContaining([expect.objectContaining({ profileName: "sample.author" })])
+    });
+  });
+
+  it("should surface API errors for unrecorded requests", async () => {
+    const result = await getTool("get_user_profile").callback({ username: "nobody" });
+
+    expect(result.unwrap().isError).toBe(true);
+  });
+
+  it("should download, unpack and analyse a workbook", async () => {
+    const download = await getTool("download_workbook_twbx").callback({ workbookName: "SuperstoreSales" });
+    const { filePath } = download.unwrap().structuredContent as { filePath: string };
+    downloads.push(filePath);
+
+    const unpack = await getTool("unpack_twbx").callback({ filePath });
+    const { mainTwbPath, extractionPath } = unpack.unwrap().structuredContent as {
+      mainTwbPath: string;
+      extractionPath: string;
+    };
+    downloads.push(extractionPath);
+
+    const calcs = await getTool("get_twbx_calculated_fields").callback({ twbFilePath: mainTwbPath });
+    expect(calcs.unwrap().content[0].text).toContain("Profit Ratio");
+  });
+
+  it("should refuse downloads when data access is disabled", async () => {
+    const result = await getTool("download_workbook_twbx").callback({ workbookName: "PrivateBudget" });
+
+    expect(result.unwrap().isError).toBe(true);
+    expect(result.unwrap().content[0].text).toContain("not allowed");
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Profile Analysis Prompts
+ *
+ * Prompt templates for summarising Tableau Public authors and
+ * exploring community content.
+ */
+
+import { z } from "zod";
+import { Prompt, userMessage } from "./prompt.js";
+
+/**
+ * Prompt: summarise an author's portfolio
+ */
+export function summariseAuthorPortfolioPrompt(): Prompt<{
+  username: z.ZodString;
+  workbookLimit: z.ZodDefault<z.ZodOptional<z.ZodNumber>>;
+}> {
+  return new Prompt({
+    name: "summarise_author_portfolio",
+    title: "Summarise Author Portfolio",
+    description: "Summarises a Tableau Public author's portfolio: themes, techniques, " +
+      "most popular work and how their style has evolved.",
+    argsSchema: {
+      username: z.string()
+        .min(1, "Username cannot be empty")
+        .describe("Tableau Public username of the author"),
+      workbookLimit: z.coerce.number()
+        .int()
+        .min(1)
+        .max(50)
+        .optional()
+        .default(50)
+        .describe("Maximum number of workbooks to review, 1-50 (default: 50)")
+    },
+    build: ({ username, workbookLimit }) => ({
+      messages: userMessage([
+        `Summarise the Tableau Public portfolio of "${username}".`,
+        "",
+        "Follow these steps:",
+        `1. Call \`get_user_profile\` with username "${username}" for their bio, counts and recent work.`,
+        `2. Call \`get_workbooks_list\` with username "${username}" and count ${workbookLimit}.`,
+        `3. Call \`get_user_profile_categories\` with username "${username}" to see how they group their work.`,
+        "4. For the three most viewed workbooks, call `get_workbook_details` to read their descriptions.",
+        "",
+        "Then write a summary covering:",
+        "- Recurring subjects and data themes",
+        "- Visual techniques and chart types they favour",
+        "- Their most popular workbooks (with direct URLs) and why they stand out",
+        "- How their work has changed over time",
+        "",
+        "End with two or three workbooks worth studying first."
+      ].join("\n"))
+    })
+  });
+}
+
+/**
+ * Prompt: study recent Viz of the Day winners
+ */
+export function studyVizOfTheDayPrompt(): Prompt<{
+  count: z.ZodDefault<z.ZodOptional<z.ZodNumber>>;
+}> {
+  return new Prompt({
+    name: "study_viz_of_the_day",
+    title: "Study Viz of the Day Winners",
+    description: "Reviews recent Viz of the Day winners and identifies the design " +
+      "patterns they have in common.",
+    argsSchema: {
+      count: z.coerce.number()
+        .int()
+        .min(1)
+        .max(50)
+        .optional()
+        .default(10)
+        .describe("Number of recent winners to review (default: 10)")
+    },
+    build: ({ count }) => ({
+      messages: userMessage([
+        `Study the ${count} most recent Tableau Public Viz of the Day winners.`,
+        "",
+        "Follow these steps:",
+        `1. Call \`get_viz_of_day\` with maxResults ${count}.`,
+        "2. For each winner, call `get_workbook_thumbnail` to see the visual design.",
+        "",
+        "Then describe the common design patterns (layout, colour, typography, chart types, storytelling) " +
+          "and list each winner with its author and direct URL."
+      ].join("\n"))
+    })
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Base Prompt class for MCP server prompts
+ *
+ * Provides the foundation for prompt templates with typed arguments
+ * validated by Zod schemas. Prompts bundle a recommended sequence of
+ * tool calls so that users get consistent analysis workflows.
+ */
+
+import { GetPromptResult, PromptArgument } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape, ZodObject } from "zod";
+
+/**
+ * Parameters for constructing a Prompt instance
+ *
+ * @template Args - Zod schema shape for prompt arguments
+ */
+export interface PromptParams<Args extends ZodRawShape> {
+  /**
+   * Unique name for the prompt (e.g., "explain_workbook_lods")
+   */
+  name: string;
+
+  /**
+   * Human-readable title shown in prompt pickers
+   */
+  title: string;
+
+  /**
+   * Description of what the prompt does
+   */
+  description: string;
+
+  /**
+   * Zod schema shape for the prompt arguments
+   *
+   * MCP prompt arguments are always strings, so use z.coerce for
+   * numeric or boolean arguments.
+   */
+  argsSchema: Args;
+
+  /**
+   * Builds the prompt messages from validated arguments
+   */
+  build: (args: z.infer<ZodObject<Args>>) => GetPromptResult;
+}
+
+/**
+ * Prompt template with typed, validated arguments
+ *
+ * @template Args - Zod schema shape for prompt arguments
+ *
+ * @example
+ * ```typescript
+ * const prompt = new Prompt({
+ *   name: "summarise_author_portfolio",
+ *   title: "Summarise Author Portfolio",
+ *   description: "Summarise a Tableau Public author's work",
+ *   argsSchema: { username: z.string().describe("Tableau Public username") },
+ *   build: ({ username }) => ({ messages: [...] })
+ * });
+ * ```
+ */
+export class Prompt<Args extends ZodRawShape> {
+  public readonly name: string;
+  public readonly title: string;
+  public readonly description: string;
+  public readonly argsSchema: Args;
+  private readonly build: (args: z.infer<ZodObject<Args>>) => GetPromptResult;
+  private readonly zodSchema: ZodObject<Args>;
+
+  constructor(params: PromptParams<Args>) {
+    this.name = params.name;
+    this.title = params.title;
+    this.description = params.description;
+    this.argsSchema = params.argsSchema;
+    this.build = params.build;
+    this.zodSchema = z.object(params.argsSchema);
+  }
+
+  /**
+   * Describes the prompt arguments for prompts/list
+   */
+  public getArguments(): PromptArgument[] {
+    return Object.entries(this.argsSchema).map(([name, schema]) => ({
+      name,
+      description: schema.description,
+      required: !schema.isOptional()
+    }));
+  }
+
+  /**
+   * Validates arguments and builds the prompt messages
+   *
+   * @param args - Raw string arguments from the MCP request
+   * @returns The prompt result with messages
+   * @throws ZodError if validation fails
+   */
+  public render(args: Record<string, string> | undefined): GetPromptResult {
+    const validated = this.zodSchema.parse(args ?? {});
+    return {
+      description: this.description,
+      ...this.build(validated)
+    };
+  }
+}
+
+/**
+ * Creates a single user text message
+ *
+ * @param text - Message text
+ * @returns Prompt messages array with one user message
+ */
+export function userMessage(text: string): GetPromptResult["messages"] {
+  return [
+    {
+      role: "user",
+      content: { type: "text", text }
+    }
+  ];
+}
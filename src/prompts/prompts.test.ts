@@ -0,0 +1,70 @@
+/**
+ * Tests for the prompt catalog
+ */
+
+import { describe, it, expect } from "vitest";
+import { promptFactories } from "./prompts.js";
+import { TOOL_NAMES } from "../tools/toolName.js";
+
+describe("prompts", () => {
+  const prompts = promptFactories.map(factory => factory());
+
+  it("should have unique names", () => {
+    const names = prompts.map(p => p.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it("should only reference existing tools", () => {
+    for (const prompt of prompts) {
+      const args = Object.fromEntries(
+        prompt.getArguments().filter(a => a.required).map(a => [a.name, "example"])
+      );
+      const result = prompt.render(args);
+      const text = result.messages
+        .map(m => (m.content.type === "text" ? m.content.text : ""))
+        .join("\n");
+
+      const referenced = [...text.matchAll(/`([a-z_]+)`/g)].map(m => m[1]);
+      expect(referenced.length).toBeGreaterThan(0);
+      for (const toolName of referenced) {
+        expect(TOOL_NAMES).toContain(toolName);
+      }
+    }
+  });
+
+  it("should describe required and optional arguments", () => {
+    const critique = prompts.find(p => p.name === "critique_workbook_calculations")!;
+    expect(critique.getArguments()).toEqual([
+      expect.objectContaining({ name: "workbookName", required: true }),
+      expect.objectContaining({ name: "focus", required: false })
+    ]);
+  });
+
+  it("should embed the TWBX tool sequence for LOD explanations", () => {
+    const lods = prompts.find(p => p.name === "explain_workbook_lods")!;
+    const result = lods.render({ workbookName: "SuperstoreSales" });
+    const text = result.messages[0].content.type === "text" ? result.messages[0].content.text : "";
+
+    const download = text.indexOf("download_workbook_twbx");
+    const unpack = text.indexOf("unpack_twbx");
+    const lodTool = text.indexOf("get_twbx_lod_expressions");
+    expect(download).toBeGreaterThan(-1);
+    expect(unpack).toBeGreaterThan(download);
+    expect(lodTool).toBeGreaterThan(unpack);
+    expect(text).toContain("SuperstoreSales");
+  });
+
+  it("should coerce and default numeric arguments", () => {
+    const portfolio = prompts.find(p => p.name === "summarise_author_portfolio")!;
+    const text = (r: ReturnType<typeof portfolio.render>) =>
+      r.messages[0].content.type === "text" ? r.messages[0].content.text : "";
+
+    expect(text(portfolio.render({ username: "jdoe" }))).toContain("count 50");
+    expect(text(portfolio.render({ username: "jdoe", workbookLimit: "20" }))).toContain("count 20");
+  });
+
+  it("should reject missing required arguments", () => {
+    const portfolio = prompts.find(p => p.name === "summarise_author_portfolio")!;
+    expect(() => portfolio.render({})).toThrow();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Prompt factory registry
+ *
+ * Central registry of all prompt factories. Import and add new prompt
+ * factory functions here to make them available to the MCP server.
+ */
+
+import { Prompt } from "./prompt.js";
+
+// TWBX Analysis Prompts
+import {
+  critiqueWorkbookCalculationsPrompt,
+  explainWorkbookLodsPrompt,
+  explainWorkbookStructurePrompt
+} from "./twbxPrompts.js";
+
+// Profile Analysis Prompts
+import {
+  summariseAuthorPortfolioPrompt,
+  studyVizOfTheDayPrompt
+} from "./profilePrompts.js";
+
+/**
+ * Type definition for prompt factory functions
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type PromptFactory = () => Prompt<any>;
+
+/**
+ * Array of all prompt factory functions
+ *
+ * The server will automatically register all prompts in this array.
+ */
+export const promptFactories: PromptFactory[] = [
+  // TWBX Analysis Prompts (3)
+  critiqueWorkbookCalculationsPrompt,
+  explainWorkbookLodsPrompt,
+  explainWorkbookStructurePrompt,
+
+  // Profile Analysis Prompts (2)
+  summariseAuthorPortfolioPrompt,
+  studyVizOfTheDayPrompt
+];
@@ -0,0 +1,133 @@
+/**
+ * TWBX Analysis Prompts
+ *
+ * Prompt templates that walk through downloading, unpacking and
+ * analysing a Tableau Public workbook with the TWBX tools.
+ */
+
+import { z } from "zod";
+import { Prompt, userMessage } from "./prompt.js";
+
+/**
+ * Shared argument for prompts that analyse a single workbook
+ */
+const workbookNameArg = z.string()
+  .min(1, "Workbook name cannot be empty")
+  .describe("The workbook name from the Tableau Public URL (e.g., 'RacialBiasinFootballCommentary')");
+
+/**
+ * Steps common to every TWBX workflow: download then unpack
+ */
+function downloadAndUnpackSteps(workbookName: string): string {
+  return [
+    `1. Call \`download_workbook_twbx\` with workbookName "${workbookName}". ` +
+      "If data access is not allowed, stop and explain that the author has disabled downloads.",
+    "2. Call `unpack_twbx` with the filePath returned in step 1. Note the mainTwbPath in the result."
+  ].join("\n");
+}
+
+/**
+ * Prompt: critique a workbook's calculated fields
+ */
+export function critiqueWorkbookCalculationsPrompt(): Prompt<{
+  workbookName: typeof workbookNameArg;
+  focus: z.ZodOptional<z.ZodString>;
+}> {
+  return new Prompt({
+    name: "critique_workbook_calculations",
+    title: "Critique Workbook Calculations",
+    description: "Reviews the calculated fields in a Tableau Public workbook for correctness, " +
+      "readability and performance, with concrete improvement suggestions.",
+    argsSchema: {
+      workbookName: workbookNameArg,
+      focus: z.string()
+        .optional()
+        .describe("Optional area to focus on (e.g., 'performance', 'readability', 'date logic')")
+    },
+    build: ({ workbookName, focus }) => ({
+      messages: userMessage([
+        `Critique the calculated fields in the Tableau Public workbook "${workbookName}".`,
+        "",
+        "Follow these steps:",
+        downloadAndUnpackSteps(workbookName),
+        "3. Call `get_twbx_calculated_fields` with the mainTwbPath to get every formula.",
+        "4. Call `get_twbx_calculation_dependencies` with the mainTwbPath to see how calculations build on each other.",
+        "",
+        "Then write a review that covers:",
+        "- Calculations that are incorrect or fragile (null handling, integer division, date edge cases)",
+        "- Formulas that could be simplified or replaced by built-in features",
+        "- Performance concerns (string-heavy logic, deeply nested IFs, unnecessary LODs)",
+        "- Naming and organisation of the calculation chain",
+        focus ? `\nPay particular attention to: ${focus}.` : "",
+        "",
+        "Quote each formula you discuss and give a suggested rewrite where applicable."
+      ].join("\n"))
+    })
+  });
+}
+
+/**
+ * Prompt: explain every LOD expression in a workbook
+ */
+export function explainWorkbookLodsPrompt(): Prompt<{ workbookName: typeof workbookNameArg }> {
+  return new Prompt({
+    name: "explain_workbook_lods",
+    title: "Explain Workbook LOD Expressions",
+    description: "Explains every Level of Detail (LOD) expression in a Tableau Public workbook " +
+      "in plain language, including where each one is used.",
+    argsSchema: {
+      workbookName: workbookNameArg
+    },
+    build: ({ workbookName }) => ({
+      messages: userMessage([
+        `Explain every LOD expression in the Tableau Public workbook "${workbookName}".`,
+        "",
+        "Follow these steps:",
+        downloadAndUnpackSteps(workbookName),
+        "3. Call `get_twbx_lod_expressions` with the mainTwbPath and includeUsageContext true.",
+        "4. If a LOD is used by other calculations, call `get_twbx_calculation_dependencies` to trace how its result flows through the workbook.",
+        "",
+        "For each LOD expression explain:",
+        "- What question it answers, in one plain-language sentence",
+        "- Its type (FIXED, INCLUDE or EXCLUDE) and why that type was chosen",
+        "- How it interacts with filters (FIXED ignores dimension filters unless they are context filters)",
+        "- Where its result is used",
+        "",
+        "Finish with a short summary of the LOD patterns this author relies on."
+      ].join("\n"))
+    })
+  });
+}
+
+/**
+ * Prompt: give a guided tour of a workbook's structure
+ */
+export function explainWorkbookStructurePrompt(): Prompt<{ workbookName: typeof workbookNameArg }> {
+  return new Prompt({
+    name: "explain_workbook_structure",
+    title: "Explain Workbook Structure",
+    description: "Gives a guided tour of how a Tableau Public workbook is built: " +
+      "data sources, worksheets, dashboards and the data behind them.",
+    argsSchema: {
+      workbookName: workbookNameArg
+    },
+    build: ({ workbookName }) => ({
+      messages: userMessage([
+        `Give me a guided tour of how the Tableau Public workbook "${workbookName}" is built.`,
+        "",
+        "Follow these steps:",
+        downloadAndUnpackSteps(workbookName),
+        "3. Call `get_twbx_workbook_structure` with the mainTwbPath.",
+        "4. Call `get_twbx_data_profile` with the extractionPath from step 2 and twbFilePath set to the mainTwbPath.",
+        "",
+        "Then describe:",
+        "- The data sources and what each contains",
+        "- Each dashboard and the worksheets it combines",
+        "- The chart types used and the fields driving them",
+        "- Parameters and how a reader can interact with the workbook",
+        "",
+        "Keep the explanation accessible to someone new to Tableau."
+      ].join("\n"))
+    })
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Extracted TWBX file resources
+ *
+ * Exposes files extracted by unpack_twbx (workbook XML, data files and
+ * images) as `file://` resources. Only files inside the Tableau temp
+ * directory are listed or readable.
+ */
+
+import * as path from "path";
+import * as fs from "fs/promises";
+import { watch } from "fs";
+import { pathToFileURL, fileURLToPath } from "url";
+import { Resource } from "@modelcontextprotocol/sdk/types.js";
+import {
+  TABLEAU_TEMP_DIR,
+  listFilesRecursive,
+  isWithinTempDir,
+  fileExists
+} from "../utils/fileSystem.js";
+import { ResourceTemplateDefinition, ResourceContents } from "./resourceTemplate.js";
+
+/** Directory unpack_twbx extracts into by default */
+const EXTRACTED_DIR = path.join(TABLEAU_TEMP_DIR, "extracted");
+
+/** Maximum number of extracted files returned by resources/list */
+const MAX_LISTED_FILES = 500;
+
+/** Maximum file size that can be read as a resource (10 MB) */
+const MAX_READ_BYTES = 10 * 1024 * 1024;
+
+/**
+ * MIME types by file extension; text types are returned as text,
+ * everything else as base64 blobs
+ */
+const MIME_TYPES: Record<string, { mimeType: string; isText: boolean }> = {
+  ".twb": { mimeType: "application/xml", isText: true },
+  ".tds": { mimeType: "application/xml", isText: true },
+  ".xml": { mimeType: "application/xml", isText: true },
+  ".csv": { mimeType: "text/csv", isText: true },
+  ".txt": { mimeType: "text/plain", isText: true },
+  ".json": { mimeType: "application/json", isText: true },
+  ".png": { mimeType: "image/png", isText: false },
+  ".jpg": { mimeType: "image/jpeg", isText: false },
+  ".jpeg": { mimeType: "image/jpeg", isText: false },
+  ".gif": { mimeType: "image/gif", isText: false },
+  ".svg": { mimeType: "image/svg+xml", isText: true },
+  ".xlsx": { mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", isText: false }
+};
+
+/**
+ * Look up the MIME type for a file
+ */
+function getMimeInfo(filePath: string): { mimeType: string; isText: boolean } {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ??
+    { mimeType: "application/octet-stream", isText: false };
+}
+
+/**
+ * Resolve a file:// URI to a local path inside the temp directory
+ *
+ * @throws Error if the URI is outside the Tableau temp directory
+ */
+function resolveFileUri(uri: string): string {
+  const filePath = fileURLToPath(uri);
+  if (!isWithinTempDir(filePath)) {
+    throw new Error(`Access denied: ${uri} is outside ${TABLEAU_TEMP_DIR}`);
+  }
+  return filePath;
+}
+
+/**
+ * Extracted file resource: file://{+path}
+ */
+export const extractedFileResource: ResourceTemplateDefinition = {
+  uriTemplate: "file://{+path}",
+  name: "Extracted TWBX file",
+  description: "Files extracted from a .twbx by unpack_twbx (workbook XML, data files, images). " +
+    `Restricted to ${TABLEAU_TEMP_DIR}.`,
+
+  read: async (_variables, uri): Promise<ResourceContents> => {
+    const filePath = resolveFileUri(uri);
+
+    if (!(await fileExists(filePath))) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    const stats = await fs.stat(filePath);
+    if (stats.isDirectory()) {
+      throw new Error(`Not a file: ${filePath}`);
+    }
+    if (stats.size > MAX_READ_BYTES) {
+      throw new Error(`File too large to read as a resource: ${stats.size} bytes (limit ${MAX_READ_BYTES})`);
+    }
+
+    const { mimeType, isText } = getMimeInfo(filePath);
+    const buffer = await fs.readFile(filePath);
+
+    return [
+      isText
+        ? { uri, mimeType, text: buffer.toString("utf-8") }
+        : { uri, mimeType, blob: buffer.toString("base64") }
+    ];
+  },
+
+  list: async (): Promise<Resource[]> => {
+    if (!(await fileExists(EXTRACTED_DIR))) {
+      return [];
+    }
+
+    const files = await listFilesRecursive(EXTRACTED_DIR);
+    return files
+      .filter(f => !f.isDirectory)
+      .slice(0, MAX_LISTED_FILES)
+      .map(f => {
+        const fullPath = path.join(EXTRACTED_DIR, f.path);
+        return {
+          uri: pathToFileURL(fullPath).href,
+          name: f.path.replace(/\\/g, "/"),
+          description: `Extracted ${f.category} file`,
+          mimeType: getMimeInfo(fullPath).mimeType,
+          size: f.size
+        };
+      });
+  },
+
+  watch: (_variables, uri, onChange) => {
+    const filePath = resolveFileUri(uri);
+    try {
+      const watcher = watch(filePath, { persistent: false }, () => onChange());
+      watcher.on("error", (error) => {
+        console.error(`[Resources] Watch error for ${uri}:`, error);
+      });
+      return () => watcher.close();
+    } catch (error) {
+      console.error(`[Resources] Failed to watch ${uri}:`, error);
+      return () => {};
+    }
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * Base definitions for MCP resource templates
+ *
+ * A resource template describes a family of resources addressed by a
+ * URI template (e.g. `tableau-public://profile/{username}`). Each template
+ * knows how to match a concrete URI, read it, and optionally list the
+ * concrete resources it currently exposes or watch one for changes.
+ */
+
+import { Resource, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Variables extracted from a URI by matching it against a template
+ */
+export type UriVariables = Record<string, string>;
+
+/**
+ * Contents returned when reading a resource
+ */
+export type ResourceContents = ReadResourceResult["contents"];
+
+/**
+ * Definition of a resource template served by the MCP server
+ */
+export interface ResourceTemplateDefinition {
+  /**
+   * RFC 6570 style URI template (supports `{var}` and `{+var}`)
+   */
+  uriTemplate: string;
+
+  /**
+   * Short name for the template
+   */
+  name: string;
+
+  /**
+   * Human-readable description of the resources
+   */
+  description: string;
+
+  /**
+   * MIME type of the resource contents (when uniform)
+   */
+  mimeType?: string;
+
+  /**
+   * Reads the resource identified by the URI
+   *
+   * @param variables - Variables matched from the URI template
+   * @param uri - The full resource URI
+   * @returns Resource contents
+   */
+  read: (variables: UriVariables, uri: string) => Promise<ResourceContents>;
+
+  /**
+   * Lists concrete resources currently available for this template
+   */
+  list?: () => Promise<Resource[]>;
+
+  /**
+   * Watches a resource for changes
+   *
+   * @param variables - Variables matched from the URI template
+   * @param uri - The full resource URI
+   * @param onChange - Called when the resource contents change
+   * @returns Function that stops watching
+   */
+  watch?: (variables: UriVariables, uri: string, onChange: () => void) => () => void;
+}
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Match a URI against a URI template
+ *
+ * `{var}` matches a single path segment (no "/"), `{+var}` matches the
+ * rest of the URI including slashes. Matched values are URI-decoded.
+ *
+ * @param template - URI template
+ * @param uri - Concrete URI to match
+ * @returns Extracted variables, or null if the URI doesn't match
+ *
+ * @example
+ * ```typescript
+ * matchUriTemplate("tableau-public://profile/{username}", "tableau-public://profile/john");
+ * // Returns { username: "john" }
+ * ```
+ */
+export function matchUriTemplate(template: string, uri: string): UriVariables | null {
+  const names: string[] = [];
+  let pattern = "";
+  let lastIndex = 0;
+  const varPattern = /\{(\+?)([a-zA-Z0-9_]+)\}/g;
+  let match;
+
+  while ((match = varPattern.exec(template)) !== null) {
+    pattern += escapeRegExp(template.slice(lastIndex, match.index));
+    pattern += match[1] === "+" ? "(.+)" : "([^/]+)";
+    names.push(match[2]);
+    lastIndex = match.index + match[0].length;
+  }
+  pattern += escapeRegExp(template.slice(lastIndex));
+
+  const uriMatch = new RegExp(`^${pattern}$`).exec(uri);
+  if (!uriMatch) return null;
+
+  const variables: UriVariables = {};
+  try {
+    names.forEach((name, i) => {
+      variables[name] = decodeURIComponent(uriMatch[i + 1]);
+    });
+  } catch {
+    return null;
+  }
+  return variables;
+}
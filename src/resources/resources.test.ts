@@ -0,0 +1,83 @@
+/**
+ * Tests for resource templates
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { matchUriTemplate } from "./resourceTemplate.js";
+import { findResourceTemplate } from "./resources.js";
+import { cachedGet } from "../utils/cachedApiClient.js";
+import { TABLEAU_TEMP_DIR } from "../utils/fileSystem.js";
+
+vi.mock("../utils/cachedApiClient.js", () => ({
+  cachedGet: vi.fn()
+}));
+
+describe("matchUriTemplate", () => {
+  it("should match single segment variables", () => {
+    expect(matchUriTemplate("tableau-public://profile/{username}", "tableau-public://profile/john"))
+      .toEqual({ username: "john" });
+  });
+
+  it("should not match across slashes for simple variables", () => {
+    expect(matchUriTemplate("tableau-public://profile/{username}", "tableau-public://profile/a/b"))
+      .toBeNull();
+  });
+
+  it("should match reserved expansion across slashes", () => {
+    expect(matchUriTemplate("file://{+path}", "file:///tmp/a/b.twb"))
+      .toEqual({ path: "/tmp/a/b.twb" });
+  });
+
+  it("should decode matched values", () => {
+    expect(matchUriTemplate("tableau-public://workbook/{workbookRepoUrl}", "tableau-public://workbook/My%20Book"))
+      .toEqual({ workbookRepoUrl: "My Book" });
+  });
+});
+
+describe("resources", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should read profiles through cachedGet", async () => {
+    vi.mocked(cachedGet).mockResolvedValueOnce({ displayName: "Test User" });
+
+    const uri = "tableau-public://profile/testuser";
+    const found = findResourceTemplate(uri);
+    expect(found).not.toBeNull();
+
+    const contents = await found!.template.read(found!.variables, uri);
+    expect(cachedGet).toHaveBeenCalledWith("/profile/api/testuser", undefined, { bypassCache: false });
+    expect(contents[0].mimeType).toBe("application/json");
+    expect("text" in contents[0] && contents[0].text).toContain("Test User");
+  });
+
+  it("should read workbook details through cachedGet", async () => {
+    vi.mocked(cachedGet).mockResolvedValueOnce({ title: "My Workbook" });
+
+    const uri = "tableau-public://workbook/MyWorkbook";
+    const found = findResourceTemplate(uri);
+    await found!.template.read(found!.variables, uri);
+
+    expect(cachedGet).toHaveBeenCalledWith("/profile/api/single_workbook/MyWorkbook", undefined, { bypassCache: false });
+  });
+
+  it("should deny file reads outside the temp directory", async () => {
+    const uri = pathToFileURL(path.resolve("/etc/passwd")).href;
+    const found = findResourceTemplate(uri);
+    expect(found).not.toBeNull();
+    await expect(found!.template.read(found!.variables, uri)).rejects.toThrow("Access denied");
+  });
+
+  it("should report missing files inside the temp directory", async () => {
+    const uri = pathToFileURL(path.join(TABLEAU_TEMP_DIR, "extracted", "missing.twb")).href;
+    const found = findResourceTemplate(uri);
+    await expect(found!.template.read(found!.variables, uri)).rejects.toThrow("File not found");
+  });
+
+  it("should return null for unknown URIs", () => {
+    expect(findResourceTemplate("https://example.com")).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Resource template registry
+ *
+ * Central registry of all resource templates served by the MCP server.
+ * Add new templates here to make them available to clients.
+ */
+
+import { ResourceTemplateDefinition, UriVariables, matchUriTemplate } from "./resourceTemplate.js";
+import { profileResource, workbookResource } from "./tableauPublicResources.js";
+import { extractedFileResource } from "./extractedFileResource.js";
+
+/**
+ * Array of all resource templates
+ *
+ * Order matters - the first template matching a URI handles it.
+ */
+export const resourceTemplates: ResourceTemplateDefinition[] = [
+  profileResource,
+  workbookResource,
+  extractedFileResource
+];
+
+/**
+ * Find the template that handles a URI
+ *
+ * @param uri - Resource URI
+ * @returns The matching template and its variables, or null if none match
+ */
+export function findResourceTemplate(
+  uri: string
+): { template: ResourceTemplateDefinition; variables: UriVariables } | null {
+  for (const template of resourceTemplates) {
+    const variables = matchUriTemplate(template.uriTemplate, uri);
+    if (variables) {
+      return { template, variables };
+    }
+  }
+  return null;
+}
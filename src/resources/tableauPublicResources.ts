@@ -0,0 +1,104 @@
+/**
+ * Tableau Public API resources
+ *
+ * Exposes user profiles and workbook details as MCP resources so clients
+ * can read and subscribe to them instead of repeatedly calling tools.
+ * All reads go through cachedGet, sharing the tool caches.
+ */
+
+import { cachedGet } from "../utils/cachedApiClient.js";
+import { TTL } from "../utils/cache.js";
+import { ResourceTemplateDefinition, ResourceContents } from "./resourceTemplate.js";
+
+/**
+ * Fetch an endpoint and wrap the JSON response as resource contents
+ */
+async function readJson(
+  uri: string,
+  endpoint: string,
+  bypassCache = false
+): Promise<ResourceContents> {
+  const data = await cachedGet(endpoint, undefined, { bypassCache });
+  return [
+    {
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(data, null, 2)
+    }
+  ];
+}
+
+/**
+ * Poll an endpoint and call onChange when its response changes
+ *
+ * Polling happens at the endpoint's cache TTL so subscribed resources
+ * never refresh more often than the cache would expire anyway.
+ *
+ * @returns Function that stops polling
+ */
+function pollForChanges(
+  uri: string,
+  endpoint: string,
+  intervalMs: number,
+  onChange: () => void
+): () => void {
+  let lastText: string | undefined;
+
+  const check = async (): Promise<void> => {
+    try {
+      const [contents] = await readJson(uri, endpoint, lastText !== undefined);
+      const text = "text" in contents ? contents.text : "";
+      if (lastText !== undefined && text !== lastText) {
+        onChange();
+      }
+      lastText = text;
+    } catch (error) {
+      console.error(`[Resources] Failed to poll ${uri}:`, error);
+    }
+  };
+
+  void check();
+  const timer = setInterval(() => void check(), intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * User profile resource: tableau-public://profile/{username}
+ */
+export const profileResource: ResourceTemplateDefinition = {
+  uriTemplate: "tableau-public://profile/{username}",
+  name: "Tableau Public profile",
+  description: "Profile information for a Tableau Public user, including counts, " +
+    "social links and recent workbooks (same data as get_user_profile).",
+  mimeType: "application/json",
+
+  read: (variables, uri) =>
+    readJson(uri, `/profile/api/${variables.username}`),
+
+  watch: (variables, uri, onChange) =>
+    pollForChanges(uri, `/profile/api/${variables.username}`, TTL.PROFILE, onChange)
+};
+
+/**
+ * Workbook details resource: tableau-public://workbook/{workbookRepoUrl}
+ */
+export const workbookResource: ResourceTemplateDefinition = {
+  uriTemplate: "tableau-public://workbook/{workbookRepoUrl}",
+  name: "Tableau Public workbook",
+  description: "Details for a single Tableau Public workbook by its repository URL " +
+    "(same data as get_workbook_details).",
+  mimeType: "application/json",
+
+  read: (variables, uri) =>
+    readJson(uri, `/profile/api/single_workbook/${variables.workbookRepoUrl}`),
+
+  watch: (variables, uri, onChange) =>
+    pollForChanges(
+      uri,
+      `/profile/api/single_workbook/${variables.workbookRepoUrl}`,
+      TTL.STATIC,
+      onChange
+    )
+};
@@ -2,23 +2,38 @@
  * MCP Server setup and configuration
  *
  * Creates and configures the MCP server instance, registering all
- * available tools from the tool factory registry.
+ * available tools from the tool factory registry, all resource
+ * templates from the resource registry and all prompts from the
+ * prompt factory registry.
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
-  ListToolsRequestSchema
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode
 } from "@modelcontextprotocol/sdk/types.js";
 import { toolFactories } from "./tools/tools.js";
+import { resourceTemplates, findResourceTemplate } from "./resources/resources.js";
+import { promptFactories } from "./prompts/prompts.js";
 
 /**
  * Creates and configures the MCP server instance
  *
  * This function:
  * 1. Initializes the MCP server with metadata
- * 2. Declares tool capabilities
+ * 2. Declares tool, resource and prompt capabilities
  * 3. Registers all tools from the factory registry
+ * 4. Registers all resource templates from the resource registry
+ * 5. Registers all prompts from the prompt factory registry
  *
  * @returns Configured Server instance ready to connect to a transport
  *
@@ -38,7 +53,12 @@ export function createServer(): Server {
     },
     {
       capabilities: {
-        tools: {}
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: false
+        },
+        prompts: {}
       }
     }
   );
@@ -46,6 +66,12 @@ export function createServer(): Server {
   // Register all tools
   registerTools(server);
 
+  // Register all resources
+  registerResources(server);
+
+  // Register all prompts
+  registerPrompts(server);
+
   return server;
 }
 
@@ -70,12 +96,11 @@ function registerTools(server: Server): void {
       return {
         tools: tools.map(tool => ({
           name: tool.name,
+          title: tool.annotations?.title,
           description: tool.description,
-          inputSchema: {
-            type: "object" as const,
-            properties: tool.paramsSchema,
-            required: Object.keys(tool.paramsSchema || {})
-          }
+          inputSchema: tool.getInputSchema(),
+          outputSchema: tool.getOutputSchema(),
+          annotations: tool.annotations
         }))
       };
     });
@@ -122,3 +147,140 @@ function registerTools(server: Server): void {
     throw error;
   }
 }
+
+/**
+ * Registers resource handlers with the MCP server
+ *
+ * Handles listing, reading and subscribing to resources from the
+ * resource template registry. Subscriptions are tracked per server
+ * instance and stopped when the server closes.
+ *
+ * @param server - The MCP server instance to register resources with
+ */
+function registerResources(server: Server): void {
+  const subscriptions = new Map<string, () => void>();
+
+  // Register list resource templates handler
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: resourceTemplates.map(template => ({
+        uriTemplate: template.uriTemplate,
+        name: template.name,
+        description: template.description,
+        mimeType: template.mimeType
+      }))
+    };
+  });
+
+  // Register list resources handler
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const listed = await Promise.all(
+      resourceTemplates.map(template => template.list ? template.list() : Promise.resolve([]))
+    );
+    return { resources: listed.flat() };
+  });
+
+  // Register read resource handler
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const found = findResourceTemplate(uri);
+
+    if (!found) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    console.error(`[Server] Reading resource: ${uri}`);
+    return { contents: await found.template.read(found.variables, uri) };
+  });
+
+  // Register subscribe handler
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const found = findResourceTemplate(uri);
+
+    if (!found) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    if (!subscriptions.has(uri) && found.template.watch) {
+      const stop = found.template.watch(found.variables, uri, () => {
+        server.sendResourceUpdated({ uri }).catch(error => {
+          console.error(`[Server] Failed to notify update for ${uri}:`, error);
+        });
+      });
+      subscriptions.set(uri, stop);
+      console.error(`[Server] Subscribed to resource: ${uri}`);
+    }
+
+    return {};
+  });
+
+  // Register unsubscribe handler
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const stop = subscriptions.get(uri);
+    if (stop) {
+      stop();
+      subscriptions.delete(uri);
+      console.error(`[Server] Unsubscribed from resource: ${uri}`);
+    }
+    return {};
+  });
+
+  // Stop all watchers when the connection closes
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    for (const stop of subscriptions.values()) {
+      stop();
+    }
+    subscriptions.clear();
+    previousOnClose?.();
+  };
+
+  console.error(`[Server] Successfully registered ${resourceTemplates.length} resource templates`);
+}
+
+/**
+ * Registers prompt handlers with the MCP server
+ *
+ * Instantiates every prompt from the prompt factory registry and
+ * registers handlers for listing prompts and rendering a prompt.
+ *
+ * @param server - The MCP server instance to register prompts with
+ */
+function registerPrompts(server: Server): void {
+  const prompts = promptFactories.map(factory => factory());
+
+  // Register list prompts handler
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: prompts.map(prompt => ({
+        name: prompt.name,
+        title: prompt.title,
+        description: prompt.description,
+        arguments: prompt.getArguments()
+      }))
+    };
+  });
+
+  // Register get prompt handler
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const prompt = prompts.find(p => p.name === name);
+
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    console.error(`[Server] Rendering prompt: ${name}`);
+
+    try {
+      return prompt.render(args);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${message}`);
+    }
+  });
+
+  console.error(`[Server] Successfully registered ${prompts.length} prompts`);
+}
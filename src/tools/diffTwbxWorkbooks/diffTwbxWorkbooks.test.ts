@@ -0,0 +1,194 @@
+/**
+ * Tests for diffTwbxWorkbooks tool
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { diffFormulaLines, diffTwbxWorkbooksTool } from "./diffTwbxWorkbooks.js";
+
+/** The parts of the tool output the tests look at */
+interface DiffContent {
+  identical: boolean;
+  summary: Record<string, unknown>;
+  changes: {
+    calculatedFields: {
+      added: { caption: string }[];
+      removed: { caption: string }[];
+      modified: { key: string; name: string; changes: { property: string }[]; formulaDiff?: string[] }[];
+    };
+    filters: unknown;
+    encodings: unknown;
+  };
+}
+
+interface WorkbookParts {
+  columns: string;
+  worksheet: string;
+}
+
+/** Build a one-datasource, one-worksheet workbook */
+function buildTwb({ columns, worksheet }: WorkbookParts): string {
+  return `<?xml version='1.0' encoding='utf-8' ?>
+<workbook source-build='2024.1.0' version='18.1'>
+  <datasources>
+    <datasource caption='Superstore' name='federated.1'>
+      <column datatype='real' name='[Sales]' role='measure' type='quantitative' />
+      ${columns}
+    </datasource>
+  </datasources>
+  <worksheets>
+    <worksheet name='Sales by Region'>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Superstore' name='federated.1' />
+          </datasources>
+          ${worksheet}
+        </view>
+        <panes><pane><mark class='Bar' /></pane></panes>
+        <rows>[federated.1].[none:Region:nk]</rows>
+        <cols>[federated.1].[sum:Sales:qk]</cols>
+      </table>
+    </worksheet>
+  </worksheets>
+</workbook>`;
+}
+
+const BASE: WorkbookParts = {
+  columns: `
+      <column caption='Profit Ratio' datatype='real' name='[Calculation_1]' role='measure' type='quantitative'>
+        <calculation class='tableau' formula='SUM([Profit])&#13;&#10;/ SUM([Sales])' />
+      </column>
+      <column caption='Big Order' datatype='boolean' name='[Calculation_2]' role='dimension' type='nominal'>
+        <calculation class='tableau' formula='[Sales] &gt; 1000' />
+      </column>
+      <column caption='Old Calc' datatype='integer' name='[Calculation_3]' role='measure' type='quantitative'>
+        <calculation class='tableau' formula='1' />
+      </column>`,
+  worksheet: `
+          <filter class='categorical' column='[federated.1].[none:Region:nk]' />
+          <encodings>
+            <color column='[federated.1].[none:Region:nk]' />
+            <tooltip column='[federated.1].[sum:Sales:qk]' />
+          </encodings>`
+};
+
+const COMPARE: WorkbookParts = {
+  columns: `
+      <column caption='Profit Ratio' datatype='real' name='[Calculation_1]' role='measure' type='quantitative'>
+        <calculation class='tableau' formula='SUM([Profit])&#13;&#10;/ NULLIF(SUM([Sales]), 0)' />
+      </column>
+      <column caption='Large Order' datatype='boolean' name='[Calculation_2]' role='dimension' type='nominal'>
+        <calculation class='tableau' formula='[Sales] &gt; 1000' />
+      </column>
+      <column caption='New Calc' datatype='integer' name='[Calculation_4]' role='measure' type='quantitative'>
+        <calculation class='tableau' formula='2' />
+      </column>`,
+  worksheet: `
+          <filter class='categorical' column='[federated.1].[none:Segment:nk]' />
+          <encodings>
+            <color column='[federated.1].[none:Segment:nk]' />
+            <tooltip column='[federated.1].[sum:Sales:qk]' />
+            <tooltip column='[federated.1].[sum:Profit:qk]' />
+          </encodings>`
+};
+
+describe("diffFormulaLines", () => {
+  it("should mark unchanged, removed and added lines", () => {
+    expect(diffFormulaLines("IF [A] THEN\n  1\nELSE\n  0\nEND", "IF [A] THEN\n  2\nELSE\n  0\nEND")).toEqual([
+      "  IF [A] THEN",
+      "-   1",
+      "+   2",
+      "  ELSE",
+      "    0",
+      "  END"
+    ]);
+  });
+
+  it("should keep the longest common run of lines", () => {
+    expect(diffFormulaLines("a\nb\nc", "b\nc\nd")).toEqual(["- a", "  b", "  c", "+ d"]);
+    expect(diffFormulaLines("x", "x")).toEqual(["  x"]);
+  });
+});
+
+describe("diffTwbxWorkbooks", () => {
+  let server: Server;
+  let tool: ReturnType<typeof diffTwbxWorkbooksTool>;
+  let tempDir: string;
+  let basePath: string;
+  let comparePath: string;
+
+  beforeAll(async () => {
+    server = new Server(
+      { name: "test-server", version: "1.0.0" },
+      { capabilities: { tools: {} } }
+    );
+    tool = diffTwbxWorkbooksTool(server);
+
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "diff-twbx-"));
+    basePath = path.join(tempDir, "Base.twb");
+    comparePath = path.join(tempDir, "Compare.twb");
+    await fs.writeFile(basePath, buildTwb(BASE));
+    await fs.writeFile(comparePath, buildTwb(COMPARE));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should have correct metadata", () => {
+    expect(tool.name).toBe("diff_twbx_workbooks");
+    expect(tool.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it("should report added, removed and modified calculated fields", async () => {
+    const value = (await tool.callback({ baseTwbFilePath: basePath, compareTwbFilePath: comparePath })).unwrap();
+    expect(value.isError).toBe(false);
+    const { changes, summary, identical } = value.structuredContent as unknown as DiffContent;
+
+    expect(identical).toBe(false);
+    expect(summary.calculatedFields).toEqual({ added: 1, removed: 1, modified: 2 });
+    expect(changes.calculatedFields.added.map(f => f.caption)).toEqual(["New Calc"]);
+    expect(changes.calculatedFields.removed.map(f => f.caption)).toEqual(["Old Calc"]);
+
+    const [formulaChange, captionChange] = changes.calculatedFields.modified;
+    expect(formulaChange).toMatchObject({ key: "federated.1/Calculation_1", name: "Profit Ratio" });
+    expect(formulaChange.changes.map(c => c.property)).toEqual(["formula"]);
+    expect(formulaChange.formulaDiff).toEqual([
+      "  SUM([Profit])",
+      "- / SUM([Sales])",
+      "+ / NULLIF(SUM([Sales]), 0)"
+    ]);
+
+    // Renaming only the caption is a modification, with no formula diff
+    expect(captionChange).toMatchObject({
+      key: "federated.1/Calculation_2",
+      name: "Large Order",
+      changes: [{ property: "caption", before: "Big Order", after: "Large Order" }]
+    });
+    expect(captionChange.formulaDiff).toBeUndefined();
+  });
+
+  it("should report worksheet filter and encoding changes", async () => {
+    const value = (await tool.callback({ baseTwbFilePath: basePath, compareTwbFilePath: comparePath })).unwrap();
+    const { changes } = value.structuredContent as unknown as DiffContent;
+
+    expect(changes.filters).toEqual({
+      added: [{ worksheet: "Sales by Region", field: "none:Segment:nk" }],
+      removed: [{ worksheet: "Sales by Region", field: "none:Region:nk" }]
+    });
+    expect(changes.encodings).toEqual([
+      { worksheet: "Sales by Region", channel: "color", before: "Region", after: "Segment" },
+      { worksheet: "Sales by Region", channel: "tooltip", before: ["Sales"], after: ["Sales", "Profit"] }
+    ]);
+  });
+
+  it("should report identical workbooks", async () => {
+    const value = (await tool.callback({ baseTwbFilePath: basePath, compareTwbFilePath: basePath })).unwrap();
+
+    expect(value.structuredContent).toMatchObject({ identical: true, summary: { totalChanges: 0 } });
+  });
+});
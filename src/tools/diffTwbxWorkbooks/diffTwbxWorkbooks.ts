@@ -0,0 +1,640 @@
+/**
+ * Diff TWBX Workbooks Tool
+ *
+ * Compares two Tableau workbooks (.twb files) - two versions of the same
+ * workbook, or a remix and its original - and reports what changed as a
+ * structured change set.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import {
+  parseTwbContent,
+  ensureArray,
+  extractWorkbookMetadata,
+  parseEncodings,
+  EncodingInfo,
+  WorkbookMetadata
+} from "../../utils/twbParser.js";
+import {
+  parseDataSources,
+  parseWorksheets,
+  parseDashboards,
+  dataSourceOutputSchema,
+  worksheetOutputSchema,
+  dashboardOutputSchema,
+  parameterOutputSchema,
+  DataSourceOutput,
+  WorksheetOutput,
+  DashboardOutput,
+  ParameterOutput
+} from "../getTwbxWorkbookStructure/getTwbxWorkbookStructure.js";
+import { parseColumns, CalculatedField } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+
+/**
+ * Parameter schema for diffTwbxWorkbooks tool
+ */
+const paramsSchema = z.object({
+  baseTwbFilePath: z.string()
+    .min(1, "Base TWB file path cannot be empty")
+    .describe("Full path to the original/older .twb file (from unpack_twbx extraction)"),
+  compareTwbFilePath: z.string()
+    .min(1, "Compare TWB file path cannot be empty")
+    .describe("Full path to the remix/newer .twb file to compare against the base")
+});
+
+type DiffTwbxWorkbooksParams = z.infer<typeof paramsSchema>;
+
+/**
+ * A single property that differs between the two workbooks
+ */
+const propertyChangeSchema = z.object({
+  property: z.string(),
+  before: z.unknown(),
+  after: z.unknown()
+});
+
+type PropertyChange = z.infer<typeof propertyChangeSchema>;
+
+/**
+ * An item present in both workbooks with different properties
+ */
+const modifiedItemSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  changes: z.array(propertyChangeSchema),
+  formulaDiff: z.array(z.string()).optional()
+});
+
+type ModifiedItem = z.infer<typeof modifiedItemSchema>;
+
+/**
+ * Calculated field as compared by the diff
+ */
+const calculatedFieldSchema = z.object({
+  name: z.string(),
+  caption: z.string(),
+  formula: z.string(),
+  datatype: z.string(),
+  role: z.string(),
+  type: z.string(),
+  hidden: z.boolean(),
+  datasource: z.string(),
+  dependencies: z.array(z.string()),
+  parseError: z.object({
+    message: z.string(),
+    line: z.number(),
+    column: z.number(),
+    offset: z.number()
+  }).optional()
+});
+
+/**
+ * Added, removed and modified items of one kind
+ */
+function collectionDiffSchema<T extends z.ZodTypeAny>(itemSchema: T) {
+  return z.object({
+    added: z.array(itemSchema),
+    removed: z.array(itemSchema),
+    modified: z.array(modifiedItemSchema)
+  });
+}
+
+interface CollectionDiff<T> {
+  added: T[];
+  removed: T[];
+  modified: ModifiedItem[];
+}
+
+/**
+ * Filter added to or removed from a worksheet
+ */
+const filterChangeSchema = z.object({
+  worksheet: z.string(),
+  field: z.string()
+});
+
+type FilterChange = z.infer<typeof filterChangeSchema>;
+
+/**
+ * Mark encoding that changed on a worksheet
+ */
+const encodingChangeSchema = z.object({
+  worksheet: z.string(),
+  channel: z.string(),
+  before: z.union([z.string(), z.array(z.string())]).nullable(),
+  after: z.union([z.string(), z.array(z.string())]).nullable()
+});
+
+type EncodingChange = z.infer<typeof encodingChangeSchema>;
+
+/**
+ * Change counts for one category
+ */
+const categoryCountsSchema = z.object({
+  added: z.number(),
+  removed: z.number(),
+  modified: z.number()
+});
+
+/**
+ * Structured output schema for diffTwbxWorkbooks tool
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  baseFile: z.string(),
+  compareFile: z.string(),
+  identical: z.boolean(),
+  metadata: z.object({
+    base: z.object({ version: z.string(), build: z.string() }),
+    compare: z.object({ version: z.string(), build: z.string() })
+  }),
+  summary: z.object({
+    totalChanges: z.number(),
+    calculatedFields: categoryCountsSchema,
+    worksheets: categoryCountsSchema,
+    dashboards: categoryCountsSchema,
+    parameters: categoryCountsSchema,
+    dataSources: categoryCountsSchema,
+    filters: categoryCountsSchema,
+    encodings: categoryCountsSchema
+  }),
+  changes: z.object({
+    calculatedFields: collectionDiffSchema(calculatedFieldSchema),
+    worksheets: collectionDiffSchema(worksheetOutputSchema),
+    dashboards: collectionDiffSchema(dashboardOutputSchema),
+    parameters: collectionDiffSchema(parameterOutputSchema),
+    dataSources: collectionDiffSchema(dataSourceOutputSchema),
+    filters: z.object({
+      added: z.array(filterChangeSchema),
+      removed: z.array(filterChangeSchema)
+    }),
+    encodings: z.array(encodingChangeSchema)
+  })
+});
+
+/**
+ * Everything the diff compares, extracted from one workbook
+ */
+interface WorkbookSnapshot {
+  metadata: WorkbookMetadata;
+  calculatedFields: CalculatedField[];
+  dataSources: DataSourceOutput[];
+  parameters: ParameterOutput[];
+  worksheets: WorksheetOutput[];
+  dashboards: DashboardOutput[];
+  encodings: Map<string, EncodingInfo>;
+}
+
+/** Encoding channels holding a single field */
+const SINGLE_FIELD_CHANNELS = ["color", "size", "shape", "text"] as const;
+
+/** Encoding channels holding a list of fields */
+const MULTI_FIELD_CHANNELS = ["detail", "tooltip"] as const;
+
+/**
+ * Read, parse and validate a TWB file
+ *
+ * @returns The workbook element, or an error result to return to the client
+ */
+async function loadWorkbook(
+  twbFilePath: string,
+  label: string
+): Promise<{ workbook: Record<string, unknown> } | { error: Ok<CallToolResult> }> {
+  const exists = await fileExists(twbFilePath);
+  if (!exists) {
+    return {
+      error: createErrorResult(
+        `${label} TWB file not found`,
+        {
+          twbFilePath,
+          suggestion: "Use unpack_twbx first to extract each workbook, then use the mainTwbPath from the result"
+        }
+      )
+    };
+  }
+
+  const ext = path.extname(twbFilePath).toLowerCase();
+  if (ext !== ".twb") {
+    return {
+      error: createErrorResult(
+        "Invalid file type",
+        {
+          twbFilePath,
+          expected: ".twb",
+          received: ext || "(no extension)",
+          suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+        }
+      )
+    };
+  }
+
+  const twbContent = await fs.readFile(twbFilePath, "utf-8");
+  const parseResult = parseTwbContent(twbContent);
+
+  if (!parseResult.success) {
+    return {
+      error: createErrorResult(
+        `Failed to parse ${label.toLowerCase()} TWB XML`,
+        {
+          twbFilePath,
+          error: parseResult.error,
+          filePreview: parseResult.preview
+        }
+      )
+    };
+  }
+
+  const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+  if (!workbook) {
+    return {
+      error: createErrorResult(
+        "Invalid TWB file structure",
+        {
+          twbFilePath,
+          suggestion: "The file may be corrupted or not a valid Tableau workbook"
+        }
+      )
+    };
+  }
+
+  return { workbook };
+}
+
+/**
+ * Extract everything the diff compares from a parsed workbook
+ */
+function takeSnapshot(workbook: Record<string, unknown>): WorkbookSnapshot {
+  const datasources = (workbook.datasources as Record<string, unknown> | undefined)?.datasource;
+  const worksheetElements = (workbook.worksheets as Record<string, unknown> | undefined)?.worksheet;
+  const dashboardElements = (workbook.dashboards as Record<string, unknown> | undefined)?.dashboard;
+
+  const { dataSources, parameters } = parseDataSources(datasources);
+
+  const calculatedFields: CalculatedField[] = [];
+  for (const ds of ensureArray(datasources)) {
+    if (!ds || typeof ds !== "object") continue;
+    const dsObj = ds as Record<string, unknown>;
+    const dsName = (dsObj["@_name"] as string) || (dsObj["@_caption"] as string) || "Unknown";
+    if (dsName === "Parameters") continue;
+    calculatedFields.push(...parseColumns(dsObj["column"], dsName, true).calculatedFields);
+  }
+
+  // Full encodings per worksheet (the structure output only keeps color, size and detail)
+  const encodings = new Map<string, EncodingInfo>();
+  for (const ws of ensureArray(worksheetElements)) {
+    if (!ws || typeof ws !== "object") continue;
+    const wsObj = ws as Record<string, unknown>;
+    const table = wsObj["table"] as Record<string, unknown> | undefined;
+    const view = table?.["view"] as Record<string, unknown> | undefined;
+    encodings.set((wsObj["@_name"] as string) || "", parseEncodings(view?.["encodings"]));
+  }
+
+  return {
+    metadata: extractWorkbookMetadata(workbook),
+    calculatedFields,
+    dataSources,
+    parameters,
+    worksheets: parseWorksheets(worksheetElements, true),
+    dashboards: parseDashboards(dashboardElements),
+    encodings
+  };
+}
+
+/**
+ * Compare the listed properties of two versions of an item
+ */
+function compareProperties<T>(before: T, after: T, properties: Array<keyof T>): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  for (const property of properties) {
+    if (JSON.stringify(before[property]) !== JSON.stringify(after[property])) {
+      changes.push({ property: String(property), before: before[property], after: after[property] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Match items by key and report added, removed and modified items
+ */
+function diffCollection<T>(
+  base: T[],
+  compare: T[],
+  keyOf: (item: T) => string,
+  nameOf: (item: T) => string,
+  properties: Array<keyof T>
+): CollectionDiff<T> {
+  const baseByKey = new Map(base.map(item => [keyOf(item), item]));
+  const compareByKey = new Map(compare.map(item => [keyOf(item), item]));
+
+  const result: CollectionDiff<T> = { added: [], removed: [], modified: [] };
+
+  for (const [key, item] of compareByKey) {
+    const before = baseByKey.get(key);
+    if (!before) {
+      result.added.push(item);
+      continue;
+    }
+    const changes = compareProperties(before, item, properties);
+    if (changes.length > 0) {
+      result.modified.push({ key, name: nameOf(item), changes });
+    }
+  }
+
+  for (const [key, item] of baseByKey) {
+    if (!compareByKey.has(key)) {
+      result.removed.push(item);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Line-by-line diff of two formulas
+ *
+ * Uses the longest common subsequence of lines. Unchanged lines are
+ * prefixed with "  ", removed lines with "- " and added lines with "+ ".
+ */
+export function diffFormulaLines(before: string, after: string): string[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`- ${a[i++]}`);
+  while (j < b.length) lines.push(`+ ${b[j++]}`);
+
+  return lines;
+}
+
+/**
+ * Diff calculated fields, attaching a formula diff to changed formulas
+ *
+ * Fields are matched by data source and internal name, so a renamed
+ * caption shows up as a modification rather than a remove and add.
+ */
+function diffCalculatedFields(base: CalculatedField[], compare: CalculatedField[]): CollectionDiff<CalculatedField> {
+  const keyOf = (field: CalculatedField) => `${field.datasource}/${field.name}`;
+  const diff = diffCollection(
+    base,
+    compare,
+    keyOf,
+    field => field.caption || field.name,
+    ["caption", "formula", "datatype", "role", "type", "hidden"]
+  );
+
+  const baseByKey = new Map(base.map(field => [keyOf(field), field]));
+  const compareByKey = new Map(compare.map(field => [keyOf(field), field]));
+  for (const item of diff.modified) {
+    const before = baseByKey.get(item.key);
+    const after = compareByKey.get(item.key);
+    if (before && after && before.formula !== after.formula) {
+      item.formulaDiff = diffFormulaLines(before.formula, after.formula);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Diff filters and mark encodings of worksheets present in both workbooks
+ */
+function diffWorksheetDetails(base: WorkbookSnapshot, compare: WorkbookSnapshot): {
+  filters: { added: FilterChange[]; removed: FilterChange[] };
+  encodings: EncodingChange[];
+} {
+  const filters = { added: [] as FilterChange[], removed: [] as FilterChange[] };
+  const encodings: EncodingChange[] = [];
+  const baseWorksheets = new Map(base.worksheets.map(ws => [ws.name, ws]));
+
+  for (const after of compare.worksheets) {
+    const before = baseWorksheets.get(after.name);
+    if (!before) continue;
+
+    for (const field of after.filtersApplied) {
+      if (!before.filtersApplied.includes(field)) {
+        filters.added.push({ worksheet: after.name, field });
+      }
+    }
+    for (const field of before.filtersApplied) {
+      if (!after.filtersApplied.includes(field)) {
+        filters.removed.push({ worksheet: after.name, field });
+      }
+    }
+
+    const beforeEncodings = base.encodings.get(after.name);
+    const afterEncodings = compare.encodings.get(after.name);
+    if (!beforeEncodings || !afterEncodings) continue;
+
+    for (const channel of SINGLE_FIELD_CHANNELS) {
+      if (beforeEncodings[channel] !== afterEncodings[channel]) {
+        encodings.push({
+          worksheet: after.name,
+          channel,
+          before: beforeEncodings[channel],
+          after: afterEncodings[channel]
+        });
+      }
+    }
+    for (const channel of MULTI_FIELD_CHANNELS) {
+      const beforeFields = [...beforeEncodings[channel]].sort();
+      const afterFields = [...afterEncodings[channel]].sort();
+      if (JSON.stringify(beforeFields) !== JSON.stringify(afterFields)) {
+        encodings.push({
+          worksheet: after.name,
+          channel,
+          before: beforeEncodings[channel],
+          after: afterEncodings[channel]
+        });
+      }
+    }
+  }
+
+  return { filters, encodings };
+}
+
+/**
+ * Count added, removed and modified items in a collection diff
+ */
+function countChanges(diff: { added: unknown[]; removed: unknown[]; modified?: unknown[] }): {
+  added: number;
+  removed: number;
+  modified: number;
+} {
+  return {
+    added: diff.added.length,
+    removed: diff.removed.length,
+    modified: diff.modified?.length ?? 0
+  };
+}
+
+/**
+ * Factory function to create the diffTwbxWorkbooks tool
+ *
+ * This tool compares two workbooks and reports:
+ * 1. Calculated fields added, removed or modified (with line diffs of formulas)
+ * 2. Worksheets, dashboards, parameters and data sources added, removed or modified
+ * 3. Filters added to or removed from worksheets
+ * 4. Mark encodings (color, size, shape, text, detail, tooltip) that changed
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ *
+ * @example
+ * ```typescript
+ * // Request
+ * {
+ *   "baseTwbFilePath": "/tmp/tableau-public-mcp/extracted/Original_123/Original.twb",
+ *   "compareTwbFilePath": "/tmp/tableau-public-mcp/extracted/Remix_456/Remix.twb"
+ * }
+ *
+ * // Response includes a summary of counts and the full change set
+ * ```
+ */
+export function diffTwbxWorkbooksTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "diff_twbx_workbooks",
+    description: "Compares two Tableau workbooks (.twb files), such as two versions of a workbook or a remix and its original. " +
+      "Returns a structured change set: calculated fields added, removed or modified (with formula line diffs), " +
+      "worksheets, dashboards, parameters and data sources added, removed or modified, " +
+      "filters added or removed per worksheet, and changed mark encodings (color, size, shape, text, detail, tooltip). " +
+      "Use with the mainTwbPath of each workbook from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Diff TWBX Workbooks",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: DiffTwbxWorkbooksParams): Promise<Ok<CallToolResult>> => {
+      const { baseTwbFilePath, compareTwbFilePath } = args;
+
+      try {
+        console.error(`[diff_twbx_workbooks] Comparing ${baseTwbFilePath} -> ${compareTwbFilePath}`);
+
+        const baseLoad = await loadWorkbook(baseTwbFilePath, "Base");
+        if ("error" in baseLoad) return baseLoad.error;
+
+        const compareLoad = await loadWorkbook(compareTwbFilePath, "Compare");
+        if ("error" in compareLoad) return compareLoad.error;
+
+        const base = takeSnapshot(baseLoad.workbook);
+        const compare = takeSnapshot(compareLoad.workbook);
+
+        const calculatedFields = diffCalculatedFields(base.calculatedFields, compare.calculatedFields);
+
+        const worksheets = diffCollection(
+          base.worksheets,
+          compare.worksheets,
+          ws => ws.name,
+          ws => ws.name,
+          ["chartType", "dataSource", "rowShelf", "colShelf"]
+        );
+
+        const dashboards = diffCollection(
+          base.dashboards,
+          compare.dashboards,
+          db => db.name,
+          db => db.name,
+          ["size", "worksheetsIncluded", "textElementCount", "imageCount", "filterCount"]
+        );
+
+        const parameters = diffCollection(
+          base.parameters,
+          compare.parameters,
+          p => p.name,
+          p => p.name,
+          ["datatype", "domainType", "currentValue"]
+        );
+
+        const dataSources = diffCollection(
+          base.dataSources,
+          compare.dataSources,
+          ds => ds.name,
+          ds => ds.caption,
+          ["caption", "connectionType", "tables", "hasCustomSql", "joinCount", "fieldCount"]
+        );
+
+        const { filters, encodings } = diffWorksheetDetails(base, compare);
+
+        const summary = {
+          calculatedFields: countChanges(calculatedFields),
+          worksheets: countChanges(worksheets),
+          dashboards: countChanges(dashboards),
+          parameters: countChanges(parameters),
+          dataSources: countChanges(dataSources),
+          filters: countChanges(filters),
+          encodings: { added: 0, removed: 0, modified: encodings.length }
+        };
+
+        const totalChanges = Object.values(summary)
+          .reduce((sum, counts) => sum + counts.added + counts.removed + counts.modified, 0);
+
+        const result = {
+          success: true,
+          baseFile: baseTwbFilePath,
+          compareFile: compareTwbFilePath,
+          identical: totalChanges === 0,
+          metadata: {
+            base: { version: base.metadata.version, build: base.metadata.sourceBuild },
+            compare: { version: compare.metadata.version, build: compare.metadata.sourceBuild }
+          },
+          summary: { totalChanges, ...summary },
+          changes: {
+            calculatedFields,
+            worksheets,
+            dashboards,
+            parameters,
+            dataSources,
+            filters,
+            encodings
+          }
+        };
+
+        console.error(`[diff_twbx_workbooks] Found ${totalChanges} changes`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error comparing TWB files",
+          {
+            baseTwbFilePath,
+            compareTwbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
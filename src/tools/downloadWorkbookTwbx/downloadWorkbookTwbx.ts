@@ -40,6 +40,25 @@ const paramsSchema = z.object({
 
 type DownloadWorkbookTwbxParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Structured output schema for downloadWorkbookTwbx tool
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  filePath: z.string(),
+  workbookName: z.string(),
+  fileSize: z.number(),
+  fileSizeFormatted: z.string(),
+  downloadedAt: z.string(),
+  metadata: z.object({
+    title: z.string(),
+    authorDisplayName: z.string(),
+    viewCount: z.number(),
+    defaultViewRepoUrl: z.string().optional()
+  }),
+  nextStep: z.string()
+});
+
 /**
  * Factory function to create the downloadWorkbookTwbx tool
  *
@@ -72,8 +91,13 @@ export function downloadWorkbookTwbxTool(server: Server): Tool<typeof paramsSche
       "Returns the file path where the .twbx is saved. " +
       "Use the unpack_twbx tool to extract and analyze the contents.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Download Workbook TWBX"
+      title: "Download Workbook TWBX",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: DownloadWorkbookTwbxParams): Promise<Ok<CallToolResult>> => {
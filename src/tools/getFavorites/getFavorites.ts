@@ -9,6 +9,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { Tool } from "../tool.js";
+import { apiListOutputSchema } from "../outputSchemas.js";
 import { cachedGet } from "../../utils/cachedApiClient.js";
 import { createSuccessResult, handleApiError } from "../../utils/errorHandling.js";
 import { constructDirectUrl } from "../../utils/urlBuilder.js";
@@ -56,8 +57,11 @@ export function getFavoritesTool(server: Server): Tool<typeof paramsSchema.shape
       "Useful for understanding user preferences and discovering quality visualizations " +
       "curated by the community.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: apiListOutputSchema.shape,
     annotations: {
-      title: "Get Favorites"
+      title: "Get Favorites",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetFavoritesParams): Promise<Ok<CallToolResult>> => {
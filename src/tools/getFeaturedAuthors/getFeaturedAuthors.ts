@@ -9,6 +9,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { Tool } from "../tool.js";
+import { apiObjectOutputSchema } from "../outputSchemas.js";
 import { cachedGet } from "../../utils/cachedApiClient.js";
 import { createSuccessResult, handleApiError } from "../../utils/errorHandling.js";
 
@@ -90,8 +91,11 @@ export function getFeaturedAuthorsTool(server: Server): Tool<typeof paramsSchema
       "Useful for discovering influential creators, learning from top community members, " +
       "and finding quality content sources.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: apiObjectOutputSchema.shape,
     annotations: {
-      title: "Get Featured Authors"
+      title: "Get Featured Authors",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetFeaturedAuthorsParams): Promise<Ok<CallToolResult>> => {
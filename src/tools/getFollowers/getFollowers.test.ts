@@ -53,6 +53,17 @@ describe("getFollowers", () => {
     );
   });
 
+  it("should return followers as structured content items", async () => {
+    const mockFollowers = [{ username: "follower1" }];
+
+    vi.mocked(cachedGet).mockResolvedValueOnce(mockFollowers);
+
+    const result = await tool.callback({ username: "testuser" });
+
+    expect(result.unwrap().structuredContent).toEqual({ items: mockFollowers });
+    expect(tool.getOutputSchema()?.required).toEqual(["items"]);
+  });
+
   it("should support pagination", async () => {
     vi.mocked(cachedGet).mockResolvedValueOnce([]);
 
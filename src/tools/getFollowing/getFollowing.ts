@@ -9,6 +9,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { Tool } from "../tool.js";
+import { apiListOutputSchema } from "../outputSchemas.js";
 import { cachedGet } from "../../utils/cachedApiClient.js";
 import { createSuccessResult, handleApiError } from "../../utils/errorHandling.js";
 
@@ -72,8 +73,11 @@ export function getFollowingTool(server: Server): Tool<typeof paramsSchema.shape
       "The index parameter increments by count for pagination (e.g., 0, 24, 48). " +
       "Useful for understanding user interests and discovering related content creators.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: apiListOutputSchema.shape,
     annotations: {
-      title: "Get Following"
+      title: "Get Following",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetFollowingParams): Promise<Ok<CallToolResult>> => {
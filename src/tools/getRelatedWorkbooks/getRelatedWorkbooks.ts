@@ -9,6 +9,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { Tool } from "../tool.js";
+import { apiListOutputSchema } from "../outputSchemas.js";
 import { cachedGet } from "../../utils/cachedApiClient.js";
 import { createSuccessResult, handleApiError } from "../../utils/errorHandling.js";
 import { constructDirectUrl } from "../../utils/urlBuilder.js";
@@ -64,8 +65,11 @@ export function getRelatedWorkbooksTool(server: Server): Tool<typeof paramsSchem
       "Requires the workbook name only (e.g., 'RunningforOlympicGold'), not the full path with username. " +
       "Useful for content discovery and finding similar visualizations.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: apiListOutputSchema.shape,
     annotations: {
-      title: "Get Related Workbooks"
+      title: "Get Related Workbooks",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetRelatedWorkbooksParams): Promise<Ok<CallToolResult>> => {
@@ -0,0 +1,166 @@
+/**
+ * Tests for workbook actions and interaction graphs
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseTwbContent, parseActions, ensureArray } from "../../utils/twbParser.js";
+import { parseParameters } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import { buildInteractionGraph, findDashboardSheets, resolveActions } from "./actionGraph.js";
+import { toDot, toMermaid } from "./diagram.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <actions>
+    <action caption='Filter by Region' name='[Action1]'>
+      <activation auto-clear='true' type='on-select' />
+      <source dashboard='Overview' type='sheet' worksheet='Map' />
+      <command command='tsc:tsl-filter'>
+        <param name='exclude' value='Detail' />
+        <param name='field-captions' value='Region' />
+        <param name='target' value='Overview' />
+      </command>
+    </action>
+    <action caption='Highlight Segment' name='[Action2]'>
+      <activation type='on-hover' />
+      <source dashboard='Overview' type='sheet' />
+      <command command='tsc:brush'>
+        <param name='special-fields' value='all' />
+        <param name='target' value='Overview' />
+      </command>
+    </action>
+    <action caption='Pick Year' name='[Action3]'>
+      <activation auto-clear='false' type='on-select' />
+      <source dashboard='Overview' type='sheet' worksheet='Trend' />
+      <command command='tsc:change-parameter'>
+        <param name='source-field' value='[federated.1].[yr:Order Date:ok]' />
+        <param name='target-parameter' value='[Parameters].[Parameter 1]' />
+      </command>
+    </action>
+    <action caption='Search' name='[Action4]'>
+      <activation type='on-menu' />
+      <source dashboard='Overview' type='sheet' worksheet='Detail' />
+      <link expression='https://www.google.com/search?q=&lt;Product Name&gt;' />
+    </action>
+    <action caption='Highlight Except Detail' name='[Action5]'>
+      <activation type='on-select' />
+      <source dashboard='Overview' type='sheet'>
+        <exclude-sheet name='Detail' />
+      </source>
+      <command command='tsc:brush'>
+        <param name='special-fields' value='all' />
+        <param name='target' value='Overview' />
+      </command>
+    </action>
+  </actions>
+  <datasources>
+    <datasource hasconnection='false' inline='true' name='Parameters'>
+      <column caption='Selected Year' datatype='integer' name='[Parameter 1]' role='measure' type='quantitative' value='2024' />
+    </datasource>
+  </datasources>
+  <dashboards>
+    <dashboard name='Overview'>
+      <size maxheight='800' maxwidth='1200' minheight='800' minwidth='1200' />
+      <zones>
+        <zone h='100000' id='1' type-v2='layout-basic' w='100000' x='0' y='0'>
+          <zone h='50000' id='2' name='Map' w='50000' x='0' y='0' />
+          <zone h='50000' id='3' name='Trend' w='50000' x='50000' y='0' />
+          <zone h='50000' id='4' name='Detail' w='100000' x='0' y='50000' />
+        </zone>
+      </zones>
+    </dashboard>
+  </dashboards>
+</workbook>`;
+
+function parseGraph() {
+  const result = parseTwbContent(TWB);
+  if (!result.success) throw new Error(result.error);
+  const workbook = (result.data as { workbook: Record<string, unknown> }).workbook;
+  const dashboardSheets = findDashboardSheets(workbook);
+  const parameterSource = ensureArray((workbook.datasources as { datasource: Record<string, unknown> }).datasource)[0];
+  const actions = resolveActions(parseActions(workbook), dashboardSheets, parseParameters(parameterSource.column));
+  return { actions, graph: buildInteractionGraph(actions, dashboardSheets) };
+}
+
+describe("resolveActions", () => {
+  it("should resolve dashboard sources and targets to their sheets", () => {
+    const { actions } = parseGraph();
+
+    expect(actions[0]).toMatchObject({
+      actionType: "filter",
+      trigger: "select",
+      sourceSheets: ["Map"],
+      targetDashboard: "Overview",
+      targetSheets: ["Map", "Trend"],
+      excludedSheets: ["Detail"],
+      allFields: false,
+      fieldMappings: [{ source: "Region", target: "Region" }],
+      clearBehavior: "show-all-values"
+    });
+    // No source worksheet means every sheet on the dashboard
+    expect(actions[1]).toMatchObject({
+      actionType: "highlight",
+      trigger: "hover",
+      sourceSheets: ["Map", "Trend", "Detail"],
+      allFields: true,
+      clearBehavior: null
+    });
+    // Sheets excluded from the source don't run the action
+    expect(actions[4]).toMatchObject({
+      actionType: "highlight",
+      sourceSheets: ["Map", "Trend"],
+      targetSheets: ["Map", "Trend", "Detail"]
+    });
+  });
+
+  it("should read parameter and URL targets", () => {
+    const { actions } = parseGraph();
+
+    expect(actions[2]).toMatchObject({
+      actionType: "parameter",
+      target: "Selected Year",
+      fieldMappings: [{ source: "Order Date", target: "Parameter 1" }],
+      clearBehavior: "keep"
+    });
+    expect(actions[3]).toMatchObject({
+      actionType: "url",
+      trigger: "menu",
+      target: "https://www.google.com/search?q=<Product Name>",
+      targetSheets: []
+    });
+  });
+});
+
+describe("buildInteractionGraph", () => {
+  it("should link source sheets to what their actions change", () => {
+    const { graph } = parseGraph();
+
+    expect(graph.nodes.map(n => [n.id, n.kind, n.label])).toEqual([
+      ["ws0", "worksheet", "Map"],
+      ["ws1", "worksheet", "Trend"],
+      ["ws2", "worksheet", "Detail"],
+      ["param0", "parameter", "Selected Year"],
+      ["url0", "url", "https://www.google.com/search?q=<Product Name>"]
+    ]);
+    expect(graph.edges.map(e => `${e.from}->${e.to} ${e.actionType}/${e.trigger}`)).toEqual([
+      "ws0->ws1 filter/select",
+      "ws0->ws1 highlight/hover",
+      "ws0->ws2 highlight/hover",
+      "ws1->ws0 highlight/hover",
+      "ws1->ws2 highlight/hover",
+      "ws2->ws0 highlight/hover",
+      "ws2->ws1 highlight/hover",
+      "ws1->param0 parameter/select",
+      "ws2->url0 url/menu",
+      "ws0->ws1 highlight/select",
+      "ws0->ws2 highlight/select",
+      "ws1->ws0 highlight/select",
+      "ws1->ws2 highlight/select"
+    ]);
+
+    const mermaid = toMermaid(graph);
+    expect(mermaid).toContain("  param0{{\"Selected Year\"}}");
+    expect(mermaid).toContain("  ws0 -.->|\"highlight: Highlight Segment\"| ws1");
+    expect(mermaid).toContain("  url0[/\"https://www.google.com/search?q=#lt;Product Name#gt;\"/]");
+    expect(toDot(graph)).toContain("  ws2 -> url0 [label=\"url: Search\", style=bold];");
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Workbook Action Graph
+ *
+ * Resolves the workbook's actions against its dashboards: an action run
+ * from a dashboard names that dashboard and optionally its source sheets
+ * (otherwise it runs from every sheet on it but those it excludes),
+ * and a filter or highlight action targeting a dashboard changes every
+ * sheet on it except those excluded. The resolved actions are joined into
+ * a graph from source sheets to the sheets, parameters, sets, URLs and
+ * dashboards they act on.
+ */
+
+import { ensureArray, decodeHtmlEntities, extractFieldName, ParsedAction } from "../../utils/twbParser.js";
+import { Parameter } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import { parseLayoutSize, parseZones } from "../getTwbxDashboardLayout/zoneTree.js";
+import { Action, GraphEdge, GraphNode, InteractionGraph } from "./types.js";
+
+/** Triggers by activation type */
+const TRIGGERS: Record<string, Action["trigger"]> = {
+  "on-select": "select",
+  "on-hover": "hover",
+  "on-menu": "menu"
+};
+
+/** Node id prefixes by node kind */
+const NODE_PREFIXES: Record<GraphNode["kind"], string> = {
+  worksheet: "ws",
+  dashboard: "db",
+  parameter: "param",
+  set: "set",
+  url: "url"
+};
+
+/**
+ * List the worksheets on each dashboard
+ *
+ * @param workbook - The parsed <workbook> element
+ * @returns Worksheet names by dashboard name, in layout order
+ */
+export function findDashboardSheets(workbook: Record<string, unknown>): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  const dashboards = ensureArray((workbook["dashboards"] as Record<string, unknown> | undefined)?.["dashboard"])
+    .filter((d): d is Record<string, unknown> => !!d && typeof d === "object");
+
+  for (const dashboard of dashboards) {
+    const zones = parseZones(
+      dashboard["zones"] as Record<string, unknown> | undefined,
+      parseLayoutSize(dashboard["size"] as Record<string, unknown> | undefined)
+    );
+    const sheets = zones.filter(z => z.kind === "worksheet" && z.name).map(z => z.name!);
+    result.set(decodeHtmlEntities(String(dashboard["@_name"] ?? "")), Array.from(new Set(sheets)));
+  }
+
+  return result;
+}
+
+/** Work out what happens when an action's selection is cleared */
+function clearBehavior(action: ParsedAction): Action["clearBehavior"] {
+  const clearParam = Object.entries(action.params).find(([key]) => /clear|empty/.test(key))?.[1];
+  if (action.actionType === "filter") {
+    if (clearParam?.includes("exclude")) return "exclude-all-values";
+    if (action.autoClear === null) return null;
+    return action.autoClear ? "show-all-values" : "keep-filtered-values";
+  }
+  if (action.autoClear === null) return null;
+  return action.autoClear ? "clear" : "keep";
+}
+
+/**
+ * Resolve parsed actions to the sheets they run from and act on
+ *
+ * @param actions - Actions from parseActions
+ * @param dashboardSheets - Worksheets on each dashboard, from findDashboardSheets
+ * @param parameters - The workbook's parameters, to name parameter targets by caption
+ */
+export function resolveActions(
+  actions: ParsedAction[],
+  dashboardSheets: Map<string, string[]>,
+  parameters: Parameter[]
+): Action[] {
+  return actions.map(action => {
+    const excludedSources = new Set(action.excludedSourceSheets);
+    const sourceSheets = action.sourceSheets.length > 0 || !action.sourceDashboard
+      ? action.sourceSheets
+      : (dashboardSheets.get(action.sourceDashboard) ?? []).filter(sheet => !excludedSources.has(sheet));
+
+    let targetDashboard: string | null = null;
+    let targetSheets: string[] = [];
+    let target = action.target;
+
+    switch (action.actionType) {
+      case "filter":
+      case "highlight":
+      case "navigation":
+        if (action.target && dashboardSheets.has(action.target)) {
+          targetDashboard = action.target;
+          if (action.actionType !== "navigation") {
+            const excluded = new Set(action.excludedSheets);
+            targetSheets = dashboardSheets.get(action.target)!.filter(sheet => !excluded.has(sheet));
+          }
+        } else if (action.target) {
+          targetSheets = [action.target];
+        }
+        target = action.actionType === "navigation" ? action.target : null;
+        break;
+      case "parameter": {
+        const name = action.target ? extractFieldName(action.target) : null;
+        target = parameters.find(p => p.name === name)?.caption ?? name;
+        break;
+      }
+      case "set":
+        target = action.target ? extractFieldName(action.target) : null;
+        break;
+    }
+
+    const allFields = action.params["special-fields"] === "all"
+      || ((action.actionType === "filter" || action.actionType === "highlight") && action.fieldMappings.length === 0);
+
+    return {
+      name: action.name,
+      caption: action.caption,
+      actionType: action.actionType,
+      command: action.command,
+      trigger: TRIGGERS[action.trigger] ?? "other",
+      sourceDashboard: action.sourceDashboard,
+      sourceSheets,
+      targetDashboard,
+      targetSheets,
+      target,
+      excludedSheets: action.excludedSheets,
+      allFields,
+      fieldMappings: action.fieldMappings,
+      clearBehavior: clearBehavior(action)
+    };
+  });
+}
+
+/**
+ * Join resolved actions into an interaction graph
+ *
+ * Each source sheet gets an edge to every sheet an action filters or
+ * highlights (other than itself), or to the parameter, set, URL or
+ * sheet it changes or opens.
+ */
+export function buildInteractionGraph(actions: Action[], dashboardSheets: Map<string, string[]>): InteractionGraph {
+  const nodes: GraphNode[] = [];
+  const nodeIds = new Map<string, string>();
+  const edges: GraphEdge[] = [];
+
+  const node = (kind: GraphNode["kind"], label: string): string => {
+    const key = `${kind}\u0000${label}`;
+    let id = nodeIds.get(key);
+    if (!id) {
+      id = `${NODE_PREFIXES[kind]}${nodes.filter(n => n.kind === kind).length}`;
+      nodeIds.set(key, id);
+      nodes.push({ id, kind, label });
+    }
+    return id;
+  };
+  const sheetNode = (name: string) => node(dashboardSheets.has(name) ? "dashboard" : "worksheet", name);
+
+  for (const action of actions) {
+    const targets: string[] = [];
+    if (action.targetSheets.length > 0) {
+      targets.push(...action.targetSheets.map(sheetNode));
+    } else if (action.targetDashboard) {
+      targets.push(node("dashboard", action.targetDashboard));
+    }
+    if (action.target) {
+      switch (action.actionType) {
+        case "parameter":
+          targets.push(node("parameter", action.target));
+          break;
+        case "set":
+          targets.push(node("set", action.target));
+          break;
+        case "url":
+          targets.push(node("url", action.target));
+          break;
+      }
+    }
+
+    for (const source of action.sourceSheets) {
+      const from = sheetNode(source);
+      for (const to of targets) {
+        if (to === from) continue;
+        edges.push({ from, to, action: action.caption, actionType: action.actionType, trigger: action.trigger });
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
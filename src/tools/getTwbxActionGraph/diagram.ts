@@ -0,0 +1,88 @@
+/**
+ * Interaction Graph Diagrams
+ *
+ * Renders an interaction graph as a Mermaid flowchart or a Graphviz DOT
+ * graph. Node shapes tell sheets, dashboards, parameters, sets and URLs
+ * apart; edge styles tell how an action is triggered: solid on select,
+ * dotted on hover and thick from the context menu.
+ */
+
+import { GraphNode, InteractionGraph } from "./types.js";
+
+/** Mermaid node shape delimiters by node kind */
+const MERMAID_SHAPES: Record<GraphNode["kind"], [string, string]> = {
+  worksheet: ["[", "]"],
+  dashboard: ["[[", "]]"],
+  parameter: ["{{", "}}"],
+  set: ["([", "])"],
+  url: ["[/", "/]"]
+};
+
+/** Mermaid arrows by trigger */
+const MERMAID_ARROWS: Record<string, string> = { select: "-->", hover: "-.->", menu: "==>", other: "-->" };
+
+/** DOT node shapes by node kind */
+const DOT_SHAPES: Record<GraphNode["kind"], string> = {
+  worksheet: "box",
+  dashboard: "tab",
+  parameter: "hexagon",
+  set: "ellipse",
+  url: "note"
+};
+
+/** DOT edge styles by trigger */
+const DOT_STYLES: Record<string, string> = { select: "solid", hover: "dashed", menu: "bold", other: "solid" };
+
+/** Escape text for a quoted Mermaid label */
+function mermaidText(text: string): string {
+  return text
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/\|/g, "#124;")
+    .replace(/\n/g, "<br/>");
+}
+
+/**
+ * Render an interaction graph as a Mermaid flowchart
+ */
+export function toMermaid(graph: InteractionGraph): string {
+  const lines = ["flowchart LR"];
+
+  for (const node of graph.nodes) {
+    const [open, close] = MERMAID_SHAPES[node.kind];
+    lines.push(`  ${node.id}${open}"${mermaidText(node.label)}"${close}`);
+  }
+  for (const edge of graph.edges) {
+    const label = mermaidText(`${edge.actionType}: ${edge.action}`);
+    lines.push(`  ${edge.from} ${MERMAID_ARROWS[edge.trigger]}|"${label}"| ${edge.to}`);
+  }
+
+  return lines.join("\n");
+}
+
+/** Escape text for a quoted DOT string */
+function dotText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+}
+
+/**
+ * Render an interaction graph as a Graphviz DOT graph
+ */
+export function toDot(graph: InteractionGraph): string {
+  const lines = [
+    "digraph Interactions {",
+    "  rankdir=LR;"
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${node.id} [label="${dotText(node.label)}", shape=${DOT_SHAPES[node.kind]}];`);
+  }
+  for (const edge of graph.edges) {
+    const label = dotText(`${edge.actionType}: ${edge.action}`);
+    lines.push(`  ${edge.from} -> ${edge.to} [label="${label}", style=${DOT_STYLES[edge.trigger]}];`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
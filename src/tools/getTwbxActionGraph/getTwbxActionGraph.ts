@@ -0,0 +1,222 @@
+/**
+ * Get TWBX Action Graph Tool
+ *
+ * Lists every filter, highlight, URL, navigation, parameter and set action
+ * in a Tableau workbook with its source and target sheets, trigger, field
+ * mappings and clearing behaviour, and joins them into an interaction
+ * graph (with Mermaid and DOT renderings) showing how dashboards are wired.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import { parseTwbContent, ensureArray, parseActions } from "../../utils/twbParser.js";
+import { parseParameters } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import { buildInteractionGraph, findDashboardSheets, resolveActions } from "./actionGraph.js";
+import { toDot, toMermaid } from "./diagram.js";
+import { actionSchema, interactionGraphSchema } from "./types.js";
+
+/**
+ * Parameter schema for getTwbxActionGraph tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  dashboard: z.string()
+    .optional()
+    .describe("Only include actions run from this dashboard (default: all actions)"),
+  diagramFormat: z.enum(["mermaid", "dot", "both", "none"])
+    .optional()
+    .default("both")
+    .describe("Diagram to include: mermaid, dot, both or none (default: both)")
+});
+
+type GetTwbxActionGraphParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Structured output schema for getTwbxActionGraph tool
+ */
+const outputSchema = z.object({
+  success: z.literal(true),
+  sourceFile: z.string(),
+  summary: z.object({
+    actionCount: z.number(),
+    actionTypes: z.record(z.number()),
+    triggers: z.record(z.number()),
+    nodeCount: z.number(),
+    edgeCount: z.number()
+  }),
+  actions: z.array(actionSchema),
+  graph: interactionGraphSchema,
+  diagrams: z.object({
+    mermaid: z.string().optional(),
+    dot: z.string().optional()
+  })
+});
+
+type GetTwbxActionGraphResult = z.infer<typeof outputSchema>;
+
+/** Count values by key */
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    counts[key(item)] = (counts[key(item)] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Factory function to create the getTwbxActionGraph tool
+ *
+ * This tool maps workbook interactivity:
+ * 1. Parses every action with its trigger, command and params
+ * 2. Resolves source and target dashboards to the sheets on them
+ * 3. Reads field mappings and what clearing the selection does
+ * 4. Builds an interaction graph and renders it as Mermaid and/or DOT
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ */
+export function getTwbxActionGraphTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "get_twbx_action_graph",
+    description: "Lists every action in a Tableau workbook (.twb file) — filter, highlight, URL, go-to-sheet, " +
+      "parameter and set actions — with source and target sheets (dashboard targets resolved to their " +
+      "sheets), trigger (select, hover or menu), field mappings and what clearing the selection does. Joins " +
+      "them into an interaction graph from source sheets to the sheets, parameters, sets and URLs they " +
+      "change, rendered as Mermaid and/or Graphviz DOT, to show how an interactive dashboard is wired. " +
+      "Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Get TWBX Action Graph",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: GetTwbxActionGraphParams): Promise<Ok<CallToolResult>> => {
+      const { twbFilePath, dashboard, diagramFormat = "both" } = args;
+
+      try {
+        console.error(`[get_twbx_action_graph] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        const dashboardSheets = findDashboardSheets(workbook);
+        if (dashboard && !dashboardSheets.has(dashboard)) {
+          return createErrorResult(
+            "Dashboard not found",
+            {
+              twbFilePath,
+              dashboard,
+              availableDashboards: Array.from(dashboardSheets.keys()),
+              suggestion: "Use one of the available dashboard names"
+            }
+          );
+        }
+
+        const parameterSource = ensureArray((workbook["datasources"] as Record<string, unknown> | undefined)?.["datasource"])
+          .find(ds => !!ds && typeof ds === "object" && (ds as Record<string, unknown>)["@_name"] === "Parameters") as
+          Record<string, unknown> | undefined;
+        const parameters = parameterSource ? parseParameters(parameterSource["column"]) : [];
+
+        const actions = resolveActions(parseActions(workbook), dashboardSheets, parameters)
+          .filter(action => !dashboard || action.sourceDashboard === dashboard);
+        const graph = buildInteractionGraph(actions, dashboardSheets);
+
+        const result: GetTwbxActionGraphResult = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            actionCount: actions.length,
+            actionTypes: countBy(actions, action => action.actionType),
+            triggers: countBy(actions, action => action.trigger),
+            nodeCount: graph.nodes.length,
+            edgeCount: graph.edges.length
+          },
+          actions,
+          graph,
+          diagrams: {}
+        };
+
+        if (diagramFormat === "mermaid" || diagramFormat === "both") {
+          result.diagrams.mermaid = toMermaid(graph);
+        }
+        if (diagramFormat === "dot" || diagramFormat === "both") {
+          result.diagrams.dot = toDot(graph);
+        }
+
+        console.error(`[get_twbx_action_graph] Mapped ${actions.length} actions, ${graph.edges.length} interactions`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error reading TWBX actions",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Type definitions for TWBX Action Graph tool
+ *
+ * Each type is inferred from a Zod schema so the same definitions back
+ * the tool's advertised outputSchema.
+ */
+
+import { z } from "zod";
+
+/**
+ * A field passed from an action's source to its target
+ */
+export const fieldMappingSchema = z.object({
+  source: z.string(),
+  target: z.string()
+});
+
+/**
+ * One filter, highlight, URL, navigation, parameter or set action
+ *
+ * targetSheets are the worksheets it changes; target is what else it
+ * acts on (a parameter, a set, a URL or the sheet it navigates to).
+ * clearBehavior is what happens when the selection is cleared: a filter
+ * action shows all values, keeps the filtered values or excludes all
+ * values; other actions clear or keep their effect.
+ */
+export const actionSchema = z.object({
+  name: z.string(),
+  caption: z.string(),
+  actionType: z.enum(["filter", "highlight", "url", "navigation", "parameter", "set", "unknown"]),
+  command: z.string(),
+  trigger: z.enum(["select", "hover", "menu", "other"]),
+  sourceDashboard: z.string().nullable(),
+  sourceSheets: z.array(z.string()),
+  targetDashboard: z.string().nullable(),
+  targetSheets: z.array(z.string()),
+  target: z.string().nullable(),
+  excludedSheets: z.array(z.string()),
+  allFields: z.boolean(),
+  fieldMappings: z.array(fieldMappingSchema),
+  clearBehavior: z.enum(["show-all-values", "keep-filtered-values", "exclude-all-values", "clear", "keep"]).nullable()
+});
+
+export type Action = z.infer<typeof actionSchema>;
+
+/**
+ * A sheet, dashboard, parameter, set or URL in the interaction graph
+ */
+export const graphNodeSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["worksheet", "dashboard", "parameter", "set", "url"]),
+  label: z.string()
+});
+
+export type GraphNode = z.infer<typeof graphNodeSchema>;
+
+/**
+ * An action from a source sheet to what it changes
+ */
+export const graphEdgeSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  action: z.string(),
+  actionType: actionSchema.shape.actionType,
+  trigger: actionSchema.shape.trigger
+});
+
+export type GraphEdge = z.infer<typeof graphEdgeSchema>;
+
+/**
+ * The interaction graph of a workbook
+ */
+export const interactionGraphSchema = z.object({
+  nodes: z.array(graphNodeSchema),
+  edges: z.array(graphEdgeSchema)
+});
+
+export type InteractionGraph = z.infer<typeof interactionGraphSchema>;
@@ -20,11 +20,12 @@ import {
   extractFieldReferences,
   ensureArray
 } from "../../utils/twbParser.js";
+import { parseCalculation, CalcParseError } from "../../utils/calcParser.js";
 
 /**
  * Represents a calculated field extracted from the workbook
  */
-interface CalculatedField {
+export interface CalculatedField {
   name: string;
   caption: string;
   formula: string;
@@ -34,12 +35,14 @@ interface CalculatedField {
   hidden: boolean;
   datasource: string;
   dependencies: string[];
+  /** Syntax error location if the formula couldn't be parsed */
+  parseError?: CalcParseError;
 }
 
 /**
  * Represents a parameter from the workbook
  */
-interface Parameter {
+export interface Parameter {
   name: string;
   caption: string;
   datatype: string;
@@ -50,7 +53,7 @@ interface Parameter {
 /**
  * Represents a default/source field
  */
-interface SourceField {
+export interface SourceField {
   name: string;
   caption: string;
   datatype: string;
@@ -77,10 +80,57 @@ const paramsSchema = z.object({
 
 type GetTwbxCalculatedFieldsParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Structured output schema for getTwbxCalculatedFields tool
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  sourceFile: z.string(),
+  summary: z.object({
+    calculatedFieldCount: z.number(),
+    parameterCount: z.number(),
+    sourceFieldCount: z.number(),
+    hiddenFieldCount: z.number(),
+    parseErrorCount: z.number()
+  }),
+  parameters: z.array(z.object({
+    caption: z.string(),
+    datatype: z.string(),
+    currentValue: z.string(),
+    allowedValues: z.array(z.string()).optional()
+  })),
+  calculatedFields: z.array(z.object({
+    caption: z.string(),
+    formula: z.string(),
+    datatype: z.string(),
+    role: z.string(),
+    hidden: z.boolean().optional(),
+    datasource: z.string(),
+    dependencies: z.array(z.string()).optional(),
+    parseError: z.object({
+      message: z.string(),
+      line: z.number(),
+      column: z.number()
+    }).optional()
+  })),
+  sourceFields: z.array(z.object({
+    caption: z.string(),
+    datatype: z.string(),
+    role: z.string(),
+    datasource: z.string()
+  })),
+  dependencyAnalysis: z.object({
+    fieldDependencies: z.record(z.array(z.string())),
+    rootFields: z.array(z.string()),
+    leafFields: z.array(z.string()),
+    totalDependencyChains: z.number()
+  }).optional()
+});
+
 /**
  * Parse columns from a datasource
  */
-function parseColumns(
+export function parseColumns(
   columns: unknown,
   datasourceName: string,
   includeHidden: boolean
@@ -110,18 +160,20 @@ function parseColumns(
     // Check if it has a calculation
     const calculation = colObj["calculation"] as Record<string, unknown> | undefined;
     if (calculation) {
-      const formula = (calculation["@_formula"] as string) || "";
+      const formula = decodeHtmlEntities((calculation["@_formula"] as string) || "");
       if (formula) {
+        const parsed = parseCalculation(formula);
         calculatedFields.push({
           name: name.replace(/[\[\]]/g, ""),
           caption,
-          formula: decodeHtmlEntities(formula),
+          formula,
           datatype,
           role,
           type,
           hidden,
           datasource: datasourceName,
-          dependencies: extractFieldReferences(formula)
+          dependencies: extractFieldReferences(formula),
+          parseError: parsed.success ? undefined : parsed.error
         });
       }
     } else {
@@ -142,7 +194,7 @@ function parseColumns(
 /**
  * Parse parameters from Parameters datasource
  */
-function parseParameters(columns: unknown): Parameter[] {
+export function parseParameters(columns: unknown): Parameter[] {
   const parameters: Parameter[] = [];
 
   if (!columns) return parameters;
@@ -198,8 +250,11 @@ export function getTwbxCalculatedFieldsTool(server: Server): Tool<typeof paramsS
       "Use with the mainTwbPath from unpack_twbx output. " +
       "Ideal for learning Tableau techniques from existing visualizations.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get TWBX Calculated Fields"
+      title: "Get TWBX Calculated Fields",
+      readOnlyHint: true,
+      openWorldHint: false
     },
 
     callback: async (args: GetTwbxCalculatedFieldsParams): Promise<Ok<CallToolResult>> => {
@@ -338,7 +393,8 @@ export function getTwbxCalculatedFieldsTool(server: Server): Tool<typeof paramsS
             calculatedFieldCount: allCalculatedFields.length,
             parameterCount: allParameters.length,
             sourceFieldCount: allSourceFields.length,
-            hiddenFieldCount: allCalculatedFields.filter(f => f.hidden).length
+            hiddenFieldCount: allCalculatedFields.filter(f => f.hidden).length,
+            parseErrorCount: allCalculatedFields.filter(f => f.parseError).length
           },
           parameters: allParameters.map(p => ({
             caption: p.caption,
@@ -355,6 +411,9 @@ export function getTwbxCalculatedFieldsTool(server: Server): Tool<typeof paramsS
             datasource: f.datasource,
             dependencies: includeDependencies && f.dependencies.length > 0
               ? f.dependencies
+              : undefined,
+            parseError: f.parseError
+              ? { message: f.parseError.message, line: f.parseError.line, column: f.parseError.column }
               : undefined
           })),
           sourceFields: allSourceFields.slice(0, 50).map(f => ({
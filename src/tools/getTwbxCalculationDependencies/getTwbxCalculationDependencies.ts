@@ -56,30 +56,65 @@ interface CalcNode {
 /**
  * Output structure for each calculation
  */
-interface CalculationOutput {
-  name: string;
-  caption: string;
-  formula: string;
-  datasource: string;
-  depth: number;
-  dependsOn: {
-    calculations: string[];
-    sourceFields: string[];
-    parameters: string[];
-  };
-  usedBy: string[];
-  isRoot: boolean;
-  isLeaf: boolean;
-  isCircular: boolean;
-}
+const calculationOutputSchema = z.object({
+  name: z.string(),
+  caption: z.string(),
+  formula: z.string(),
+  datasource: z.string(),
+  depth: z.number(),
+  dependsOn: z.object({
+    calculations: z.array(z.string()),
+    sourceFields: z.array(z.string()),
+    parameters: z.array(z.string())
+  }),
+  usedBy: z.array(z.string()),
+  isRoot: z.boolean(),
+  isLeaf: z.boolean(),
+  isCircular: z.boolean()
+});
+
+type CalculationOutput = z.infer<typeof calculationOutputSchema>;
 
 /**
  * Circular dependency info
  */
-interface CircularDependency {
-  cycle: string[];
-  explanation: string;
-}
+const circularDependencySchema = z.object({
+  cycle: z.array(z.string()),
+  explanation: z.string()
+});
+
+type CircularDependency = z.infer<typeof circularDependencySchema>;
+
+/**
+ * Structured output schema for getTwbxCalculationDependencies tool
+ *
+ * Workbooks without calculations return only the summary counts and a message.
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  sourceFile: z.string(),
+  message: z.string().optional(),
+  summary: z.object({
+    totalCalculations: z.number(),
+    maxDependencyDepth: z.number().optional(),
+    rootCalculations: z.number().optional(),
+    leafCalculations: z.number().optional(),
+    intermediateCalculations: z.number().optional(),
+    circularDependencies: z.number().optional(),
+    parameterCount: z.number(),
+    sourceFieldCount: z.number().optional()
+  }),
+  depthLevels: z.record(z.array(z.object({
+    caption: z.string(),
+    formula: z.string(),
+    usedBy: z.array(z.string())
+  }))).optional(),
+  calculations: z.array(calculationOutputSchema).optional(),
+  circularDependencies: z.array(circularDependencySchema).optional(),
+  dependencyTree: z.object({
+    text: z.string()
+  }).optional()
+});
 
 /**
  * Extract all calculations and parameters from workbook
@@ -360,8 +395,11 @@ export function getTwbxCalculationDependenciesTool(server: Server): Tool<typeof
       "Includes an ASCII tree visualization. Ideal for understanding complex calculation chains. " +
       "Use with the mainTwbPath from unpack_twbx output.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get TWBX Calculation Dependencies"
+      title: "Get TWBX Calculation Dependencies",
+      readOnlyHint: true,
+      openWorldHint: false
     },
 
     callback: async (args: GetTwbxCalculationDependenciesParams): Promise<Ok<CallToolResult>> => {
@@ -0,0 +1,245 @@
+/**
+ * Get TWBX Dashboard Layout Tool
+ *
+ * Reconstructs the layout of each dashboard in a Tableau workbook: the
+ * zone tree with pixel geometry, container orientation, floating and
+ * hidden zones, buttons, phone and tablet layouts and the actions each
+ * dashboard runs, drawn as an ASCII or SVG wireframe so an agent can
+ * describe and critique a layout without fetching an image.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import { parseTwbContent, ensureArray, decodeHtmlEntities, parseActions } from "../../utils/twbParser.js";
+import { parseDashboardLayout } from "./zoneTree.js";
+import { toAsciiWireframe, toSvgWireframe } from "./wireframe.js";
+import { dashboardLayoutSchema, LayoutSize, Wireframe, Zone } from "./types.js";
+
+/**
+ * Parameter schema for getTwbxDashboardLayout tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  dashboard: z.string()
+    .optional()
+    .describe("Only lay out the dashboard with this name (default: all dashboards)"),
+  wireframe: z.enum(["ascii", "svg", "both", "none"])
+    .optional()
+    .default("ascii")
+    .describe("Wireframe to draw: ascii, svg, both or none (default: ascii)"),
+  asciiWidth: z.coerce.number()
+    .int()
+    .min(40)
+    .max(240)
+    .optional()
+    .default(100)
+    .describe("Width of ASCII wireframes in characters (default: 100)"),
+  includeDeviceLayouts: z.coerce.boolean()
+    .optional()
+    .default(true)
+    .describe("Include phone and tablet layouts (default: true)")
+});
+
+type GetTwbxDashboardLayoutParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Structured output schema for getTwbxDashboardLayout tool
+ */
+const outputSchema = z.object({
+  success: z.literal(true),
+  sourceFile: z.string(),
+  summary: z.object({
+    dashboardCount: z.number(),
+    zoneCount: z.number(),
+    floatingZoneCount: z.number(),
+    deviceLayoutCount: z.number(),
+    actionCount: z.number()
+  }),
+  dashboards: z.array(dashboardLayoutSchema)
+});
+
+type GetTwbxDashboardLayoutResult = z.infer<typeof outputSchema>;
+
+/**
+ * Draw the requested wireframes of a layout
+ */
+function drawWireframe(
+  zones: Zone[],
+  size: LayoutSize,
+  format: "ascii" | "svg" | "both",
+  asciiWidth: number
+): Wireframe {
+  const wireframe: Wireframe = {};
+  if (format === "ascii" || format === "both") {
+    wireframe.ascii = toAsciiWireframe(zones, size, asciiWidth);
+  }
+  if (format === "svg" || format === "both") {
+    wireframe.svg = toSvgWireframe(zones, size);
+  }
+  return wireframe;
+}
+
+/**
+ * Factory function to create the getTwbxDashboardLayout tool
+ *
+ * This tool reconstructs dashboard layouts:
+ * 1. Flattens each dashboard's zone tree, scaling positions to pixels
+ * 2. Marks container orientation, floating and hidden zones, and buttons
+ * 3. Reads phone and tablet device layouts the same way
+ * 4. Lists the actions run from each dashboard
+ * 5. Draws ASCII and/or SVG wireframes
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ */
+export function getTwbxDashboardLayoutTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "get_twbx_dashboard_layout",
+    description: "Reconstructs the layout of each dashboard in a Tableau workbook (.twb file): the full zone " +
+      "tree with pixel position and size, container orientation, tiled vs floating and hidden zones, " +
+      "buttons, phone and tablet device layouts, and the actions each dashboard runs. Draws each layout as " +
+      "an ASCII or SVG wireframe, so a dashboard can be described and critiqued without an image. " +
+      "Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Get TWBX Dashboard Layout",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: GetTwbxDashboardLayoutParams): Promise<Ok<CallToolResult>> => {
+      const {
+        twbFilePath,
+        dashboard,
+        wireframe = "ascii",
+        asciiWidth = 100,
+        includeDeviceLayouts = true
+      } = args;
+
+      try {
+        console.error(`[get_twbx_dashboard_layout] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        const dashboardElements = ensureArray((workbook["dashboards"] as Record<string, unknown> | undefined)?.["dashboard"])
+          .filter((d): d is Record<string, unknown> => !!d && typeof d === "object");
+        const names = dashboardElements.map(d => decodeHtmlEntities(String(d["@_name"] ?? "")));
+
+        const selected = dashboard ? dashboardElements.filter((_, i) => names[i] === dashboard) : dashboardElements;
+        if (dashboard && selected.length === 0) {
+          return createErrorResult(
+            "Dashboard not found",
+            {
+              twbFilePath,
+              dashboard,
+              availableDashboards: names,
+              suggestion: "Use one of the available dashboard names"
+            }
+          );
+        }
+
+        const actions = parseActions(workbook);
+        const dashboards = selected.map(element => {
+          const layout = parseDashboardLayout(element, actions);
+          if (!includeDeviceLayouts) {
+            layout.deviceLayouts = [];
+          }
+          if (wireframe !== "none") {
+            layout.wireframe = drawWireframe(layout.zones, layout.size, wireframe, asciiWidth);
+            for (const device of layout.deviceLayouts) {
+              device.wireframe = drawWireframe(device.zones, device.size, wireframe, asciiWidth);
+            }
+          }
+          return layout;
+        });
+
+        const result: GetTwbxDashboardLayoutResult = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            dashboardCount: dashboards.length,
+            zoneCount: dashboards.reduce((sum, d) => sum + d.zones.length, 0),
+            floatingZoneCount: dashboards.reduce((sum, d) => sum + d.zones.filter(z => z.floating).length, 0),
+            deviceLayoutCount: dashboards.reduce((sum, d) => sum + d.deviceLayouts.length, 0),
+            actionCount: dashboards.reduce((sum, d) => sum + d.actions.length, 0)
+          },
+          dashboards
+        };
+
+        console.error(`[get_twbx_dashboard_layout] Laid out ${dashboards.length} dashboards`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error reading TWBX dashboard layout",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
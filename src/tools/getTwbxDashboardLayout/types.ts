@@ -0,0 +1,127 @@
+/**
+ * Type definitions for TWBX Dashboard Layout tool
+ *
+ * Each type is inferred from a Zod schema so the same definitions back
+ * the tool's advertised outputSchema.
+ */
+
+import { z } from "zod";
+
+/**
+ * What a zone shows
+ */
+export const zoneKindSchema = z.enum([
+  "layout",
+  "container",
+  "worksheet",
+  "text",
+  "image",
+  "web",
+  "filter",
+  "legend",
+  "parameter",
+  "highlighter",
+  "title",
+  "blank",
+  "button",
+  "extension",
+  "other"
+]);
+
+export type ZoneKind = z.infer<typeof zoneKindSchema>;
+
+/**
+ * One zone of a dashboard, positioned in pixels
+ *
+ * Zones form a tree through parentId; containers list children in layout order.
+ */
+export const zoneSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  depth: z.number(),
+  kind: zoneKindSchema,
+  type: z.string(),
+  name: z.string().optional(),
+  orientation: z.enum(["horizontal", "vertical"]).optional(),
+  floating: z.boolean(),
+  hidden: z.boolean(),
+  x: z.number(),
+  y: z.number(),
+  w: z.number(),
+  h: z.number(),
+  field: z.string().optional(),
+  mode: z.string().optional(),
+  text: z.string().optional(),
+  url: z.string().optional(),
+  image: z.string().optional(),
+  button: z.record(z.string()).optional()
+});
+
+export type Zone = z.infer<typeof zoneSchema>;
+
+/**
+ * Dashboard (or device layout) size
+ *
+ * Automatic sizing has no size, and device layouts may set only a height;
+ * missing dimensions are taken from the dashboard (or Tableau's default
+ * 1000x800), flagged by assumed.
+ */
+export const layoutSizeSchema = z.object({
+  width: z.number(),
+  height: z.number(),
+  sizingMode: z.string(),
+  assumed: z.boolean()
+});
+
+export type LayoutSize = z.infer<typeof layoutSizeSchema>;
+
+/**
+ * Wireframe drawings of a layout
+ */
+export const wireframeSchema = z.object({
+  ascii: z.string().optional(),
+  svg: z.string().optional()
+});
+
+export type Wireframe = z.infer<typeof wireframeSchema>;
+
+/**
+ * A phone or tablet layout of a dashboard
+ */
+export const deviceLayoutSchema = z.object({
+  name: z.string(),
+  autoGenerated: z.boolean(),
+  size: layoutSizeSchema,
+  zones: z.array(zoneSchema),
+  wireframe: wireframeSchema.optional()
+});
+
+export type DeviceLayout = z.infer<typeof deviceLayoutSchema>;
+
+/**
+ * An action triggered from a dashboard
+ */
+export const dashboardActionSchema = z.object({
+  name: z.string(),
+  actionType: z.string(),
+  trigger: z.string(),
+  sourceSheets: z.array(z.string()),
+  target: z.string().nullable(),
+  excludedSheets: z.array(z.string())
+});
+
+export type DashboardAction = z.infer<typeof dashboardActionSchema>;
+
+/**
+ * Full layout of one dashboard
+ */
+export const dashboardLayoutSchema = z.object({
+  name: z.string(),
+  size: layoutSizeSchema,
+  zones: z.array(zoneSchema),
+  deviceLayouts: z.array(deviceLayoutSchema),
+  actions: z.array(dashboardActionSchema),
+  wireframe: wireframeSchema.optional()
+});
+
+export type DashboardLayout = z.infer<typeof dashboardLayoutSchema>;
@@ -0,0 +1,165 @@
+/**
+ * Dashboard Wireframes
+ *
+ * Draws a dashboard's zones as an ASCII or SVG wireframe, so a layout can
+ * be read and critiqued without rendering the workbook. Tiled zones are
+ * drawn first and floating zones over them, as Tableau stacks them.
+ */
+
+import { LayoutSize, Zone } from "./types.js";
+
+/** Terminal characters are about twice as tall as they are wide */
+const CHAR_ASPECT = 2;
+
+/** Fill colours by zone kind in SVG wireframes */
+const SVG_FILLS: Partial<Record<Zone["kind"], string>> = {
+  worksheet: "#dbe9f6",
+  text: "#f2f2f2",
+  image: "#e8f5e9",
+  web: "#fff3e0",
+  filter: "#fce4ec",
+  legend: "#f3e5f5",
+  parameter: "#ede7f6",
+  highlighter: "#fce4ec",
+  title: "#f2f2f2",
+  button: "#fff8e1",
+  extension: "#fff3e0"
+};
+
+/** Label a zone for a wireframe */
+export function describeZone(zone: Zone): string {
+  const text = zone.text?.replace(/\s+/g, " ").trim();
+  switch (zone.kind) {
+    case "worksheet":
+      return zone.name ?? "Sheet";
+    case "text":
+      return text ? `Text: ${text}` : "Text";
+    case "title":
+      return text ? `Title: ${text}` : "Title";
+    case "filter":
+      return `Filter: ${zone.field ?? ""}`.trim();
+    case "legend":
+      return `Legend (${zone.type}): ${zone.field ?? ""}`.trim();
+    case "parameter":
+      return `Parameter: ${zone.field ?? ""}`.trim();
+    case "highlighter":
+      return `Highlighter: ${zone.field ?? ""}`.trim();
+    case "image":
+      return zone.image ? `Image: ${zone.image}` : "Image";
+    case "web":
+      return zone.url ? `Web: ${zone.url}` : "Web page";
+    case "button":
+      return "Button";
+    case "blank":
+      return "";
+    default:
+      return zone.type || zone.kind;
+  }
+}
+
+/** Zones drawn as boxes: everything but layout containers, tiled first */
+function drawnZones(zones: Zone[]): Zone[] {
+  const drawn = zones.filter(z => z.kind !== "layout" && z.kind !== "container" && !z.hidden && z.w > 0 && z.h > 0);
+  return [...drawn.filter(z => !z.floating), ...drawn.filter(z => z.floating)];
+}
+
+/**
+ * Draw zones as an ASCII wireframe
+ *
+ * @param zones - Zones positioned in pixels
+ * @param size - Layout size the zones are positioned in
+ * @param columns - Width of the drawing in characters
+ */
+export function toAsciiWireframe(zones: Zone[], size: LayoutSize, columns: number): string {
+  const rows = Math.max(8, Math.round(columns * size.height / size.width / CHAR_ASPECT));
+  const grid = Array.from({ length: rows }, () => Array<string>(columns).fill(" "));
+  // Zones cover [start, end) in grid cells
+  const toCol = (x: number) => Math.min(columns, Math.max(0, Math.round(x / size.width * columns)));
+  const toRow = (y: number) => Math.min(rows, Math.max(0, Math.round(y / size.height * rows)));
+
+  const write = (row: number, col: number, text: string, maxLength: number) => {
+    for (let i = 0; i < Math.min(text.length, maxLength); i++) {
+      grid[row][col + i] = text[i];
+    }
+  };
+
+  for (const zone of drawnZones(zones)) {
+    const left = Math.min(columns - 2, toCol(zone.x));
+    const top = Math.min(rows - 2, toRow(zone.y));
+    const right = Math.max(left + 1, toCol(zone.x + zone.w) - 1);
+    const bottom = Math.max(top + 1, toRow(zone.y + zone.h) - 1);
+
+    for (let row = top; row <= bottom; row++) {
+      for (let col = left; col <= right; col++) {
+        const onRow = row === top || row === bottom;
+        const onCol = col === left || col === right;
+        grid[row][col] = onRow && onCol ? "+" : onRow ? "-" : onCol ? "|" : " ";
+      }
+    }
+
+    // Label inside the box when there's room, otherwise on its top border
+    const label = `${describeZone(zone)}${zone.floating ? " (floating)" : ""}`;
+    const width = right - left - 1;
+    if (bottom - top >= 2) {
+      write(top + 1, left + 1, label, width);
+      if (bottom - top >= 3) write(top + 2, left + 1, `${zone.w}x${zone.h}`, width);
+    } else {
+      write(top, left + 1, label, width);
+    }
+  }
+
+  return grid.map(row => row.join("").trimEnd()).join("\n");
+}
+
+/** Escape text for SVG */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Draw zones as an SVG wireframe
+ *
+ * Containers are drawn as dashed outlines, content zones as filled boxes
+ * labelled with what they show; floating zones have a heavier border.
+ *
+ * @param zones - Zones positioned in pixels
+ * @param size - Layout size the zones are positioned in
+ */
+export function toSvgWireframe(zones: Zone[], size: LayoutSize): string {
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}" ` +
+      `viewBox="0 0 ${size.width} ${size.height}" font-family="sans-serif" font-size="11">`,
+    `  <rect x="0" y="0" width="${size.width}" height="${size.height}" fill="#ffffff" stroke="#999999"/>`
+  ];
+
+  for (const zone of zones.filter(z => z.kind === "container" && !z.hidden)) {
+    lines.push(`  <rect x="${zone.x}" y="${zone.y}" width="${zone.w}" height="${zone.h}" ` +
+      `fill="none" stroke="#bbbbbb" stroke-dasharray="4 3"/>`);
+  }
+
+  for (const zone of drawnZones(zones)) {
+    const fill = SVG_FILLS[zone.kind] ?? "#ffffff";
+    const strokeWidth = zone.floating ? 2 : 1;
+    lines.push(`  <g>`);
+    lines.push(`    <title>${escapeXml(`${zone.kind} ${zone.id}: ${describeZone(zone)}`)}</title>`);
+    lines.push(`    <rect x="${zone.x}" y="${zone.y}" width="${zone.w}" height="${zone.h}" ` +
+      `fill="${fill}" stroke="#555555" stroke-width="${strokeWidth}"/>`);
+    const label = describeZone(zone);
+    if (label) {
+      // Roughly 6px per character at 11px
+      const maxChars = Math.max(0, Math.floor((zone.w - 8) / 6));
+      const shown = label.length > maxChars ? `${label.slice(0, Math.max(0, maxChars - 1))}…` : label;
+      if (shown) {
+        lines.push(`    <text x="${zone.x + 4}" y="${zone.y + 14}">${escapeXml(shown)}</text>`);
+      }
+    }
+    lines.push(`  </g>`);
+  }
+
+  lines.push("</svg>");
+  return lines.join("\n");
+}
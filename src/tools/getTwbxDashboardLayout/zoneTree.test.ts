@@ -0,0 +1,120 @@
+/**
+ * Tests for dashboard zone trees and wireframes
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseTwbContent, parseActions } from "../../utils/twbParser.js";
+import { parseDashboardLayout } from "./zoneTree.js";
+import { toAsciiWireframe, toSvgWireframe } from "./wireframe.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <actions>
+    <action caption='Filter by Region' name='[Action1]'>
+      <activation auto-clear='true' type='on-select' />
+      <source dashboard='Overview' type='sheet' worksheet='Map' />
+      <command command='tsc:tsl-filter'>
+        <param name='exclude' value='Trend' />
+        <param name='target' value='Overview' />
+      </command>
+    </action>
+  </actions>
+  <dashboards>
+    <dashboard name='Overview'>
+      <size maxheight='600' maxwidth='1200' minheight='600' minwidth='1200' sizing-mode='fixed' />
+      <zones>
+        <zone h='100000' id='1' type-v2='layout-basic' w='100000' x='0' y='0'>
+          <zone h='100000' id='2' param='vert' type-v2='layout-flow' w='100000' x='0' y='0'>
+            <zone h='10000' id='3' type-v2='text' w='100000' x='0' y='0'>
+              <formatted-text>
+                <run bold='true'>Sales</run>
+                <run>Æ&#10;</run>
+                <run>Overview</run>
+              </formatted-text>
+            </zone>
+            <zone h='90000' id='4' param='horz' type-v2='layout-flow' w='100000' x='0' y='10000'>
+              <zone h='90000' id='5' name='Map' w='50000' x='0' y='10000' />
+              <zone h='90000' id='6' name='Trend' w='50000' x='50000' y='10000' />
+            </zone>
+          </zone>
+        </zone>
+        <zone h='20000' id='7' mode='checkdropdown' name='Map' param='[federated.1].[none:Region:nk]' type-v2='filter' w='25000' x='75000' y='12000' />
+      </zones>
+      <devicelayouts>
+        <devicelayout auto-generated='true' name='Phone'>
+          <size maxheight='900' minheight='900' sizing-mode='vscroll' />
+          <zones>
+            <zone h='100000' id='8' type-v2='layout-basic' w='100000' x='0' y='0'>
+              <zone h='100000' id='9' name='Map' w='100000' x='0' y='0' />
+            </zone>
+          </zones>
+        </devicelayout>
+      </devicelayouts>
+    </dashboard>
+  </dashboards>
+</workbook>`;
+
+function parseLayout() {
+  const result = parseTwbContent(TWB);
+  if (!result.success) throw new Error(result.error);
+  const workbook = (result.data as { workbook: Record<string, unknown> }).workbook;
+  const dashboard = (workbook.dashboards as { dashboard: Record<string, unknown> }).dashboard;
+  return parseDashboardLayout(dashboard, parseActions(workbook));
+}
+
+describe("parseDashboardLayout", () => {
+  it("should flatten the zone tree with pixel geometry", () => {
+    const layout = parseLayout();
+
+    expect(layout.size).toEqual({ width: 1200, height: 600, sizingMode: "fixed", assumed: false });
+    expect(layout.zones.map(z => [z.id, z.parentId, z.kind, z.orientation, z.floating])).toEqual([
+      ["1", null, "layout", undefined, false],
+      ["2", "1", "container", "vertical", false],
+      ["3", "2", "text", undefined, false],
+      ["4", "2", "container", "horizontal", false],
+      ["5", "4", "worksheet", undefined, false],
+      ["6", "4", "worksheet", undefined, false],
+      ["7", null, "filter", undefined, true]
+    ]);
+    expect(layout.zones[2].text).toBe("Sales\nOverview");
+    expect(layout.zones[5]).toMatchObject({ name: "Trend", x: 600, y: 60, w: 600, h: 540 });
+    expect(layout.zones[6]).toMatchObject({ field: "Region", mode: "checkdropdown", x: 900, y: 72, w: 300, h: 120 });
+  });
+
+  it("should read device layouts and dashboard actions", () => {
+    const layout = parseLayout();
+
+    expect(layout.deviceLayouts).toHaveLength(1);
+    expect(layout.deviceLayouts[0]).toMatchObject({
+      name: "Phone",
+      autoGenerated: true,
+      size: { width: 1200, height: 900, sizingMode: "vscroll", assumed: true }
+    });
+    expect(layout.actions).toEqual([{
+      name: "Filter by Region",
+      actionType: "filter",
+      trigger: "on-select",
+      sourceSheets: ["Map"],
+      target: "Overview",
+      excludedSheets: ["Trend"]
+    }]);
+  });
+});
+
+describe("wireframes", () => {
+  it("should draw floating zones over tiled ones", () => {
+    const layout = parseLayout();
+
+    const ascii = toAsciiWireframe(layout.zones, layout.size, 60).split("\n");
+    expect(ascii).toHaveLength(15);
+    // The text zone is too short for an inside label
+    expect(ascii[0]).toBe(`+Text: Sales Overview${"-".repeat(38)}+`);
+    expect(ascii[3]).toBe(`|Map${" ".repeat(25)}||Trend${" ".repeat(9)}|Filter: Regio|`);
+    expect(ascii[4]).toBe(`|600x540${" ".repeat(21)}||600x540${" ".repeat(7)}+-------------+`);
+    expect(ascii[14]).toBe(`+${"-".repeat(28)}++${"-".repeat(28)}+`);
+
+    const svg = toSvgWireframe(layout.zones, layout.size);
+    expect(svg).toContain("viewBox=\"0 0 1200 600\"");
+    expect(svg).toContain("<rect x=\"900\" y=\"72\" width=\"300\" height=\"120\" fill=\"#fce4ec\" stroke=\"#555555\" stroke-width=\"2\"/>");
+  });
+});
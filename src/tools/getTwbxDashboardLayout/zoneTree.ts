@@ -0,0 +1,214 @@
+/**
+ * Dashboard Zone Tree
+ *
+ * Reads the zones of a dashboard (and of its phone and tablet layouts)
+ * into a flat list with pixel geometry. Tableau stores zone positions in
+ * units of 1/100000 of the dashboard's width and height; tiled zones nest
+ * inside the root layout zone, while floating zones follow it as siblings.
+ */
+
+import {
+  ensureArray,
+  decodeHtmlEntities,
+  extractFieldName,
+  extractFormattedText,
+  ParsedAction
+} from "../../utils/twbParser.js";
+import { DashboardAction, DashboardLayout, DeviceLayout, LayoutSize, Zone, ZoneKind } from "./types.js";
+
+/** Zone positions are fractions of this */
+const ZONE_UNITS = 100000;
+
+/** Size laid out on when a dashboard has none (Tableau's default desktop size) */
+const DEFAULT_SIZE = { width: 1000, height: 800 };
+
+/** Zone kinds by zone type (type-v2, or type in older workbooks) */
+const ZONE_KINDS: Record<string, ZoneKind> = {
+  "layout-basic": "layout",
+  "layout-flow": "container",
+  "text": "text",
+  "bitmap": "image",
+  "web": "web",
+  "filter": "filter",
+  "color": "legend",
+  "size": "legend",
+  "shape": "legend",
+  "paramctrl": "parameter",
+  "highlighter": "highlighter",
+  "title": "title",
+  "empty": "blank",
+  "extension": "extension",
+  "add-in": "extension"
+};
+
+/** Read an optional attribute as decoded text */
+function attr(element: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = element?.[`@_${name}`];
+  return value === undefined || value === "" ? undefined : decodeHtmlEntities(String(value));
+}
+
+/** Get the child <zone> elements of a zone or <zones> element */
+function childZones(element: Record<string, unknown> | undefined): Record<string, unknown>[] {
+  return ensureArray(element?.["zone"])
+    .filter((zone): zone is Record<string, unknown> => !!zone && typeof zone === "object");
+}
+
+/**
+ * Read a <size> element
+ *
+ * Fixed sizes set min and max to the same value; ranges use the maximum.
+ *
+ * @param size - The size element, if any
+ * @param fallback - Size to assume when none is set
+ */
+export function parseLayoutSize(
+  size: Record<string, unknown> | undefined,
+  fallback: { width: number; height: number } = DEFAULT_SIZE
+): LayoutSize {
+  const width = Number(attr(size, "maxwidth") ?? attr(size, "minwidth") ?? attr(size, "width") ?? 0);
+  const height = Number(attr(size, "maxheight") ?? attr(size, "minheight") ?? attr(size, "height") ?? 0);
+  const sizingMode = attr(size, "sizing-mode")
+    ?? (!size ? "automatic" : attr(size, "maxwidth") === attr(size, "minwidth") ? "fixed" : "range");
+
+  return {
+    width: width > 0 ? width : fallback.width,
+    height: height > 0 ? height : fallback.height,
+    sizingMode,
+    assumed: !(width > 0 && height > 0)
+  };
+}
+
+/** Work out what a zone shows from its type and attributes */
+function classifyZone(zone: Record<string, unknown>, type: string): ZoneKind {
+  if (zone["button"]) return "button";
+  if (!type) return attr(zone, "name") ? "worksheet" : "other";
+  return ZONE_KINDS[type] ?? (type.includes("button") ? "button" : "other");
+}
+
+/**
+ * Flatten a dashboard's zones, positioned in pixels
+ *
+ * The first layout-basic zone under <zones> is the tiled layout; every
+ * other top-level zone (and everything inside one) is floating.
+ *
+ * @param zones - The <zones> element of a dashboard or device layout
+ * @param size - Size the zone positions are scaled to
+ * @returns Zones in document order, parents before children
+ */
+export function parseZones(zones: Record<string, unknown> | undefined, size: LayoutSize): Zone[] {
+  const result: Zone[] = [];
+  const topLevel = childZones(zones);
+  const tiledRoot = topLevel.find(z => (attr(z, "type-v2") ?? attr(z, "type")) === "layout-basic") ?? topLevel[0];
+  const scaleX = size.width / ZONE_UNITS;
+  const scaleY = size.height / ZONE_UNITS;
+
+  const visit = (zone: Record<string, unknown>, parentId: string | null, depth: number, floating: boolean): void => {
+    const type = attr(zone, "type-v2") ?? attr(zone, "type") ?? "";
+    const kind = classifyZone(zone, type);
+    const id = attr(zone, "id") ?? `zone${result.length + 1}`;
+    const param = attr(zone, "param");
+
+    const entry: Zone = {
+      id,
+      parentId,
+      depth,
+      kind,
+      type: type || (kind === "worksheet" ? "worksheet" : ""),
+      name: attr(zone, "name"),
+      floating,
+      hidden: attr(zone, "hidden-by-user") === "true",
+      x: Math.round(Number(attr(zone, "x") ?? 0) * scaleX),
+      y: Math.round(Number(attr(zone, "y") ?? 0) * scaleY),
+      w: Math.round(Number(attr(zone, "w") ?? 0) * scaleX),
+      h: Math.round(Number(attr(zone, "h") ?? 0) * scaleY)
+    };
+
+    if (kind === "container") {
+      entry.orientation = param === "vert" ? "vertical" : "horizontal";
+    } else if (kind === "filter" || kind === "legend" || kind === "parameter" || kind === "highlighter") {
+      if (param) entry.field = extractFieldName(param);
+    } else if (kind === "image" && param) {
+      entry.image = param;
+    }
+
+    const mode = attr(zone, "mode");
+    if (mode) entry.mode = mode;
+    const url = attr(zone, "url") ?? (kind === "web" ? param : undefined);
+    if (url) entry.url = url;
+    const text = extractFormattedText(zone["formatted-text"]);
+    if (text) entry.text = text;
+
+    const button = zone["button"];
+    if (button && typeof button === "object") {
+      entry.button = Object.fromEntries(Object.entries(button as Record<string, unknown>)
+        .filter(([key]) => key.startsWith("@_"))
+        .map(([key, value]) => [key.slice(2), decodeHtmlEntities(String(value))]));
+    }
+
+    result.push(entry);
+    childZones(zone).forEach(child => visit(child, id, depth + 1, floating));
+  };
+
+  topLevel.forEach(zone => visit(zone, null, 0, zone !== tiledRoot));
+  return result;
+}
+
+/**
+ * Read the phone and tablet layouts of a dashboard
+ *
+ * Layouts without their own size fit the dashboard's.
+ */
+function parseDeviceLayouts(dashboard: Record<string, unknown>, dashboardSize: LayoutSize): DeviceLayout[] {
+  const layouts = (dashboard["devicelayouts"] as Record<string, unknown> | undefined)?.["devicelayout"];
+
+  return ensureArray(layouts)
+    .filter((layout): layout is Record<string, unknown> => !!layout && typeof layout === "object")
+    .map(layout => {
+      const size = parseLayoutSize(layout["size"] as Record<string, unknown> | undefined, dashboardSize);
+      return {
+        name: attr(layout, "name") ?? "",
+        autoGenerated: attr(layout, "auto-generated") === "true",
+        size,
+        zones: parseZones(layout["zones"] as Record<string, unknown> | undefined, size)
+      };
+    });
+}
+
+/**
+ * Keep the actions run from a dashboard or its sheets
+ */
+function findDashboardActions(name: string, sheets: Set<string>, actions: ParsedAction[]): DashboardAction[] {
+  return actions
+    .filter(action => action.sourceDashboard === name
+      || (action.sourceDashboard === null && action.sourceSheets.some(sheet => sheets.has(sheet))))
+    .map(action => ({
+      name: action.caption,
+      actionType: action.actionType,
+      trigger: action.trigger,
+      sourceSheets: action.sourceSheets,
+      target: action.target,
+      excludedSheets: action.excludedSheets
+    }));
+}
+
+/**
+ * Reconstruct the layout of a dashboard
+ *
+ * @param dashboard - The <dashboard> element
+ * @param actions - The workbook's actions
+ * @returns Size, zones, device layouts and actions of the dashboard
+ */
+export function parseDashboardLayout(dashboard: Record<string, unknown>, actions: ParsedAction[]): DashboardLayout {
+  const name = attr(dashboard, "name") ?? "";
+  const size = parseLayoutSize(dashboard["size"] as Record<string, unknown> | undefined);
+  const zones = parseZones(dashboard["zones"] as Record<string, unknown> | undefined, size);
+  const sheets = new Set(zones.filter(z => z.kind === "worksheet" && z.name).map(z => z.name as string));
+
+  return {
+    name,
+    size,
+    zones,
+    deviceLayouts: parseDeviceLayouts(dashboard, size),
+    actions: findDashboardActions(name, sheets, actions)
+  };
+}
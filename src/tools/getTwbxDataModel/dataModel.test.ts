@@ -0,0 +1,186 @@
+/**
+ * Tests for data model reconstruction and diagrams
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { parseDataModel } from "./dataModel.js";
+import { toDot, toMermaid } from "./diagram.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <datasources>
+    <datasource caption='Sales' name='federated.sales'>
+      <connection class='federated'>
+        <named-connections>
+          <named-connection caption='Superstore' name='excel-direct.1'>
+            <connection class='excel-direct' filename='Superstore.xlsx' />
+          </named-connection>
+        </named-connections>
+        <metadata-records>
+          <metadata-record class='column'>
+            <local-name>[Region]</local-name>
+            <local-type>string</local-type>
+          </metadata-record>
+        </metadata-records>
+      </connection>
+      <column caption='Sales' datatype='real' name='[Sales]' role='measure' />
+      <filter class='categorical' column='[Segment]'>
+        <groupfilter function='except'>
+          <groupfilter function='level-members' level='[Segment]' />
+          <groupfilter function='member' level='[Segment]' member='&quot;Home Office&quot;' />
+        </groupfilter>
+      </filter>
+      <extract count='10' enabled='true' units='percent'>
+        <connection class='hyper' dbname='Data/Extracts/sales.hyper'>
+          <refresh increment-key='[Order Date]' incremental-updates='true' />
+        </connection>
+        <filter class='quantitative' column='[Sales]' included-values='in-range'>
+          <min>0</min>
+        </filter>
+      </extract>
+      <_.fcp.ObjectModelEncapsulateLegacy.true...object-graph>
+        <objects>
+          <object caption='Orders' id='Orders_1'>
+            <properties context=''>
+              <relation join='left' type='join'>
+                <clause type='join'>
+                  <expression op='AND'>
+                    <expression op='='>
+                      <expression op='[Orders].[Order ID]' />
+                      <expression op='[Returns].[Order ID]' />
+                    </expression>
+                    <expression op='='>
+                      <expression op='[Orders].[Region]' />
+                      <expression op='[Returns].[Region]' />
+                    </expression>
+                  </expression>
+                </clause>
+                <relation connection='excel-direct.1' name='Orders' table='[Orders$]' type='table' />
+                <relation connection='excel-direct.1' name='Returns' table='[Returns$]' type='table' />
+              </relation>
+            </properties>
+          </object>
+          <object caption='People' id='People_2'>
+            <properties context=''>
+              <relation connection='excel-direct.1' name='People' table='[People$]' type='table' />
+            </properties>
+          </object>
+        </objects>
+        <relationships>
+          <relationship>
+            <expression op='='>
+              <expression op='[Region]' />
+              <expression op='[Region (People)]' />
+            </expression>
+            <first-end-point object-id='Orders_1' />
+            <second-end-point object-id='People_2' unique-key='true' />
+          </relationship>
+        </relationships>
+      </_.fcp.ObjectModelEncapsulateLegacy.true...object-graph>
+    </datasource>
+    <datasource caption='Targets' name='federated.targets'>
+      <connection class='federated'>
+        <named-connections>
+          <named-connection name='postgres.2'>
+            <connection class='postgres' dbname='finance' server='db.local' />
+          </named-connection>
+        </named-connections>
+        <relation connection='postgres.2' name='Custom SQL Query' type='text'>SELECT region AS &quot;Region&quot;, target FROM targets WHERE year &gt; 2020</relation>
+      </connection>
+      <column caption='Region' datatype='string' name='[Region]' role='dimension' />
+    </datasource>
+  </datasources>
+  <worksheets>
+    <worksheet name='Sales vs Target'>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Sales' name='federated.sales' />
+            <datasource caption='Targets' name='federated.targets' />
+          </datasources>
+        </view>
+      </table>
+    </worksheet>
+  </worksheets>
+</workbook>`;
+
+function parseWorkbook(): Record<string, unknown> {
+  const result = parseTwbContent(TWB);
+  if (!result.success) throw new Error(result.error);
+  return (result.data as { workbook: Record<string, unknown> }).workbook;
+}
+
+describe("parseDataModel", () => {
+  it("should read logical tables, relationships and physical joins", () => {
+    const [sales] = parseDataModel(parseWorkbook()).dataSources;
+
+    expect(sales.hasLogicalLayer).toBe(true);
+    expect(sales.connections).toEqual([
+      { name: "excel-direct.1", caption: "Superstore", class: "excel-direct", filename: "Superstore.xlsx" }
+    ]);
+    expect(sales.logicalTables.map(t => t.caption)).toEqual(["Orders", "People"]);
+    expect(sales.logicalTables[0].joins).toEqual([{
+      joinType: "left",
+      left: "Orders",
+      right: "Returns",
+      clauses: [
+        { expression: "[Orders].[Order ID] = [Returns].[Order ID]", left: "[Orders].[Order ID]", operator: "=", right: "[Returns].[Order ID]" },
+        { expression: "[Orders].[Region] = [Returns].[Region]", left: "[Orders].[Region]", operator: "=", right: "[Returns].[Region]" }
+      ]
+    }]);
+    expect(sales.relationships).toEqual([{
+      from: "Orders",
+      to: "People",
+      clauses: [{ expression: "[Region] = [Region (People)]", left: "[Region]", operator: "=", right: "[Region (People)]" }],
+      cardinality: { from: "many", to: "one" }
+    }]);
+  });
+
+  it("should read filters, extract settings, custom SQL and blends", () => {
+    const model = parseDataModel(parseWorkbook());
+    const [sales, targets] = model.dataSources;
+
+    expect(sales.filters).toMatchObject([{ column: "Segment", mode: "exclude", members: ["Home Office"] }]);
+    expect(sales.extract).toMatchObject({
+      enabled: true,
+      rowLimit: null,
+      samplePercent: 10,
+      incremental: true,
+      incrementKey: "[Order Date]",
+      filters: [{ column: "Sales", mode: "range", range: { min: "0", max: null } }]
+    });
+
+    expect(targets.hasLogicalLayer).toBe(false);
+    expect(targets.logicalTables[0].tables).toEqual([{
+      name: "Custom SQL Query",
+      type: "custom-sql",
+      sql: "SELECT region AS \"Region\", target FROM targets WHERE year > 2020",
+      connection: "postgres.2"
+    }]);
+
+    expect(model.blends).toEqual([{
+      primary: "Sales",
+      secondary: "Targets",
+      linkFields: [{ primary: "Region", secondary: "Region" }],
+      linkSource: "same-name",
+      worksheets: ["Sales vs Target"]
+    }]);
+  });
+});
+
+describe("diagrams", () => {
+  it("should draw joins inside logical tables and blends between data sources", () => {
+    const model = parseDataModel(parseWorkbook());
+
+    const mermaid = toMermaid(model);
+    expect(mermaid).toContain("subgraph ds0_t0[\"Orders\"]");
+    expect(mermaid).toContain("ds0_t0_0 -->|\"left join<br/>[Orders].[Order ID] = [Returns].[Order ID]");
+    expect(mermaid).toContain("ds0_t0_0 ---|\"[Region] = [Region (People)]<br/>many : one\"| ds0_t1");
+    expect(mermaid).toContain("ds0 -.->|\"blend<br/>Region\"| ds1");
+
+    const dot = toDot(model);
+    expect(dot).toContain("ds1_t0 [label=\"Custom SQL Query\\n(custom SQL)\"];");
+    expect(dot).toContain("ds0_t1 -> ds1_t0 [label=\"blend\\nRegion\", style=dashed, ltail=cluster_ds0, lhead=cluster_ds1];");
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Data Model Reconstruction
+ *
+ * Rebuilds each data source's model from workbook XML: the logical layer
+ * (tables related by relationships, read from the object graph of
+ * workbooks saved since Tableau 2020.2), the physical joins, unions and
+ * custom SQL behind each logical table, data source and extract filters,
+ * and the blends worksheets make between data sources.
+ */
+
+import {
+  ensureArray,
+  decodeHtmlEntities,
+  getFlaggedElements,
+  parseFieldReference,
+  parseFilterElement
+} from "../../utils/twbParser.js";
+import {
+  BlendLink,
+  Connection,
+  DataModelFilter,
+  DataSourceModel,
+  ExtractSettings,
+  JoinClause,
+  LogicalTable,
+  Relationship,
+  WorkbookDataModel
+} from "./types.js";
+
+/** Operators written between their two operands */
+const INFIX_OPERATORS = new Set(["=", "==", "<>", "!=", "<", "<=", ">", ">=", "AND", "OR", "+", "-", "*", "/"]);
+
+/** Operators a join or relationship clause compares with */
+const COMPARISON_OPERATORS = new Set(["=", "==", "<>", "!=", "<", "<=", ">", ">="]);
+
+/** Metadata types Tableau treats as dimensions when no column says otherwise */
+const DIMENSION_TYPES = new Set(["string", "date", "datetime", "boolean"]);
+
+/** Read an optional attribute as decoded text */
+function attr(element: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = element?.[`@_${name}`];
+  return value === undefined || value === "" ? undefined : decodeHtmlEntities(String(value));
+}
+
+/** Strip the brackets from a field or data source name ([Region] -> Region) */
+function stripBrackets(name: string): string {
+  return name.replace(/^\[|\]$/g, "");
+}
+
+/** Get the child <expression> elements of an expression or clause */
+function childExpressions(element: Record<string, unknown>): Record<string, unknown>[] {
+  return ensureArray(element["expression"])
+    .filter((child): child is Record<string, unknown> => !!child && typeof child === "object");
+}
+
+/**
+ * Render a join or relationship expression as text
+ *
+ * Leaf expressions hold a field reference or literal in their op attribute;
+ * other expressions apply their op to their children.
+ */
+export function expressionToText(expression: Record<string, unknown>): string {
+  const op = attr(expression, "op") ?? "";
+  const args = childExpressions(expression).map(expressionToText);
+  if (args.length === 0) return op;
+  if (args.length === 2 && INFIX_OPERATORS.has(op.toUpperCase())) {
+    return `${args[0]} ${op} ${args[1]}`;
+  }
+  return `${op}(${args.join(", ")})`;
+}
+
+/**
+ * Split an expression into clauses, one per condition joined by AND
+ */
+export function expressionToClauses(expression: Record<string, unknown> | undefined): JoinClause[] {
+  if (!expression) return [];
+  const op = attr(expression, "op") ?? "";
+  const args = childExpressions(expression);
+
+  if (op.toUpperCase() === "AND") {
+    return args.flatMap(expressionToClauses);
+  }
+
+  const text = expressionToText(expression);
+  if (args.length === 2 && COMPARISON_OPERATORS.has(op)) {
+    return [{ expression: text, left: expressionToText(args[0]), operator: op, right: expressionToText(args[1]) }];
+  }
+  return [{ expression: text }];
+}
+
+/** Table a qualified field in a join clause belongs to ([Orders].[Region] -> Orders) */
+function clauseTable(field: string | undefined): string | null {
+  return field ? parseFieldReference(field).datasource : null;
+}
+
+/**
+ * Add a relation tree to a logical table
+ *
+ * @returns Names of the tables (and unions) the relation covers, left to right
+ */
+function addRelation(relation: Record<string, unknown>, logical: LogicalTable): string[] {
+  const type = attr(relation, "type") ?? "";
+  const name = attr(relation, "name") ?? "";
+  const connection = attr(relation, "connection") ?? null;
+  const children = getFlaggedElements(relation, "relation");
+
+  switch (type) {
+    case "table":
+      logical.tables.push({ name, type: "table", table: attr(relation, "table"), connection });
+      return [name];
+
+    case "text":
+      logical.tables.push({
+        name,
+        type: "custom-sql",
+        sql: decodeHtmlEntities(String(relation["#text"] ?? "")),
+        connection
+      });
+      return [name];
+
+    case "union": {
+      const first = logical.tables.length;
+      const members = children.flatMap(child => addRelation(child, logical));
+      logical.tables.slice(first).forEach(table => { table.union = name; });
+      logical.unions.push({ name, tables: members });
+      return [name];
+    }
+
+    case "join": {
+      const leftNames = children[0] ? addRelation(children[0], logical) : [];
+      const rightNames = children[1] ? addRelation(children[1], logical) : [];
+      const clause = relation["clause"] as Record<string, unknown> | undefined;
+      const clauses = expressionToClauses(clause?.["expression"] as Record<string, unknown> | undefined);
+
+      // Name the two tables the clause compares, falling back to the first table of each side
+      let left = leftNames[0] ?? "";
+      let right = rightNames[0] ?? "";
+      const compared = clauses.find(c => c.left && c.right);
+      if (compared) {
+        const tables = [clauseTable(compared.left), clauseTable(compared.right)];
+        const leftTable = tables.find(t => t && leftNames.includes(t));
+        const rightTable = tables.find(t => t && rightNames.includes(t));
+        if (leftTable) left = leftTable;
+        if (rightTable) right = rightTable;
+      }
+
+      logical.joins.push({ joinType: attr(relation, "join") ?? "inner", left, right, clauses });
+      return [...leftNames, ...rightNames];
+    }
+
+    default:
+      // Pivots and other wrappers nest the relations they transform
+      return children.flatMap(child => addRelation(child, logical));
+  }
+}
+
+/** Build a logical table from the relations behind it */
+function buildLogicalTable(id: string, caption: string | undefined, relations: Record<string, unknown>[]): LogicalTable {
+  const logical: LogicalTable = { id, caption: caption ?? id, tables: [], joins: [], unions: [] };
+  const names = relations.flatMap(relation => addRelation(relation, logical));
+  if (!caption && names.length > 0) logical.caption = names[0];
+  return logical;
+}
+
+/**
+ * Read the logical tables and relationships of a data source
+ *
+ * Workbooks with an object graph list each logical table (object) with its
+ * physical relations, and the relationships between them. Older workbooks
+ * have one relation tree, which is a single logical table.
+ */
+function parseLogicalLayer(
+  dsObj: Record<string, unknown>,
+  connection: Record<string, unknown> | undefined
+): { hasLogicalLayer: boolean; logicalTables: LogicalTable[]; relationships: Relationship[] } {
+  const objectGraph = getFlaggedElements(dsObj, "object-graph")[0];
+
+  if (!objectGraph) {
+    const roots = connection ? getFlaggedElements(connection, "relation") : [];
+    if (roots.length === 0) {
+      return { hasLogicalLayer: false, logicalTables: [], relationships: [] };
+    }
+    // A collection lists independent tables; anything else is one tree
+    const root = roots[0];
+    const logicalTables = attr(root, "type") === "collection"
+      ? getFlaggedElements(root, "relation").map(rel => buildLogicalTable(attr(rel, "name") ?? "", undefined, [rel]))
+      : [buildLogicalTable(attr(root, "name") ?? "", undefined, [root])];
+    return { hasLogicalLayer: false, logicalTables, relationships: [] };
+  }
+
+  const objects = getFlaggedElements((objectGraph["objects"] as Record<string, unknown>) ?? {}, "object");
+  const logicalTables = objects.map(object => {
+    const properties = ensureArray(object["properties"])
+      .filter((p): p is Record<string, unknown> => !!p && typeof p === "object");
+    // Objects keep one set of properties per context; the default context is ''
+    const defaultProperties = properties.find(p => !attr(p, "context")) ?? properties[0] ?? {};
+    return buildLogicalTable(attr(object, "id") ?? "", attr(object, "caption"), getFlaggedElements(defaultProperties, "relation"));
+  });
+
+  const captionOf = (id: string | undefined) => logicalTables.find(t => t.id === id)?.caption ?? id ?? "";
+  const relationships = getFlaggedElements((objectGraph["relationships"] as Record<string, unknown>) ?? {}, "relationship")
+    .map(relationship => {
+      const first = relationship["first-end-point"] as Record<string, unknown> | undefined;
+      const second = relationship["second-end-point"] as Record<string, unknown> | undefined;
+      return {
+        from: captionOf(attr(first, "object-id")),
+        to: captionOf(attr(second, "object-id")),
+        clauses: expressionToClauses(relationship["expression"] as Record<string, unknown> | undefined),
+        cardinality: {
+          from: attr(first, "unique-key") === "true" ? "one" as const : "many" as const,
+          to: attr(second, "unique-key") === "true" ? "one" as const : "many" as const
+        }
+      };
+    });
+
+  return { hasLogicalLayer: true, logicalTables, relationships };
+}
+
+/** Read the connections of a data source, expanding federated connections */
+function parseConnections(connection: Record<string, unknown> | undefined): Connection[] {
+  if (!connection) return [];
+
+  const toConnection = (name: string, caption: string | undefined, conn: Record<string, unknown>): Connection => ({
+    name,
+    caption,
+    class: attr(conn, "class") ?? "unknown",
+    server: attr(conn, "server"),
+    database: attr(conn, "dbname"),
+    schema: attr(conn, "schema"),
+    filename: attr(conn, "filename")
+  });
+
+  const named = (connection["named-connections"] as Record<string, unknown> | undefined)?.["named-connection"];
+  const connections = ensureArray(named)
+    .filter((nc): nc is Record<string, unknown> => !!nc && typeof nc === "object")
+    .filter(nc => !!nc["connection"])
+    .map(nc => toConnection(attr(nc, "name") ?? "", attr(nc, "caption"), nc["connection"] as Record<string, unknown>));
+
+  return connections.length > 0 ? connections : [toConnection(attr(connection, "class") ?? "", undefined, connection)];
+}
+
+/** Parse the filter elements of a data source or extract */
+function parseFilters(filters: unknown, datasource: string): DataModelFilter[] {
+  return ensureArray(filters)
+    .filter((f): f is Record<string, unknown> => !!f && typeof f === "object")
+    .map(f => parseFilterElement(f, datasource));
+}
+
+/**
+ * Read a data source's extract settings
+ *
+ * count/units on the extract element limit it to the top N rows ("records")
+ * or a sample ("percent"); -1 keeps all rows.
+ */
+function parseExtract(dsObj: Record<string, unknown>, name: string): ExtractSettings | null {
+  const extract = dsObj["extract"] as Record<string, unknown> | undefined;
+  if (!extract) return null;
+
+  const connection = extract["connection"] as Record<string, unknown> | undefined;
+  const refresh = connection?.["refresh"] as Record<string, unknown> | undefined;
+  const count = Number(attr(extract, "count") ?? -1);
+  const units = attr(extract, "units");
+
+  return {
+    enabled: attr(extract, "enabled") === "true",
+    rowLimit: units === "records" && count > 0 ? count : null,
+    samplePercent: units === "percent" && count > 0 ? count : null,
+    incremental: attr(refresh, "incremental-updates") === "true",
+    incrementKey: attr(refresh, "increment-key"),
+    filters: [...parseFilters(extract["filter"], name), ...parseFilters(connection?.["filter"], name)]
+  };
+}
+
+/**
+ * Collect the dimension names of a data source, the fields blends link on
+ * when no custom mapping is set
+ */
+function collectDimensions(dsObj: Record<string, unknown>): string[] {
+  const dimensions = new Map<string, boolean>();
+
+  for (const col of ensureArray(dsObj["column"])) {
+    if (!col || typeof col !== "object") continue;
+    const colObj = col as Record<string, unknown>;
+    const name = stripBrackets(attr(colObj, "name") ?? "");
+    if (!name || name.startsWith(":")) continue;
+    dimensions.set(attr(colObj, "caption") ?? name, attr(colObj, "role") === "dimension");
+  }
+
+  const connection = dsObj["connection"] as Record<string, unknown> | undefined;
+  const records = (connection?.["metadata-records"] as Record<string, unknown> | undefined)?.["metadata-record"];
+  for (const record of ensureArray(records)) {
+    if (!record || typeof record !== "object") continue;
+    const recordObj = record as Record<string, unknown>;
+    if (attr(recordObj, "class") !== "column") continue;
+    const name = stripBrackets(String(recordObj["local-name"] ?? ""));
+    if (name && !dimensions.has(name)) {
+      dimensions.set(name, DIMENSION_TYPES.has(String(recordObj["local-type"] ?? "")));
+    }
+  }
+
+  return Array.from(dimensions).filter(([, isDimension]) => isDimension).map(([name]) => name);
+}
+
+/**
+ * Find the blends worksheets make between data sources
+ *
+ * A worksheet using more than one data source blends the first (primary)
+ * with each of the others. Blends link on the custom mappings from
+ * Data > Edit Blend Relationships where set, otherwise on dimensions with
+ * the same name in both data sources.
+ */
+function parseBlends(workbook: Record<string, unknown>, dsObjects: Record<string, unknown>[]): BlendLink[] {
+  const captions = new Map(dsObjects.map(ds => [attr(ds, "name") ?? "", attr(ds, "caption") ?? attr(ds, "name") ?? ""]));
+  const byName = new Map(dsObjects.map(ds => [attr(ds, "name") ?? "", ds]));
+
+  // Custom mappings, as [source, target] field pairs per data source pair
+  const mappings: { source: string; target: string; fields: [string, string][] }[] = [];
+  const relationshipsEl = (workbook["datasource-relationships"] ?? (workbook["datasources"] as Record<string, unknown> | undefined)?.["datasource-relationships"]) as Record<string, unknown> | undefined;
+  for (const rel of ensureArray(relationshipsEl?.["datasource-relationship"])) {
+    if (!rel || typeof rel !== "object") continue;
+    const relObj = rel as Record<string, unknown>;
+    const source = stripBrackets(attr(relObj, "source") ?? "");
+    const target = stripBrackets(attr(relObj, "target") ?? "");
+    const maps = ensureArray((relObj["column-mapping"] as Record<string, unknown> | undefined)?.["map"])
+      .filter((m): m is Record<string, unknown> => !!m && typeof m === "object");
+
+    const fields = maps.map((m): [string, string] => {
+      const key = parseFieldReference(attr(m, "key") ?? "");
+      const value = parseFieldReference(attr(m, "value") ?? "");
+      // Keys are fields of the source unless qualified otherwise
+      return key.datasource === target || value.datasource === source
+        ? [value.fieldName, key.fieldName]
+        : [key.fieldName, value.fieldName];
+    });
+    mappings.push({ source, target, fields });
+  }
+
+  const blends = new Map<string, BlendLink>();
+  const worksheets = (workbook["worksheets"] as Record<string, unknown> | undefined)?.["worksheet"];
+
+  for (const ws of ensureArray(worksheets)) {
+    if (!ws || typeof ws !== "object") continue;
+    const wsObj = ws as Record<string, unknown>;
+    const view = (wsObj["table"] as Record<string, unknown> | undefined)?.["view"] as Record<string, unknown> | undefined;
+    const used = ensureArray((view?.["datasources"] as Record<string, unknown> | undefined)?.["datasource"])
+      .map(d => (d && typeof d === "object" ? attr(d as Record<string, unknown>, "name") ?? "" : ""))
+      .filter(name => name && name !== "Parameters");
+    if (used.length < 2) continue;
+
+    const [primary, ...secondaries] = used;
+    for (const secondary of secondaries) {
+      const key = `${primary}\u0000${secondary}`;
+      let blend = blends.get(key);
+      if (!blend) {
+        blend = {
+          primary: captions.get(primary) ?? primary,
+          secondary: captions.get(secondary) ?? secondary,
+          linkFields: [],
+          linkSource: "none",
+          worksheets: []
+        };
+
+        const mapping = mappings.find(m =>
+          (m.source === primary && m.target === secondary) || (m.source === secondary && m.target === primary));
+        if (mapping && mapping.fields.length > 0) {
+          blend.linkSource = "custom-mapping";
+          blend.linkFields = mapping.fields.map(([source, target]) => mapping.source === primary
+            ? { primary: source, secondary: target }
+            : { primary: target, secondary: source });
+        } else {
+          const primaryDs = byName.get(primary);
+          const secondaryDs = byName.get(secondary);
+          const secondaryDimensions = new Set(secondaryDs ? collectDimensions(secondaryDs) : []);
+          const common = (primaryDs ? collectDimensions(primaryDs) : []).filter(name => secondaryDimensions.has(name));
+          if (common.length > 0) {
+            blend.linkSource = "same-name";
+            blend.linkFields = common.map(name => ({ primary: name, secondary: name }));
+          }
+        }
+        blends.set(key, blend);
+      }
+      blend.worksheets.push(attr(wsObj, "name") ?? "");
+    }
+  }
+
+  return Array.from(blends.values());
+}
+
+/**
+ * Reconstruct the data model of every data source in a workbook
+ *
+ * @param workbook - Parsed workbook element
+ * @returns Data source models (Parameters excluded) and blends between them
+ */
+export function parseDataModel(workbook: Record<string, unknown>): WorkbookDataModel {
+  const datasources = (workbook["datasources"] as Record<string, unknown> | undefined)?.["datasource"];
+  const dsObjects = ensureArray(datasources)
+    .filter((ds): ds is Record<string, unknown> => !!ds && typeof ds === "object" && attr(ds as Record<string, unknown>, "name") !== "Parameters");
+
+  const dataSources: DataSourceModel[] = dsObjects.map(dsObj => {
+    const name = attr(dsObj, "name") ?? "";
+    const connection = dsObj["connection"] as Record<string, unknown> | undefined;
+    return {
+      name,
+      caption: attr(dsObj, "caption") ?? name,
+      connections: parseConnections(connection),
+      ...parseLogicalLayer(dsObj, connection),
+      filters: parseFilters(dsObj["filter"], name),
+      extract: parseExtract(dsObj, name)
+    };
+  });
+
+  return { dataSources, blends: parseBlends(workbook, dsObjects) };
+}
@@ -0,0 +1,209 @@
+/**
+ * Data Model Diagrams
+ *
+ * Renders a workbook data model as a Mermaid flowchart or a Graphviz DOT
+ * graph: one box per data source, holding its logical tables joined by
+ * relationships, with the physical joins of multi-table logical tables
+ * nested inside them. Blends are dashed edges between data sources.
+ */
+
+import { LogicalTable, WorkbookDataModel } from "./types.js";
+
+/** A node in the diagram */
+interface DiagramNode {
+  id: string;
+  label: string;
+}
+
+/** A box grouping nodes: a data source, or a logical table with several physical tables */
+interface DiagramGroup {
+  id: string;
+  label: string;
+  nodes: DiagramNode[];
+  groups: DiagramGroup[];
+}
+
+/** An edge between nodes, or between groups for blends */
+interface DiagramEdge {
+  from: string;
+  to: string;
+  label: string;
+  kind: "relationship" | "join" | "blend";
+}
+
+/** Renderer-independent form of a diagram */
+interface Diagram {
+  groups: DiagramGroup[];
+  edges: DiagramEdge[];
+}
+
+/** Add the physical tables and joins of a logical table */
+function addLogicalTable(logical: LogicalTable, id: string, group: DiagramGroup, edges: DiagramEdge[]): string {
+  // Union members are drawn as their union
+  const nodeIds = new Map<string, string>();
+  const nodes: DiagramNode[] = [];
+  const addNode = (name: string, label: string) => {
+    if (nodeIds.has(name)) return;
+    const nodeId = `${id}_${nodes.length}`;
+    nodeIds.set(name, nodeId);
+    nodes.push({ id: nodeId, label });
+  };
+
+  for (const table of logical.tables) {
+    if (table.union) {
+      const union = logical.unions.find(u => u.name === table.union);
+      addNode(table.union, `${table.union}\nunion of ${union?.tables.join(", ") ?? table.name}`);
+    } else {
+      addNode(table.name, table.type === "custom-sql" ? `${table.name}\n(custom SQL)` : table.name);
+    }
+  }
+
+  if (nodes.length <= 1) {
+    // A single table is drawn as the logical table, captioned if renamed
+    const [name] = nodeIds.keys();
+    const label = !nodes[0] ? logical.caption
+      : name === logical.caption ? nodes[0].label
+      : `${logical.caption}\n${nodes[0].label}`;
+    group.nodes.push({ id, label });
+    return id;
+  }
+
+  group.groups.push({ id, label: logical.caption, nodes, groups: [] });
+  for (const join of logical.joins) {
+    const from = nodeIds.get(join.left);
+    const to = nodeIds.get(join.right);
+    if (from && to) {
+      edges.push({ from, to, label: [`${join.joinType} join`, ...join.clauses.map(c => c.expression)].join("\n"), kind: "join" });
+    }
+  }
+  // Relationships end at the logical table; link them to its first physical table
+  return nodes[0].id;
+}
+
+/** Lay out a data model as groups, nodes and edges */
+function buildDiagram(model: WorkbookDataModel): Diagram {
+  const groups: DiagramGroup[] = [];
+  const edges: DiagramEdge[] = [];
+  const groupIds = new Map<string, string>();
+
+  model.dataSources.forEach((ds, dsIndex) => {
+    const group: DiagramGroup = { id: `ds${dsIndex}`, label: ds.caption, nodes: [], groups: [] };
+    groups.push(group);
+    groupIds.set(ds.caption, group.id);
+
+    const tableIds = new Map<string, string>();
+    ds.logicalTables.forEach((logical, tableIndex) => {
+      tableIds.set(logical.caption, addLogicalTable(logical, `${group.id}_t${tableIndex}`, group, edges));
+    });
+
+    for (const relationship of ds.relationships) {
+      const from = tableIds.get(relationship.from);
+      const to = tableIds.get(relationship.to);
+      if (from && to) {
+        const cardinality = `${relationship.cardinality.from} : ${relationship.cardinality.to}`;
+        edges.push({ from, to, label: [...relationship.clauses.map(c => c.expression), cardinality].join("\n"), kind: "relationship" });
+      }
+    }
+
+    // Clusters can't be empty
+    if (group.nodes.length === 0 && group.groups.length === 0) {
+      group.nodes.push({ id: `${group.id}_empty`, label: "(no tables)" });
+    }
+  });
+
+  for (const blend of model.blends) {
+    const from = groupIds.get(blend.primary);
+    const to = groupIds.get(blend.secondary);
+    if (from && to) {
+      const fields = blend.linkFields.map(f => f.primary === f.secondary ? f.primary : `${f.primary} = ${f.secondary}`);
+      edges.push({ from, to, label: ["blend", ...fields].join("\n"), kind: "blend" });
+    }
+  }
+
+  return { groups, edges };
+}
+
+/** Escape text for a quoted Mermaid label */
+function mermaidText(text: string): string {
+  return text
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/\|/g, "#124;")
+    .replace(/\n/g, "<br/>");
+}
+
+/**
+ * Render a data model as a Mermaid flowchart
+ */
+export function toMermaid(model: WorkbookDataModel): string {
+  const { groups, edges } = buildDiagram(model);
+  const lines = ["flowchart LR"];
+
+  const renderGroup = (group: DiagramGroup, indent: string): void => {
+    lines.push(`${indent}subgraph ${group.id}["${mermaidText(group.label)}"]`);
+    for (const node of group.nodes) {
+      lines.push(`${indent}  ${node.id}["${mermaidText(node.label)}"]`);
+    }
+    group.groups.forEach(child => renderGroup(child, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+  groups.forEach(group => renderGroup(group, "  "));
+
+  const arrows = { relationship: "---", join: "-->", blend: "-.->" };
+  for (const edge of edges) {
+    lines.push(`  ${edge.from} ${arrows[edge.kind]}|"${mermaidText(edge.label)}"| ${edge.to}`);
+  }
+
+  return lines.join("\n");
+}
+
+/** Escape text for a quoted DOT string */
+function dotText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+}
+
+/**
+ * Render a data model as a Graphviz DOT graph
+ */
+export function toDot(model: WorkbookDataModel): string {
+  const { groups, edges } = buildDiagram(model);
+  const lines = [
+    "digraph DataModel {",
+    "  rankdir=LR;",
+    "  compound=true;",
+    "  node [shape=box];"
+  ];
+
+  // Blend edges run between clusters, drawn from and to a node inside each
+  const anchors = new Map<string, string>();
+  const firstNode = (group: DiagramGroup): string =>
+    group.nodes[0]?.id ?? firstNode(group.groups[0]);
+
+  const renderGroup = (group: DiagramGroup, indent: string): void => {
+    anchors.set(group.id, firstNode(group));
+    lines.push(`${indent}subgraph cluster_${group.id} {`);
+    lines.push(`${indent}  label="${dotText(group.label)}";`);
+    for (const node of group.nodes) {
+      lines.push(`${indent}  ${node.id} [label="${dotText(node.label)}"];`);
+    }
+    group.groups.forEach(child => renderGroup(child, `${indent}  `));
+    lines.push(`${indent}}`);
+  };
+  groups.forEach(group => renderGroup(group, "  "));
+
+  for (const edge of edges) {
+    const label = `label="${dotText(edge.label)}"`;
+    if (edge.kind === "blend") {
+      lines.push(`  ${anchors.get(edge.from)} -> ${anchors.get(edge.to)} ` +
+        `[${label}, style=dashed, ltail=cluster_${edge.from}, lhead=cluster_${edge.to}];`);
+    } else if (edge.kind === "relationship") {
+      lines.push(`  ${edge.from} -> ${edge.to} [${label}, dir=none];`);
+    } else {
+      lines.push(`  ${edge.from} -> ${edge.to} [${label}];`);
+    }
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
@@ -0,0 +1,238 @@
+/**
+ * Get TWBX Data Model Tool
+ *
+ * Reconstructs how each data source in a Tableau workbook is built:
+ * logical tables and their relationships, the physical joins (with join
+ * clauses), unions and custom SQL behind them, data source and extract
+ * filters, and the blends between data sources, with a Mermaid or DOT
+ * diagram of the whole model.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { parseDataModel } from "./dataModel.js";
+import { toDot, toMermaid } from "./diagram.js";
+import { blendLinkSchema, dataSourceModelSchema, WorkbookDataModel } from "./types.js";
+
+/**
+ * Parameter schema for getTwbxDataModel tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  datasource: z.string()
+    .optional()
+    .describe("Only model the data source with this name or caption (default: all data sources)"),
+  diagramFormat: z.enum(["mermaid", "dot", "both", "none"])
+    .optional()
+    .default("both")
+    .describe("Diagram to include: mermaid, dot, both or none (default: both)")
+});
+
+type GetTwbxDataModelParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Structured output schema for getTwbxDataModel tool
+ */
+const outputSchema = z.object({
+  success: z.literal(true),
+  sourceFile: z.string(),
+  summary: z.object({
+    dataSourceCount: z.number(),
+    logicalTableCount: z.number(),
+    relationshipCount: z.number(),
+    physicalTableCount: z.number(),
+    joinCount: z.number(),
+    unionCount: z.number(),
+    customSqlCount: z.number(),
+    dataSourceFilterCount: z.number(),
+    extractCount: z.number(),
+    blendCount: z.number()
+  }),
+  dataSources: z.array(dataSourceModelSchema),
+  blends: z.array(blendLinkSchema),
+  diagrams: z.object({
+    mermaid: z.string().optional(),
+    dot: z.string().optional()
+  })
+});
+
+type GetTwbxDataModelResult = z.infer<typeof outputSchema>;
+
+/**
+ * Keep only the named data source, and the blends it takes part in
+ */
+function filterDataModel(model: WorkbookDataModel, datasource: string): WorkbookDataModel {
+  const wanted = datasource.toLowerCase();
+  const dataSources = model.dataSources.filter(ds =>
+    ds.name.toLowerCase() === wanted || ds.caption.toLowerCase() === wanted);
+  const captions = new Set(dataSources.map(ds => ds.caption));
+  return {
+    dataSources,
+    blends: model.blends.filter(b => captions.has(b.primary) || captions.has(b.secondary))
+  };
+}
+
+/**
+ * Factory function to create the getTwbxDataModel tool
+ *
+ * This tool reconstructs a workbook's data model:
+ * 1. Reads logical tables and relationships from each data source's object graph
+ * 2. Walks the physical joins, unions and custom SQL behind each logical table
+ * 3. Collects connections, data source filters and extract settings
+ * 4. Finds blends from worksheets that use more than one data source
+ * 5. Renders the model as Mermaid and/or DOT
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ */
+export function getTwbxDataModelTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "get_twbx_data_model",
+    description: "Reconstructs the data model of each data source in a Tableau workbook (.twb file): logical " +
+      "tables and the relationships between them (with cardinality), the physical joins (type and join " +
+      "clauses), unions and custom SQL text behind each logical table, connections, data source filters, " +
+      "extract settings and filters, and blends between data sources with their linking fields. " +
+      "Includes a Mermaid and/or Graphviz DOT diagram of the model. " +
+      "Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Get TWBX Data Model",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: GetTwbxDataModelParams): Promise<Ok<CallToolResult>> => {
+      const { twbFilePath, datasource, diagramFormat = "both" } = args;
+
+      try {
+        console.error(`[get_twbx_data_model] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        let model = parseDataModel(workbook);
+
+        if (datasource) {
+          const available = model.dataSources.map(ds => ds.caption);
+          model = filterDataModel(model, datasource);
+          if (model.dataSources.length === 0) {
+            return createErrorResult(
+              "Data source not found",
+              {
+                twbFilePath,
+                datasource,
+                availableDataSources: available,
+                suggestion: "Use one of the available data source names or captions"
+              }
+            );
+          }
+        }
+
+        const logicalTables = model.dataSources.flatMap(ds => ds.logicalTables);
+        const physicalTables = logicalTables.flatMap(t => t.tables);
+
+        const result: GetTwbxDataModelResult = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            dataSourceCount: model.dataSources.length,
+            logicalTableCount: logicalTables.length,
+            relationshipCount: model.dataSources.reduce((sum, ds) => sum + ds.relationships.length, 0),
+            physicalTableCount: physicalTables.length,
+            joinCount: logicalTables.reduce((sum, t) => sum + t.joins.length, 0),
+            unionCount: logicalTables.reduce((sum, t) => sum + t.unions.length, 0),
+            customSqlCount: physicalTables.filter(t => t.type === "custom-sql").length,
+            dataSourceFilterCount: model.dataSources.reduce((sum, ds) => sum + ds.filters.length, 0),
+            extractCount: model.dataSources.filter(ds => ds.extract?.enabled).length,
+            blendCount: model.blends.length
+          },
+          dataSources: model.dataSources,
+          blends: model.blends,
+          diagrams: {}
+        };
+
+        if (diagramFormat === "mermaid" || diagramFormat === "both") {
+          result.diagrams.mermaid = toMermaid(model);
+        }
+        if (diagramFormat === "dot" || diagramFormat === "both") {
+          result.diagrams.dot = toDot(model);
+        }
+
+        console.error(`[get_twbx_data_model] Modeled ${model.dataSources.length} data sources, ` +
+          `${logicalTables.length} logical tables`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error building TWBX data model",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
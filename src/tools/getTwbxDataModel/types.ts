@@ -0,0 +1,178 @@
+/**
+ * Type definitions for TWBX Data Model tool
+ *
+ * Each type is inferred from a Zod schema so the same definitions back
+ * the tool's advertised outputSchema.
+ */
+
+import { z } from "zod";
+
+/**
+ * One condition of a join or relationship (e.g. [Orders].[Region] = [People].[Region])
+ *
+ * left/operator/right are set for simple comparisons; other conditions
+ * only have their expression text.
+ */
+export const joinClauseSchema = z.object({
+  expression: z.string(),
+  left: z.string().optional(),
+  operator: z.string().optional(),
+  right: z.string().optional()
+});
+
+export type JoinClause = z.infer<typeof joinClauseSchema>;
+
+/**
+ * A database table or custom SQL query in the physical layer
+ */
+export const physicalTableSchema = z.object({
+  name: z.string(),
+  type: z.enum(["table", "custom-sql"]),
+  table: z.string().optional(),
+  sql: z.string().optional(),
+  connection: z.string().nullable(),
+  union: z.string().optional()
+});
+
+export type PhysicalTable = z.infer<typeof physicalTableSchema>;
+
+/**
+ * A physical join between two tables (or unions) of a logical table
+ */
+export const physicalJoinSchema = z.object({
+  joinType: z.string(),
+  left: z.string(),
+  right: z.string(),
+  clauses: z.array(joinClauseSchema)
+});
+
+export type PhysicalJoin = z.infer<typeof physicalJoinSchema>;
+
+/**
+ * A union of tables, shown in Tableau as a single table
+ */
+export const physicalUnionSchema = z.object({
+  name: z.string(),
+  tables: z.array(z.string())
+});
+
+export type PhysicalUnion = z.infer<typeof physicalUnionSchema>;
+
+/**
+ * A logical table: an object in the relationship canvas, made of one
+ * table or custom SQL query, or of physical joins and unions
+ */
+export const logicalTableSchema = z.object({
+  id: z.string(),
+  caption: z.string(),
+  tables: z.array(physicalTableSchema),
+  joins: z.array(physicalJoinSchema),
+  unions: z.array(physicalUnionSchema)
+});
+
+export type LogicalTable = z.infer<typeof logicalTableSchema>;
+
+/**
+ * A relationship (noodle) between two logical tables
+ */
+export const relationshipSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  clauses: z.array(joinClauseSchema),
+  cardinality: z.object({
+    from: z.enum(["one", "many"]),
+    to: z.enum(["one", "many"])
+  })
+});
+
+export type Relationship = z.infer<typeof relationshipSchema>;
+
+/**
+ * A connection a data source reads from
+ */
+export const connectionSchema = z.object({
+  name: z.string(),
+  caption: z.string().optional(),
+  class: z.string(),
+  server: z.string().optional(),
+  database: z.string().optional(),
+  schema: z.string().optional(),
+  filename: z.string().optional()
+});
+
+export type Connection = z.infer<typeof connectionSchema>;
+
+/**
+ * A data source or extract filter
+ */
+export const filterSchema = z.object({
+  column: z.string(),
+  filterClass: z.string(),
+  datasource: z.string(),
+  mode: z.enum(["include", "exclude", "all", "range", "relative-date", "condition"]),
+  members: z.array(z.string()),
+  range: z.object({ min: z.string().nullable(), max: z.string().nullable() }).nullable(),
+  relativeDate: z.object({
+    periodType: z.string(),
+    firstPeriod: z.number(),
+    lastPeriod: z.number()
+  }).nullable(),
+  condition: z.string().nullable(),
+  isContext: z.boolean()
+});
+
+export type DataModelFilter = z.infer<typeof filterSchema>;
+
+/**
+ * Extract settings of a data source
+ */
+export const extractSchema = z.object({
+  enabled: z.boolean(),
+  rowLimit: z.number().nullable(),
+  samplePercent: z.number().nullable(),
+  incremental: z.boolean(),
+  incrementKey: z.string().optional(),
+  filters: z.array(filterSchema)
+});
+
+export type ExtractSettings = z.infer<typeof extractSchema>;
+
+/**
+ * Full model of one data source
+ */
+export const dataSourceModelSchema = z.object({
+  name: z.string(),
+  caption: z.string(),
+  connections: z.array(connectionSchema),
+  hasLogicalLayer: z.boolean(),
+  logicalTables: z.array(logicalTableSchema),
+  relationships: z.array(relationshipSchema),
+  filters: z.array(filterSchema),
+  extract: extractSchema.nullable()
+});
+
+export type DataSourceModel = z.infer<typeof dataSourceModelSchema>;
+
+/**
+ * A blend between a worksheet's primary and a secondary data source
+ */
+export const blendLinkSchema = z.object({
+  primary: z.string(),
+  secondary: z.string(),
+  linkFields: z.array(z.object({
+    primary: z.string(),
+    secondary: z.string()
+  })),
+  linkSource: z.enum(["custom-mapping", "same-name", "none"]),
+  worksheets: z.array(z.string())
+});
+
+export type BlendLink = z.infer<typeof blendLinkSchema>;
+
+/**
+ * Data model of a workbook
+ */
+export interface WorkbookDataModel {
+  dataSources: DataSourceModel[];
+  blends: BlendLink[];
+}
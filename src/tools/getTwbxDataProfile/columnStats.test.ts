@@ -0,0 +1,70 @@
+/**
+ * Tests for column statistics
+ */
+
+import { describe, it, expect } from "vitest";
+import { ColumnAccumulator, TableAccumulator, classifyValue } from "./columnStats.js";
+
+describe("classifyValue", () => {
+  it("should detect types from text and treat null tokens as missing", () => {
+    expect(classifyValue("42")).toEqual({ type: "integer", value: 42 });
+    expect(classifyValue("-1.5e3")).toEqual({ type: "number", value: -1500 });
+    expect(classifyValue("TRUE")).toEqual({ type: "boolean", value: true });
+    expect(classifyValue("1/31/2024")).toEqual({ type: "date", value: new Date("2024-01-31T00:00:00Z") });
+    expect(classifyValue("2024-01-31")).toEqual({ type: "date", value: new Date("2024-01-31T00:00:00Z") });
+    expect(classifyValue("East")).toEqual({ type: "string", value: "East" });
+    expect(classifyValue("0")).toEqual({ type: "integer", value: 0 });
+    expect(classifyValue("0.25")).toEqual({ type: "number", value: 0.25 });
+    expect(classifyValue("N/A")).toBeNull();
+    expect(classifyValue("")).toBeNull();
+  });
+
+  it("should keep digits with leading zeros and unsafe integers as strings", () => {
+    expect(classifyValue("02134")).toEqual({ type: "string", value: "02134" });
+    expect(classifyValue("00123.5")).toEqual({ type: "string", value: "00123.5" });
+    expect(classifyValue("12345678901234567890")).toEqual({ type: "string", value: "12345678901234567890" });
+  });
+});
+
+describe("ColumnAccumulator", () => {
+  it("should compute numeric statistics and top values", () => {
+    const column = new ColumnAccumulator("Sales", 2);
+    for (const value of ["10", "20", "20", "30.5", "", "40"]) {
+      column.add(value);
+    }
+
+    expect(column.finish()).toMatchObject({
+      inferredType: "number",
+      count: 5,
+      nullCount: 1,
+      distinctCount: 4,
+      topValues: [{ value: "20", count: 2 }, { value: "10", count: 1 }],
+      numeric: { min: 10, max: 40, mean: 24.1, quantiles: { p25: 20, p50: 20, p75: 30.5 } }
+    });
+  });
+
+  it("should report mixed columns with their type counts", () => {
+    const column = new ColumnAccumulator("Code", 5);
+    for (const value of ["A1", "7", "2024-05-01", "B2"]) {
+      column.add(value);
+    }
+
+    const profile = column.finish();
+    expect(profile.inferredType).toBe("mixed");
+    expect(profile.typeCounts).toEqual({ string: 2, integer: 1, date: 1 });
+    expect(profile.dateRange).toEqual({ min: "2024-05-01T00:00:00.000Z", max: "2024-05-01T00:00:00.000Z" });
+  });
+});
+
+describe("TableAccumulator", () => {
+  it("should keep typed sample rows up to the limit", () => {
+    const table = new TableAccumulator(["Region", "Sales"], { maxRows: 100, sampleRows: 1, topValues: 3 });
+    table.addRow(["East", "12"]);
+    table.addRow(["West"]);
+
+    const { columnProfiles, sampleRows } = table.finish();
+    expect(table.rowCount).toBe(2);
+    expect(sampleRows).toEqual([{ Region: "East", Sales: 12 }]);
+    expect(columnProfiles[1]).toMatchObject({ count: 1, nullCount: 1, nullPercent: 50 });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Column Statistics
+ *
+ * Accumulates per-column statistics one value at a time, so profilers can
+ * stream rows instead of loading whole files. Values arrive either as text
+ * (CSV) or already typed (Excel cells), and each is classified as an
+ * integer, number, boolean, date or string.
+ */
+
+import { ColumnProfile, ColumnType, SampleValue } from "./types.js";
+
+/** Distinct values tracked per column before counting stops */
+const MAX_TRACKED_VALUES = 10000;
+
+/** Text treated as a missing value */
+const NULL_TOKENS = new Set(["", "null", "NULL", "Null", "N/A", "n/a", "#N/A", "NaN"]);
+
+/** ISO dates with an optional time, e.g. 2024-01-31 or 2024-01-31T10:30:00 */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** US-style dates as Tableau exports them, e.g. 1/31/2024 or 1/31/2024 10:30:00 AM */
+const US_DATE_PATTERN = /^\d{1,2}\/\d{1,2}\/\d{4}( \d{1,2}:\d{2}(:\d{2})?( [AP]M)?)?$/i;
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+/** Digits after a leading zero, e.g. 02134: ZIP codes and IDs, kept as text */
+const LEADING_ZERO_PATTERN = /^[-+]?0\d/;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * A value with its detected type
+ */
+type ClassifiedValue =
+  | { type: "integer" | "number"; value: number }
+  | { type: "boolean"; value: boolean }
+  | { type: "date"; value: Date }
+  | { type: "string"; value: string };
+
+/**
+ * Limits applied while profiling a data file
+ */
+export interface ProfileOptions {
+  /** Maximum data rows to read per file or sheet */
+  maxRows: number;
+  /** Number of rows to return as samples */
+  sampleRows: number;
+  /** Number of most frequent values to report per column */
+  topValues: number;
+}
+
+/**
+ * Classify a raw value, or return null for a missing one
+ *
+ * Strings are parsed as numbers, booleans and dates where they match;
+ * typed values (numbers, Dates) are taken as they are. Digits with a
+ * leading zero, and integers too large to hold exactly, stay strings so
+ * codes and IDs keep their value.
+ */
+export function classifyValue(raw: unknown): ClassifiedValue | null {
+  if (raw === null || raw === undefined) return null;
+
+  if (typeof raw === "number") {
+    if (Number.isNaN(raw)) return null;
+    return { type: Number.isInteger(raw) ? "integer" : "number", value: raw };
+  }
+  if (typeof raw === "boolean") return { type: "boolean", value: raw };
+  if (raw instanceof Date) {
+    return Number.isNaN(raw.getTime()) ? null : { type: "date", value: raw };
+  }
+
+  const text = String(raw).trim();
+  if (NULL_TOKENS.has(text)) return null;
+
+  if (!LEADING_ZERO_PATTERN.test(text)) {
+    if (INTEGER_PATTERN.test(text)) {
+      const value = Number(text);
+      if (Number.isSafeInteger(value)) return { type: "integer", value };
+      return { type: "string", value: text };
+    }
+    if (NUMBER_PATTERN.test(text)) return { type: "number", value: Number(text) };
+  }
+
+  const lower = text.toLowerCase();
+  if (lower === "true" || lower === "false") return { type: "boolean", value: lower === "true" };
+
+  // Dates without a time zone are read as UTC so ranges don't depend on the host
+  const isoDate = ISO_DATE_PATTERN.test(text);
+  if (isoDate || US_DATE_PATTERN.test(text)) {
+    const date = new Date(isoDate ? (text.length === 10 ? `${text}T00:00:00Z` : text) : `${text} UTC`);
+    if (!Number.isNaN(date.getTime())) return { type: "date", value: date };
+  }
+
+  return { type: "string", value: text };
+}
+
+/**
+ * Convert a classified value to something JSON can hold
+ */
+export function toSampleValue(value: ClassifiedValue | null): SampleValue {
+  if (!value) return null;
+  return value.type === "date" ? value.value.toISOString() : value.value;
+}
+
+/**
+ * Get a quantile of sorted values by linear interpolation
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Round a statistic to a readable precision
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Receives the rows of a table as a reader streams them
+ */
+export interface RowSink {
+  addRow(values: unknown[]): void;
+}
+
+/**
+ * Accumulates statistics for one column
+ */
+export class ColumnAccumulator {
+  private count = 0;
+  private nullCount = 0;
+  private readonly typeCounts: Partial<Record<ColumnType, number>> = {};
+  private readonly valueCounts = new Map<string, number>();
+  private distinctCapped = false;
+
+  // Numbers: Welford's running mean and variance, plus the values for quantiles
+  private readonly numbers: number[] = [];
+  private mean = 0;
+  private sumOfSquares = 0;
+
+  private minDate: Date | null = null;
+  private maxDate: Date | null = null;
+  private minLength = Infinity;
+  private maxLength = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly topValues: number
+  ) {}
+
+  /**
+   * Add one value
+   *
+   * @returns The classified value, for building sample rows
+   */
+  add(raw: unknown): ClassifiedValue | null {
+    const value = classifyValue(raw);
+    if (!value) {
+      this.nullCount++;
+      return null;
+    }
+
+    this.count++;
+    this.typeCounts[value.type] = (this.typeCounts[value.type] ?? 0) + 1;
+    this.trackDistinct(String(toSampleValue(value)));
+
+    switch (value.type) {
+      case "integer":
+      case "number": {
+        this.numbers.push(value.value);
+        const delta = value.value - this.mean;
+        this.mean += delta / this.numbers.length;
+        this.sumOfSquares += delta * (value.value - this.mean);
+        break;
+      }
+      case "date":
+        if (!this.minDate || value.value < this.minDate) this.minDate = value.value;
+        if (!this.maxDate || value.value > this.maxDate) this.maxDate = value.value;
+        break;
+      case "string":
+        this.minLength = Math.min(this.minLength, value.value.length);
+        this.maxLength = Math.max(this.maxLength, value.value.length);
+        break;
+    }
+
+    return value;
+  }
+
+  private trackDistinct(key: string): void {
+    const existing = this.valueCounts.get(key);
+    if (existing !== undefined) {
+      this.valueCounts.set(key, existing + 1);
+    } else if (this.valueCounts.size < MAX_TRACKED_VALUES) {
+      this.valueCounts.set(key, 1);
+    } else {
+      this.distinctCapped = true;
+    }
+  }
+
+  /**
+   * Pick the column type: the single type seen, number for integers mixed
+   * with decimals, otherwise mixed
+   */
+  private inferType(): ColumnType {
+    const types = Object.keys(this.typeCounts) as ColumnType[];
+    if (types.length === 0) return "empty";
+    if (types.length === 1) return types[0];
+    if (types.every(t => t === "integer" || t === "number")) return "number";
+    return "mixed";
+  }
+
+  /**
+   * Build the column's profile
+   */
+  finish(): ColumnProfile {
+    const inferredType = this.inferType();
+    const total = this.count + this.nullCount;
+
+    const profile: ColumnProfile = {
+      name: this.name,
+      inferredType,
+      count: this.count,
+      nullCount: this.nullCount,
+      nullPercent: total > 0 ? round((this.nullCount / total) * 100) : 0,
+      distinctCount: this.valueCounts.size,
+      distinctCountCapped: this.distinctCapped || undefined,
+      topValues: Array.from(this.valueCounts, ([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+        .slice(0, this.topValues)
+    };
+
+    if (inferredType === "mixed") {
+      profile.typeCounts = this.typeCounts;
+    }
+
+    if (this.numbers.length > 0) {
+      const sorted = Float64Array.from(this.numbers).sort();
+      const values = Array.from(sorted);
+      profile.numeric = {
+        min: values[0],
+        max: values[values.length - 1],
+        mean: round(this.mean),
+        stdDev: values.length > 1 ? round(Math.sqrt(this.sumOfSquares / (values.length - 1))) : 0,
+        quantiles: {
+          p25: round(quantile(values, 0.25)),
+          p50: round(quantile(values, 0.5)),
+          p75: round(quantile(values, 0.75))
+        }
+      };
+    }
+
+    if (this.minDate && this.maxDate) {
+      profile.dateRange = {
+        min: this.minDate.toISOString(),
+        max: this.maxDate.toISOString()
+      };
+    }
+
+    if (this.maxLength > 0) {
+      profile.stringLength = { min: this.minLength, max: this.maxLength };
+    }
+
+    return profile;
+  }
+}
+
+/**
+ * Accumulates column statistics and sample rows for a table
+ */
+export class TableAccumulator implements RowSink {
+  private readonly columns: ColumnAccumulator[];
+  private readonly samples: Array<Record<string, SampleValue>> = [];
+  rowCount = 0;
+
+  constructor(
+    readonly headers: string[],
+    private readonly options: ProfileOptions
+  ) {
+    this.columns = headers.map(name => new ColumnAccumulator(name, options.topValues));
+  }
+
+  /**
+   * Add one row of values, in header order
+   */
+  addRow(values: unknown[]): void {
+    this.rowCount++;
+    const sample: Record<string, SampleValue> = {};
+    this.columns.forEach((column, i) => {
+      sample[this.headers[i]] = toSampleValue(column.add(values[i]));
+    });
+    if (this.samples.length < this.options.sampleRows) {
+      this.samples.push(sample);
+    }
+  }
+
+  /**
+   * Build the profile of every column and the sample rows
+   */
+  finish(): { columnProfiles: ColumnProfile[]; sampleRows: Array<Record<string, SampleValue>> } {
+    return {
+      columnProfiles: this.columns.map(c => c.finish()),
+      sampleRows: this.samples
+    };
+  }
+}
@@ -1,43 +1,100 @@
 /**
  * CSV Profiler
  *
- * Extracts column names from CSV files by parsing the header row.
+ * Streams CSV files row by row, collecting column statistics and sample
+ * rows up to a row limit so large extracts never load into memory at once.
+ * The row reader is shared with query_twbx_data.
  */
 
-import * as fs from "fs/promises";
+import * as fs from "fs";
 import * as path from "path";
 import Papa from "papaparse";
 import { CsvProfile } from "./types.js";
+import { ProfileOptions, RowSink, TableAccumulator } from "./columnStats.js";
 
 /**
- * Profile a CSV file to extract column names
+ * Name the header cells, filling in blanks by position
+ */
+function getHeaders(row: string[]): string[] {
+  return row.map((cell, i) => {
+    const name = (i === 0 ? cell.replace(/^\uFEFF/, "") : cell).trim();
+    return name || `Column_${i + 1}`;
+  });
+}
+
+/**
+ * Stream a CSV file's rows into a sink, stopping after the row limit
+ *
+ * The first row is taken as the header and used to create the sink.
  *
  * @param filePath - Path to the CSV file
- * @returns CsvProfile with column names, or null if parsing fails
+ * @param maxRows - Maximum data rows to read
+ * @param createSink - Creates the sink for the file's headers
+ * @returns The sink (null for an empty file), rows read and whether rows were left unread
  */
-export async function profileCsv(filePath: string): Promise<CsvProfile | null> {
-  try {
-    // Read only the first few lines to get the header
-    const content = await fs.readFile(filePath, "utf-8");
+export function readCsv<T extends RowSink>(
+  filePath: string,
+  maxRows: number,
+  createSink: (headers: string[]) => T
+): Promise<{ sink: T | null; rowCount: number; truncated: boolean }> {
+  return new Promise((resolve, reject) => {
+    let sink: T | null = null;
+    let rowCount = 0;
+    let truncated = false;
 
-    // Parse just enough to get headers
-    const result = Papa.parse(content, {
-      header: true,
-      preview: 1, // Only parse first data row to get headers
-      skipEmptyLines: true
+    const stream = fs.createReadStream(filePath, { encoding: "utf-8" });
+    stream.on("error", reject);
+
+    Papa.parse<string[]>(stream, {
+      header: false,
+      skipEmptyLines: true,
+      step: (results, parser) => {
+        if (!sink) {
+          sink = createSink(getHeaders(results.data));
+        } else if (rowCount < maxRows) {
+          sink.addRow(results.data);
+          rowCount++;
+        } else {
+          // A row past the limit: the file is only partly read
+          truncated = true;
+          parser.abort();
+          stream.destroy();
+        }
+      },
+      complete: () => resolve({ sink, rowCount, truncated }),
+      error: (error: Error) => reject(error)
     });
+  });
+}
 
-    if (result.errors.length > 0 && result.meta.fields?.length === 0) {
-      console.error(`[csvProfiler] Errors parsing ${filePath}:`, result.errors);
+/**
+ * Profile a CSV file's columns
+ *
+ * @param filePath - Path to the CSV file
+ * @param options - Row limit, sample size and top-N size
+ * @returns CsvProfile with column statistics, or null if parsing fails
+ */
+export async function profileCsv(filePath: string, options: ProfileOptions): Promise<CsvProfile | null> {
+  try {
+    const { sink: table, truncated } = await readCsv(
+      filePath,
+      options.maxRows,
+      headers => new TableAccumulator(headers, options)
+    );
+
+    if (!table) {
+      console.error(`[csvProfiler] No header row found in ${filePath}`);
       return null;
     }
 
-    const columns = result.meta.fields || [];
-
     return {
       fileName: path.basename(filePath),
       filePath,
-      columns
+      columns: table.headers,
+      rowsProfiled: table.rowCount,
+      totalRows: truncated ? undefined : table.rowCount,
+      truncated,
+      ...table.finish()
     };
   } catch (error) {
     console.error(`[csvProfiler] Failed to profile ${filePath}:`, error);
@@ -49,13 +106,14 @@ export async function profileCsv(filePath: string): Promise<CsvProfile | null> {
  * Profile multiple CSV files
  *
  * @param filePaths - Array of paths to CSV files
+ * @param options - Row limit, sample size and top-N size
  * @returns Array of CsvProfile objects
  */
-export async function profileCsvFiles(filePaths: string[]): Promise<CsvProfile[]> {
+export async function profileCsvFiles(filePaths: string[], options: ProfileOptions): Promise<CsvProfile[]> {
   const profiles: CsvProfile[] = [];
 
   for (const filePath of filePaths) {
-    const profile = await profileCsv(filePath);
+    const profile = await profileCsv(filePath, options);
     if (profile) {
       profiles.push(profile);
     }
@@ -0,0 +1,45 @@
+/**
+ * Tests for profiling Excel sheets
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import ExcelJS from "exceljs";
+import { profileExcel } from "./excelProfiler.js";
+
+describe("profileExcel", () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "excel-profile-"));
+    filePath = path.join(tempDir, "Orders.xlsx");
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Orders");
+    // B1 is left empty
+    sheet.getCell("A1").value = "Id";
+    sheet.getCell("C1").value = "Name";
+    sheet.addRow([1, "East", "Alice"]);
+    sheet.addRow([2, null, "Bob"]);
+    await workbook.xlsx.writeFile(filePath);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should name blank header cells by column letter and keep their data", async () => {
+    const profile = await profileExcel(filePath, { maxRows: 100, sampleRows: 5, topValues: 5 });
+    const [sheet] = profile!.sheets;
+
+    expect(sheet.columns).toEqual(["Id", "Column_B", "Name"]);
+    expect(sheet.columnProfiles.map(c => c.name)).toEqual(["Id", "Column_B", "Name"]);
+    expect(sheet.sampleRows).toEqual([
+      { Id: 1, Column_B: "East", Name: "Alice" },
+      { Id: 2, Column_B: null, Name: "Bob" }
+    ]);
+  });
+});
@@ -1,12 +1,15 @@
 /**
  * Excel Profiler
  *
- * Extracts sheet names and column names from Excel files.
+ * Streams Excel workbooks sheet by sheet, collecting column statistics and
+ * sample rows for each sheet. The first row of a sheet is its header.
+ * The sheet reader is shared with query_twbx_data.
  */
 
 import * as path from "path";
 import ExcelJS from "exceljs";
 import { ExcelProfile, ExcelSheet } from "./types.js";
+import { ProfileOptions, RowSink, TableAccumulator } from "./columnStats.js";
 
 /**
  * Convert column number to Excel column letter
@@ -26,61 +29,140 @@ function getColumnLetter(col: number): string {
 }
 
 /**
- * Profile an Excel file to extract sheet names and column names
+ * Convert a cell value to a plain value for profiling
  *
- * @param filePath - Path to the Excel file (.xlsx, .xls)
- * @returns ExcelProfile with sheets and column names, or null if parsing fails
+ * Rich text becomes its text, formulas their cached result, hyperlinks
+ * their display text and error cells null.
  */
-export async function profileExcel(filePath: string): Promise<ExcelProfile | null> {
-  try {
-    // Create a new workbook instance
-    const workbook = new ExcelJS.Workbook();
-
-    // Read the workbook (async operation)
-    await workbook.xlsx.readFile(filePath);
-
-    const sheets: ExcelSheet[] = [];
-
-    // Iterate through all worksheets
-    workbook.eachSheet((worksheet) => {
-      const columns: string[] = [];
-
-      // Get the first row (headers)
-      const firstRow = worksheet.getRow(1);
-
-      // Get column count from worksheet dimensions
-      const colCount = worksheet.columnCount || 0;
-
-      // Extract column values from first row
-      for (let col = 1; col <= colCount; col++) {
-        const cell = firstRow.getCell(col);
-
-        if (cell && cell.value !== null && cell.value !== undefined) {
-          // Handle different cell value types
-          let cellValue: string;
-
-          if (typeof cell.value === 'object' && cell.value !== null && 'text' in cell.value) {
-            // Rich text cell
-            cellValue = cell.value.text;
-          } else if (typeof cell.value === 'object' && cell.value !== null && 'result' in cell.value) {
-            // Formula cell
-            cellValue = String(cell.value.result);
-          } else {
-            // Simple value
-            cellValue = String(cell.value);
-          }
-
-          columns.push(cellValue);
-        } else {
-          // Use column letter as fallback for empty headers
-          columns.push(`Column_${getColumnLetter(col)}`);
-        }
+function getCellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value !== "object") return value;
+
+  if ("richText" in value) {
+    return value.richText.map(run => run.text).join("");
+  }
+  if ("formula" in value || "sharedFormula" in value) {
+    const result = (value as ExcelJS.CellFormulaValue).result;
+    return result !== undefined && typeof result === "object" && !(result instanceof Date) ? null : result;
+  }
+  if ("text" in value) {
+    return typeof value.text === "string" ? value.text : getCellValue(value.text);
+  }
+  // Error values such as #DIV/0!
+  return null;
+}
+
+/**
+ * Get a row's cell values, indexed from column 1
+ *
+ * ExcelJS leaves holes in the array for empty cells, which map() would
+ * skip, so every position is read explicitly.
+ */
+function getRowValues(row: ExcelJS.Row): unknown[] {
+  const values = row.values;
+  return Array.isArray(values)
+    ? Array.from({ length: Math.max(values.length - 1, 0) }, (_, i) => getCellValue(values[i + 1]))
+    : [];
+}
+
+/**
+ * A sheet read by readExcel
+ */
+export interface ExcelSheetRows<T extends RowSink> {
+  name: string;
+  /** Sink for the sheet's rows, or null for an empty sheet */
+  sink: T | null;
+  rowCount: number;
+  totalRows: number;
+}
+
+/**
+ * Stream every sheet of an Excel file into sinks, one per sheet
+ *
+ * The first row of a sheet is its header. Rows past the limit are read but
+ * not passed on, so totalRows is exact.
+ *
+ * @param filePath - Path to the Excel file (.xlsx)
+ * @param maxRows - Maximum data rows to pass on per sheet
+ * @param createSink - Creates the sink for a sheet's headers
+ * @returns Each sheet with its sink and row counts
+ */
+export async function readExcel<T extends RowSink>(
+  filePath: string,
+  maxRows: number,
+  createSink: (sheetName: string, headers: string[]) => T
+): Promise<ExcelSheetRows<T>[]> {
+  // Cache styles so date-formatted cells are read as dates
+  const reader = new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+    worksheets: "emit",
+    sharedStrings: "cache",
+    styles: "cache",
+    hyperlinks: "ignore",
+    entries: "ignore"
+  });
+
+  const sheets: ExcelSheetRows<T>[] = [];
+
+  for await (const worksheet of reader) {
+    // The streaming reader sets the sheet name but doesn't declare it
+    const name = (worksheet as unknown as { name: string }).name;
+    const sheet: ExcelSheetRows<T> = { name, sink: null, rowCount: 0, totalRows: 0 };
+
+    // Every row must be consumed before the next sheet is emitted
+    for await (const row of worksheet) {
+      const values = getRowValues(row);
+      if (!sheet.sink) {
+        const headers = values.map((value, i) => {
+          const header = value === null || value === undefined ? "" : String(value).trim();
+          return header || `Column_${getColumnLetter(i + 1)}`;
+        });
+        sheet.sink = createSink(name, headers);
+        continue;
       }
+      sheet.totalRows++;
+      if (sheet.rowCount < maxRows) {
+        sheet.sink.addRow(values);
+        sheet.rowCount++;
+      }
+    }
+
+    sheets.push(sheet);
+  }
 
-      sheets.push({
-        name: worksheet.name,
-        columns
-      });
+  return sheets;
+}
+
+/**
+ * Profile an Excel file's sheets
+ *
+ * @param filePath - Path to the Excel file (.xlsx)
+ * @param options - Row limit, sample size and top-N size
+ * @returns ExcelProfile with column statistics per sheet, or null if parsing fails
+ */
+export async function profileExcel(filePath: string, options: ProfileOptions): Promise<ExcelProfile | null> {
+  try {
+    const read = await readExcel(filePath, options.maxRows, (_, headers) => new TableAccumulator(headers, options));
+
+    const sheets: ExcelSheet[] = read.map(({ name, sink: table, rowCount, totalRows }) => {
+      if (!table) {
+        return {
+          name,
+          columns: [],
+          rowsProfiled: 0,
+          totalRows: 0,
+          truncated: false,
+          columnProfiles: [],
+          sampleRows: []
+        };
+      }
+      return {
+        name,
+        columns: table.headers,
+        rowsProfiled: rowCount,
+        totalRows,
+        truncated: totalRows > rowCount,
+        ...table.finish()
+      };
     });
 
     return {
@@ -98,13 +180,14 @@ export async function profileExcel(filePath: string): Promise<ExcelProfile | nul
  * Profile multiple Excel files
  *
  * @param filePaths - Array of paths to Excel files
+ * @param options - Row limit, sample size and top-N size
  * @returns Array of ExcelProfile objects
  */
-export async function profileExcelFiles(filePaths: string[]): Promise<ExcelProfile[]> {
+export async function profileExcelFiles(filePaths: string[], options: ProfileOptions): Promise<ExcelProfile[]> {
   const profiles: ExcelProfile[] = [];
 
   for (const filePath of filePaths) {
-    const profile = await profileExcel(filePath);
+    const profile = await profileExcel(filePath, options);
     if (profile) {
       profiles.push(profile);
     }
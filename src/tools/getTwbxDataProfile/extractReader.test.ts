@@ -0,0 +1,82 @@
+/**
+ * Tests for reading extract schemas from workbook metadata
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { findExtractMetadata } from "./extractReader.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <datasources>
+    <datasource caption='Superstore' name='federated.abc'>
+      <connection class='federated'>
+        <metadata-records>
+          <metadata-record class='column'>
+            <remote-name>Region</remote-name>
+            <parent-name>[Orders]</parent-name>
+            <local-type>string</local-type>
+          </metadata-record>
+        </metadata-records>
+      </connection>
+      <extract enabled='true'>
+        <connection class='hyper' dbname='C:\\Users\\me\\Data\\Extracts\\federated_abc.hyper'>
+          <metadata-records>
+            <metadata-record class='column'>
+              <remote-name>Sales &amp; Profit</remote-name>
+              <parent-name>[Extract]</parent-name>
+              <local-type>real</local-type>
+              <contains-null>true</contains-null>
+            </metadata-record>
+            <metadata-record class='capability'>
+              <remote-name>Ignored</remote-name>
+            </metadata-record>
+          </metadata-records>
+        </connection>
+      </extract>
+    </datasource>
+    <datasource name='federated.def'>
+      <connection class='federated'>
+        <metadata-records>
+          <metadata-record class='column'>
+            <local-name>[Id]</local-name>
+            <local-type>integer</local-type>
+          </metadata-record>
+        </metadata-records>
+      </connection>
+      <extract enabled='true'>
+        <connection class='dataengine' dbname='Data/Datasources/legacy.tde' />
+      </extract>
+    </datasource>
+  </datasources>
+</workbook>`;
+
+function parseWorkbook(): Record<string, unknown> {
+  const result = parseTwbContent(TWB);
+  if (!result.success) {
+    throw new Error(`Unexpected parse error: ${result.error}`);
+  }
+  return (result.data as { workbook: Record<string, unknown> }).workbook;
+}
+
+describe("findExtractMetadata", () => {
+  it("should match the extract by file name and read its column records", () => {
+    const tables = findExtractMetadata(parseWorkbook(), "federated_abc.hyper");
+
+    expect(tables).toHaveLength(1);
+    expect(tables![0]).toMatchObject({
+      name: "Extract",
+      columns: ["Sales & Profit"],
+      columnTypes: [{ name: "Sales & Profit", type: "real", nullable: true }],
+      rowsProfiled: 0,
+      sampleRows: []
+    });
+  });
+
+  it("should fall back to the data source's connection records", () => {
+    const tables = findExtractMetadata(parseWorkbook(), "legacy.tde");
+
+    expect(tables).toMatchObject([{ name: "Extract", columnTypes: [{ name: "Id", type: "integer" }] }]);
+    expect(findExtractMetadata(parseWorkbook(), "missing.hyper")).toBeNull();
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Extract Reader
+ *
+ * Reads Tableau extracts (.hyper, .tde). Hyper is a proprietary format with
+ * no public specification, so rows are read through the Tableau Hyper API
+ * for Python when it is installed, streamed back as JSON lines. Without it,
+ * and for legacy .tde files, the column schema is taken from the extract
+ * connection recorded in the workbook.
+ */
+
+import { spawn } from "child_process";
+import * as path from "path";
+import * as readline from "readline";
+import { getConfig } from "../../config.js";
+import { ensureArray, decodeHtmlEntities } from "../../utils/twbParser.js";
+import { ExtractColumn, ExtractProfile, ExtractTable } from "./types.js";
+import { ProfileOptions, TableAccumulator } from "./columnStats.js";
+
+/** Maximum time for the Hyper API to read one extract */
+const HYPER_API_TIMEOUT_MS = 120000;
+
+/**
+ * Python script that writes each table of a .hyper file as JSON lines:
+ * a table line with its columns and row count, then one line per row.
+ * Exits with code 3 when tableauhyperapi is not installed.
+ */
+const HYPER_READER_SCRIPT = `
+import json, math, sys
+try:
+    from tableauhyperapi import HyperProcess, Telemetry, Connection, Nullability
+except ImportError:
+    sys.exit(3)
+
+def encode(value):
+    if hasattr(value, "to_datetime"):
+        return value.to_datetime().isoformat()
+    if hasattr(value, "to_date"):
+        return value.to_date().isoformat()
+    return str(value)
+
+def clean(value):
+    # JSON has no NaN or infinity
+    if isinstance(value, float) and not math.isfinite(value):
+        return None
+    return value
+
+path, max_rows = sys.argv[1], int(sys.argv[2])
+with HyperProcess(Telemetry.DO_NOT_SEND_USAGE_DATA_TO_TABLEAU, parameters={"log_config": ""}) as hyper:
+    with Connection(hyper.endpoint, path) as connection:
+        for schema in connection.catalog.get_schema_names():
+            for table in connection.catalog.get_table_names(schema):
+                definition = connection.catalog.get_table_definition(table)
+                print(json.dumps({
+                    "table": schema.name.unescaped + "." + table.name.unescaped,
+                    "columns": [{
+                        "name": column.name.unescaped,
+                        "type": str(column.type),
+                        "nullable": column.nullability == Nullability.NULLABLE
+                    } for column in definition.columns],
+                    "rowCount": connection.execute_scalar_query(f"SELECT COUNT(*) FROM {table}")
+                }))
+                with connection.execute_query(f"SELECT * FROM {table} LIMIT {max_rows}") as result:
+                    for row in result:
+                        print(json.dumps({"row": [clean(v) for v in row]}, default=encode))
+`;
+
+/**
+ * A line of the Hyper reader's output
+ */
+type HyperLine =
+  | { table: string; columns: ExtractColumn[]; rowCount: number }
+  | { row: unknown[] };
+
+/**
+ * Result of reading an extract with the Hyper API
+ */
+type HyperReadResult =
+  | { success: true; tables: ExtractTable[] }
+  | { success: false; unavailable: boolean; error: string };
+
+/**
+ * Read every table of a .hyper file with the Tableau Hyper API
+ *
+ * @param filePath - Path to the .hyper file
+ * @param options - Row limit, sample size and top-N size
+ * @returns The tables, or whether the Hyper API is unavailable
+ */
+export function readHyperWithApi(filePath: string, options: ProfileOptions): Promise<HyperReadResult> {
+  return new Promise(resolve => {
+    const tables: ExtractTable[] = [];
+    let current: { table: ExtractTable; rows: TableAccumulator } | null = null;
+    let stderr = "";
+
+    const finishTable = () => {
+      if (!current) return;
+      const { table, rows } = current;
+      tables.push({
+        ...table,
+        rowsProfiled: rows.rowCount,
+        truncated: (table.totalRows ?? 0) > rows.rowCount,
+        ...rows.finish()
+      });
+      current = null;
+    };
+
+    const child = spawn(
+      getConfig().hyperApiPython,
+      ["-c", HYPER_READER_SCRIPT, filePath, String(options.maxRows)],
+      { timeout: HYPER_API_TIMEOUT_MS }
+    );
+
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    const lines = readline.createInterface({ input: child.stdout });
+    lines.on("line", line => {
+      let parsed: HyperLine;
+      try {
+        parsed = JSON.parse(line) as HyperLine;
+      } catch {
+        return; // Not reader output
+      }
+      if ("table" in parsed) {
+        finishTable();
+        const columns = parsed.columns.map(c => c.name);
+        current = {
+          table: {
+            name: parsed.table,
+            columns,
+            columnTypes: parsed.columns,
+            totalRows: parsed.rowCount,
+            rowsProfiled: 0,
+            truncated: false,
+            columnProfiles: [],
+            sampleRows: []
+          },
+          rows: new TableAccumulator(columns, options)
+        };
+      } else if (current) {
+        current.rows.addRow(parsed.row);
+      }
+    });
+
+    // A missing interpreter surfaces as a spawn error rather than an exit code
+    child.on("error", error => {
+      resolve({ success: false, unavailable: true, error: error.message });
+    });
+
+    child.on("close", (code, signal) => {
+      if (code === 0) {
+        finishTable();
+        resolve({ success: true, tables });
+      } else if (code === 3) {
+        resolve({ success: false, unavailable: true, error: "The tableauhyperapi Python package is not installed" });
+      } else {
+        const reason = signal ? `Hyper API reader stopped by ${signal}` : stderr.trim().split("\n").pop();
+        resolve({ success: false, unavailable: false, error: reason || `Hyper API reader exited with code ${code}` });
+      }
+    });
+  });
+}
+
+/**
+ * Get a child element's text
+ */
+function getText(element: Record<string, unknown>, name: string): string | null {
+  const value = element[name];
+  if (value === undefined || value === null || typeof value === "object") return null;
+  return decodeHtmlEntities(String(value));
+}
+
+/**
+ * Read the column records of a connection, grouped by table
+ */
+function readMetadataRecords(connection: Record<string, unknown> | undefined): Map<string, ExtractColumn[]> {
+  const tables = new Map<string, ExtractColumn[]>();
+  const records = (connection?.["metadata-records"] as Record<string, unknown> | undefined)?.["metadata-record"];
+
+  for (const record of ensureArray(records)) {
+    if (!record || typeof record !== "object") continue;
+    const recordObj = record as Record<string, unknown>;
+    if (recordObj["@_class"] !== "column") continue;
+
+    const name = getText(recordObj, "remote-name") ?? getText(recordObj, "local-name")?.replace(/^\[|\]$/g, "");
+    if (!name) continue;
+
+    const table = getText(recordObj, "parent-name")?.replace(/^\[|\]$/g, "") || "Extract";
+    const nullable = getText(recordObj, "contains-null");
+    const columns = tables.get(table) ?? [];
+    columns.push({
+      name,
+      type: getText(recordObj, "local-type") ?? "unknown",
+      nullable: nullable === null ? undefined : nullable === "true"
+    });
+    tables.set(table, columns);
+  }
+
+  return tables;
+}
+
+/**
+ * Find the schema of an extract in the workbook that uses it
+ *
+ * Extract connections name their file in dbname, often as an absolute path
+ * from the author's machine, so files are matched by base name. Column
+ * records come from the extract connection, or the data source's own
+ * connection when the extract has none.
+ *
+ * @param workbook - Parsed workbook element
+ * @param fileName - Base name of the extract file
+ * @returns Tables with their columns, or null if no data source uses the file
+ */
+export function findExtractMetadata(workbook: Record<string, unknown>, fileName: string): ExtractTable[] | null {
+  const datasources = (workbook.datasources as Record<string, unknown> | undefined)?.datasource;
+
+  for (const ds of ensureArray(datasources)) {
+    if (!ds || typeof ds !== "object") continue;
+    const dsObj = ds as Record<string, unknown>;
+
+    const extract = dsObj["extract"] as Record<string, unknown> | undefined;
+    const connection = extract?.["connection"] as Record<string, unknown> | undefined;
+    const dbname = connection?.["@_dbname"] as string | undefined;
+    if (!dbname || path.basename(dbname.replace(/\\/g, "/")).toLowerCase() !== fileName.toLowerCase()) {
+      continue;
+    }
+
+    let records = readMetadataRecords(connection);
+    if (records.size === 0) {
+      records = readMetadataRecords(dsObj["connection"] as Record<string, unknown> | undefined);
+    }
+
+    return Array.from(records, ([name, columnTypes]) => ({
+      name,
+      columns: columnTypes.map(c => c.name),
+      columnTypes,
+      rowsProfiled: 0,
+      truncated: false,
+      columnProfiles: [],
+      sampleRows: []
+    }));
+  }
+
+  return null;
+}
+
+/**
+ * Profile an extract, with the Hyper API when possible and workbook metadata otherwise
+ *
+ * @param filePath - Path to the extract
+ * @param format - Extract format
+ * @param options - Row limit, sample size and top-N size
+ * @param workbook - Parsed workbook element, if the package has a workbook
+ * @returns ExtractProfile, or the reason the extract could not be read
+ */
+export async function profileExtract(
+  filePath: string,
+  format: "hyper" | "tde",
+  options: ProfileOptions,
+  workbook: Record<string, unknown> | null
+): Promise<{ profile: ExtractProfile } | { reason: string }> {
+  const fileName = path.basename(filePath);
+  let apiError: string;
+
+  if (format === "hyper") {
+    const result = await readHyperWithApi(filePath, options);
+    if (result.success) {
+      return { profile: { fileName, filePath, format, source: "hyper-api", tables: result.tables } };
+    }
+    console.error(`[extractReader] Hyper API could not read ${filePath}: ${result.error}`);
+    apiError = result.unavailable
+      ? "Rows require the Tableau Hyper API (pip install tableauhyperapi; set HYPER_API_PYTHON to its interpreter)."
+      : `The Tableau Hyper API failed to read the file: ${result.error}.`;
+  } else {
+    apiError = "TDE files are Tableau's legacy extract format and their rows cannot be read; " +
+      "re-save the workbook in Tableau to upgrade them to .hyper.";
+  }
+
+  const tables = workbook ? findExtractMetadata(workbook, fileName) : null;
+  if (tables && tables.length > 0) {
+    return {
+      profile: {
+        fileName,
+        filePath,
+        format,
+        source: "workbook-metadata",
+        tables,
+        note: `Schema only, from the workbook's extract connection. ${apiError}`
+      }
+    };
+  }
+
+  return {
+    reason: workbook
+      ? `${apiError} The workbook records no schema for this extract.`
+      : `${apiError} No workbook was found to read the extract's schema from.`
+  };
+}
@@ -1,8 +1,9 @@
 /**
  * Get TWBX Data Profile Tool
  *
- * Extracts column names from data files (CSV, Excel, JSON) and
- * provides an inventory of image assets in an extracted TWBX package.
+ * Profiles the data files (CSV, Excel, JSON, Tableau extracts) in an
+ * extracted TWBX package, with per-column statistics for tabular data, and
+ * provides an inventory of image assets.
  */
 
 import { z } from "zod";
@@ -14,13 +15,18 @@ import * as fs from "fs/promises";
 import { Tool } from "../tool.js";
 import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
 import { fileExists, categorizeFile, listFilesRecursive } from "../../utils/fileSystem.js";
+import { parseTwbContent } from "../../utils/twbParser.js";
 import { profileCsvFiles } from "./csvProfiler.js";
 import { profileExcelFiles } from "./excelProfiler.js";
 import { profileJsonFiles } from "./jsonProfiler.js";
 import { profileImageFiles } from "./imageProfiler.js";
+import { profileExtract } from "./extractReader.js";
+import { ProfileOptions } from "./columnStats.js";
 import {
+  dataProfileResultSchema,
   DataProfileResult,
   DataFileProfiles,
+  ExtractProfile,
   UnsupportedFile,
   DataProfileSummary
 } from "./types.js";
@@ -36,20 +42,62 @@ const paramsSchema = z.object({
     .optional()
     .default(true)
     .describe("Include image asset inventory (default: true)"),
+  maxRows: z.coerce.number()
+    .int()
+    .min(1)
+    .optional()
+    .default(100000)
+    .describe("Maximum data rows to profile per CSV file or Excel sheet (default: 100000)"),
+  sampleRows: z.coerce.number()
+    .int()
+    .min(0)
+    .max(100)
+    .optional()
+    .default(5)
+    .describe("Number of sample rows to return per file or sheet (default: 5, max: 100)"),
+  topValues: z.coerce.number()
+    .int()
+    .min(0)
+    .max(50)
+    .optional()
+    .default(5)
+    .describe("Number of most frequent values to return per column (default: 5, max: 50)"),
   twbFilePath: z.string()
     .optional()
-    .describe("Optional path to .twb file to map data columns to calculated field usage")
+    .describe("Optional path to .twb file; its extract connections describe .hyper/.tde schemas (default: the .twb in the extraction)")
 });
 
 type GetTwbxDataProfileParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Read and parse a workbook, for the extract schemas it records
+ *
+ * @param twbFilePath - Path to the .twb file, if any
+ * @returns The workbook element, or null if there is no readable workbook
+ */
+async function readWorkbook(twbFilePath: string | undefined): Promise<Record<string, unknown> | null> {
+  if (!twbFilePath || !(await fileExists(twbFilePath))) {
+    return null;
+  }
+
+  const parseResult = parseTwbContent(await fs.readFile(twbFilePath, "utf-8"));
+  if (!parseResult.success) {
+    console.error(`[get_twbx_data_profile] Could not parse ${twbFilePath}: ${parseResult.error}`);
+    return null;
+  }
+
+  return (parseResult.data as { workbook?: Record<string, unknown> })?.workbook ?? null;
+}
+
 /**
  * Factory function to create the getTwbxDataProfile tool
  *
  * This tool profiles data files extracted from a TWBX package:
  * 1. Scans the extraction directory for data files
- * 2. Extracts column names from CSV, Excel, and JSON files
- * 3. Notes unsupported formats (.hyper, .tde)
+ * 2. Streams CSV and Excel files for column statistics and sample rows,
+ *    and extracts keys from JSON files
+ * 3. Reads .hyper extracts with the Tableau Hyper API when installed, and
+ *    falls back to the extract schema recorded in the workbook
  * 4. Optionally inventories image assets
  *
  * @param server - The MCP server instance
@@ -59,18 +107,31 @@ export function getTwbxDataProfileTool(server: Server): Tool<typeof paramsSchema
   return new Tool({
     server,
     name: "get_twbx_data_profile",
-    description: "Extracts column names from data files in an extracted TWBX package. " +
-      "Supports CSV, Excel (.xlsx/.xls), and JSON files. " +
-      "Notes .hyper and .tde files as unsupported (require Tableau Hyper API). " +
+    description: "Profiles the data files in an extracted TWBX package. " +
+      "For CSV and Excel (.xlsx) files, each column gets an inferred type, null and distinct counts, " +
+      "min/max/mean/quantiles for numbers, date ranges, string lengths and its most frequent values, " +
+      "plus sample rows. Files are streamed up to maxRows rows each. JSON files are profiled by their keys. " +
+      "Tableau extracts (.hyper) are read the same way when the Tableau Hyper API for Python is installed; " +
+      "otherwise, and for legacy .tde files, their table and column schema comes from the workbook. " +
       "Optionally includes an inventory of embedded images with dimensions. " +
       "Use with the extraction path from unpack_twbx tool.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: dataProfileResultSchema.shape,
     annotations: {
-      title: "Get TWBX Data Profile"
+      title: "Get TWBX Data Profile",
+      readOnlyHint: true,
+      openWorldHint: false
     },
 
     callback: async (args: GetTwbxDataProfileParams): Promise<Ok<CallToolResult>> => {
-      const { extractionPath, includeImageProfile, twbFilePath } = args;
+      const {
+        extractionPath,
+        includeImageProfile,
+        maxRows = 100000,
+        sampleRows = 5,
+        topValues = 5,
+        twbFilePath
+      } = args;
 
       try {
         console.error(`[get_twbx_data_profile] Starting profile of: ${extractionPath}`);
@@ -107,6 +168,8 @@ export function getTwbxDataProfileTool(server: Server): Tool<typeof paramsSchema
         const csvFiles: string[] = [];
         const excelFiles: string[] = [];
         const jsonFiles: string[] = [];
+        const extractFiles: { filePath: string; format: "hyper" | "tde" }[] = [];
+        const twbFiles: string[] = [];
         const imageFiles: string[] = [];
         const unsupportedFiles: UnsupportedFile[] = [];
 
@@ -121,38 +184,42 @@ export function getTwbxDataProfileTool(server: Server): Tool<typeof paramsSchema
             excelFiles.push(fullPath);
           } else if (ext === ".json") {
             jsonFiles.push(fullPath);
-          } else if (ext === ".hyper") {
-            unsupportedFiles.push({
-              fileName: path.basename(file.path),
-              filePath: fullPath,
-              format: "hyper",
-              reason: "Hyper files require the Tableau Hyper API to read. " +
-                "These are Tableau's proprietary columnar data format."
-            });
-          } else if (ext === ".tde") {
-            unsupportedFiles.push({
-              fileName: path.basename(file.path),
-              filePath: fullPath,
-              format: "tde",
-              reason: "TDE files are Tableau's legacy data extract format. " +
-                "They require the Tableau SDK to read."
-            });
+          } else if (ext === ".hyper" || ext === ".tde") {
+            extractFiles.push({ filePath: fullPath, format: ext === ".hyper" ? "hyper" : "tde" });
+          } else if (ext === ".twb") {
+            twbFiles.push(fullPath);
           } else if (category === "image") {
             imageFiles.push(fullPath);
           }
         }
 
-        console.error(`[get_twbx_data_profile] Found: ${csvFiles.length} CSV, ${excelFiles.length} Excel, ${jsonFiles.length} JSON, ${imageFiles.length} images, ${unsupportedFiles.length} unsupported`);
+        console.error(`[get_twbx_data_profile] Found: ${csvFiles.length} CSV, ${excelFiles.length} Excel, ${jsonFiles.length} JSON, ${extractFiles.length} extracts, ${imageFiles.length} images`);
 
         // Step 5: Profile data files
-        const csvProfiles = await profileCsvFiles(csvFiles);
-        const excelProfiles = await profileExcelFiles(excelFiles);
+        const profileOptions: ProfileOptions = { maxRows, sampleRows, topValues };
+        const csvProfiles = await profileCsvFiles(csvFiles, profileOptions);
+        const excelProfiles = await profileExcelFiles(excelFiles, profileOptions);
         const jsonProfiles = await profileJsonFiles(jsonFiles);
 
+        // Extracts fall back to the schema in the workbook's extract connections
+        const extractProfiles: ExtractProfile[] = [];
+        if (extractFiles.length > 0) {
+          const workbook = await readWorkbook(twbFilePath ?? twbFiles[0]);
+          for (const { filePath, format } of extractFiles) {
+            const result = await profileExtract(filePath, format, profileOptions, workbook);
+            if ("profile" in result) {
+              extractProfiles.push(result.profile);
+            } else {
+              unsupportedFiles.push({ fileName: path.basename(filePath), filePath, format, reason: result.reason });
+            }
+          }
+        }
+
         const dataFiles: DataFileProfiles = {
           csv: csvProfiles,
           excel: excelProfiles,
           json: jsonProfiles,
+          extracts: extractProfiles,
           unsupported: unsupportedFiles
         };
 
@@ -164,11 +231,12 @@ export function getTwbxDataProfileTool(server: Server): Tool<typeof paramsSchema
 
         // Step 7: Build summary
         const summary: DataProfileSummary = {
-          dataFileCount: csvFiles.length + excelFiles.length + jsonFiles.length + unsupportedFiles.length,
+          dataFileCount: csvFiles.length + excelFiles.length + jsonFiles.length + extractFiles.length,
           imageFileCount: imageFiles.length,
           csvCount: csvProfiles.length,
           excelCount: excelProfiles.length,
           jsonCount: jsonProfiles.length,
+          extractCount: extractProfiles.length,
           unsupportedCount: unsupportedFiles.length
         };
 
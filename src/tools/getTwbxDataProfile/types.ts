@@ -1,110 +1,243 @@
 /**
  * Type definitions for TWBX Data Profile tool
+ *
+ * Each type is inferred from a Zod schema so the same definitions back
+ * the tool's advertised outputSchema.
  */
 
+import { z } from "zod";
+
+/**
+ * Type inferred for a column from its values
+ */
+export const columnTypeSchema = z.enum(["integer", "number", "boolean", "date", "string", "mixed", "empty"]);
+
+export type ColumnType = z.infer<typeof columnTypeSchema>;
+
+/**
+ * A cell value in a sample row (dates as ISO strings)
+ */
+export const sampleValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export type SampleValue = z.infer<typeof sampleValueSchema>;
+
+/**
+ * Statistics for one column
+ */
+export const columnProfileSchema = z.object({
+  name: z.string(),
+  inferredType: columnTypeSchema,
+  typeCounts: z.record(z.number()).optional(),
+  count: z.number(),
+  nullCount: z.number(),
+  nullPercent: z.number(),
+  distinctCount: z.number(),
+  distinctCountCapped: z.boolean().optional(),
+  topValues: z.array(z.object({
+    value: z.string(),
+    count: z.number()
+  })),
+  numeric: z.object({
+    min: z.number(),
+    max: z.number(),
+    mean: z.number(),
+    stdDev: z.number(),
+    quantiles: z.object({
+      p25: z.number(),
+      p50: z.number(),
+      p75: z.number()
+    })
+  }).optional(),
+  dateRange: z.object({
+    min: z.string(),
+    max: z.string()
+  }).optional(),
+  stringLength: z.object({
+    min: z.number(),
+    max: z.number()
+  }).optional()
+});
+
+export type ColumnProfile = z.infer<typeof columnProfileSchema>;
+
+/**
+ * Row counts, column statistics and sample rows of a table
+ */
+const tableStatsShape = {
+  rowsProfiled: z.number(),
+  totalRows: z.number().optional(),
+  truncated: z.boolean(),
+  columnProfiles: z.array(columnProfileSchema),
+  sampleRows: z.array(z.record(sampleValueSchema))
+};
+
 /**
  * Profile of a CSV file
  */
-export interface CsvProfile {
-  fileName: string;
-  filePath: string;
-  columns: string[];
-}
+export const csvProfileSchema = z.object({
+  fileName: z.string(),
+  filePath: z.string(),
+  columns: z.array(z.string()),
+  ...tableStatsShape
+});
+
+export type CsvProfile = z.infer<typeof csvProfileSchema>;
 
 /**
  * Profile of an Excel sheet
  */
-export interface ExcelSheet {
-  name: string;
-  columns: string[];
-}
+export const excelSheetSchema = z.object({
+  name: z.string(),
+  columns: z.array(z.string()),
+  ...tableStatsShape
+});
+
+export type ExcelSheet = z.infer<typeof excelSheetSchema>;
 
 /**
  * Profile of an Excel file
  */
-export interface ExcelProfile {
-  fileName: string;
-  filePath: string;
-  sheets: ExcelSheet[];
-}
+export const excelProfileSchema = z.object({
+  fileName: z.string(),
+  filePath: z.string(),
+  sheets: z.array(excelSheetSchema)
+});
+
+export type ExcelProfile = z.infer<typeof excelProfileSchema>;
 
 /**
  * Profile of a JSON file
  */
-export interface JsonProfile {
-  fileName: string;
-  filePath: string;
-  structure: "array" | "object" | "primitive";
-  keys: string[];
-}
+export const jsonProfileSchema = z.object({
+  fileName: z.string(),
+  filePath: z.string(),
+  structure: z.enum(["array", "object", "primitive"]),
+  keys: z.array(z.string())
+});
+
+export type JsonProfile = z.infer<typeof jsonProfileSchema>;
 
 /**
- * Profile of an unsupported data file (.hyper, .tde)
+ * Declared type of an extract column
  */
-export interface UnsupportedFile {
-  fileName: string;
-  filePath: string;
-  format: "hyper" | "tde" | "unknown";
-  reason: string;
-}
+export const extractColumnSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  nullable: z.boolean().optional()
+});
+
+export type ExtractColumn = z.infer<typeof extractColumnSchema>;
+
+/**
+ * Profile of a table in an extract; like an Excel sheet, plus declared column types
+ */
+export const extractTableSchema = excelSheetSchema.extend({
+  columnTypes: z.array(extractColumnSchema)
+});
+
+export type ExtractTable = z.infer<typeof extractTableSchema>;
+
+/**
+ * Profile of a Tableau extract (.hyper, .tde)
+ *
+ * Read with the Tableau Hyper API when it is installed; otherwise only the
+ * schema recorded in the workbook is available, with no rows.
+ */
+export const extractProfileSchema = z.object({
+  fileName: z.string(),
+  filePath: z.string(),
+  format: z.enum(["hyper", "tde"]),
+  source: z.enum(["hyper-api", "workbook-metadata"]),
+  tables: z.array(extractTableSchema),
+  note: z.string().optional()
+});
+
+export type ExtractProfile = z.infer<typeof extractProfileSchema>;
+
+/**
+ * A data file that could not be read, such as an extract with neither
+ * the Hyper API nor workbook metadata to describe it
+ */
+export const unsupportedFileSchema = z.object({
+  fileName: z.string(),
+  filePath: z.string(),
+  format: z.enum(["hyper", "tde", "unknown"]),
+  reason: z.string()
+});
+
+export type UnsupportedFile = z.infer<typeof unsupportedFileSchema>;
 
 /**
  * Collection of data file profiles by type
  */
-export interface DataFileProfiles {
-  csv: CsvProfile[];
-  excel: ExcelProfile[];
-  json: JsonProfile[];
-  unsupported: UnsupportedFile[];
-}
+export const dataFileProfilesSchema = z.object({
+  csv: z.array(csvProfileSchema),
+  excel: z.array(excelProfileSchema),
+  json: z.array(jsonProfileSchema),
+  extracts: z.array(extractProfileSchema),
+  unsupported: z.array(unsupportedFileSchema)
+});
+
+export type DataFileProfiles = z.infer<typeof dataFileProfilesSchema>;
 
 /**
  * Profile of an image file
  */
-export interface ImageProfile {
-  fileName: string;
-  filePath: string;
-  width: number;
-  height: number;
-  format: string;
-}
+export const imageProfileSchema = z.object({
+  fileName: z.string(),
+  filePath: z.string(),
+  width: z.number(),
+  height: z.number(),
+  format: z.string()
+});
+
+export type ImageProfile = z.infer<typeof imageProfileSchema>;
 
 /**
  * Image inventory summary
  */
-export interface ImageInventory {
-  totalCount: number;
-  images: ImageProfile[];
-}
+export const imageInventorySchema = z.object({
+  totalCount: z.number(),
+  images: z.array(imageProfileSchema)
+});
+
+export type ImageInventory = z.infer<typeof imageInventorySchema>;
 
 /**
  * Mapping of a column to its usage in calculated fields
  */
-export interface ColumnUsage {
-  columnName: string;
-  usedInCalculations: string[];
-}
+export const columnUsageSchema = z.object({
+  columnName: z.string(),
+  usedInCalculations: z.array(z.string())
+});
+
+export type ColumnUsage = z.infer<typeof columnUsageSchema>;
 
 /**
  * Summary statistics for the data profile
  */
-export interface DataProfileSummary {
-  dataFileCount: number;
-  imageFileCount: number;
-  csvCount: number;
-  excelCount: number;
-  jsonCount: number;
-  unsupportedCount: number;
-}
+export const dataProfileSummarySchema = z.object({
+  dataFileCount: z.number(),
+  imageFileCount: z.number(),
+  csvCount: z.number(),
+  excelCount: z.number(),
+  jsonCount: z.number(),
+  extractCount: z.number(),
+  unsupportedCount: z.number()
+});
+
+export type DataProfileSummary = z.infer<typeof dataProfileSummarySchema>;
 
 /**
  * Complete data profile result
  */
-export interface DataProfileResult {
-  success: true;
-  extractionPath: string;
-  summary: DataProfileSummary;
-  dataFiles: DataFileProfiles;
-  imageInventory?: ImageInventory;
-  columnUsageMap?: ColumnUsage[];
-}
+export const dataProfileResultSchema = z.object({
+  success: z.literal(true),
+  extractionPath: z.string(),
+  summary: dataProfileSummarySchema,
+  dataFiles: dataFileProfilesSchema,
+  imageInventory: imageInventorySchema.optional(),
+  columnUsageMap: z.array(columnUsageSchema).optional()
+});
+
+export type DataProfileResult = z.infer<typeof dataProfileResultSchema>;
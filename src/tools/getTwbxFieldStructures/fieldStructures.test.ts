@@ -0,0 +1,158 @@
+/**
+ * Tests for workbook groups, sets, bins, hierarchies and aliases
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { parseFieldStructures } from "./fieldStructures.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <datasources>
+    <datasource hasconnection='false' inline='true' name='Parameters'>
+      <column caption='Bin Width' datatype='integer' name='[Parameter 1]' role='measure' type='quantitative' value='50' />
+    </datasource>
+    <datasource caption='Superstore' name='federated.1'>
+      <column datatype='string' name='[Region]' role='dimension' type='nominal'>
+        <aliases>
+          <alias key='&quot;East&quot;' value='Eastern' />
+        </aliases>
+      </column>
+      <column caption='Region (group)' datatype='string' name='[Region (group)]' role='dimension' type='nominal'>
+        <calculation class='categorical-bin' column='[Region]' new-bin='true'>
+          <bin value='&quot;Central &amp; East&quot;'>
+            <value>&quot;Central&quot;</value>
+            <value>&quot;East&quot;</value>
+          </bin>
+        </calculation>
+      </column>
+      <column datatype='real' name='[Sales]' role='measure' type='quantitative' />
+      <column caption='Sales (bin)' datatype='integer' name='[Sales (bin)]' role='dimension' type='ordinal'>
+        <calculation class='bin' decimals='0' formula='[Sales]' peg='0' size='100' />
+      </column>
+      <column caption='Profit (bin)' datatype='integer' name='[Profit (bin)]' role='dimension' type='ordinal'>
+        <calculation class='bin' decimals='0' formula='[Profit]' peg='0' size='[Parameters].[Parameter 1]' />
+      </column>
+      <column caption='Customer' datatype='string' name='[Customer Name]' role='dimension' type='nominal' />
+      <drill-paths>
+        <drill-path name='Location'>
+          <field>[Region]</field>
+          <field>[State]</field>
+        </drill-path>
+      </drill-paths>
+      <group caption='Top Customers' name='[Top Customers]' name-style='unqualified' user:ui-builder='filter-group'>
+        <groupfilter count='10' end='top' function='end' units='records'>
+          <groupfilter direction='DESC' expression='SUM([Sales])' function='order'>
+            <groupfilter function='level-members' level='[Customer Name]' />
+          </groupfilter>
+        </groupfilter>
+      </group>
+      <group name='[Key Regions]' name-style='unqualified' user:ui-builder='identity-set'>
+        <groupfilter function='union'>
+          <groupfilter function='member' level='[Region]' member='&quot;East&quot;' />
+          <groupfilter function='member' level='[Region]' member='&quot;West&quot;' />
+        </groupfilter>
+      </group>
+      <group name='[Profitable States]' name-style='unqualified'>
+        <groupfilter expression='SUM([Profit]) &gt; 0' function='filter'>
+          <groupfilter function='level-members' level='[State]' />
+        </groupfilter>
+      </group>
+    </datasource>
+  </datasources>
+  <worksheets>
+    <worksheet name='Customers'>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Superstore' name='federated.1' />
+          </datasources>
+        </view>
+        <rows>([federated.1].[none:Customer Name:nk] * [federated.1].[io:Top Customers:nk])</rows>
+        <cols>[federated.1].[sum:Sales:qk]</cols>
+      </table>
+    </worksheet>
+    <worksheet name='Histogram'>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Superstore' name='federated.1' />
+          </datasources>
+        </view>
+        <rows>[federated.1].[cnt:Sales:qk]</rows>
+        <cols>[federated.1].[none:Sales (bin):ok]</cols>
+      </table>
+    </worksheet>
+    <worksheet name='Map'>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Superstore' name='federated.1' />
+          </datasources>
+        </view>
+        <rows>[federated.1].[none:State:nk]</rows>
+        <cols>[federated.1].[none:Region (group):nk]</cols>
+      </table>
+    </worksheet>
+  </worksheets>
+</workbook>`;
+
+function parseStructures() {
+  const result = parseTwbContent(TWB);
+  if (!result.success) throw new Error(result.error);
+  return parseFieldStructures((result.data as { workbook: Record<string, unknown> }).workbook);
+}
+
+describe("parseFieldStructures", () => {
+  it("should read groups, bins, hierarchies and aliases", () => {
+    const structures = parseStructures();
+
+    expect(structures.groups).toEqual([{
+      name: "Region (group)",
+      caption: "Region (group)",
+      datasource: "Superstore",
+      worksheets: ["Map"],
+      field: "Region",
+      groups: [{ group: "Central & East", members: ["Central", "East"] }]
+    }]);
+    expect(structures.bins.map(b => [b.caption, b.field, b.size, b.sizeParameter, b.worksheets])).toEqual([
+      ["Sales (bin)", "Sales", 100, null, ["Histogram"]],
+      ["Profit (bin)", "Profit", null, "Bin Width", []]
+    ]);
+    expect(structures.hierarchies).toEqual([{
+      name: "Location",
+      caption: "Location",
+      datasource: "Superstore",
+      worksheets: ["Map"],
+      levels: ["Region", "State"]
+    }]);
+    expect(structures.aliases).toMatchObject([{
+      name: "Region",
+      aliases: [{ value: "East", alias: "Eastern" }]
+    }]);
+  });
+
+  it("should classify sets as top N, fixed members or conditions", () => {
+    const { sets } = parseStructures();
+
+    expect(sets[0]).toMatchObject({
+      caption: "Top Customers",
+      field: "Customer",
+      setType: "top",
+      top: { end: "top", count: "10", by: "SUM([Sales])" },
+      worksheets: ["Customers"]
+    });
+    expect(sets[1]).toMatchObject({
+      caption: "Key Regions",
+      field: "Region",
+      setType: "fixed",
+      members: ["East", "West"],
+      worksheets: []
+    });
+    expect(sets[2]).toMatchObject({
+      setType: "condition",
+      condition: "SUM([Profit]) > 0",
+      field: "State"
+    });
+  });
+});
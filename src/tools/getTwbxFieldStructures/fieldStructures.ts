@@ -0,0 +1,242 @@
+/**
+ * Workbook Field Structures
+ *
+ * Collects the fields users build on top of their data: groups
+ * (categorical-bin calculations mapping members to new names), bins
+ * (bin calculations with a fixed or parameter-driven size), sets (data
+ * source <group> elements holding a member list, a condition or a top N),
+ * drill hierarchies (<drill-path>) and member aliases. Each structure is
+ * linked to the worksheets that reference it, either by its name ([Name])
+ * or through a placed instance ([none:Name:nk]).
+ */
+
+import {
+  ensureArray,
+  decodeHtmlEntities,
+  extractFieldName,
+  parseFilterElement,
+  parseMemberValue
+} from "../../utils/twbParser.js";
+import { parseParameters } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import { FieldStructures, SetStructure } from "./types.js";
+
+/** A worksheet with the data sources it draws on and the text it references fields by */
+interface WorksheetReferences {
+  name: string;
+  datasources: Set<string>;
+  text: string;
+}
+
+/** Get a decoded attribute value */
+function attr(element: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = element?.[`@_${name}`];
+  return value === undefined || value === "" ? undefined : decodeHtmlEntities(String(value));
+}
+
+/** Get child elements as objects */
+function children(element: Record<string, unknown> | undefined, name: string): Record<string, unknown>[] {
+  return ensureArray(element?.[name])
+    .filter((child): child is Record<string, unknown> => !!child && typeof child === "object");
+}
+
+/** Strip the brackets from a column name ([Sales] -> Sales) */
+function bare(name: string): string {
+  return name.replace(/^\[|\]$/g, "");
+}
+
+/** Collect every attribute value and text node below an element */
+function collectStrings(value: unknown, out: string[]): string[] {
+  if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, out);
+  } else if (value && typeof value === "object") {
+    for (const child of Object.values(value as Record<string, unknown>)) collectStrings(child, out);
+  } else if (value !== undefined && value !== null) {
+    out.push(decodeHtmlEntities(String(value)));
+  }
+  return out;
+}
+
+/** Read each worksheet's data sources and the strings it references fields in */
+function parseWorksheetReferences(workbook: Record<string, unknown>): WorksheetReferences[] {
+  return children(workbook["worksheets"] as Record<string, unknown> | undefined, "worksheet").map(worksheet => {
+    const view = children(worksheet["table"] as Record<string, unknown> | undefined, "view")[0];
+    return {
+      name: attr(worksheet, "name") ?? "",
+      datasources: new Set(children(children(view, "datasources")[0], "datasource")
+        .map(ds => attr(ds, "name") ?? "")),
+      text: collectStrings(worksheet, []).join("\n")
+    };
+  });
+}
+
+/** List the worksheets on a data source that reference any of the given field names */
+function findUsage(worksheets: WorksheetReferences[], datasource: string, names: string[]): string[] {
+  return worksheets
+    .filter(ws => ws.datasources.has(datasource))
+    .filter(ws => names.some(name => ws.text.includes(`[${name}]`) || ws.text.includes(`:${name}:`)))
+    .map(ws => ws.name);
+}
+
+/** Find the level a set is defined on, from the first groupfilter naming one */
+function findLevel(groupFilter: Record<string, unknown>): string | null {
+  const level = attr(groupFilter, "level");
+  if (level) return level;
+  for (const child of children(groupFilter, "groupfilter")) {
+    const found = findLevel(child);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Classify a set and read its members, condition or top N */
+function parseSetDefinition(group: Record<string, unknown>, captionOf: (name: string) => string): Pick<
+  SetStructure, "field" | "setType" | "members" | "excludedMembers" | "condition" | "top"
+> {
+  const groupFilter = children(group, "groupfilter")[0];
+  const level = groupFilter ? findLevel(groupFilter) : null;
+  const field = level ? captionOf(extractFieldName(level)) : null;
+  const definition = {
+    field,
+    setType: "all" as SetStructure["setType"],
+    members: [] as string[],
+    excludedMembers: [] as string[],
+    condition: null as string | null,
+    top: null as SetStructure["top"]
+  };
+  if (!groupFilter) return definition;
+
+  if (attr(groupFilter, "function") === "end") {
+    const order = children(groupFilter, "groupfilter").find(child => attr(child, "function") === "order");
+    const count = attr(groupFilter, "count") ?? "";
+    definition.setType = "top";
+    definition.top = {
+      end: attr(groupFilter, "end") === "bottom" ? "bottom" : "top",
+      count: count.startsWith("[") ? extractFieldName(count) : count,
+      by: attr(order, "expression") ?? null
+    };
+    return definition;
+  }
+
+  const filter = parseFilterElement({ "@_class": "categorical", "@_column": level ?? "", groupfilter: groupFilter });
+  switch (filter.mode) {
+    case "include":
+      definition.setType = "fixed";
+      definition.members = filter.members;
+      break;
+    case "exclude":
+      definition.setType = "fixed";
+      definition.excludedMembers = filter.members;
+      break;
+    case "condition":
+      definition.setType = "condition";
+      definition.condition = filter.condition;
+      break;
+  }
+  return definition;
+}
+
+/**
+ * Collect the groups, sets, bins, hierarchies and aliases in a workbook
+ *
+ * @param workbook - The parsed <workbook> element
+ * @returns Each kind of structure, in data source and column order
+ */
+export function parseFieldStructures(workbook: Record<string, unknown>): FieldStructures {
+  const result: FieldStructures = { groups: [], sets: [], bins: [], hierarchies: [], aliases: [] };
+  const datasources = children(workbook["datasources"] as Record<string, unknown> | undefined, "datasource");
+  const worksheets = parseWorksheetReferences(workbook);
+
+  const parameterSource = datasources.find(ds => attr(ds, "name") === "Parameters");
+  const parameters = parameterSource ? parseParameters(parameterSource["column"]) : [];
+  const parameterCaption = (reference: string) => {
+    const name = extractFieldName(reference);
+    return parameters.find(p => p.name === name)?.caption ?? name;
+  };
+
+  for (const ds of datasources) {
+    const dsName = attr(ds, "name") ?? "";
+    if (dsName === "Parameters") continue;
+    const datasource = attr(ds, "caption") ?? dsName;
+    const columns = children(ds, "column");
+
+    const captions = new Map<string, string>();
+    for (const column of columns) {
+      const name = bare(attr(column, "name") ?? "");
+      captions.set(name, attr(column, "caption") ?? name);
+    }
+    const captionOf = (name: string) => captions.get(bare(name)) ?? bare(name);
+
+    for (const column of columns) {
+      const name = bare(attr(column, "name") ?? "");
+      if (!name) continue;
+      const base = {
+        name,
+        caption: captionOf(name),
+        datasource,
+        worksheets: findUsage(worksheets, dsName, [name])
+      };
+
+      const calculation = children(column, "calculation")[0];
+      switch (attr(calculation, "class")) {
+        case "categorical-bin":
+          result.groups.push({
+            ...base,
+            field: captionOf(extractFieldName(attr(calculation, "column") ?? "")),
+            groups: children(calculation, "bin").map(bin => ({
+              group: parseMemberValue(attr(bin, "value") ?? ""),
+              members: ensureArray(bin["value"])
+                .filter(value => value !== undefined && value !== null && typeof value !== "object")
+                .map(value => parseMemberValue(String(value)))
+            }))
+          });
+          break;
+        case "bin": {
+          const size = attr(calculation, "size");
+          const sizeParameter = attr(calculation, "size-parameter")
+            ?? (size !== undefined && Number.isNaN(Number(size)) ? size : undefined);
+          result.bins.push({
+            ...base,
+            field: captionOf(extractFieldName(attr(calculation, "formula") ?? "")),
+            size: size !== undefined && !Number.isNaN(Number(size)) ? Number(size) : null,
+            sizeParameter: sizeParameter ? parameterCaption(sizeParameter) : null
+          });
+          break;
+        }
+      }
+
+      const aliases = children(children(column, "aliases")[0], "alias")
+        .map(alias => ({ value: parseMemberValue(attr(alias, "key") ?? ""), alias: attr(alias, "value") ?? "" }));
+      if (aliases.length > 0) {
+        result.aliases.push({ ...base, aliases });
+      }
+    }
+
+    for (const group of children(ds, "group")) {
+      const name = bare(attr(group, "name") ?? "");
+      if (!name) continue;
+      result.sets.push({
+        name,
+        caption: attr(group, "caption") ?? name,
+        datasource,
+        worksheets: findUsage(worksheets, dsName, [name]),
+        ...parseSetDefinition(group, captionOf)
+      });
+    }
+
+    for (const drillPath of children(children(ds, "drill-paths")[0], "drill-path")) {
+      const name = attr(drillPath, "name") ?? "";
+      const levels = ensureArray(drillPath["field"])
+        .filter(field => field !== undefined && field !== null && typeof field !== "object")
+        .map(field => bare(decodeHtmlEntities(String(field))));
+      result.hierarchies.push({
+        name,
+        caption: name,
+        datasource,
+        worksheets: findUsage(worksheets, dsName, levels),
+        levels: levels.map(captionOf)
+      });
+    }
+  }
+
+  return result;
+}
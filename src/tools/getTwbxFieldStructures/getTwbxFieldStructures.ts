@@ -0,0 +1,202 @@
+/**
+ * Get TWBX Field Structures Tool
+ *
+ * Inventories the groups, sets, bins, drill hierarchies and aliases built
+ * in a Tableau workbook: group member mappings, set members, conditions
+ * or top N, bin sizes, hierarchy levels and member aliases, each with the
+ * worksheets that use it.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { parseFieldStructures } from "./fieldStructures.js";
+import { aliasSetSchema, binSchema, groupSchema, hierarchySchema, setSchema } from "./types.js";
+
+/**
+ * Parameter schema for getTwbxFieldStructures tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  datasource: z.string()
+    .optional()
+    .describe("Only include structures from this data source, by caption (default: all data sources)"),
+  includeUnused: z.boolean()
+    .optional()
+    .default(true)
+    .describe("Include structures no worksheet uses (default: true)")
+});
+
+type GetTwbxFieldStructuresParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Structured output schema for getTwbxFieldStructures tool
+ */
+const outputSchema = z.object({
+  success: z.literal(true),
+  sourceFile: z.string(),
+  summary: z.object({
+    groupCount: z.number(),
+    setCount: z.number(),
+    binCount: z.number(),
+    hierarchyCount: z.number(),
+    aliasedFieldCount: z.number(),
+    unused: z.array(z.string())
+  }),
+  groups: z.array(groupSchema),
+  sets: z.array(setSchema),
+  bins: z.array(binSchema),
+  hierarchies: z.array(hierarchySchema),
+  aliases: z.array(aliasSetSchema)
+});
+
+type GetTwbxFieldStructuresResult = z.infer<typeof outputSchema>;
+
+/**
+ * Factory function to create the getTwbxFieldStructures tool
+ *
+ * This tool inventories user-built field structures:
+ * 1. Reads groups and bins from categorical-bin and bin calculations
+ * 2. Classifies sets as fixed members, conditions or top N
+ * 3. Lists drill hierarchy levels and member aliases
+ * 4. Links each structure to the worksheets that reference it
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ */
+export function getTwbxFieldStructuresTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "get_twbx_field_structures",
+    description: "Inventories the groups, sets, bins, drill hierarchies and aliases in a Tableau workbook " +
+      "(.twb file): which members each group combines, whether a set is a fixed member list, a condition " +
+      "or a top/bottom N (and by what), each bin's source field and size (or the parameter setting it), " +
+      "hierarchy levels from the top down and aliased member values. Each structure lists the worksheets " +
+      "that use it, so unused ones stand out. Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Get TWBX Field Structures",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: GetTwbxFieldStructuresParams): Promise<Ok<CallToolResult>> => {
+      const { twbFilePath, datasource, includeUnused = true } = args;
+
+      try {
+        console.error(`[get_twbx_field_structures] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        const structures = parseFieldStructures(workbook);
+        const keep = <T extends { datasource: string; worksheets: string[] }>(items: T[]): T[] =>
+          items.filter(item => (!datasource || item.datasource === datasource)
+            && (includeUnused || item.worksheets.length > 0));
+
+        const groups = keep(structures.groups);
+        const sets = keep(structures.sets);
+        const bins = keep(structures.bins);
+        const hierarchies = keep(structures.hierarchies);
+        const aliases = keep(structures.aliases);
+
+        const unused = [...groups, ...sets, ...bins, ...hierarchies]
+          .filter(item => item.worksheets.length === 0)
+          .map(item => item.caption);
+
+        const result: GetTwbxFieldStructuresResult = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            groupCount: groups.length,
+            setCount: sets.length,
+            binCount: bins.length,
+            hierarchyCount: hierarchies.length,
+            aliasedFieldCount: aliases.length,
+            unused
+          },
+          groups,
+          sets,
+          bins,
+          hierarchies,
+          aliases
+        };
+
+        console.error(
+          `[get_twbx_field_structures] Found ${groups.length} groups, ${sets.length} sets, ` +
+          `${bins.length} bins, ${hierarchies.length} hierarchies`
+        );
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error reading TWBX field structures",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
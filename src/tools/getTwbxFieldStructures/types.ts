@@ -0,0 +1,103 @@
+/**
+ * Type definitions for TWBX Field Structures tool
+ *
+ * Each type is inferred from a Zod schema so the same definitions back
+ * the tool's advertised outputSchema.
+ */
+
+import { z } from "zod";
+
+/**
+ * Fields shared by every structure: where it is defined and which
+ * worksheets use it
+ */
+const structureShape = {
+  name: z.string(),
+  caption: z.string(),
+  datasource: z.string(),
+  worksheets: z.array(z.string())
+};
+
+/**
+ * A group: members of a dimension combined under new names
+ */
+export const groupSchema = z.object({
+  ...structureShape,
+  field: z.string(),
+  groups: z.array(z.object({
+    group: z.string(),
+    members: z.array(z.string())
+  }))
+});
+
+export type GroupStructure = z.infer<typeof groupSchema>;
+
+/**
+ * A set: a fixed list of members, members meeting a condition, or the
+ * top or bottom N by some measure
+ */
+export const setSchema = z.object({
+  ...structureShape,
+  field: z.string().nullable(),
+  setType: z.enum(["fixed", "condition", "top", "all"]),
+  members: z.array(z.string()),
+  excludedMembers: z.array(z.string()),
+  condition: z.string().nullable(),
+  top: z.object({
+    end: z.enum(["top", "bottom"]),
+    count: z.string(),
+    by: z.string().nullable()
+  }).nullable()
+});
+
+export type SetStructure = z.infer<typeof setSchema>;
+
+/**
+ * A bin: a measure cut into equal-size bins
+ *
+ * The size is a number, or the parameter that sets it.
+ */
+export const binSchema = z.object({
+  ...structureShape,
+  field: z.string(),
+  size: z.number().nullable(),
+  sizeParameter: z.string().nullable()
+});
+
+export type BinStructure = z.infer<typeof binSchema>;
+
+/**
+ * A drill hierarchy, levels from the top down
+ */
+export const hierarchySchema = z.object({
+  ...structureShape,
+  levels: z.array(z.string())
+});
+
+export type HierarchyStructure = z.infer<typeof hierarchySchema>;
+
+/**
+ * Display aliases for the members of a field
+ */
+export const aliasSetSchema = z.object({
+  ...structureShape,
+  aliases: z.array(z.object({
+    value: z.string(),
+    alias: z.string()
+  }))
+});
+
+export type AliasSet = z.infer<typeof aliasSetSchema>;
+
+/**
+ * All groups, sets, bins, hierarchies and aliases of a workbook
+ */
+export const fieldStructuresSchema = z.object({
+  groups: z.array(groupSchema),
+  sets: z.array(setSchema),
+  bins: z.array(binSchema),
+  hierarchies: z.array(hierarchySchema),
+  aliases: z.array(aliasSetSchema)
+});
+
+export type FieldStructures = z.infer<typeof fieldStructuresSchema>;
@@ -41,38 +41,87 @@ type GetTwbxLodExpressionsParams = z.infer<typeof paramsSchema>;
 /**
  * LOD expression output structure
  */
-interface LodExpressionOutput {
-  name: string;
-  caption: string;
-  fullFormula: string;
-  datasource: string;
-  hidden: boolean;
-
-  lodDetails: {
-    type: "FIXED" | "INCLUDE" | "EXCLUDE";
-    dimensions: string[];
-    aggregation: string | null;
-    aggregatedExpression: string;
-  };
+const lodExpressionOutputSchema = z.object({
+  name: z.string(),
+  caption: z.string(),
+  fullFormula: z.string(),
+  datasource: z.string(),
+  hidden: z.boolean(),
+
+  lodDetails: z.object({
+    type: z.enum(["FIXED", "INCLUDE", "EXCLUDE"]),
+    dimensions: z.array(z.string()),
+    aggregation: z.string().nullable(),
+    aggregatedExpression: z.string()
+  }),
+
+  explanation: z.object({
+    brief: z.string(),
+    detailed: z.string(),
+    useCase: z.string()
+  }),
+
+  hasNestedLod: z.boolean(),
+  nestedLods: z.array(z.object({
+    type: z.string(),
+    dimensions: z.array(z.string()),
+    expression: z.string()
+  })).optional(),
+
+  usageContext: z.object({
+    usedInCalculations: z.array(z.string()),
+    isHidden: z.boolean()
+  }).optional()
+});
 
-  explanation: {
-    brief: string;
-    detailed: string;
-    useCase: string;
-  };
+type LodExpressionOutput = z.infer<typeof lodExpressionOutputSchema>;
 
-  hasNestedLod: boolean;
-  nestedLods?: Array<{
-    type: string;
-    dimensions: string[];
-    expression: string;
-  }>;
+/**
+ * Static LOD learning material included with every result
+ */
+const learningResourcesSchema = z.object({
+  introduction: z.string(),
+  typeSummary: z.object({
+    fixed: z.string(),
+    include: z.string(),
+    exclude: z.string()
+  }),
+  tips: z.array(z.string())
+});
 
-  usageContext?: {
-    usedInCalculations: string[];
-    isHidden: boolean;
-  };
-}
+type LearningResources = z.infer<typeof learningResourcesSchema>;
+
+/**
+ * Structured output schema for getTwbxLodExpressions tool
+ *
+ * Workbooks without LOD expressions return only the summary counts,
+ * a message and the learning resources.
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  sourceFile: z.string(),
+  message: z.string().optional(),
+  summary: z.object({
+    totalLodExpressions: z.number(),
+    totalCalculations: z.number().optional(),
+    byType: z.object({
+      fixed: z.number(),
+      include: z.number(),
+      exclude: z.number()
+    }).optional(),
+    nestedLodCount: z.number().optional(),
+    tableScopedFixedCount: z.number().optional(),
+    hiddenCount: z.number().optional()
+  }),
+  lodExpressions: z.array(lodExpressionOutputSchema.omit({ name: true, hidden: true })).optional(),
+  patterns: z.object({
+    percentOfTotal: z.array(z.string()).optional(),
+    customerCohort: z.array(z.string()).optional(),
+    runningTotal: z.array(z.string()).optional(),
+    other: z.array(z.string()).optional()
+  }).optional(),
+  learningResources: learningResourcesSchema
+});
 
 /**
  * Pattern categorization results
@@ -245,15 +294,7 @@ function categorizeLodExpressions(lodExpressions: LodExpressionOutput[]): Patter
 /**
  * Generate learning resources about LOD expressions
  */
-function generateLearningResources(): {
-  introduction: string;
-  typeSummary: {
-    fixed: string;
-    include: string;
-    exclude: string;
-  };
-  tips: string[];
-} {
+function generateLearningResources(): LearningResources {
   return {
     introduction: "LOD (Level of Detail) expressions let you compute aggregations at a different " +
       "granularity than the visualization. They're powerful for calculations that need to " +
@@ -297,8 +338,11 @@ export function getTwbxLodExpressionsTool(server: Server): Tool<typeof paramsSch
       "and includes learning resources. Ideal for understanding and learning from existing LOD calculations. " +
       "Use with the mainTwbPath from unpack_twbx output.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get TWBX LOD Expressions"
+      title: "Get TWBX LOD Expressions",
+      readOnlyHint: true,
+      openWorldHint: false
     },
 
     callback: async (args: GetTwbxLodExpressionsParams): Promise<Ok<CallToolResult>> => {
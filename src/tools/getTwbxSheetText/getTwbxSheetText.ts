@@ -0,0 +1,218 @@
+/**
+ * Get TWBX Sheet Text Tool
+ *
+ * Extracts the title, caption and tooltip text of each worksheet in a
+ * Tableau workbook, with the fields, parameters and built-ins inserted in
+ * them, and previews the text as a reader would see it using parameter
+ * values and sample values from the packaged data.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import { parseTwbContent, ensureArray, decodeHtmlEntities } from "../../utils/twbParser.js";
+import { parseParameters } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import { parseSheetText } from "./sheetText.js";
+import { collectSampleValues } from "./sampleValues.js";
+import { SampleValues, worksheetTextSchema } from "./types.js";
+
+/**
+ * Parameter schema for getTwbxSheetText tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  worksheet: z.string()
+    .optional()
+    .describe("Only read the worksheet with this name (default: all worksheets)"),
+  samplePreviews: z.coerce.boolean()
+    .optional()
+    .default(true)
+    .describe("Preview field tokens with sample values from the packaged data files (default: true)"),
+  extractionPath: z.string()
+    .optional()
+    .describe("Path to extracted TWBX contents holding the data files (default: the .twb file's directory)")
+});
+
+type GetTwbxSheetTextParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Structured output schema for getTwbxSheetText tool
+ */
+const outputSchema = z.object({
+  success: z.literal(true),
+  sourceFile: z.string(),
+  summary: z.object({
+    worksheetCount: z.number(),
+    customTitleCount: z.number(),
+    captionCount: z.number(),
+    customTooltipCount: z.number(),
+    sampledColumnCount: z.number()
+  }),
+  worksheets: z.array(worksheetTextSchema)
+});
+
+type GetTwbxSheetTextResult = z.infer<typeof outputSchema>;
+
+/**
+ * Factory function to create the getTwbxSheetText tool
+ *
+ * This tool extracts worksheet text:
+ * 1. Reads each worksheet's title, caption and customised tooltip
+ * 2. Resolves field tokens to their aggregation and caption, parameter
+ *    tokens to their caption, and lists the built-ins used
+ * 3. Optionally samples the packaged data files to preview the text
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ */
+export function getTwbxSheetTextTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "get_twbx_sheet_text",
+    description: "Extracts the title, caption and tooltip text of each worksheet in a Tableau workbook (.twb " +
+      "file) as clean text, with the fields, parameters and built-ins (<Sheet Name>, ...) inserted in it " +
+      "shown as Tableau's editor shows them (e.g. <SUM(Sales)>), and the list of fields each sheet's text " +
+      "references. Previews the text with parameter values and sample values from the packaged CSV, Excel " +
+      "and Hyper data, to explain what a reader sees on hover. Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Get TWBX Sheet Text",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: GetTwbxSheetTextParams): Promise<Ok<CallToolResult>> => {
+      const { twbFilePath, worksheet, samplePreviews = true, extractionPath } = args;
+
+      try {
+        console.error(`[get_twbx_sheet_text] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        const worksheetElements = ensureArray((workbook["worksheets"] as Record<string, unknown> | undefined)?.["worksheet"])
+          .filter((w): w is Record<string, unknown> => !!w && typeof w === "object");
+        const names = worksheetElements.map(w => decodeHtmlEntities(String(w["@_name"] ?? "")));
+
+        const selected = worksheet ? worksheetElements.filter((_, i) => names[i] === worksheet) : worksheetElements;
+        if (worksheet && selected.length === 0) {
+          return createErrorResult(
+            "Worksheet not found",
+            {
+              twbFilePath,
+              worksheet,
+              availableWorksheets: names,
+              suggestion: "Use one of the available worksheet names"
+            }
+          );
+        }
+
+        const datasources = ensureArray((workbook["datasources"] as Record<string, unknown> | undefined)?.["datasource"])
+          .filter((d): d is Record<string, unknown> => !!d && typeof d === "object");
+        const parameterSource = datasources.find(ds => ds["@_name"] === "Parameters");
+        const parameters = parameterSource ? parseParameters(parameterSource["column"]) : [];
+
+        let samples: SampleValues | undefined;
+        if (samplePreviews) {
+          const dataPath = extractionPath ?? path.dirname(twbFilePath);
+          if (await fileExists(dataPath)) {
+            samples = await collectSampleValues(dataPath, workbook);
+          }
+        }
+
+        const context = {
+          datasources,
+          parameters,
+          workbookName: path.basename(twbFilePath, ext),
+          samples
+        };
+        const worksheets = selected.map(element => parseSheetText(element, context));
+        const texts = worksheets.flatMap(w => w.texts);
+
+        const result: GetTwbxSheetTextResult = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            worksheetCount: worksheets.length,
+            customTitleCount: texts.filter(t => t.kind === "title" && t.custom).length,
+            captionCount: texts.filter(t => t.kind === "caption").length,
+            customTooltipCount: texts.filter(t => t.kind === "tooltip").length,
+            sampledColumnCount: samples?.size ?? 0
+          },
+          worksheets
+        };
+
+        console.error(`[get_twbx_sheet_text] Read text of ${worksheets.length} worksheets`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error reading TWBX sheet text",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
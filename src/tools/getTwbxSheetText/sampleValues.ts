@@ -0,0 +1,66 @@
+/**
+ * Sample Values for Text Previews
+ *
+ * Profiles the data packaged in an extracted TWBX with the data profile
+ * readers, keeping the first non-empty sample value of each column, so
+ * tooltip and title tokens can be previewed with realistic values.
+ */
+
+import * as path from "path";
+import { listFilesRecursive } from "../../utils/fileSystem.js";
+import { profileCsvFiles } from "../getTwbxDataProfile/csvProfiler.js";
+import { profileExcelFiles } from "../getTwbxDataProfile/excelProfiler.js";
+import { profileExtract } from "../getTwbxDataProfile/extractReader.js";
+import { ProfileOptions } from "../getTwbxDataProfile/columnStats.js";
+import { SampleValue } from "../getTwbxDataProfile/types.js";
+import { SampleValues } from "./types.js";
+
+/** Only a few rows are needed to find one value per column */
+const SAMPLE_OPTIONS: ProfileOptions = { maxRows: 100, sampleRows: 5, topValues: 0 };
+
+/** Keep the first non-empty value of each column of some sample rows */
+function addSampleRows(samples: SampleValues, rows: Record<string, SampleValue>[]): void {
+  for (const row of rows) {
+    for (const [column, value] of Object.entries(row)) {
+      const key = column.toLowerCase();
+      if (!samples.has(key) && value !== null && value !== "") {
+        samples.set(key, value);
+      }
+    }
+  }
+}
+
+/**
+ * Collect sample values from the data files of an extracted TWBX
+ *
+ * @param extractionPath - Directory the TWBX was unpacked to
+ * @param workbook - The parsed workbook, for extract schemas
+ * @returns Sample values keyed by lower-cased column name
+ */
+export async function collectSampleValues(
+  extractionPath: string,
+  workbook: Record<string, unknown>
+): Promise<SampleValues> {
+  const samples: SampleValues = new Map();
+  const files = (await listFilesRecursive(extractionPath))
+    .filter(f => !f.isDirectory)
+    .map(f => path.join(extractionPath, f.path));
+  const byExtension = (...extensions: string[]) =>
+    files.filter(f => extensions.includes(path.extname(f).toLowerCase()));
+
+  for (const profile of await profileCsvFiles(byExtension(".csv"), SAMPLE_OPTIONS)) {
+    addSampleRows(samples, profile.sampleRows);
+  }
+  for (const profile of await profileExcelFiles(byExtension(".xlsx", ".xls"), SAMPLE_OPTIONS)) {
+    for (const sheet of profile.sheets) addSampleRows(samples, sheet.sampleRows);
+  }
+  for (const filePath of byExtension(".hyper")) {
+    const result = await profileExtract(filePath, "hyper", SAMPLE_OPTIONS, workbook);
+    if ("profile" in result) {
+      for (const table of result.profile.tables) addSampleRows(samples, table.sampleRows);
+    }
+  }
+
+  console.error(`[get_twbx_sheet_text] Collected sample values for ${samples.size} columns`);
+  return samples;
+}
@@ -0,0 +1,128 @@
+/**
+ * Tests for worksheet title, caption and tooltip text
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseTwbContent, ensureArray } from "../../utils/twbParser.js";
+import { parseParameters } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import { parseSheetText, SheetTextContext } from "./sheetText.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <datasources>
+    <datasource hasconnection='false' inline='true' name='Parameters'>
+      <column caption='Target Year' datatype='integer' name='[Parameter 1]' param-domain-type='list' role='measure' type='quantitative' value='2024' />
+    </datasource>
+    <datasource caption='Superstore' name='federated.1'>
+      <column datatype='real' name='[Sales]' role='measure' type='quantitative' />
+      <column datatype='string' name='[Region]' role='dimension' type='nominal' />
+      <column datatype='string' name='[Order ID]' role='dimension' type='nominal' />
+    </datasource>
+  </datasources>
+  <worksheets>
+    <worksheet name='Sales Map'>
+      <layout-options>
+        <title>
+          <formatted-text>
+            <run>&lt;Sheet Name&gt; for &lt;[Parameters].[Parameter 1]&gt;</run>
+          </formatted-text>
+        </title>
+        <caption>
+          <formatted-text>
+            <run>Source: &lt;Data Source Name&gt;</run>
+          </formatted-text>
+        </caption>
+      </layout-options>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Superstore' name='federated.1' />
+          </datasources>
+          <datasource-dependencies datasource='federated.1'>
+            <column-instance column='[Order ID]' derivation='CountD' name='[ctd:Order ID:qk]' pivot='key' type='quantitative' />
+            <column-instance column='[Region]' derivation='None' name='[none:Region:nk]' pivot='key' type='nominal' />
+            <column-instance column='[Sales]' derivation='Sum' name='[sum:Sales:qk]' pivot='key' type='quantitative' />
+          </datasource-dependencies>
+        </view>
+        <panes>
+          <pane>
+            <customized-tooltip>
+              <formatted-text>
+                <run bold='true'>&lt;[federated.1].[none:Region:nk]&gt;</run>
+                <run>Æ&#10;</run>
+                <run>Sales: &lt;[federated.1].[sum:Sales:qk]&gt; from &lt;[federated.1].[ctd:Order ID:qk]&gt; orders</run>
+              </formatted-text>
+            </customized-tooltip>
+          </pane>
+        </panes>
+      </table>
+    </worksheet>
+    <worksheet name='Plain'>
+      <table>
+        <view />
+      </table>
+    </worksheet>
+  </worksheets>
+</workbook>`;
+
+function parseTexts(samples?: SheetTextContext["samples"]) {
+  const result = parseTwbContent(TWB);
+  if (!result.success) throw new Error(result.error);
+  const workbook = (result.data as { workbook: Record<string, unknown> }).workbook;
+  const datasources = ensureArray((workbook.datasources as { datasource: Record<string, unknown>[] }).datasource);
+  const worksheets = ensureArray((workbook.worksheets as { worksheet: Record<string, unknown>[] }).worksheet);
+  const context: SheetTextContext = {
+    datasources,
+    parameters: parseParameters(datasources[0].column),
+    workbookName: "Superstore",
+    samples
+  };
+  return worksheets.map(w => parseSheetText(w, context));
+}
+
+describe("parseSheetText", () => {
+  it("should resolve field, parameter and built-in tokens", () => {
+    const [map, plain] = parseTexts();
+
+    expect(map.texts.map(t => [t.kind, t.custom, t.text])).toEqual([
+      ["title", true, "<Sheet Name> for <Target Year>"],
+      ["caption", true, "Source: <Data Source Name>"],
+      ["tooltip", true, "<Region>\nSales: <SUM(Sales)> from <CNTD(Order ID)> orders"]
+    ]);
+    expect(map.texts[2].tokens).toEqual([
+      {
+        token: "<[federated.1].[none:Region:nk]>", kind: "field", label: "Region",
+        field: "Region", datasource: "Superstore", aggregation: null
+      },
+      {
+        token: "<[federated.1].[sum:Sales:qk]>", kind: "field", label: "SUM(Sales)",
+        field: "Sales", datasource: "Superstore", aggregation: "sum"
+      },
+      {
+        token: "<[federated.1].[ctd:Order ID:qk]>", kind: "field", label: "CNTD(Order ID)",
+        field: "Order ID", datasource: "Superstore", aggregation: "countd"
+      }
+    ]);
+    expect(map.fields).toEqual(["Region", "Sales", "Order ID"]);
+
+    // Worksheets without a custom title show their name
+    expect(plain.texts).toEqual([{
+      kind: "title",
+      custom: false,
+      text: "<Sheet Name>",
+      tokens: [{ token: "<Sheet Name>", kind: "builtin", label: "Sheet Name" }],
+      preview: "Plain"
+    }]);
+  });
+
+  it("should preview text with parameter values and sample data", () => {
+    const [map] = parseTexts(new Map<string, string | number>([["region", "West"], ["sales", 261.96], ["order id", "CA-1"]]));
+
+    expect(map.texts.map(t => t.preview)).toEqual([
+      "Sales Map for 2024",
+      "Source: Superstore",
+      // Distinct counts can't be previewed from a sample row
+      "West\nSales: 261.96 from <CNTD(Order ID)> orders"
+    ]);
+  });
+});
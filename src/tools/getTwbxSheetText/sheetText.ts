@@ -0,0 +1,188 @@
+/**
+ * Worksheet Text
+ *
+ * Reads the title, caption and tooltip of a worksheet from their
+ * formatted-text runs. Tableau stores inserted fields as tokens such as
+ * <[federated.1].[sum:Sales:qk]>, parameters as <[Parameters].[Parameter 1]>
+ * and built-ins as <Sheet Name>; these are shown the way Tableau's text
+ * editor shows them (<SUM(Sales)>) and, for previews, replaced with the
+ * parameter's current value or a sample value from the packaged data.
+ */
+
+import { ensureArray, decodeHtmlEntities, extractFormattedText, parseMemberValue } from "../../utils/twbParser.js";
+import { Parameter } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import { buildFieldLookup, FieldLookup, resolveField } from "../getTwbxVisualSpec/visualSpec.js";
+import { SampleValues, SheetText, TextToken, WorksheetText } from "./types.js";
+
+/** Labels Tableau shows for a field's derivation, where not just upper case */
+const DERIVATION_LABELS: Record<string, string> = {
+  count: "CNT",
+  countd: "CNTD",
+  attribute: "ATTR",
+  user: "AGG"
+};
+
+/** Derivations whose value can't be previewed from a single sample row */
+const UNPREVIEWABLE = new Set(["count", "countd"]);
+
+/** Title shown by a worksheet that has no custom title */
+const DEFAULT_TITLE = "<Sheet Name>";
+
+/** A field or parameter reference inside a token */
+const REFERENCE = /^\[[^\]]+\]\.\[[^\]]+\]$/;
+
+/** Context for reading a workbook's sheet text */
+export interface SheetTextContext {
+  datasources: Record<string, unknown>[];
+  parameters: Parameter[];
+  workbookName: string;
+  samples?: SampleValues;
+}
+
+/** Text with tokens resolved, before it is assembled into a SheetText */
+interface ResolvedText {
+  text: string;
+  tokens: TextToken[];
+  preview: string;
+}
+
+/** Values of built-in tokens that are known without running the workbook */
+function builtinValue(name: string, worksheet: string, datasource: string, context: SheetTextContext): string | null {
+  switch (name) {
+    case "Sheet Name":
+      return worksheet;
+    case "Workbook Name":
+      return context.workbookName;
+    case "Data Source Name":
+      return datasource || null;
+    default:
+      return null;
+  }
+}
+
+/** Format a sample value for a preview */
+function formatSample(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  return String(value);
+}
+
+/**
+ * Resolve the tokens of a piece of text
+ */
+function resolveText(
+  raw: string,
+  worksheet: string,
+  datasource: string,
+  lookup: FieldLookup,
+  context: SheetTextContext
+): ResolvedText {
+  const tokens: TextToken[] = [];
+  const seen = new Set<string>();
+  const display: string[] = [];
+  const preview: string[] = [];
+  let last = 0;
+
+  for (const match of raw.matchAll(/<([^<>\n]+)>/g)) {
+    const inner = match[1];
+    display.push(raw.slice(last, match.index));
+    preview.push(raw.slice(last, match.index));
+    last = match.index + match[0].length;
+
+    let token: TextToken;
+    let value: string | null = null;
+
+    if (REFERENCE.test(inner) && /^\[Parameters\]\./.test(inner)) {
+      const name = inner.slice("[Parameters].[".length, -1);
+      const parameter = context.parameters.find(p => p.name === name);
+      token = { token: match[0], kind: "parameter", label: parameter?.caption ?? name };
+      if (parameter?.currentValue) value = parseMemberValue(parameter.currentValue);
+    } else if (REFERENCE.test(inner)) {
+      const field = resolveField(inner, lookup);
+      const derivation = field.aggregation ?? field.timeUnit?.replace(/-trunc$/, "") ?? null;
+      const label = derivation && derivation !== "none"
+        ? `${DERIVATION_LABELS[derivation] ?? derivation.toUpperCase()}(${field.field})`
+        : field.field;
+      token = {
+        token: match[0],
+        kind: "field",
+        label,
+        field: field.field,
+        datasource: field.datasource,
+        aggregation: field.aggregation
+      };
+      if (context.samples && !UNPREVIEWABLE.has(field.aggregation ?? "")) {
+        const columnName = inner.match(/\.\[(?:[a-z]+:)?(.+?)(?::[a-z]{2})?\]$/)?.[1] ?? field.field;
+        value = formatSample(context.samples.get(field.field.toLowerCase())
+          ?? context.samples.get(columnName.toLowerCase()));
+      }
+    } else {
+      token = { token: match[0], kind: "builtin", label: inner };
+      value = builtinValue(inner, worksheet, datasource, context);
+    }
+
+    display.push(`<${token.label}>`);
+    preview.push(value ?? `<${token.label}>`);
+    if (!seen.has(token.token)) {
+      seen.add(token.token);
+      tokens.push(token);
+    }
+  }
+
+  display.push(raw.slice(last));
+  preview.push(raw.slice(last));
+  return { text: display.join(""), tokens, preview: preview.join("") };
+}
+
+/** Get the formatted-text element inside an element such as <title> */
+function formattedTextOf(element: unknown): unknown {
+  return element && typeof element === "object" ? (element as Record<string, unknown>)["formatted-text"] : undefined;
+}
+
+/**
+ * Read the title, caption and tooltip of a worksheet
+ *
+ * A worksheet always has a title (<Sheet Name> unless customised); the
+ * caption and tooltip are included only when they have been written.
+ *
+ * @param worksheet - The <worksheet> element
+ * @param context - Data sources, parameters, workbook name and sample values
+ */
+export function parseSheetText(worksheet: Record<string, unknown>, context: SheetTextContext): WorksheetText {
+  const name = decodeHtmlEntities(String(worksheet["@_name"] ?? ""));
+  const table = worksheet["table"] as Record<string, unknown> | undefined;
+  const view = (table?.["view"] as Record<string, unknown> | undefined) ?? {};
+  const lookup = buildFieldLookup(view, context.datasources);
+
+  const viewDatasources = ensureArray((view["datasources"] as Record<string, unknown> | undefined)?.["datasource"])
+    .filter((ds): ds is Record<string, unknown> => !!ds && typeof ds === "object")
+    .filter(ds => ds["@_name"] !== "Parameters");
+  const primary = viewDatasources[0];
+  const datasource = primary
+    ? decodeHtmlEntities(String(primary["@_caption"] ?? primary["@_name"] ?? ""))
+    : "";
+
+  const layoutOptions = worksheet["layout-options"] as Record<string, unknown> | undefined;
+  const pane = ensureArray((table?.["panes"] as Record<string, unknown> | undefined)?.["pane"])[0];
+  const tooltip = pane && typeof pane === "object" ? (pane as Record<string, unknown>)["customized-tooltip"] : undefined;
+
+  const sources: { kind: SheetText["kind"]; raw: string }[] = [];
+  const title = extractFormattedText(formattedTextOf(layoutOptions?.["title"]));
+  sources.push({ kind: "title", raw: title });
+  const caption = extractFormattedText(formattedTextOf(layoutOptions?.["caption"]));
+  if (caption) sources.push({ kind: "caption", raw: caption });
+  const tooltipText = extractFormattedText(formattedTextOf(tooltip));
+  if (tooltipText) sources.push({ kind: "tooltip", raw: tooltipText });
+
+  const texts: SheetText[] = sources.map(({ kind, raw }) => ({
+    kind,
+    custom: raw !== "",
+    ...resolveText(raw || DEFAULT_TITLE, name, datasource, lookup, context)
+  }));
+
+  const fields = new Set<string>();
+  for (const token of texts.flatMap(t => t.tokens)) {
+    if (token.kind === "field" && token.field) fields.add(token.field);
+  }
+
+  return { worksheet: name, texts, fields: Array.from(fields) };
+}
@@ -0,0 +1,56 @@
+/**
+ * Type definitions for TWBX Sheet Text tool
+ *
+ * Each type is inferred from a Zod schema so the same definitions back
+ * the tool's advertised outputSchema.
+ */
+
+import { z } from "zod";
+import { sampleValueSchema } from "../getTwbxDataProfile/types.js";
+
+/**
+ * A <token> in formatted text: a field, a parameter or a built-in
+ * such as <Sheet Name>
+ */
+export const textTokenSchema = z.object({
+  token: z.string(),
+  kind: z.enum(["field", "parameter", "builtin"]),
+  label: z.string(),
+  field: z.string().optional(),
+  datasource: z.string().optional(),
+  aggregation: z.string().nullable().optional()
+});
+
+export type TextToken = z.infer<typeof textTokenSchema>;
+
+/**
+ * A title, caption or tooltip of a worksheet
+ *
+ * text shows tokens as Tableau's editor does (e.g. <SUM(Sales)>);
+ * preview substitutes sample values where they are known.
+ */
+export const sheetTextSchema = z.object({
+  kind: z.enum(["title", "caption", "tooltip"]),
+  custom: z.boolean(),
+  text: z.string(),
+  tokens: z.array(textTokenSchema),
+  preview: z.string()
+});
+
+export type SheetText = z.infer<typeof sheetTextSchema>;
+
+/**
+ * The text of one worksheet
+ */
+export const worksheetTextSchema = z.object({
+  worksheet: z.string(),
+  texts: z.array(sheetTextSchema),
+  fields: z.array(z.string())
+});
+
+export type WorksheetText = z.infer<typeof worksheetTextSchema>;
+
+/**
+ * Sample values keyed by lower-cased column name, for previews
+ */
+export type SampleValues = Map<string, z.infer<typeof sampleValueSchema>>;
@@ -0,0 +1,183 @@
+/**
+ * Get TWBX Style Guide Tool
+ *
+ * Audits the formatting of a Tableau workbook: fonts and sizes, colours
+ * and custom palettes, backgrounds, worksheet and dashboard title styles,
+ * tooltip templates and number formats, so the design of a workbook can
+ * be studied and compared without opening it in Tableau.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { parseStyleGuide } from "./styleGuide.js";
+import { styleGuideSchema } from "./types.js";
+
+/**
+ * Parameter schema for getTwbxStyleGuide tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  includeSheetRules: z.coerce.boolean()
+    .optional()
+    .default(true)
+    .describe("Include each worksheet's and dashboard's raw style rules (default: true)")
+});
+
+type GetTwbxStyleGuideParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Structured output schema for getTwbxStyleGuide tool
+ */
+const outputSchema = z.object({
+  success: z.literal(true),
+  sourceFile: z.string(),
+  summary: z.object({
+    primaryFont: z.string().nullable(),
+    fontCount: z.number(),
+    colorCount: z.number(),
+    paletteCount: z.number(),
+    numberFormatCount: z.number(),
+    customTooltipCount: z.number(),
+    worksheetCount: z.number(),
+    dashboardCount: z.number()
+  }),
+  styleGuide: styleGuideSchema
+});
+
+type GetTwbxStyleGuideResult = z.infer<typeof outputSchema>;
+
+/**
+ * Factory function to create the getTwbxStyleGuide tool
+ *
+ * This tool audits workbook formatting:
+ * 1. Reads the workbook, worksheet and dashboard style rules
+ * 2. Resolves title and tooltip text styles through the formatting cascade
+ * 3. Counts the fonts, sizes and colours used anywhere in the workbook
+ * 4. Lists custom palettes, backgrounds, zone styles and number formats
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ */
+export function getTwbxStyleGuideTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "get_twbx_style_guide",
+    description: "Audits the formatting of a Tableau workbook (.twb file) as a style guide: fonts and sizes " +
+      "with how often each is used, colours and what they colour, custom colour palettes, worksheet, " +
+      "dashboard and zone backgrounds, worksheet and dashboard title styles, customised tooltip templates, " +
+      "and number formats on data source fields and worksheets. Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Get TWBX Style Guide",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: GetTwbxStyleGuideParams): Promise<Ok<CallToolResult>> => {
+      const { twbFilePath, includeSheetRules = true } = args;
+
+      try {
+        console.error(`[get_twbx_style_guide] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        const styleGuide = parseStyleGuide(workbook);
+        if (!includeSheetRules) {
+          for (const sheet of [...styleGuide.worksheets, ...styleGuide.dashboards]) {
+            sheet.rules = [];
+          }
+        }
+
+        const result: GetTwbxStyleGuideResult = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            primaryFont: styleGuide.fonts[0]?.family ?? null,
+            fontCount: styleGuide.fonts.length,
+            colorCount: styleGuide.colors.length,
+            paletteCount: styleGuide.palettes.length,
+            numberFormatCount: styleGuide.numberFormats.length,
+            customTooltipCount: styleGuide.worksheets.filter(w => w.tooltip !== null).length,
+            worksheetCount: styleGuide.worksheets.length,
+            dashboardCount: styleGuide.dashboards.length
+          },
+          styleGuide
+        };
+
+        console.error(`[get_twbx_style_guide] Found ${styleGuide.fonts.length} fonts and ${styleGuide.colors.length} colours`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error reading TWBX style guide",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
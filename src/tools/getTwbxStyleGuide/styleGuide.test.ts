@@ -0,0 +1,175 @@
+/**
+ * Tests for workbook style guides
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { parseStyleGuide } from "./styleGuide.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <preferences>
+    <color-palette name='Ocean' type='ordered-sequential'>
+      <color>#e0f3f8</color>
+      <color>#08589e</color>
+    </color-palette>
+  </preferences>
+  <style>
+    <style-rule element='all'>
+      <format attr='font-family' value='Georgia' />
+    </style-rule>
+    <style-rule element='title'>
+      <format attr='font-size' value='16' />
+      <format attr='color' value='#1A1A1A' />
+    </style-rule>
+  </style>
+  <datasources>
+    <datasource caption='Superstore' name='federated.1'>
+      <column caption='Profit Ratio' datatype='real' default-format='p0.0%' name='[Calculation_1]' role='measure' type='quantitative' />
+    </datasource>
+  </datasources>
+  <worksheets>
+    <worksheet name='Sales'>
+      <layout-options>
+        <title>
+          <formatted-text>
+            <run bold='true' fontalignment='1' fontname='Montserrat' fontsize='20'>Sales by Region</run>
+          </formatted-text>
+        </title>
+      </layout-options>
+      <table>
+        <view />
+        <style>
+          <style-rule element='cell'>
+            <format attr='text-format' field='[federated.1].[sum:Sales:qk]' value='c&quot;$&quot;#,##0' />
+          </style-rule>
+          <style-rule element='table'>
+            <format attr='background-color' value='#F5F5F5' />
+          </style-rule>
+        </style>
+        <panes>
+          <pane>
+            <mark class='Bar' />
+            <customized-tooltip show-buttons='false'>
+              <formatted-text>
+                <run fontcolor='#787878'>Region:&#9;</run>
+                <run bold='true'>&lt;[federated.1].[none:Region:nk]&gt;</run>
+                <run>Æ&#10;</run>
+                <run fontcolor='#787878'>Sales:&#9;</run>
+                <run bold='true'>&lt;[federated.1].[sum:Sales:qk]&gt;</run>
+              </formatted-text>
+            </customized-tooltip>
+          </pane>
+        </panes>
+      </table>
+    </worksheet>
+    <worksheet name='Detail'>
+      <table>
+        <view />
+      </table>
+    </worksheet>
+  </worksheets>
+  <dashboards>
+    <dashboard name='Overview'>
+      <style>
+        <style-rule element='table'>
+          <format attr='background-color' value='#ffffff' />
+        </style-rule>
+      </style>
+      <zones>
+        <zone h='100000' id='1' type-v2='layout-basic' w='100000' x='0' y='0'>
+          <zone h='10000' id='2' type-v2='text' w='100000' x='0' y='0'>
+            <formatted-text>
+              <run fontcolor='#08589e' fontname='Montserrat' fontsize='12'>Notes</run>
+            </formatted-text>
+            <zone-style>
+              <format attr='border-color' value='#000000' />
+              <format attr='background-color' value='#f5f5f5' />
+            </zone-style>
+          </zone>
+        </zone>
+      </zones>
+    </dashboard>
+  </dashboards>
+  <windows>
+    <window class='worksheet' name='Sales'>
+      <cards>
+        <edge name='top'>
+          <strip size='2147483647'>
+            <card type='title' />
+          </strip>
+        </edge>
+      </cards>
+    </window>
+    <window class='worksheet' name='Detail'>
+      <cards>
+        <edge name='left'>
+          <strip size='160'>
+            <card type='pages' />
+          </strip>
+        </edge>
+      </cards>
+    </window>
+  </windows>
+</workbook>`;
+
+function parseGuide() {
+  const result = parseTwbContent(TWB);
+  if (!result.success) throw new Error(result.error);
+  return parseStyleGuide((result.data as { workbook: Record<string, unknown> }).workbook);
+}
+
+describe("parseStyleGuide", () => {
+  it("should resolve title and tooltip styles through the formatting cascade", () => {
+    const guide = parseGuide();
+    const [sales, detail] = guide.worksheets;
+
+    expect(sales.title).toEqual({
+      text: "Sales by Region",
+      hidden: false,
+      style: { fontFamily: "Montserrat", fontSize: 20, color: "#1A1A1A", bold: true, italic: false, underline: false, alignment: "center" }
+    });
+    expect(sales.backgroundColor).toBe("#F5F5F5");
+    expect(sales.tooltip).toMatchObject({
+      template: "Region:\t<Region>\nSales:\t<Sales>",
+      fields: ["Region", "Sales"],
+      showButtons: false,
+      style: { fontFamily: "Georgia", color: "#787878" }
+    });
+
+    expect(detail.title).toEqual({
+      text: "<Sheet Name>",
+      hidden: true,
+      style: { fontFamily: "Georgia", fontSize: 16, color: "#1A1A1A", bold: false, italic: false, underline: false }
+    });
+    expect(detail.tooltip).toBeNull();
+  });
+
+  it("should collect fonts, colours, palettes and number formats", () => {
+    const guide = parseGuide();
+
+    expect(guide.fonts).toEqual([
+      { family: "Montserrat", sizes: [12, 20], uses: 2 },
+      { family: "Georgia", sizes: [], uses: 1 }
+    ]);
+    expect(guide.colors.find(c => c.color === "#f5f5f5")).toEqual({
+      color: "#f5f5f5", uses: 2, roles: ["table background-color", "zone background-color"]
+    });
+    expect(guide.palettes).toEqual([{ name: "Ocean", type: "ordered-sequential", colors: ["#e0f3f8", "#08589e"] }]);
+    expect(guide.numberFormats).toEqual([
+      { field: "Profit Ratio", format: "p0.0%", source: "datasource", owner: "Superstore" },
+      { field: "Sales", format: "c\"$\"#,##0", source: "worksheet", owner: "Sales" }
+    ]);
+  });
+
+  it("should read dashboard backgrounds and zone styles", () => {
+    const [overview] = parseGuide().dashboards;
+
+    expect(overview.backgroundColor).toBe("#ffffff");
+    expect(overview.title.hidden).toBe(true);
+    expect(overview.zoneStyles).toEqual([{
+      zoneId: "2",
+      formats: [{ attr: "border-color", value: "#000000" }, { attr: "background-color", value: "#f5f5f5" }]
+    }]);
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Workbook Style Guide
+ *
+ * Reads a workbook's formatting: the <style> rules of the workbook and of
+ * each worksheet and dashboard, formatted-text runs in titles, tooltips
+ * and text objects, zone backgrounds and borders, custom palettes from
+ * <preferences> and number formats. Formatting cascades, so a title's
+ * style is the workbook rule, overridden by the sheet's rule, overridden
+ * by the formatting of its text.
+ */
+
+import {
+  ensureArray,
+  decodeHtmlEntities,
+  extractFormattedText,
+  parseColorPalettes,
+  parseFieldReference
+} from "../../utils/twbParser.js";
+import {
+  ColorUsage,
+  DashboardStyle,
+  FontUsage,
+  NumberFormat,
+  StyleFormat,
+  StyleGuide,
+  StyleRule,
+  TextStyle,
+  TitleStyle,
+  TooltipTemplate,
+  WorksheetStyle
+} from "./types.js";
+
+/** Alignment by fontalignment run attribute */
+const RUN_ALIGNMENTS: Record<string, TextStyle["alignment"]> = { "0": "left", "1": "center", "2": "right" };
+
+/** Text shown by an untitled sheet's title */
+const DEFAULT_TITLE = "<Sheet Name>";
+
+/** Read an optional attribute as decoded text */
+function attr(element: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = element?.[`@_${name}`];
+  return value === undefined || value === "" ? undefined : decodeHtmlEntities(String(value));
+}
+
+/** Get child elements as objects */
+function children(element: unknown, name: string): Record<string, unknown>[] {
+  if (!element || typeof element !== "object") return [];
+  return ensureArray((element as Record<string, unknown>)[name])
+    .filter((child): child is Record<string, unknown> => !!child && typeof child === "object");
+}
+
+/**
+ * Collects the fonts and colours used across the workbook
+ */
+class UsageCollector {
+  private fonts = new Map<string, { sizes: Set<number>; uses: number }>();
+  private colors = new Map<string, { uses: number; roles: Set<string> }>();
+
+  addFont(family: string | undefined, size: number | undefined): void {
+    if (!family) return;
+    const usage = this.fonts.get(family) ?? { sizes: new Set<number>(), uses: 0 };
+    usage.uses++;
+    if (size !== undefined && !Number.isNaN(size)) usage.sizes.add(size);
+    this.fonts.set(family, usage);
+  }
+
+  addColor(color: string | undefined, role: string): void {
+    if (!color || !/^#[0-9a-f]{3,8}$/i.test(color)) return;
+    const key = color.toLowerCase();
+    const usage = this.colors.get(key) ?? { uses: 0, roles: new Set<string>() };
+    usage.uses++;
+    usage.roles.add(role);
+    this.colors.set(key, usage);
+  }
+
+  /** Record the fonts and colours set by style rules */
+  addRules(rules: StyleRule[]): void {
+    for (const rule of rules) {
+      const family = rule.formats.find(f => f.attr === "font-family" && !f.field)?.value;
+      const size = rule.formats.find(f => f.attr === "font-size" && !f.field)?.value;
+      this.addFont(family, size === undefined ? undefined : Number(size));
+      for (const format of rule.formats) {
+        if (format.attr === "font-family" && format.field) this.addFont(format.value, undefined);
+        this.addColor(format.value, `${rule.element} ${format.attr}`);
+      }
+    }
+  }
+
+  /** Record the fonts and colours of formatted-text runs */
+  addRuns(formattedText: unknown, context: string): void {
+    for (const run of children(formattedText, "run")) {
+      const size = attr(run, "fontsize");
+      this.addFont(attr(run, "fontname"), size === undefined ? undefined : Number(size));
+      this.addColor(attr(run, "fontcolor"), `${context} text`);
+    }
+  }
+
+  fontUsage(): FontUsage[] {
+    return Array.from(this.fonts.entries())
+      .map(([family, usage]) => ({ family, sizes: Array.from(usage.sizes).sort((a, b) => a - b), uses: usage.uses }))
+      .sort((a, b) => b.uses - a.uses || a.family.localeCompare(b.family));
+  }
+
+  colorUsage(): ColorUsage[] {
+    return Array.from(this.colors.entries())
+      .map(([color, usage]) => ({ color, uses: usage.uses, roles: Array.from(usage.roles).sort() }))
+      .sort((a, b) => b.uses - a.uses || a.color.localeCompare(b.color));
+  }
+}
+
+/** Read a <format> element */
+function parseFormat(format: Record<string, unknown>): StyleFormat | null {
+  const formatAttr = attr(format, "attr");
+  if (!formatAttr) return null;
+  const result: StyleFormat = { attr: formatAttr, value: attr(format, "value") ?? "" };
+  const field = attr(format, "field");
+  const scope = attr(format, "scope");
+  if (field) result.field = field;
+  if (scope) result.scope = scope;
+  return result;
+}
+
+/**
+ * Read the style rules of a <style> element
+ *
+ * @param style - A <style> element of a workbook, table or dashboard
+ */
+export function parseStyleRules(style: unknown): StyleRule[] {
+  return children(style, "style-rule").map(rule => ({
+    element: attr(rule, "element") ?? "",
+    formats: children(rule, "format").map(parseFormat).filter((f): f is StyleFormat => f !== null)
+  }));
+}
+
+/** Find an element-wide format (not tied to a field) in the rules for an element */
+function findFormat(rules: StyleRule[], element: string, formatAttr: string): string | undefined {
+  return rules
+    .filter(rule => rule.element === element)
+    .flatMap(rule => rule.formats)
+    .find(format => format.attr === formatAttr && !format.field)?.value;
+}
+
+/** Apply the element-wide formats of a rule to a text style */
+function applyRuleStyle(style: TextStyle, rules: StyleRule[], element: string): void {
+  const family = findFormat(rules, element, "font-family");
+  const size = findFormat(rules, element, "font-size");
+  const color = findFormat(rules, element, "color");
+  const weight = findFormat(rules, element, "font-weight");
+  const fontStyle = findFormat(rules, element, "font-style");
+  const decoration = findFormat(rules, element, "text-decoration");
+  const align = findFormat(rules, element, "text-align");
+
+  if (family) style.fontFamily = family;
+  if (size && !Number.isNaN(Number(size))) style.fontSize = Number(size);
+  if (color) style.color = color;
+  if (weight) style.bold = weight === "bold";
+  if (fontStyle) style.italic = fontStyle === "italic";
+  if (decoration) style.underline = decoration === "underline";
+  if (align === "left" || align === "center" || align === "right") style.alignment = align;
+}
+
+/** Apply the formatting of the first formatted run to a text style */
+function applyRunStyle(style: TextStyle, formattedText: unknown): void {
+  const run = children(formattedText, "run").find(r => Object.keys(r).some(key => key.startsWith("@_")));
+  if (!run) return;
+  const size = attr(run, "fontsize");
+  const family = attr(run, "fontname");
+  const color = attr(run, "fontcolor");
+  const alignment = RUN_ALIGNMENTS[attr(run, "fontalignment") ?? ""];
+
+  if (family) style.fontFamily = family;
+  if (size && !Number.isNaN(Number(size))) style.fontSize = Number(size);
+  if (color) style.color = color;
+  if (alignment) style.alignment = alignment;
+  if (attr(run, "bold") !== undefined) style.bold = attr(run, "bold") === "true";
+  if (attr(run, "italic") !== undefined) style.italic = attr(run, "italic") === "true";
+  if (attr(run, "underline") !== undefined) style.underline = attr(run, "underline") === "true";
+}
+
+/**
+ * Resolve a text style through the cascade: workbook rules, then sheet
+ * rules, then the text's own formatting
+ */
+function resolveTextStyle(
+  element: string,
+  workbookRules: StyleRule[],
+  sheetRules: StyleRule[],
+  formattedText: unknown
+): TextStyle {
+  const style: TextStyle = { bold: false, italic: false, underline: false };
+  for (const rules of [workbookRules, sheetRules]) {
+    applyRuleStyle(style, rules, "all");
+    applyRuleStyle(style, rules, element);
+  }
+  applyRunStyle(style, formattedText);
+  return style;
+}
+
+/** Does a window show a title card? */
+function hasTitleCard(element: unknown): boolean {
+  if (!element || typeof element !== "object") return false;
+  if (Array.isArray(element)) return element.some(hasTitleCard);
+  const obj = element as Record<string, unknown>;
+  if (obj["@_type"] === "title") return true;
+  return Object.entries(obj).some(([key, value]) => !key.startsWith("@_") && hasTitleCard(value));
+}
+
+/** Does a dashboard show its title? Only a title zone shows it */
+function hasTitleZone(element: unknown): boolean {
+  return children(element, "zone").some(zone =>
+    (attr(zone, "type-v2") ?? attr(zone, "type")) === "title" || hasTitleZone(zone));
+}
+
+/** Read a sheet's title from its layout-options */
+function parseTitle(
+  sheet: Record<string, unknown>,
+  element: string,
+  workbookRules: StyleRule[],
+  sheetRules: StyleRule[],
+  hidden: boolean,
+  usage: UsageCollector
+): TitleStyle {
+  const formattedText = (sheet["layout-options"] as Record<string, unknown> | undefined)?.["title"] as Record<string, unknown> | undefined;
+  const text = extractFormattedText(formattedText?.["formatted-text"]);
+  usage.addRuns(formattedText?.["formatted-text"], element);
+  return {
+    text: text || DEFAULT_TITLE,
+    hidden,
+    style: resolveTextStyle(element, workbookRules, sheetRules, formattedText?.["formatted-text"])
+  };
+}
+
+/** Read the background colour set on a sheet */
+function findBackground(rules: StyleRule[]): string | undefined {
+  return findFormat(rules, "table", "background-color") ?? findFormat(rules, "worksheet", "background-color");
+}
+
+/** Read a worksheet's customised tooltip */
+function parseTooltip(
+  table: Record<string, unknown> | undefined,
+  workbookRules: StyleRule[],
+  sheetRules: StyleRule[],
+  usage: UsageCollector
+): TooltipTemplate | null {
+  const pane = children(table?.["panes"], "pane")[0];
+  const tooltip = pane?.["customized-tooltip"] as Record<string, unknown> | undefined;
+  if (!tooltip || typeof tooltip !== "object") return null;
+
+  const formattedText = tooltip["formatted-text"];
+  usage.addRuns(formattedText, "tooltip");
+
+  // Placeholders name fields as <[datasource].[sum:Sales:qk]>
+  const fields = new Set<string>();
+  const template = extractFormattedText(formattedText).replace(/<(\[[^\]]+\]\.\[[^\]]+\])>/g, (_, reference: string) => {
+    const { fieldName } = parseFieldReference(reference);
+    fields.add(fieldName);
+    return `<${fieldName}>`;
+  });
+
+  return {
+    template,
+    fields: Array.from(fields),
+    style: resolveTextStyle("tooltip", workbookRules, sheetRules, formattedText),
+    showButtons: attr(tooltip, "show-buttons") !== "false"
+  };
+}
+
+/** Read the text-format settings of a sheet's rules */
+function collectRuleNumberFormats(rules: StyleRule[], owner: string): NumberFormat[] {
+  return rules.flatMap(rule => rule.formats)
+    .filter(format => format.attr === "text-format" && format.field && format.value)
+    .map(format => ({
+      field: parseFieldReference(format.field!).fieldName,
+      format: format.value,
+      source: "worksheet" as const,
+      owner
+    }));
+}
+
+/** Read the default formats of data source columns */
+function collectDatasourceNumberFormats(datasources: Record<string, unknown>[]): NumberFormat[] {
+  return datasources.flatMap(ds => {
+    const owner = attr(ds, "caption") ?? attr(ds, "name") ?? "";
+    return children(ds, "column")
+      .filter(column => attr(column, "default-format"))
+      .map(column => ({
+        field: attr(column, "caption") ?? (attr(column, "name") ?? "").replace(/^\[|\]$/g, ""),
+        format: attr(column, "default-format")!,
+        source: "datasource" as const,
+        owner
+      }));
+  });
+}
+
+/** Read the zone-style formats of a dashboard's zones, and record text object fonts */
+function collectZoneStyles(element: unknown, usage: UsageCollector): DashboardStyle["zoneStyles"] {
+  const result: DashboardStyle["zoneStyles"] = [];
+  for (const zone of children(element, "zone")) {
+    const formats = children(zone["zone-style"], "format").map(parseFormat).filter((f): f is StyleFormat => f !== null);
+    if (formats.length > 0) {
+      const entry: DashboardStyle["zoneStyles"][number] = { zoneId: attr(zone, "id") ?? "", formats };
+      const name = attr(zone, "name");
+      if (name) entry.name = name;
+      result.push(entry);
+      for (const format of formats) usage.addColor(format.value, `zone ${format.attr}`);
+    }
+    usage.addRuns(zone["formatted-text"], "dash-text");
+    result.push(...collectZoneStyles(zone, usage));
+  }
+  return result;
+}
+
+/**
+ * Build the style guide of a workbook
+ *
+ * @param workbook - The parsed <workbook> element
+ * @returns Workbook-wide rules, font and colour usage, palettes, number
+ *   formats, and the styling of each worksheet and dashboard
+ */
+export function parseStyleGuide(workbook: Record<string, unknown>): StyleGuide {
+  const usage = new UsageCollector();
+  const workbookRules = parseStyleRules(workbook["style"]);
+  usage.addRules(workbookRules);
+
+  const windows = children(workbook["windows"], "window");
+  const titleShown = (name: string) => {
+    const window = windows.find(w => attr(w, "name") === name);
+    return !window || hasTitleCard(window["cards"]);
+  };
+
+  const numberFormats = collectDatasourceNumberFormats(children(workbook["datasources"], "datasource"));
+
+  const worksheets: WorksheetStyle[] = children(workbook["worksheets"], "worksheet").map(worksheet => {
+    const name = attr(worksheet, "name") ?? "";
+    const table = worksheet["table"] as Record<string, unknown> | undefined;
+    const rules = parseStyleRules(table?.["style"]);
+    usage.addRules(rules);
+    numberFormats.push(...collectRuleNumberFormats(rules, name));
+
+    const style: WorksheetStyle = {
+      name,
+      title: parseTitle(worksheet, "title", workbookRules, rules, !titleShown(name), usage),
+      rules,
+      tooltip: parseTooltip(table, workbookRules, rules, usage)
+    };
+    const background = findBackground(rules);
+    if (background) style.backgroundColor = background;
+    return style;
+  });
+
+  const dashboards: DashboardStyle[] = children(workbook["dashboards"], "dashboard").map(dashboard => {
+    const name = attr(dashboard, "name") ?? "";
+    const rules = parseStyleRules(dashboard["style"]);
+    usage.addRules(rules);
+    const zoneStyles = collectZoneStyles(dashboard["zones"], usage);
+
+    const style: DashboardStyle = {
+      name,
+      title: parseTitle(dashboard, "dash-title", workbookRules, rules, !hasTitleZone(dashboard["zones"]), usage),
+      rules,
+      zoneStyles
+    };
+    const background = findBackground(rules);
+    if (background) style.backgroundColor = background;
+    return style;
+  });
+
+  return {
+    workbookRules,
+    fonts: usage.fontUsage(),
+    colors: usage.colorUsage(),
+    palettes: parseColorPalettes(workbook),
+    numberFormats,
+    worksheets,
+    dashboards
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Type definitions for TWBX Style Guide tool
+ *
+ * Each type is inferred from a Zod schema so the same definitions back
+ * the tool's advertised outputSchema.
+ */
+
+import { z } from "zod";
+
+/**
+ * One formatting setting, e.g. font-size 12 on the axis of a field
+ */
+export const styleFormatSchema = z.object({
+  attr: z.string(),
+  value: z.string(),
+  field: z.string().optional(),
+  scope: z.string().optional()
+});
+
+export type StyleFormat = z.infer<typeof styleFormatSchema>;
+
+/**
+ * Formatting for one element of a workbook, worksheet or dashboard
+ * (e.g. "title", "axis", "tooltip", "dash-title")
+ */
+export const styleRuleSchema = z.object({
+  element: z.string(),
+  formats: z.array(styleFormatSchema)
+});
+
+export type StyleRule = z.infer<typeof styleRuleSchema>;
+
+/**
+ * Text style of a title, tooltip or text object, from its first run
+ * with explicit formatting
+ */
+export const textStyleSchema = z.object({
+  fontFamily: z.string().optional(),
+  fontSize: z.number().optional(),
+  color: z.string().optional(),
+  bold: z.boolean(),
+  italic: z.boolean(),
+  underline: z.boolean(),
+  alignment: z.enum(["left", "center", "right"]).optional()
+});
+
+export type TextStyle = z.infer<typeof textStyleSchema>;
+
+/**
+ * A title and how it is styled; untitled sheets show "<Sheet Name>"
+ */
+export const titleStyleSchema = z.object({
+  text: z.string(),
+  hidden: z.boolean(),
+  style: textStyleSchema
+});
+
+export type TitleStyle = z.infer<typeof titleStyleSchema>;
+
+/**
+ * A customised tooltip
+ */
+export const tooltipTemplateSchema = z.object({
+  template: z.string(),
+  fields: z.array(z.string()),
+  style: textStyleSchema,
+  showButtons: z.boolean()
+});
+
+export type TooltipTemplate = z.infer<typeof tooltipTemplateSchema>;
+
+/**
+ * A number or date format applied to a field
+ */
+export const numberFormatSchema = z.object({
+  field: z.string(),
+  format: z.string(),
+  source: z.enum(["datasource", "worksheet"]),
+  owner: z.string()
+});
+
+export type NumberFormat = z.infer<typeof numberFormatSchema>;
+
+/**
+ * Styling of one worksheet
+ */
+export const worksheetStyleSchema = z.object({
+  name: z.string(),
+  title: titleStyleSchema,
+  backgroundColor: z.string().optional(),
+  rules: z.array(styleRuleSchema),
+  tooltip: tooltipTemplateSchema.nullable()
+});
+
+export type WorksheetStyle = z.infer<typeof worksheetStyleSchema>;
+
+/**
+ * Styling of one dashboard, including the backgrounds and borders of
+ * individual zones
+ */
+export const dashboardStyleSchema = z.object({
+  name: z.string(),
+  title: titleStyleSchema,
+  backgroundColor: z.string().optional(),
+  rules: z.array(styleRuleSchema),
+  zoneStyles: z.array(z.object({
+    zoneId: z.string(),
+    name: z.string().optional(),
+    formats: z.array(styleFormatSchema)
+  }))
+});
+
+export type DashboardStyle = z.infer<typeof dashboardStyleSchema>;
+
+/**
+ * A font used anywhere in the workbook, with its sizes
+ */
+export const fontUsageSchema = z.object({
+  family: z.string(),
+  sizes: z.array(z.number()),
+  uses: z.number()
+});
+
+export type FontUsage = z.infer<typeof fontUsageSchema>;
+
+/**
+ * A colour used anywhere in the workbook, with what it colours
+ */
+export const colorUsageSchema = z.object({
+  color: z.string(),
+  uses: z.number(),
+  roles: z.array(z.string())
+});
+
+export type ColorUsage = z.infer<typeof colorUsageSchema>;
+
+/**
+ * The complete style audit of a workbook
+ */
+export const styleGuideSchema = z.object({
+  workbookRules: z.array(styleRuleSchema),
+  fonts: z.array(fontUsageSchema),
+  colors: z.array(colorUsageSchema),
+  palettes: z.array(z.object({ name: z.string(), type: z.string(), colors: z.array(z.string()) })),
+  numberFormats: z.array(numberFormatSchema),
+  worksheets: z.array(worksheetStyleSchema),
+  dashboards: z.array(dashboardStyleSchema)
+});
+
+export type StyleGuide = z.infer<typeof styleGuideSchema>;
@@ -0,0 +1,216 @@
+/**
+ * Get TWBX Visual Spec Tool
+ *
+ * Describes each worksheet of a Tableau workbook as a declarative visual
+ * spec: the mark type and the fields on Rows, Columns and the Marks card
+ * with their aggregations, date parts and roles, plus sorts, axis
+ * settings, colour palettes and filters. Each spec can be exported as
+ * Vega-Lite JSON to rebuild the chart outside Tableau.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import { parseTwbContent, ensureArray, decodeHtmlEntities, parseColorPalettes } from "../../utils/twbParser.js";
+import { parseVisualSpec } from "./visualSpec.js";
+import { toVegaLite } from "./vegaLite.js";
+import { visualSpecSchema } from "./types.js";
+
+/**
+ * Parameter schema for getTwbxVisualSpec tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  worksheet: z.string()
+    .optional()
+    .describe("Only describe the worksheet with this name (default: all worksheets)"),
+  includeVegaLite: z.coerce.boolean()
+    .optional()
+    .default(true)
+    .describe("Export each worksheet as a Vega-Lite spec (default: true)")
+});
+
+type GetTwbxVisualSpecParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Structured output schema for getTwbxVisualSpec tool
+ */
+const outputSchema = z.object({
+  success: z.literal(true),
+  sourceFile: z.string(),
+  summary: z.object({
+    worksheetCount: z.number(),
+    markTypes: z.record(z.number()),
+    exportNoteCount: z.number()
+  }),
+  worksheets: z.array(z.object({
+    spec: visualSpecSchema,
+    vegaLite: z.record(z.unknown()).optional(),
+    notes: z.array(z.string())
+  }))
+});
+
+type GetTwbxVisualSpecResult = z.infer<typeof outputSchema>;
+
+/**
+ * Factory function to create the getTwbxVisualSpec tool
+ *
+ * This tool describes worksheets as visual specs:
+ * 1. Resolves the fields on each shelf and the Marks card to their
+ *    aggregation, date part, role and type
+ * 2. Reads sorts, axis titles, hidden axes and fixed ranges
+ * 3. Reads colour palettes and per-value colour assignments
+ * 4. Reads the worksheet's filters
+ * 5. Optionally exports each spec as Vega-Lite
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ */
+export function getTwbxVisualSpecTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "get_twbx_visual_spec",
+    description: "Describes each worksheet in a Tableau workbook (.twb file) as a declarative visual spec: mark " +
+      "type, the fields on Rows, Columns and the Marks card (colour, size, shape, label, detail, tooltip) with " +
+      "their aggregation, date part, role and type, sort orders, axis titles, hidden axes and fixed ranges, " +
+      "colour palettes and per-value colours, and filters. Exports each worksheet as Vega-Lite JSON, with " +
+      "notes on anything that has no Vega-Lite equivalent. Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Get TWBX Visual Spec",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: GetTwbxVisualSpecParams): Promise<Ok<CallToolResult>> => {
+      const { twbFilePath, worksheet, includeVegaLite = true } = args;
+
+      try {
+        console.error(`[get_twbx_visual_spec] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        const worksheetElements = ensureArray((workbook["worksheets"] as Record<string, unknown> | undefined)?.["worksheet"])
+          .filter((w): w is Record<string, unknown> => !!w && typeof w === "object");
+        const names = worksheetElements.map(w => decodeHtmlEntities(String(w["@_name"] ?? "")));
+
+        const selected = worksheet ? worksheetElements.filter((_, i) => names[i] === worksheet) : worksheetElements;
+        if (worksheet && selected.length === 0) {
+          return createErrorResult(
+            "Worksheet not found",
+            {
+              twbFilePath,
+              worksheet,
+              availableWorksheets: names,
+              suggestion: "Use one of the available worksheet names"
+            }
+          );
+        }
+
+        const datasources = ensureArray((workbook["datasources"] as Record<string, unknown> | undefined)?.["datasource"])
+          .filter((d): d is Record<string, unknown> => !!d && typeof d === "object");
+        const palettes = new Map(parseColorPalettes(workbook).map(p => [p.name, p.colors]));
+
+        const worksheets: GetTwbxVisualSpecResult["worksheets"] = [];
+        for (const element of selected) {
+          const spec = parseVisualSpec(element, datasources, palettes);
+          if (!spec) continue;
+          if (includeVegaLite) {
+            const exported = toVegaLite(spec);
+            worksheets.push({ spec, vegaLite: exported.spec, notes: exported.notes });
+          } else {
+            worksheets.push({ spec, notes: [] });
+          }
+        }
+
+        const markTypes: Record<string, number> = {};
+        for (const { spec } of worksheets) {
+          markTypes[spec.markType] = (markTypes[spec.markType] ?? 0) + 1;
+        }
+
+        const result: GetTwbxVisualSpecResult = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            worksheetCount: worksheets.length,
+            markTypes,
+            exportNoteCount: worksheets.reduce((sum, w) => sum + w.notes.length, 0)
+          },
+          worksheets
+        };
+
+        console.error(`[get_twbx_visual_spec] Described ${worksheets.length} worksheets`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error reading TWBX visual specs",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * Type definitions for TWBX Visual Spec tool
+ *
+ * Each type is inferred from a Zod schema so the same definitions back
+ * the tool's advertised outputSchema.
+ */
+
+import { z } from "zod";
+import { filterSchema } from "../getTwbxDataModel/types.js";
+
+/**
+ * A field placed on a shelf or mark card, with how it is aggregated
+ */
+export const specFieldSchema = z.object({
+  field: z.string(),
+  instance: z.string(),
+  datasource: z.string(),
+  role: z.enum(["dimension", "measure"]),
+  type: z.enum(["nominal", "ordinal", "quantitative", "temporal"]),
+  aggregation: z.string().nullable(),
+  timeUnit: z.string().nullable()
+});
+
+export type SpecField = z.infer<typeof specFieldSchema>;
+
+/**
+ * Fields on the Marks card
+ */
+export const specEncodingsSchema = z.object({
+  color: specFieldSchema.optional(),
+  size: specFieldSchema.optional(),
+  shape: specFieldSchema.optional(),
+  text: specFieldSchema.optional(),
+  angle: specFieldSchema.optional(),
+  path: specFieldSchema.optional(),
+  detail: z.array(specFieldSchema),
+  tooltip: z.array(specFieldSchema)
+});
+
+export type SpecEncodings = z.infer<typeof specEncodingsSchema>;
+
+/**
+ * How a dimension is sorted
+ */
+export const specSortSchema = z.object({
+  field: z.string(),
+  sortType: z.enum(["computed", "alphabetic", "manual", "natural"]),
+  direction: z.enum(["ascending", "descending"]),
+  by: specFieldSchema.optional(),
+  order: z.array(z.string()).optional()
+});
+
+export type SpecSort = z.infer<typeof specSortSchema>;
+
+/**
+ * Axis or header settings for a field
+ */
+export const specAxisSchema = z.object({
+  field: z.string(),
+  shelf: z.enum(["rows", "columns"]).optional(),
+  title: z.string().optional(),
+  hidden: z.boolean(),
+  range: z.object({ min: z.number().nullable(), max: z.number().nullable() }).optional(),
+  numberFormat: z.string().optional()
+});
+
+export type SpecAxis = z.infer<typeof specAxisSchema>;
+
+/**
+ * Colours used by a worksheet
+ *
+ * palette is Tableau's palette name; mapping lists colours assigned to
+ * individual values; markColor is the single colour of uncoloured marks.
+ */
+export const specColorSchema = z.object({
+  field: z.string().optional(),
+  palette: z.string().optional(),
+  paletteColors: z.array(z.string()).optional(),
+  mapping: z.array(z.object({ value: z.string(), color: z.string() })),
+  markColor: z.string().optional()
+});
+
+export type SpecColor = z.infer<typeof specColorSchema>;
+
+/**
+ * Declarative description of one worksheet
+ */
+export const visualSpecSchema = z.object({
+  name: z.string(),
+  title: z.string().optional(),
+  datasource: z.string(),
+  markType: z.string(),
+  columns: z.array(specFieldSchema),
+  rows: z.array(specFieldSchema),
+  encodings: specEncodingsSchema,
+  filters: z.array(filterSchema),
+  sorts: z.array(specSortSchema),
+  axes: z.array(specAxisSchema),
+  color: specColorSchema
+});
+
+export type VisualSpec = z.infer<typeof visualSpecSchema>;
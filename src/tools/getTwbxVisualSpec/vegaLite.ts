@@ -0,0 +1,329 @@
+/**
+ * Vega-Lite Export
+ *
+ * Translates a worksheet visual spec into a Vega-Lite v5 specification.
+ * The data is left as a named data source to be bound by the caller.
+ * Tableau features without a Vega-Lite equivalent are reported as notes
+ * rather than dropped silently.
+ */
+
+import { SpecField, SpecSort, VisualSpec } from "./types.js";
+
+type VegaLiteSpec = Record<string, unknown>;
+type ChannelDef = Record<string, unknown>;
+
+/** Vega-Lite marks by Tableau mark type */
+const MARKS: Record<string, string> = {
+  Bar: "bar",
+  GanttBar: "bar",
+  Line: "line",
+  Area: "area",
+  Circle: "circle",
+  Square: "square",
+  Shape: "point",
+  Text: "text",
+  Pie: "arc"
+};
+
+/** Vega-Lite aggregate ops by Tableau derivation */
+const AGGREGATES: Record<string, string> = {
+  sum: "sum",
+  avg: "mean",
+  count: "count",
+  countd: "distinct",
+  min: "min",
+  max: "max",
+  median: "median",
+  stdev: "stdev",
+  stdevp: "stdevp",
+  var: "variance",
+  varp: "variancep"
+};
+
+/** Vega-Lite time units by Tableau date part or truncation */
+const TIME_UNITS: Record<string, string> = {
+  year: "year",
+  quarter: "quarter",
+  month: "month",
+  week: "week",
+  day: "date",
+  weekday: "day",
+  hour: "hours",
+  minute: "minutes",
+  second: "seconds",
+  "year-trunc": "year",
+  "quarter-trunc": "yearquarter",
+  "month-trunc": "yearmonth",
+  "week-trunc": "yearweek",
+  "day-trunc": "yearmonthdate",
+  "hour-trunc": "yearmonthdatehours"
+};
+
+/** Vega-Lite schemes for Tableau's built-in palettes */
+const SCHEMES: Record<string, string> = {
+  tableau10: "tableau10",
+  "tableau-10": "tableau10",
+  tableau20: "tableau20",
+  "tableau-20": "tableau20",
+  "blue_10_0": "blues",
+  "tableau-blue": "blues",
+  "green_10_0": "greens",
+  "tableau-green": "greens",
+  "orange_10_0": "oranges",
+  "tableau-orange-light": "oranges",
+  "red_10_0": "reds",
+  "tableau-red": "reds",
+  "gray_10_0": "greys",
+  "tableau-gray": "greys",
+  "purple_10_0": "purples",
+  "tableau-purple": "purples",
+  "orange-blue-diverging": "blueorange",
+  "red-green-diverging": "redyellowgreen",
+  "red-blue-diverging": "redblue",
+  "color-blind": "tableau10"
+};
+
+/** The result of exporting a spec */
+export interface VegaLiteExport {
+  spec: VegaLiteSpec;
+  notes: string[];
+}
+
+/** Is this Tableau's Measure Names or Measure Values pseudo-field? */
+function isMeasurePseudoField(field: SpecField): boolean {
+  return field.field === "Measure Names" || field.field === "Multiple Values" || field.field === "Measure Values";
+}
+
+/**
+ * Build a channel definition for a field
+ */
+function fieldDef(field: SpecField, notes: string[]): ChannelDef {
+  const def: ChannelDef = { field: field.field, type: field.type };
+  if (field.aggregation) {
+    const op = AGGREGATES[field.aggregation];
+    if (op) {
+      def.aggregate = op;
+    } else if (field.aggregation !== "attribute") {
+      notes.push(`Aggregation ${field.aggregation} on ${field.field} has no Vega-Lite equivalent`);
+    }
+  }
+  if (field.timeUnit) {
+    def.timeUnit = TIME_UNITS[field.timeUnit] ?? field.timeUnit;
+  }
+  return def;
+}
+
+/**
+ * Convert a sort to a Vega-Lite sort property
+ */
+function sortDef(sort: SpecSort): unknown {
+  const order = sort.direction;
+  switch (sort.sortType) {
+    case "manual":
+      return sort.order ?? null;
+    case "computed":
+      if (sort.by) {
+        return { field: sort.by.field, op: AGGREGATES[sort.by.aggregation ?? ""] ?? "sum", order };
+      }
+      return order;
+    default:
+      return order;
+  }
+}
+
+/**
+ * Pick a mark for Tableau's Automatic mark type
+ *
+ * Tableau draws a line for a measure over a continuous date, bars for a
+ * measure against dimensions and a text table otherwise.
+ */
+function automaticMark(spec: VisualSpec): string {
+  const positions = [...spec.columns, ...spec.rows];
+  const hasMeasure = positions.some(f => f.role === "measure");
+  if (hasMeasure && positions.some(f => f.type === "temporal")) return "line";
+  if (hasMeasure) return "bar";
+  return "text";
+}
+
+/** Place the last field of a shelf on a position channel, and the one before it as a facet */
+function placeShelf(
+  fields: SpecField[],
+  position: "x" | "y",
+  facet: "column" | "row",
+  encoding: Record<string, ChannelDef>,
+  notes: string[]
+): void {
+  const placed = fields.filter(f => !isMeasurePseudoField(f));
+  if (placed.length < fields.length) {
+    notes.push("Measure Names/Measure Values cannot be expressed directly; fold the measures with a fold transform");
+  }
+  if (placed.length === 0) return;
+
+  encoding[position] = fieldDef(placed[placed.length - 1], notes);
+  const outer = placed.slice(0, -1);
+  if (outer.length > 0) {
+    encoding[facet] = fieldDef(outer[outer.length - 1], notes);
+  }
+  if (outer.length > 1) {
+    notes.push(`Only the innermost two fields on ${position === "x" ? "Columns" : "Rows"} were exported; ` +
+      `${outer.slice(0, -1).map(f => f.field).join(", ")} dropped`);
+  }
+}
+
+/**
+ * Convert worksheet filters to Vega-Lite filter transforms
+ */
+function filterTransforms(spec: VisualSpec, notes: string[]): Record<string, unknown>[] {
+  const transforms: Record<string, unknown>[] = [];
+  for (const filter of spec.filters) {
+    switch (filter.mode) {
+      case "include":
+        transforms.push({ filter: { field: filter.column, oneOf: filter.members } });
+        break;
+      case "exclude":
+        transforms.push({ filter: { not: { field: filter.column, oneOf: filter.members } } });
+        break;
+      case "range": {
+        const min = Number(filter.range?.min);
+        const max = Number(filter.range?.max);
+        if (filter.range && !Number.isNaN(min) && !Number.isNaN(max)) {
+          transforms.push({ filter: { field: filter.column, range: [min, max] } });
+        } else {
+          notes.push(`Range filter on ${filter.column} is not numeric and was not exported`);
+        }
+        break;
+      }
+      case "all":
+        break;
+      default:
+        notes.push(`${filter.mode} filter on ${filter.column} was not exported`);
+    }
+  }
+  return transforms;
+}
+
+/**
+ * Export a visual spec as Vega-Lite
+ *
+ * Columns map to x and Rows to y, with the next field out becoming a
+ * column or row facet. Axis titles, hidden axes and fixed ranges become
+ * axis and scale properties; sorts, colour palettes and value colour
+ * assignments become sort and colour scale properties.
+ *
+ * @param spec - The worksheet's visual spec
+ * @returns The Vega-Lite spec and notes on what could not be expressed
+ */
+export function toVegaLite(spec: VisualSpec): VegaLiteExport {
+  const notes: string[] = [];
+  const encoding: Record<string, ChannelDef> = {};
+
+  let mark = MARKS[spec.markType];
+  if (spec.markType === "Automatic") {
+    mark = automaticMark(spec);
+  } else if (!mark) {
+    mark = "point";
+    notes.push(`Mark type ${spec.markType} has no Vega-Lite equivalent; exported as point`);
+  }
+
+  placeShelf(spec.columns, "x", "column", encoding, notes);
+  placeShelf(spec.rows, "y", "row", encoding, notes);
+
+  const { encodings } = spec;
+  if (encodings.color) encoding.color = fieldDef(encodings.color, notes);
+  if (encodings.size) encoding.size = fieldDef(encodings.size, notes);
+  if (encodings.shape) encoding.shape = fieldDef(encodings.shape, notes);
+  if (encodings.angle) encoding.theta = fieldDef(encodings.angle, notes);
+  if (encodings.path) encoding.order = fieldDef(encodings.path, notes);
+  if (encodings.detail.length > 0) {
+    (encoding as Record<string, unknown>).detail = encodings.detail.map(f => fieldDef(f, notes));
+  }
+  if (encodings.tooltip.length > 0) {
+    (encoding as Record<string, unknown>).tooltip = encodings.tooltip.map(f => fieldDef(f, notes));
+  }
+
+  // Sorts apply to whichever channel shows the sorted field
+  for (const sort of spec.sorts) {
+    const channel = Object.values(encoding).find(def => def.field === sort.field);
+    if (channel) {
+      channel.sort = sortDef(sort);
+    }
+  }
+
+  // Axis titles, visibility and fixed ranges
+  for (const axis of spec.axes) {
+    const channel = Object.entries(encoding).find(([, def]) => def.field === axis.field)?.[1];
+    if (!channel) continue;
+    if (axis.hidden) {
+      channel.axis = null;
+    } else if (axis.title !== undefined || axis.numberFormat) {
+      const axisDef: Record<string, unknown> = {};
+      if (axis.title !== undefined) axisDef.title = axis.title;
+      if (axis.numberFormat) notes.push(`Number format ${axis.numberFormat} on ${axis.field} uses Tableau syntax and was not exported`);
+      if (Object.keys(axisDef).length > 0) channel.axis = axisDef;
+    }
+    if (axis.range && axis.range.min !== null && axis.range.max !== null) {
+      channel.scale = { ...(channel.scale as object | undefined), domain: [axis.range.min, axis.range.max] };
+    }
+  }
+
+  // Colours: value assignments, then a named or custom palette
+  const { color } = spec;
+  if (encoding.color) {
+    if (color.mapping.length > 0) {
+      encoding.color.scale = {
+        domain: color.mapping.map(m => m.value),
+        range: color.mapping.map(m => m.color)
+      };
+    } else if (color.paletteColors && color.paletteColors.length > 0) {
+      encoding.color.scale = { range: color.paletteColors };
+    } else if (color.palette) {
+      const scheme = SCHEMES[color.palette];
+      if (scheme) {
+        encoding.color.scale = { scheme };
+      } else {
+        notes.push(`Palette ${color.palette} has no Vega-Lite scheme; default colours used`);
+      }
+    }
+  }
+
+  const markDef: Record<string, unknown> = { type: mark };
+  if (!encoding.color && color.markColor) markDef.color = color.markColor;
+
+  const vegaLite: VegaLiteSpec = {
+    $schema: "https://vega.github.io/schema/vega-lite/v5.json",
+    data: { name: spec.datasource }
+  };
+  if (spec.title) vegaLite.title = spec.title;
+
+  const transforms = filterTransforms(spec, notes);
+  if (transforms.length > 0) vegaLite.transform = transforms;
+
+  // Labels on a non-text mark are drawn as a text layer over it; layers
+  // can't use facet channels, so facets move to a facet operator
+  if (encodings.text && mark !== "text") {
+    const shared = Object.fromEntries(Object.entries(encoding)
+      .filter(([channel]) => !["color", "row", "column"].includes(channel)));
+    const layered = {
+      encoding: shared,
+      layer: [
+        { mark: markDef, encoding: encoding.color ? { color: encoding.color } : {} },
+        { mark: { type: "text", dy: -6 }, encoding: { text: fieldDef(encodings.text, notes) } }
+      ]
+    };
+    if (encoding.row || encoding.column) {
+      const facet: Record<string, ChannelDef> = {};
+      if (encoding.row) facet.row = encoding.row;
+      if (encoding.column) facet.column = encoding.column;
+      vegaLite.facet = facet;
+      vegaLite.spec = layered;
+    } else {
+      Object.assign(vegaLite, layered);
+    }
+  } else {
+    if (encodings.text) encoding.text = fieldDef(encodings.text, notes);
+    vegaLite.mark = markDef;
+    vegaLite.encoding = encoding;
+  }
+
+  return { spec: vegaLite, notes: Array.from(new Set(notes)) };
+}
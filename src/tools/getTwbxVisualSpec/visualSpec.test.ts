@@ -0,0 +1,190 @@
+/**
+ * Tests for worksheet visual specs and Vega-Lite export
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseTwbContent, ensureArray, parseColorPalettes } from "../../utils/twbParser.js";
+import { parseVisualSpec } from "./visualSpec.js";
+import { toVegaLite } from "./vegaLite.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <preferences>
+    <color-palette name='Brand' type='regular'>
+      <color>#1f3a5f</color>
+      <color>#f2a541</color>
+    </color-palette>
+  </preferences>
+  <datasources>
+    <datasource caption='Superstore' name='federated.1'>
+      <column caption='Order Date' datatype='date' name='[Order Date]' role='dimension' type='ordinal' />
+      <column datatype='real' name='[Sales]' role='measure' type='quantitative' />
+      <column datatype='string' name='[Region]' role='dimension' type='nominal' />
+      <column datatype='string' name='[Segment]' role='dimension' type='nominal' />
+    </datasource>
+  </datasources>
+  <worksheets>
+    <worksheet name='Sales by Region'>
+      <layout-options>
+        <title>
+          <formatted-text>
+            <run>Sales by Region</run>
+          </formatted-text>
+        </title>
+      </layout-options>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Superstore' name='federated.1' />
+          </datasources>
+          <datasource-dependencies datasource='federated.1'>
+            <column-instance column='[Region]' derivation='None' name='[none:Region:nk]' pivot='key' type='nominal' />
+            <column-instance column='[Sales]' derivation='Sum' name='[sum:Sales:qk]' pivot='key' type='quantitative' />
+            <column-instance column='[Segment]' derivation='None' name='[none:Segment:nk]' pivot='key' type='nominal' />
+          </datasource-dependencies>
+          <filter class='categorical' column='[federated.1].[none:Segment:nk]'>
+            <groupfilter function='union' user:op='manual'>
+              <groupfilter function='member' level='[none:Segment:nk]' member='&quot;Consumer&quot;' />
+              <groupfilter function='member' level='[none:Segment:nk]' member='&quot;Corporate&quot;' />
+            </groupfilter>
+          </filter>
+          <sort class='computed' column='[federated.1].[none:Region:nk]' direction='DESC' using='[federated.1].[sum:Sales:qk]' />
+        </view>
+        <style>
+          <style-rule element='axis'>
+            <format attr='title' class='0' field='[federated.1].[sum:Sales:qk]' scope='cols' value='Total Sales' />
+            <encoding attr='space' class='0' field='[federated.1].[sum:Sales:qk]' field-type='quantitative' max='1000000' min='0' range-type='fixed' scope='cols' type='space' />
+          </style-rule>
+          <style-rule element='mark'>
+            <encoding attr='color' field='[federated.1].[none:Segment:nk]' palette='Brand' type='palette'>
+              <map to='#1f3a5f'>
+                <bucket>&quot;Consumer&quot;</bucket>
+              </map>
+              <map to='#f2a541'>
+                <bucket>&quot;Corporate&quot;</bucket>
+              </map>
+            </encoding>
+          </style-rule>
+        </style>
+        <panes>
+          <pane>
+            <mark class='Bar' />
+            <encodings>
+              <color column='[federated.1].[none:Segment:nk]' />
+              <text column='[federated.1].[sum:Sales:qk]' />
+              <tooltip column='[federated.1].[sum:Sales:qk]' />
+            </encodings>
+          </pane>
+        </panes>
+        <rows>[federated.1].[none:Region:nk]</rows>
+        <cols>[federated.1].[sum:Sales:qk]</cols>
+      </table>
+    </worksheet>
+    <worksheet name='Trend'>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Superstore' name='federated.1' />
+          </datasources>
+        </view>
+        <panes>
+          <pane>
+            <mark class='Automatic' />
+          </pane>
+        </panes>
+        <rows>[federated.1].[sum:Sales:qk]</rows>
+        <cols>[federated.1].[tmn:Order Date:qk]</cols>
+      </table>
+    </worksheet>
+  </worksheets>
+</workbook>`;
+
+function parseSpecs() {
+  const result = parseTwbContent(TWB);
+  if (!result.success) throw new Error(result.error);
+  const workbook = (result.data as { workbook: Record<string, unknown> }).workbook;
+  const datasources = ensureArray((workbook.datasources as { datasource: Record<string, unknown> }).datasource);
+  const worksheets = ensureArray((workbook.worksheets as { worksheet: Record<string, unknown>[] }).worksheet);
+  const palettes = new Map(parseColorPalettes(workbook).map(p => [p.name, p.colors]));
+  return worksheets.map(w => parseVisualSpec(w, datasources, palettes)!);
+}
+
+describe("parseVisualSpec", () => {
+  it("should resolve shelves, encodings, sorts, axes and colours", () => {
+    const [spec] = parseSpecs();
+
+    expect(spec).toMatchObject({ name: "Sales by Region", title: "Sales by Region", datasource: "Superstore", markType: "Bar" });
+    expect(spec.columns).toEqual([{
+      field: "Sales", instance: "sum:Sales:qk", datasource: "Superstore",
+      role: "measure", type: "quantitative", aggregation: "sum", timeUnit: null
+    }]);
+    expect(spec.rows.map(f => [f.field, f.role, f.type])).toEqual([["Region", "dimension", "nominal"]]);
+    expect(spec.encodings.color?.field).toBe("Segment");
+    expect(spec.encodings.text?.aggregation).toBe("sum");
+    expect(spec.encodings.tooltip).toHaveLength(1);
+
+    expect(spec.sorts).toEqual([{
+      field: "Region",
+      sortType: "computed",
+      direction: "descending",
+      by: expect.objectContaining({ field: "Sales", aggregation: "sum" })
+    }]);
+    expect(spec.axes).toEqual([{
+      field: "Sales", shelf: "columns", title: "Total Sales", hidden: false, range: { min: 0, max: 1000000 }
+    }]);
+    expect(spec.color).toEqual({
+      field: "Segment",
+      palette: "Brand",
+      paletteColors: ["#1f3a5f", "#f2a541"],
+      mapping: [{ value: "Consumer", color: "#1f3a5f" }, { value: "Corporate", color: "#f2a541" }]
+    });
+    expect(spec.filters[0]).toMatchObject({ column: "Segment", datasource: "Superstore", mode: "include", members: ["Consumer", "Corporate"] });
+  });
+
+  it("should infer truncated dates as temporal without column instances", () => {
+    const [, spec] = parseSpecs();
+
+    expect(spec.markType).toBe("Automatic");
+    expect(spec.columns[0]).toMatchObject({ field: "Order Date", type: "temporal", timeUnit: "month-trunc", role: "dimension" });
+  });
+});
+
+describe("toVegaLite", () => {
+  it("should export a labelled bar chart as layers", () => {
+    const [spec] = parseSpecs();
+    const { spec: vegaLite, notes } = toVegaLite(spec);
+
+    expect(notes).toEqual([]);
+    expect(vegaLite).toMatchObject({
+      data: { name: "Superstore" },
+      title: "Sales by Region",
+      transform: [{ filter: { field: "Segment", oneOf: ["Consumer", "Corporate"] } }],
+      encoding: {
+        x: {
+          field: "Sales", type: "quantitative", aggregate: "sum",
+          axis: { title: "Total Sales" }, scale: { domain: [0, 1000000] }
+        },
+        y: { field: "Region", type: "nominal", sort: { field: "Sales", op: "sum", order: "descending" } }
+      }
+    });
+    const layers = vegaLite.layer as Record<string, unknown>[];
+    expect(layers[0]).toEqual({
+      mark: { type: "bar" },
+      encoding: {
+        color: {
+          field: "Segment", type: "nominal",
+          scale: { domain: ["Consumer", "Corporate"], range: ["#1f3a5f", "#f2a541"] }
+        }
+      }
+    });
+    expect(layers[1]).toMatchObject({ mark: { type: "text" }, encoding: { text: { field: "Sales", aggregate: "sum" } } });
+  });
+
+  it("should pick a line for an automatic mark over a continuous date", () => {
+    const [, spec] = parseSpecs();
+    const { spec: vegaLite } = toVegaLite(spec);
+
+    expect(vegaLite.mark).toEqual({ type: "line" });
+    expect(vegaLite.encoding).toMatchObject({ x: { field: "Order Date", type: "temporal", timeUnit: "yearmonth" } });
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * Worksheet Visual Spec
+ *
+ * Turns a worksheet into a declarative description of its viz: the fields
+ * on Rows, Columns and the Marks card with their aggregation, date part
+ * and role, plus sorts, axis settings, colours and filters. Fields are
+ * placed as instances such as [sum:Sales:qk] (derivation, field, and
+ * nominal/ordinal/quantitative key), described by the column-instance
+ * elements of the view's datasource-dependencies.
+ */
+
+import {
+  ensureArray,
+  decodeHtmlEntities,
+  extractFormattedText,
+  extractMarkType,
+  parseFieldReference,
+  parseFilterElement,
+  parseMemberValue
+} from "../../utils/twbParser.js";
+import { SpecAxis, SpecColor, SpecEncodings, SpecField, SpecSort, VisualSpec } from "./types.js";
+
+/** Derivations by field instance prefix, for instances with no column-instance */
+const PREFIX_DERIVATIONS: Record<string, string> = {
+  none: "None", sum: "Sum", avg: "Avg", cnt: "Count", ctd: "CountD", min: "Min", max: "Max",
+  med: "Median", attr: "Attribute", usr: "User", stdev: "Stdev", stdevp: "Stdevp", var: "Var", varp: "Varp",
+  yr: "Year", qr: "Quarter", mn: "Month", wk: "Week", dy: "Day", wd: "Weekday",
+  hr: "Hour", mi: "Minute", sc: "Second",
+  tyr: "Year-Trunc", tqr: "Quarter-Trunc", tmn: "Month-Trunc", twk: "Week-Trunc", tdy: "Day-Trunc", thr: "Hour-Trunc"
+};
+
+/** Derivations that aggregate a field */
+const AGGREGATIONS = new Set([
+  "sum", "avg", "count", "countd", "min", "max", "median", "attribute", "user", "stdev", "stdevp", "var", "varp"
+]);
+
+/** Derivations that take a date part or truncate a date */
+const TIME_UNITS = new Set([
+  "year", "quarter", "month", "week", "day", "weekday", "hour", "minute", "second",
+  "year-trunc", "quarter-trunc", "month-trunc", "week-trunc", "day-trunc", "hour-trunc"
+]);
+
+/** Field type by instance key suffix */
+const SUFFIX_TYPES: Record<string, SpecField["type"]> = { nk: "nominal", ok: "ordinal", qk: "quantitative" };
+
+/** Encodings on the Marks card, by element name */
+const SINGLE_ENCODINGS: Record<string, keyof Omit<SpecEncodings, "detail" | "tooltip">> = {
+  color: "color",
+  size: "size",
+  shape: "shape",
+  text: "text",
+  "wedge-size": "angle",
+  path: "path"
+};
+
+/** Element names that hold sort settings in a view */
+const SORT_ELEMENTS: Record<string, SpecSort["sortType"] | null> = {
+  "sort": null,
+  "computed-sort": "computed",
+  "alphabetic-sort": "alphabetic",
+  "natural-sort": "natural",
+  "manual-sort": "manual"
+};
+
+/** Column metadata from a view's datasource-dependencies */
+interface ColumnInfo {
+  caption?: string;
+  role?: string;
+  datatype?: string;
+}
+
+/** Column instance metadata: the column it derives from and how */
+interface InstanceInfo {
+  column: string;
+  derivation?: string;
+  type?: string;
+}
+
+/** Field metadata for one worksheet */
+export interface FieldLookup {
+  datasourceCaptions: Map<string, string>;
+  columns: Map<string, ColumnInfo>;
+  instances: Map<string, InstanceInfo>;
+}
+
+/** Read an optional attribute as decoded text */
+function attr(element: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = element?.[`@_${name}`];
+  return value === undefined || value === "" ? undefined : decodeHtmlEntities(String(value));
+}
+
+/** Get child elements as objects */
+function children(element: Record<string, unknown> | undefined, name: string): Record<string, unknown>[] {
+  return ensureArray(element?.[name])
+    .filter((child): child is Record<string, unknown> => !!child && typeof child === "object");
+}
+
+/** Key a column or instance by data source */
+function lookupKey(datasource: string, name: string): string {
+  return `${datasource}\u0000${name.replace(/^\[|\]$/g, "")}`;
+}
+
+/**
+ * Collect column and column-instance metadata for a worksheet
+ *
+ * Data source captions and columns come from the workbook's data sources,
+ * refined by the view's own datasource-dependencies.
+ */
+export function buildFieldLookup(view: Record<string, unknown>, datasources: Record<string, unknown>[]): FieldLookup {
+  const lookup: FieldLookup = { datasourceCaptions: new Map(), columns: new Map(), instances: new Map() };
+
+  const addColumns = (dsName: string, element: Record<string, unknown>) => {
+    for (const col of children(element, "column")) {
+      const name = attr(col, "name");
+      if (!name) continue;
+      lookup.columns.set(lookupKey(dsName, name), {
+        caption: attr(col, "caption"),
+        role: attr(col, "role"),
+        datatype: attr(col, "datatype")
+      });
+    }
+  };
+
+  for (const ds of datasources) {
+    const name = attr(ds, "name") ?? "";
+    lookup.datasourceCaptions.set(name, attr(ds, "caption") ?? name);
+    addColumns(name, ds);
+  }
+
+  for (const ds of children(children(view, "datasources")[0], "datasource")) {
+    const name = attr(ds, "name") ?? "";
+    if (!lookup.datasourceCaptions.has(name)) {
+      lookup.datasourceCaptions.set(name, attr(ds, "caption") ?? name);
+    }
+  }
+
+  for (const deps of children(view, "datasource-dependencies")) {
+    const dsName = attr(deps, "datasource") ?? "";
+    addColumns(dsName, deps);
+    for (const instance of children(deps, "column-instance")) {
+      const name = attr(instance, "name");
+      const column = attr(instance, "column");
+      if (!name || !column) continue;
+      lookup.instances.set(lookupKey(dsName, name), {
+        column,
+        derivation: attr(instance, "derivation"),
+        type: attr(instance, "type")
+      });
+    }
+  }
+
+  return lookup;
+}
+
+/**
+ * Describe a placed field from its reference ([ds].[sum:Sales:qk])
+ */
+export function resolveField(reference: string, lookup: FieldLookup, defaultDatasource = ""): SpecField {
+  const { datasource: dsPart } = parseFieldReference(reference);
+  const datasource = dsPart ?? defaultDatasource;
+  const instanceName = (reference.match(/\[([^\]]+)\]$/)?.[1] ?? reference).trim();
+  const instance = lookup.instances.get(lookupKey(datasource, instanceName));
+
+  // Instance names are derivation:field:key, where the field may itself contain colons
+  const parts = instanceName.split(":");
+  if (parts.length > 3 && /^\d+$/.test(parts[parts.length - 1])) parts.pop();
+  const hasPrefix = parts.length >= 3 && parts[0] in PREFIX_DERIVATIONS;
+  const fieldName = instance
+    ? instance.column.replace(/^\[|\]$/g, "")
+    : hasPrefix ? parts.slice(1, -1).join(":") : instanceName;
+  const derivation = (instance?.derivation ?? (hasPrefix ? PREFIX_DERIVATIONS[parts[0]] : "None")).toLowerCase();
+  const suffixType = hasPrefix ? SUFFIX_TYPES[parts[parts.length - 1]] : undefined;
+
+  const column = lookup.columns.get(lookupKey(datasource, fieldName));
+  const aggregation = AGGREGATIONS.has(derivation) ? derivation : null;
+  const timeUnit = TIME_UNITS.has(derivation) ? derivation : null;
+
+  let type = (instance?.type as SpecField["type"] | undefined) ?? suffixType ?? "nominal";
+  const isDate = column?.datatype === "date" || column?.datatype === "datetime" || timeUnit !== null;
+  if (type === "quantitative" && isDate && !aggregation) {
+    type = "temporal";
+  }
+
+  const role = column?.role === "measure" || column?.role === "dimension"
+    ? column.role
+    : aggregation && aggregation !== "attribute" ? "measure" : "dimension";
+
+  // Measure Names and Measure Values are named :Measure Names and Multiple Values
+  const display = column?.caption ?? fieldName.replace(/^:/, "");
+
+  return {
+    field: display,
+    instance: instanceName,
+    datasource: lookup.datasourceCaptions.get(datasource) ?? datasource,
+    role,
+    type,
+    aggregation,
+    timeUnit
+  };
+}
+
+/** Parse a shelf (Rows or Columns), outermost field first */
+function parseShelf(shelf: unknown, lookup: FieldLookup): SpecField[] {
+  if (shelf === undefined || shelf === null || typeof shelf === "object") return [];
+  const fields: SpecField[] = [];
+  const pattern = /\[[^\]]+\]\.\[[^\]]+\]/g;
+  let match;
+  while ((match = pattern.exec(decodeHtmlEntities(String(shelf)))) !== null) {
+    fields.push(resolveField(match[0], lookup));
+  }
+  return fields;
+}
+
+/** Read the Marks card of the first pane */
+function parseEncodings(pane: Record<string, unknown> | undefined, lookup: FieldLookup): SpecEncodings {
+  const encodings: SpecEncodings = { detail: [], tooltip: [] };
+  const element = pane?.["encodings"] as Record<string, unknown> | undefined;
+  if (!element || typeof element !== "object") return encodings;
+
+  for (const [name, channel] of Object.entries(SINGLE_ENCODINGS)) {
+    const column = attr(children(element, name)[0], "column");
+    if (column) encodings[channel] = resolveField(column, lookup);
+  }
+  for (const lod of children(element, "lod")) {
+    const column = attr(lod, "column");
+    if (column) encodings.detail.push(resolveField(column, lookup));
+  }
+  for (const tooltip of children(element, "tooltip")) {
+    const column = attr(tooltip, "column");
+    if (column) encodings.tooltip.push(resolveField(column, lookup));
+  }
+
+  return encodings;
+}
+
+/** Read the sort settings of a view */
+function parseSorts(view: Record<string, unknown>, lookup: FieldLookup): SpecSort[] {
+  const sorts: SpecSort[] = [];
+
+  for (const [elementName, elementType] of Object.entries(SORT_ELEMENTS)) {
+    for (const sort of children(view, elementName)) {
+      const column = attr(sort, "column");
+      if (!column) continue;
+      const sortClass = elementType ?? attr(sort, "class") ?? "alphabetic";
+      const sortType = (["computed", "alphabetic", "manual", "natural"].includes(sortClass)
+        ? sortClass : "alphabetic") as SpecSort["sortType"];
+      const using = attr(sort, "using");
+
+      const entry: SpecSort = {
+        field: resolveField(column, lookup).field,
+        sortType,
+        direction: attr(sort, "direction") === "DESC" ? "descending" : "ascending"
+      };
+      if (using) entry.by = resolveField(using, lookup);
+      if (sortType === "manual") {
+        const buckets = children(sort, "dictionary")[0]?.["bucket"];
+        entry.order = ensureArray(buckets).map(bucket => parseMemberValue(String(bucket)));
+      }
+      sorts.push(entry);
+    }
+  }
+
+  return sorts;
+}
+
+/** Get the style rules of a table, pane or data source */
+function styleRules(element: Record<string, unknown> | undefined, ruleElement: string): Record<string, unknown>[] {
+  const style = element?.["style"] as Record<string, unknown> | undefined;
+  return children(style, "style-rule").filter(rule => attr(rule, "element") === ruleElement);
+}
+
+/**
+ * Read axis and header settings: titles, hidden axes and headers, fixed
+ * ranges and number formats
+ */
+function parseAxes(table: Record<string, unknown>, lookup: FieldLookup): SpecAxis[] {
+  const axes = new Map<string, SpecAxis>();
+  const axisFor = (fieldRef: string, scope: string | undefined): SpecAxis => {
+    const field = resolveField(fieldRef, lookup).field;
+    let axis = axes.get(field);
+    if (!axis) {
+      axis = { field, hidden: false };
+      if (scope === "rows") axis.shelf = "rows";
+      if (scope === "cols") axis.shelf = "columns";
+      axes.set(field, axis);
+    }
+    return axis;
+  };
+
+  for (const rule of [...styleRules(table, "axis"), ...styleRules(table, "header")]) {
+    for (const format of children(rule, "format")) {
+      const fieldRef = attr(format, "field");
+      if (!fieldRef) continue;
+      const axis = axisFor(fieldRef, attr(format, "scope"));
+      const formatAttr = attr(format, "attr");
+      const value = attr(format, "value");
+      if (formatAttr === "title" && value !== undefined) axis.title = value;
+      if (formatAttr === "display" && value === "false") axis.hidden = true;
+      if (formatAttr === "text-format" && value) axis.numberFormat = value;
+    }
+    for (const encoding of children(rule, "encoding")) {
+      const fieldRef = attr(encoding, "field");
+      if (!fieldRef || attr(encoding, "range-type") !== "fixed") continue;
+      const axis = axisFor(fieldRef, attr(encoding, "scope"));
+      const min = attr(encoding, "min");
+      const max = attr(encoding, "max");
+      axis.range = { min: min === undefined ? null : Number(min), max: max === undefined ? null : Number(max) };
+    }
+  }
+
+  return Array.from(axes.values());
+}
+
+/** Read colour assignments from a colour encoding style rule */
+function readColorEncoding(encoding: Record<string, unknown>): { palette?: string; mapping: SpecColor["mapping"] } {
+  const mapping = children(encoding, "map").flatMap(map => {
+    const color = attr(map, "to");
+    return color
+      ? ensureArray(map["bucket"]).map(bucket => ({ value: parseMemberValue(String(bucket)), color }))
+      : [];
+  });
+  return { palette: attr(encoding, "palette"), mapping };
+}
+
+/**
+ * Read a worksheet's colours
+ *
+ * Worksheet colour assignments override those saved on the data source;
+ * custom palettes are defined in the workbook's preferences.
+ */
+function parseColor(
+  table: Record<string, unknown>,
+  pane: Record<string, unknown> | undefined,
+  colorField: SpecField | undefined,
+  datasource: Record<string, unknown> | undefined,
+  palettes: Map<string, string[]>,
+  lookup: FieldLookup
+): SpecColor {
+  const color: SpecColor = { mapping: [] };
+  if (colorField) color.field = colorField.field;
+
+  const sameField = (fieldRef: string | undefined) =>
+    !!fieldRef && !!colorField && resolveField(fieldRef, lookup).instance === colorField.instance;
+
+  const encodings = [...styleRules(table, "mark"), ...styleRules(pane, "mark")]
+    .flatMap(rule => children(rule, "encoding"))
+    .filter(e => attr(e, "attr") === "color");
+  const datasourceEncodings = styleRules(datasource, "mark")
+    .flatMap(rule => children(rule, "encoding"))
+    .filter(e => attr(e, "attr") === "color");
+
+  const encoding = encodings.find(e => sameField(attr(e, "field")))
+    ?? datasourceEncodings.find(e => sameField(attr(e, "field")));
+  if (encoding) {
+    const { palette, mapping } = readColorEncoding(encoding);
+    color.mapping = mapping;
+    if (palette) {
+      color.palette = palette;
+      if (palettes.has(palette)) color.paletteColors = palettes.get(palette);
+    }
+  }
+
+  for (const rule of [...styleRules(table, "mark"), ...styleRules(pane, "mark")]) {
+    const markColor = children(rule, "format").find(f => attr(f, "attr") === "mark-color");
+    const value = attr(markColor, "value");
+    if (value) color.markColor = value;
+  }
+
+  return color;
+}
+
+/**
+ * Describe a worksheet as a visual spec
+ *
+ * @param worksheet - The <worksheet> element
+ * @param datasources - The workbook's <datasource> elements
+ * @param palettes - Custom colour palettes by name
+ * @returns The spec, or null for worksheets without a view
+ */
+export function parseVisualSpec(
+  worksheet: Record<string, unknown>,
+  datasources: Record<string, unknown>[],
+  palettes: Map<string, string[]>
+): VisualSpec | null {
+  const table = worksheet["table"] as Record<string, unknown> | undefined;
+  const view = table?.["view"] as Record<string, unknown> | undefined;
+  if (!table || !view) return null;
+
+  const lookup = buildFieldLookup(view, datasources);
+  const primaryName = attr(children(children(view, "datasources")[0], "datasource")
+    .find(ds => attr(ds, "name") !== "Parameters"), "name") ?? "";
+  const pane = children(table["panes"] as Record<string, unknown> | undefined, "pane")[0];
+  const encodings = parseEncodings(pane, lookup);
+
+  const title = extractFormattedText(
+    ((worksheet["layout-options"] as Record<string, unknown> | undefined)?.["title"] as Record<string, unknown> | undefined)?.["formatted-text"]
+  );
+
+  const filters = children(view, "filter").map(f => {
+    const filter = parseFilterElement(f);
+    return { ...filter, datasource: lookup.datasourceCaptions.get(filter.datasource) ?? filter.datasource };
+  });
+
+  const spec: VisualSpec = {
+    name: attr(worksheet, "name") ?? "",
+    datasource: lookup.datasourceCaptions.get(primaryName) ?? primaryName,
+    markType: extractMarkType(table) ?? "Automatic",
+    columns: parseShelf(table["cols"], lookup),
+    rows: parseShelf(table["rows"], lookup),
+    encodings,
+    filters,
+    sorts: parseSorts(view, lookup),
+    axes: parseAxes(table, lookup),
+    color: parseColor(table, pane, encodings.color,
+      datasources.find(ds => attr(ds, "name") === primaryName), palettes, lookup)
+  };
+  if (title) spec.title = title;
+
+  return spec;
+}
@@ -43,58 +43,99 @@ type GetTwbxWorkbookStructureParams = z.infer<typeof paramsSchema>;
 /**
  * Data source output structure
  */
-interface DataSourceOutput {
-  name: string;
-  caption: string;
-  connectionType: string;
-  tables: string[];
-  hasCustomSql: boolean;
-  joinCount: number;
-  fieldCount: number;
-}
+export const dataSourceOutputSchema = z.object({
+  name: z.string(),
+  caption: z.string(),
+  connectionType: z.string(),
+  tables: z.array(z.string()),
+  hasCustomSql: z.boolean(),
+  joinCount: z.number(),
+  fieldCount: z.number()
+});
+
+export type DataSourceOutput = z.infer<typeof dataSourceOutputSchema>;
 
 /**
  * Worksheet output structure
  */
-interface WorksheetOutput {
-  name: string;
-  chartType: string;
-  dataSource: string;
-  rowShelf: string[];
-  colShelf: string[];
-  colorBy: string | null;
-  sizeBy: string | null;
-  detailFields: string[];
-  filterCount: number;
-  filtersApplied: string[];
-}
+export const worksheetOutputSchema = z.object({
+  name: z.string(),
+  chartType: z.string(),
+  dataSource: z.string(),
+  rowShelf: z.array(z.string()),
+  colShelf: z.array(z.string()),
+  colorBy: z.string().nullable(),
+  sizeBy: z.string().nullable(),
+  detailFields: z.array(z.string()),
+  filterCount: z.number(),
+  filtersApplied: z.array(z.string())
+});
+
+export type WorksheetOutput = z.infer<typeof worksheetOutputSchema>;
 
 /**
  * Dashboard output structure
  */
-interface DashboardOutput {
-  name: string;
-  size: { width: number; height: number } | null;
-  worksheetsIncluded: string[];
-  textElementCount: number;
-  imageCount: number;
-  filterCount: number;
-}
+export const dashboardOutputSchema = z.object({
+  name: z.string(),
+  size: z.object({ width: z.number(), height: z.number() }).nullable(),
+  worksheetsIncluded: z.array(z.string()),
+  textElementCount: z.number(),
+  imageCount: z.number(),
+  filterCount: z.number()
+});
+
+export type DashboardOutput = z.infer<typeof dashboardOutputSchema>;
 
 /**
  * Parameter output structure
  */
-interface ParameterOutput {
-  name: string;
-  datatype: string;
-  domainType: string;
-  currentValue: string;
-}
+export const parameterOutputSchema = z.object({
+  name: z.string(),
+  datatype: z.string(),
+  domainType: z.string(),
+  currentValue: z.string()
+});
+
+export type ParameterOutput = z.infer<typeof parameterOutputSchema>;
+
+/**
+ * Structured output schema for getTwbxWorkbookStructure tool
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  sourceFile: z.string(),
+  metadata: z.object({
+    version: z.string(),
+    platform: z.string(),
+    build: z.string(),
+    locale: z.string()
+  }),
+  summary: z.object({
+    dataSourceCount: z.number(),
+    worksheetCount: z.number(),
+    dashboardCount: z.number(),
+    parameterCount: z.number(),
+    calculatedFieldCount: z.number(),
+    totalFieldCount: z.number()
+  }),
+  dataSources: z.array(dataSourceOutputSchema),
+  worksheets: z.array(worksheetOutputSchema),
+  dashboards: z.array(dashboardOutputSchema),
+  parameters: z.array(parameterOutputSchema),
+  insights: z.object({
+    mostUsedDataSource: z.string(),
+    chartTypeDistribution: z.record(z.number()),
+    hasLodCalculations: z.boolean(),
+    hasParameters: z.boolean(),
+    hasMultipleDataSources: z.boolean()
+  })
+});
 
 /**
  * Parse data sources from workbook
  */
-function parseDataSources(datasources: unknown): {
+export function parseDataSources(datasources: unknown): {
   dataSources: DataSourceOutput[];
   parameters: ParameterOutput[];
   calculatedFieldCount: number;
@@ -203,7 +244,7 @@ function parseDataSources(datasources: unknown): {
 /**
  * Parse worksheets from workbook
  */
-function parseWorksheets(worksheets: unknown, includeFieldDetails: boolean): WorksheetOutput[] {
+export function parseWorksheets(worksheets: unknown, includeFieldDetails: boolean): WorksheetOutput[] {
   const result: WorksheetOutput[] = [];
   const wsArray = ensureArray(worksheets);
 
@@ -278,7 +319,7 @@ function parseWorksheets(worksheets: unknown, includeFieldDetails: boolean): Wor
 /**
  * Parse dashboards from workbook
  */
-function parseDashboards(dashboards: unknown): DashboardOutput[] {
+export function parseDashboards(dashboards: unknown): DashboardOutput[] {
   const result: DashboardOutput[] = [];
   const dbArray = ensureArray(dashboards);
 
@@ -356,8 +397,11 @@ export function getTwbxWorkbookStructureTool(server: Server): Tool<typeof params
       "Ideal for understanding 'what's in this workbook' at a glance. " +
       "Use with the mainTwbPath from unpack_twbx output.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get TWBX Workbook Structure"
+      title: "Get TWBX Workbook Structure",
+      readOnlyHint: true,
+      openWorldHint: false
     },
 
     callback: async (args: GetTwbxWorkbookStructureParams): Promise<Ok<CallToolResult>> => {
@@ -10,6 +10,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { Tool } from "../tool.js";
+import { apiObjectOutputSchema } from "../outputSchemas.js";
 import { cachedGet } from "../../utils/cachedApiClient.js";
 import { createSuccessResult, handleApiError } from "../../utils/errorHandling.js";
 import { constructDirectUrl } from "../../utils/urlBuilder.js";
@@ -65,8 +66,11 @@ export function getUserProfileTool(server: Server): Tool<typeof paramsSchema.sha
       "social links, website details, freelance status, and the last 21 workbooks with direct URLs. " +
       "Useful for getting a complete overview of a user's Tableau Public presence.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: apiObjectOutputSchema.shape,
     annotations: {
-      title: "Get User Profile"
+      title: "Get User Profile",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetUserProfileParams): Promise<Ok<CallToolResult>> => {
@@ -10,6 +10,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { Tool } from "../tool.js";
+import { apiObjectOutputSchema } from "../outputSchemas.js";
 import { cachedGet } from "../../utils/cachedApiClient.js";
 import { createSuccessResult, handleApiError } from "../../utils/errorHandling.js";
 
@@ -59,8 +60,11 @@ export function getUserProfileBasicTool(server: Server): Tool<typeof paramsSchem
       "core profile details without the full workbook history. " +
       "Useful for quick profile lookups and user validation.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: apiObjectOutputSchema.shape,
     annotations: {
-      title: "Get User Profile Basic"
+      title: "Get User Profile Basic",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetUserProfileBasicParams): Promise<Ok<CallToolResult>> => {
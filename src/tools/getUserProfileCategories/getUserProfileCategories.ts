@@ -38,6 +38,16 @@ const paramsSchema = z.object({
 
 type GetUserProfileCategoriesParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Structured output schema for getUserProfileCategories tool
+ *
+ * A message is included when the user has no categories (404).
+ */
+const outputSchema = z.object({
+  categories: z.array(z.unknown()).optional(),
+  message: z.string().optional()
+}).passthrough();
+
 /**
  * Factory function to create the getUserProfileCategories tool
  *
@@ -80,8 +90,11 @@ export function getUserProfileCategoriesTool(server: Server): Tool<typeof params
       "Supports pagination with startIndex and pageSize parameters. " +
       "Useful for understanding how a user organizes their content.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get User Profile Categories"
+      title: "Get User Profile Categories",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetUserProfileCategoriesParams): Promise<Ok<CallToolResult>> => {
@@ -54,6 +54,21 @@ const paramsSchema = z.object({
 
 type GetVizOfDayParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Structured output schema for getVizOfDay tool
+ *
+ * Single-page requests include the page number; maxResults requests
+ * include the fetch totals and date filter instead.
+ */
+const outputSchema = z.object({
+  vizzes: z.array(z.record(z.unknown())),
+  page: z.number().optional(),
+  totalFetched: z.number().optional(),
+  filtered: z.boolean().optional(),
+  filterMonth: z.number().optional(),
+  filterYear: z.number().optional()
+});
+
 /**
  * Factory function to create the getVizOfDay tool
  *
@@ -93,8 +108,11 @@ export function getVizOfDayTool(server: Server): Tool<typeof paramsSchema.shape>
       "(e.g., filterMonth=10, filterYear=2024 for October 2024). " +
       "Useful for discovering high-quality visualizations and analyzing trends.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get Viz of the Day"
+      title: "Get Viz of the Day",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetVizOfDayParams): Promise<Ok<CallToolResult>> => {
@@ -24,6 +24,13 @@ const paramsSchema = z.object({
 
 type GetWorkbookContentsParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Structured output schema for getWorkbookContents tool
+ */
+const outputSchema = z.object({
+  sheets: z.array(z.unknown()).optional()
+}).passthrough();
+
 /**
  * Factory function to create the getWorkbookContents tool
  *
@@ -59,8 +66,11 @@ export function getWorkbookContentsTool(server: Server): Tool<typeof paramsSchem
       "Requires the workbook name from the Tableau Public URL (e.g., 'GloboxABTestAnalysis_17009696417070'). " +
       "Useful for exploring workbook structure and accessing individual visualizations.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get Workbook Contents"
+      title: "Get Workbook Contents",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetWorkbookContentsParams): Promise<Ok<CallToolResult>> => {
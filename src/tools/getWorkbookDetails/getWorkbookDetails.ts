@@ -9,6 +9,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { Tool } from "../tool.js";
+import { apiObjectOutputSchema } from "../outputSchemas.js";
 import { cachedGet } from "../../utils/cachedApiClient.js";
 import { createSuccessResult, handleApiError } from "../../utils/errorHandling.js";
 import { constructDirectUrl } from "../../utils/urlBuilder.js";
@@ -58,8 +59,11 @@ export function getWorkbookDetailsTool(server: Server): Tool<typeof paramsSchema
       "Requires the workbook name from the Tableau Public URL (e.g., 'GloboxABTestAnalysis_17009696417070'). " +
       "Useful for getting complete information about a specific workbook.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: apiObjectOutputSchema.shape,
     annotations: {
-      title: "Get Workbook Details"
+      title: "Get Workbook Details",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetWorkbookDetailsParams): Promise<Ok<CallToolResult>> => {
@@ -55,6 +55,31 @@ const paramsSchema = z.object({
 
 type GetWorkbookImageParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Structured output schema for getWorkbookImage tool
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  filePath: z.string(),
+  workbookUrl: z.string(),
+  viewName: z.string(),
+  originalUrl: z.string(),
+  optimization: z.object({
+    originalSize: z.number(),
+    originalSizeFormatted: z.string(),
+    processedSize: z.number(),
+    processedSizeFormatted: z.string(),
+    compressionRatio: z.number(),
+    originalDimensions: z.string(),
+    finalDimensions: z.string(),
+    wasResized: z.boolean(),
+    format: z.string(),
+    quality: z.number()
+  }),
+  savedAt: z.string(),
+  nextStep: z.string()
+});
+
 /**
  * Factory function to create the getWorkbookImage tool
  *
@@ -98,8 +123,11 @@ export function getWorkbookImageTool(server: Server): Tool<typeof paramsSchema.s
       "Requires the workbook repository URL and view name. " +
       "View names should have spaces and periods removed (e.g., 'Dashboard 1' -> 'Dashboard1').",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get Workbook Image"
+      title: "Get Workbook Image",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetWorkbookImageParams): Promise<Ok<CallToolResult>> => {
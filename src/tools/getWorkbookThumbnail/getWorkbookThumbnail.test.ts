@@ -100,6 +100,24 @@ describe("getWorkbookThumbnail", () => {
     expect(responseText).toContain("description");
   });
 
+  it("should return structured content matching the output schema", async () => {
+    const result = await tool.callback({
+      workbookUrl: "user/workbook",
+      viewName: "Sheet1"
+    });
+
+    const value = result.unwrap();
+    expect(value.structuredContent).toMatchObject({
+      workbookUrl: "user/workbook",
+      viewName: "Sheet1",
+      pathType: "thumb"
+    });
+    expect(() => {
+      z.object(tool.outputSchema!).strict().parse(value.structuredContent);
+    }).not.toThrow();
+    expect(tool.getOutputSchema()?.required).toContain("thumbnailUrl");
+  });
+
   it("should validate required parameters", () => {
     const schema = tool.paramsSchema;
 
@@ -35,6 +35,21 @@ const paramsSchema = z.object({
 
 type GetWorkbookThumbnailParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Structured output schema for getWorkbookThumbnail tool
+ */
+const outputSchema = z.object({
+  thumbnailUrl: z.string(),
+  workbookUrl: z.string(),
+  canonicalWorkbookName: z.string(),
+  viewName: z.string(),
+  viewNameAutoResolved: z.boolean(),
+  pathType: z.enum(["static", "thumb"]),
+  description: z.string(),
+  usage: z.string(),
+  note: z.string()
+});
+
 /**
  * Factory function to create the getWorkbookThumbnail tool
  *
@@ -80,8 +95,11 @@ export function getWorkbookThumbnailTool(server: Server): Tool<typeof paramsSche
       "If workbookName is not provided, the tool automatically removes trailing numeric suffixes (e.g., '_17646104017530') from workbookUrl. " +
       "Supports two URL formats: thumb path (default) and static path (4_3.png).",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Get Workbook Thumbnail"
+      title: "Get Workbook Thumbnail",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetWorkbookThumbnailParams): Promise<Ok<CallToolResult>> => {
@@ -9,6 +9,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { Tool } from "../tool.js";
+import { apiListOutputSchema } from "../outputSchemas.js";
 import { cachedGet } from "../../utils/cachedApiClient.js";
 import { createSuccessResult, handleApiError } from "../../utils/errorHandling.js";
 import { constructDirectUrl } from "../../utils/urlBuilder.js";
@@ -80,8 +81,11 @@ export function getWorkbooksListTool(server: Server): Tool<typeof paramsSchema.s
       "(max 50 per request). Use visibility filter to include or exclude hidden workbooks. " +
       "Useful for browsing a user's complete workbook portfolio.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: apiListOutputSchema.shape,
     annotations: {
-      title: "Get Workbooks List"
+      title: "Get Workbooks List",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: GetWorkbooksListParams): Promise<Ok<CallToolResult>> => {
@@ -0,0 +1,253 @@
+/**
+ * Formula-level checks for the lint_twbx_calculations tool
+ *
+ * Everything here works on a single calculation's AST; checks that need
+ * the whole workbook (usage, cycles, filters) live in the tool itself.
+ */
+
+import {
+  CalcNode,
+  StringLiteralNode,
+  walkCalcAst
+} from "../../utils/calcParser.js";
+
+/**
+ * Inputs to a calculation's complexity score
+ */
+export interface ComplexityBreakdown {
+  /** IF/ELSEIF/CASE WHEN/IIF branches */
+  branches: number;
+  /** AND/OR operators */
+  logicalOperators: number;
+  functionCalls: number;
+  lodExpressions: number;
+  tableCalculations: number;
+  /** Deepest nesting of IF/CASE/IIF blocks */
+  maxConditionalNesting: number;
+  fieldReferences: number;
+}
+
+export type ComplexityRating = "low" | "moderate" | "high" | "very high";
+
+/**
+ * Complexity score for one calculation
+ */
+export interface Complexity {
+  score: number;
+  rating: ComplexityRating;
+  breakdown: ComplexityBreakdown;
+}
+
+/**
+ * A conditional that returns boolean-like strings, or a comparison against one
+ */
+export interface StringBooleanMatch {
+  kind: "comparison" | "result";
+  node: CalcNode;
+  values: string[];
+}
+
+/** String pairs that stand in for TRUE/FALSE */
+const BOOLEAN_STRING_PAIRS = [
+  ["true", "false"],
+  ["yes", "no"],
+  ["y", "n"]
+];
+
+/**
+ * Check whether a node opens an IF, CASE or IIF block
+ */
+function isConditional(node: CalcNode): boolean {
+  return node.type === "IfExpression" ||
+    node.type === "CaseExpression" ||
+    (node.type === "FunctionCall" && node.name === "IIF");
+}
+
+/**
+ * Get the values a conditional can return
+ */
+function getConditionalResults(node: CalcNode): CalcNode[] {
+  switch (node.type) {
+    case "IfExpression":
+    case "CaseExpression":
+      return [
+        ...node.branches.map(b => b.result),
+        ...(node.elseResult ? [node.elseResult] : [])
+      ];
+    case "FunctionCall":
+      // IIF(test, then, else, unknown)
+      return node.args.slice(1);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check whether a node is a string literal such as "Yes" or "False"
+ */
+function isBooleanString(node: CalcNode): node is StringLiteralNode {
+  if (node.type !== "StringLiteral") return false;
+  const value = node.value.trim().toLowerCase();
+  return BOOLEAN_STRING_PAIRS.some(pair => pair.includes(value));
+}
+
+/**
+ * Print an AST in a normalized form
+ *
+ * Formatting, comments, keyword case and "==" vs "=" disappear, so two
+ * formulas with the same logic produce the same string.
+ */
+export function canonicalizeCalculation(node: CalcNode): string {
+  const print = canonicalizeCalculation;
+
+  switch (node.type) {
+    case "NumberLiteral":
+      return String(node.value);
+    case "StringLiteral":
+      return JSON.stringify(node.value);
+    case "BooleanLiteral":
+      return node.value ? "TRUE" : "FALSE";
+    case "NullLiteral":
+      return "NULL";
+    case "DateLiteral":
+      return `#${node.value}#`;
+    case "FieldReference":
+      return node.datasource ? `[${node.datasource}].[${node.name}]` : `[${node.name}]`;
+    case "FunctionCall":
+      return `${node.name}(${node.args.map(print).join(", ")})`;
+    case "UnaryExpression":
+      return `${node.operator} (${print(node.operand)})`;
+    case "BinaryExpression":
+      return `(${print(node.left)} ${node.operator} ${print(node.right)})`;
+    case "InExpression":
+      return `(${print(node.operand)} IN (${node.values.map(print).join(", ")}))`;
+    case "IfExpression":
+      return [
+        ...node.branches.map((b, i) => `${i === 0 ? "IF" : "ELSEIF"} ${print(b.condition)} THEN ${print(b.result)}`),
+        ...(node.elseResult ? [`ELSE ${print(node.elseResult)}`] : []),
+        "END"
+      ].join(" ");
+    case "CaseExpression":
+      return [
+        `CASE ${print(node.subject)}`,
+        ...node.branches.map(b => `WHEN ${print(b.when)} THEN ${print(b.result)}`),
+        ...(node.elseResult ? [`ELSE ${print(node.elseResult)}`] : []),
+        "END"
+      ].join(" ");
+    case "LodExpression":
+      return `{${node.lodType} ${node.dimensions.map(print).join(", ")} : ${print(node.expression)}}`;
+  }
+}
+
+/**
+ * Find the most deeply nested IF/CASE/IIF block
+ *
+ * @returns The nesting depth (1 for a single IF) and the innermost node, or null without conditionals
+ */
+export function findDeepestConditional(ast: CalcNode): { depth: number; node: CalcNode } | null {
+  let deepest: { depth: number; node: CalcNode } | null = null;
+
+  walkCalcAst(ast, (node, ancestors) => {
+    if (!isConditional(node)) return;
+    const depth = ancestors.filter(isConditional).length + 1;
+    if (!deepest || depth > deepest.depth) {
+      deepest = { depth, node };
+    }
+  });
+
+  return deepest;
+}
+
+/**
+ * Find strings used where a boolean would do
+ *
+ * Flags comparisons such as [Is Active] = "Yes" and conditionals whose
+ * results are all one pair of boolean-like strings ("Yes"/"No", "True"/"False").
+ */
+export function findStringBooleans(ast: CalcNode): StringBooleanMatch[] {
+  const matches: StringBooleanMatch[] = [];
+
+  walkCalcAst(ast, node => {
+    if (node.type === "BinaryExpression" && (node.operator === "=" || node.operator === "<>")) {
+      const literal = [node.left, node.right].find(isBooleanString);
+      const other = literal === node.left ? node.right : node.left;
+      if (literal && other.type !== "StringLiteral") {
+        matches.push({ kind: "comparison", node, values: [literal.value] });
+      }
+      return;
+    }
+
+    if (!isConditional(node)) return;
+
+    const results = getConditionalResults(node);
+    if (results.length < 2 || !results.every(isBooleanString)) return;
+
+    const values = [...new Set(results.map(r => (r as StringLiteralNode).value))];
+    const lowered = new Set(values.map(v => v.trim().toLowerCase()));
+    const pair = BOOLEAN_STRING_PAIRS.find(p => [...lowered].every(v => p.includes(v)));
+    if (pair && lowered.size === 2) {
+      matches.push({ kind: "result", node, values });
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Score how hard a calculation is to read and maintain
+ *
+ * Starts at 1 and adds one point per branch, logical operator and function
+ * call, two per LOD expression and table calculation, and two per level of
+ * conditional nesting beyond the first.
+ */
+export function measureComplexity(ast: CalcNode): Complexity {
+  const breakdown: ComplexityBreakdown = {
+    branches: 0,
+    logicalOperators: 0,
+    functionCalls: 0,
+    lodExpressions: 0,
+    tableCalculations: 0,
+    maxConditionalNesting: findDeepestConditional(ast)?.depth ?? 0,
+    fieldReferences: 0
+  };
+
+  walkCalcAst(ast, node => {
+    switch (node.type) {
+      case "IfExpression":
+      case "CaseExpression":
+        breakdown.branches += node.branches.length;
+        break;
+      case "BinaryExpression":
+        if (node.operator === "AND" || node.operator === "OR") {
+          breakdown.logicalOperators++;
+        }
+        break;
+      case "FunctionCall":
+        breakdown.functionCalls++;
+        if (node.name === "IIF") breakdown.branches++;
+        if (node.isTableCalc) breakdown.tableCalculations++;
+        break;
+      case "LodExpression":
+        breakdown.lodExpressions++;
+        break;
+      case "FieldReference":
+        breakdown.fieldReferences++;
+        break;
+    }
+  });
+
+  const score = 1 +
+    breakdown.branches +
+    breakdown.logicalOperators +
+    breakdown.functionCalls +
+    2 * breakdown.lodExpressions +
+    2 * breakdown.tableCalculations +
+    2 * Math.max(0, breakdown.maxConditionalNesting - 1);
+
+  let rating: ComplexityRating = "very high";
+  if (score <= 5) rating = "low";
+  else if (score <= 10) rating = "moderate";
+  else if (score <= 20) rating = "high";
+
+  return { score, rating, breakdown };
+}
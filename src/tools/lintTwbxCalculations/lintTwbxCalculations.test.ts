@@ -0,0 +1,213 @@
+/**
+ * Tests for lintTwbxCalculations tool
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { parseCalculation } from "../../utils/calcParser.js";
+import { lintTwbxCalculationsTool } from "./lintTwbxCalculations.js";
+import { measureComplexity } from "./calculationRules.js";
+
+/** The parts of the tool output the tests look at */
+interface LintContent {
+  issues: {
+    rule: string;
+    severity: string;
+    calculation: string;
+    message: string;
+    relatedCalculations?: string[];
+    worksheets?: string[];
+  }[];
+  calculations: { caption: string; usedInWorksheets: string[] }[];
+}
+
+/** Build a calculated field column */
+function calc(name: string, caption: string, formula: string): string {
+  return `<column caption='${caption}' datatype='real' name='[${name}]' role='measure' type='quantitative'>
+        <calculation class='tableau' formula='${formula}' />
+      </column>`;
+}
+
+/** Build a worksheet using the given calculations, with optional filters */
+function worksheet(name: string, calcs: string[], filters = ""): string {
+  return `<worksheet name='${name}'>
+      <table>
+        <view>
+          <datasources>
+            <datasource caption='Superstore' name='federated.1' />
+          </datasources>
+          <datasource-dependencies datasource='federated.1'>
+            ${calcs.map(c => `<column datatype='real' name='[${c}]' role='measure' type='quantitative' />`).join("\n")}
+          </datasource-dependencies>
+          ${filters}
+        </view>
+      </table>
+    </worksheet>`;
+}
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <datasources>
+    <datasource caption='Superstore' name='federated.1'>
+      ${calc("Calc_Used", "Used", "[Calc_Base] * 2")}
+      ${calc("Calc_Base", "Base", "SUM([Sales])")}
+      ${calc("Calc_Copy", "Base Copy", "sum( [Sales] ) // same as Base")}
+      ${calc("Calc_Orphan", "Orphan", "[Calc_Lonely] + 1")}
+      ${calc("Calc_Lonely", "Lonely", "SUM([Profit])")}
+      ${calc("Calc_Nested", "Nested", "IF [a] THEN IF [b] THEN IF [c] THEN IF [d] THEN 1 END END END END")}
+      ${calc("Calc_YesNo", "Yes No", "IF [Sales] &gt; 0 THEN &quot;Yes&quot; ELSE &quot;No&quot; END")}
+      ${calc("Calc_IsTrue", "Is True", "[Flag] = &quot;true&quot;")}
+      ${calc("Calc_Lod", "Region Sales", "{FIXED [Region] : SUM([Sales])}")}
+      ${calc("Calc_A", "Loop A", "[Calc_B] + 1")}
+      ${calc("Calc_B", "Loop B", "[Calc_A] + 2")}
+      ${calc("Calc_Self", "Self", "[Calc_Self] + 3")}
+    </datasource>
+  </datasources>
+  <worksheets>
+    ${worksheet("Main", ["Calc_Used", "Calc_Copy", "Calc_Nested", "Calc_YesNo", "Calc_IsTrue"])}
+    ${worksheet("Filtered", ["Calc_Lod"], "<filter class='categorical' column='[federated.1].[none:Segment:nk]' />")}
+    ${worksheet("Context", ["Calc_Lod"], "<filter class='categorical' column='[federated.1].[none:Segment:nk]' context='true' />")}
+    ${worksheet("Measure", ["Calc_Lod"], "<filter class='quantitative' column='[federated.1].[sum:Profit:qk]' />")}
+  </worksheets>
+</workbook>`;
+
+describe("measureComplexity", () => {
+  /** Score a formula that is expected to parse */
+  function complexity(formula: string) {
+    const result = parseCalculation(formula);
+    if (!result.success) throw new Error(result.error.message);
+    return measureComplexity(result.ast);
+  }
+
+  it("should score branches, operators, calls, LODs, table calcs and nesting", () => {
+    expect(complexity("SUM([Sales])")).toMatchObject({ score: 2, rating: "low" });
+    expect(complexity("IIF([a] OR [b], SUM([x]), MIN([y]))")).toMatchObject({
+      score: 6,
+      rating: "moderate",
+      breakdown: { branches: 1, logicalOperators: 1, functionCalls: 3 }
+    });
+    expect(complexity(
+      "IF [a] AND [b] THEN {FIXED [r] : SUM([s])} ELSEIF [c] THEN RUNNING_SUM(SUM([s])) END"
+    )).toEqual({
+      score: 11,
+      rating: "high",
+      breakdown: {
+        branches: 2,
+        logicalOperators: 1,
+        functionCalls: 3,
+        lodExpressions: 1,
+        tableCalculations: 1,
+        maxConditionalNesting: 1,
+        fieldReferences: 6
+      }
+    });
+    // Each level of nesting beyond the first adds two points
+    expect(complexity(
+      "IF [a] THEN IF [b] THEN IF [c] THEN IF [d] THEN IF [e] THEN IF [f] THEN 1 END END END END END END"
+    )).toMatchObject({ score: 17, rating: "high", breakdown: { maxConditionalNesting: 6 } });
+    expect(complexity(
+      "IF [a] AND [b] OR [c] AND [g] THEN WINDOW_SUM(SUM([x])) ELSEIF [d] THEN RUNNING_AVG(AVG([y])) " +
+      "ELSEIF [e] THEN {FIXED [r] : MAX([z])} ELSE {FIXED [s] : MIN([z])} END"
+    )).toMatchObject({ score: 21, rating: "very high" });
+  });
+});
+
+describe("lintTwbxCalculations", () => {
+  let tool: ReturnType<typeof lintTwbxCalculationsTool>;
+  let tempDir: string;
+  let twbPath: string;
+
+  /** Run the tool and return its structured output */
+  async function lint(maxIfNesting?: number): Promise<LintContent> {
+    const value = (await tool.callback({ twbFilePath: twbPath, maxIfNesting })).unwrap();
+    expect(value.isError).toBe(false);
+    return value.structuredContent as unknown as LintContent;
+  }
+
+  beforeAll(async () => {
+    const server = new Server(
+      { name: "test-server", version: "1.0.0" },
+      { capabilities: { tools: {} } }
+    );
+    tool = lintTwbxCalculationsTool(server);
+
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "lint-twbx-"));
+    twbPath = path.join(tempDir, "Lint.twb");
+    await fs.writeFile(twbPath, TWB);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should flag unused and transitively unused calculations", async () => {
+    const { issues, calculations } = await lint();
+    const unused = issues.filter(i => i.rule === "unused-calculation");
+
+    expect(unused.map(i => i.calculation)).not.toContain("Used");
+    // Used only through another calculation that a worksheet uses
+    expect(unused.map(i => i.calculation)).not.toContain("Base");
+    expect(calculations.find(c => c.caption === "Base")?.usedInWorksheets).toEqual(["Main"]);
+
+    expect(unused.find(i => i.calculation === "Orphan")).toMatchObject({
+      severity: "warning",
+      message: "Not used by any worksheet or calculation"
+    });
+    expect(unused.find(i => i.calculation === "Lonely")).toMatchObject({
+      message: "Only referenced by calculations that no worksheet uses",
+      relatedCalculations: ["Orphan"]
+    });
+  });
+
+  it("should flag duplicates regardless of whitespace, comments and case", async () => {
+    const { issues } = await lint();
+
+    expect(issues.filter(i => i.rule === "duplicate-formula")).toEqual([
+      expect.objectContaining({ calculation: "Base Copy", relatedCalculations: ["Base"] })
+    ]);
+  });
+
+  it("should flag conditionals nested deeper than maxIfNesting", async () => {
+    const nested = (await lint()).issues.filter(i => i.rule === "deeply-nested-if");
+    expect(nested).toEqual([
+      expect.objectContaining({ calculation: "Nested", message: "Conditionals are nested 4 levels deep (limit 3)" })
+    ]);
+
+    expect((await lint(4)).issues.filter(i => i.rule === "deeply-nested-if")).toEqual([]);
+  });
+
+  it("should flag string results and string comparisons standing in for booleans", async () => {
+    const stringBooleans = (await lint()).issues.filter(i => i.rule === "string-boolean");
+
+    expect(stringBooleans.map(i => [i.calculation, i.message])).toEqual([
+      ["Is True", "Compares against the string \"true\" instead of a boolean"],
+      ["Yes No", "Returns the strings \"Yes\", \"No\" where a boolean would do"]
+    ]);
+  });
+
+  it("should flag FIXED LODs only on worksheets with non-context dimension filters", async () => {
+    const { issues, calculations } = await lint();
+
+    expect(calculations.find(c => c.caption === "Region Sales")?.usedInWorksheets)
+      .toEqual(["Filtered", "Context", "Measure"]);
+    expect(issues.filter(i => i.rule === "fixed-lod-ignores-filters")).toEqual([
+      expect.objectContaining({
+        calculation: "Region Sales",
+        message: "FIXED LOD is computed before the dimension filters on Segment",
+        worksheets: ["Filtered"]
+      })
+    ]);
+  });
+
+  it("should flag two-calculation cycles and self-references", async () => {
+    const circular = (await lint()).issues.filter(i => i.rule === "circular-reference");
+
+    expect(circular.map(i => [i.severity, i.calculation, i.message, i.relatedCalculations])).toEqual([
+      ["error", "Loop A", "Circular reference: Loop A -> Loop B -> Loop A", ["Loop B"]],
+      ["error", "Self", "References itself", undefined]
+    ]);
+  });
+});
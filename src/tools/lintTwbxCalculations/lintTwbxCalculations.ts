@@ -0,0 +1,737 @@
+/**
+ * Lint TWBX Calculations Tool
+ *
+ * Runs a quality pass over the calculated fields of a Tableau workbook:
+ * flags unused and duplicate calculations, deeply nested conditionals,
+ * strings used as booleans, FIXED LODs that bypass worksheet filters and
+ * circular references, and scores each calculation's complexity.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import {
+  parseTwbContent,
+  ensureArray,
+  parseShelfContent,
+  parseEncodings,
+  parseFieldReference
+} from "../../utils/twbParser.js";
+import {
+  parseCalculation,
+  findCalcNodes,
+  getCalcLocation,
+  CalcNode
+} from "../../utils/calcParser.js";
+import { parseColumns, CalculatedField } from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import {
+  canonicalizeCalculation,
+  findDeepestConditional,
+  findStringBooleans,
+  measureComplexity,
+  Complexity
+} from "./calculationRules.js";
+
+/**
+ * Parameter schema for lintTwbxCalculations tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  maxIfNesting: z.coerce.number()
+    .int()
+    .min(1)
+    .optional()
+    .default(3)
+    .describe("Flag IF/CASE/IIF blocks nested deeper than this (default: 3)")
+});
+
+type LintTwbxCalculationsParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Lint rules, in the order they are reported
+ */
+const lintRuleSchema = z.enum([
+  "parse-error",
+  "circular-reference",
+  "unused-calculation",
+  "duplicate-formula",
+  "deeply-nested-if",
+  "string-boolean",
+  "fixed-lod-ignores-filters"
+]);
+
+type LintRule = z.infer<typeof lintRuleSchema>;
+
+const severitySchema = z.enum(["error", "warning", "info"]);
+
+type LintSeverity = z.infer<typeof severitySchema>;
+
+/** Severity reported for each rule */
+const RULE_SEVERITY: Record<LintRule, LintSeverity> = {
+  "parse-error": "error",
+  "circular-reference": "error",
+  "unused-calculation": "warning",
+  "duplicate-formula": "warning",
+  "deeply-nested-if": "warning",
+  "string-boolean": "info",
+  "fixed-lod-ignores-filters": "info"
+};
+
+/** Worksheet filter derivations that make it a measure filter (applied after FIXED LODs anyway) */
+const AGGREGATE_DERIVATIONS = new Set([
+  "sum", "avg", "cnt", "ctd", "min", "max", "med", "attr", "usr", "agg", "std", "stp", "var", "vrp"
+]);
+
+/**
+ * A single lint finding
+ */
+const issueSchema = z.object({
+  rule: lintRuleSchema,
+  severity: severitySchema,
+  calculation: z.string(),
+  datasource: z.string(),
+  message: z.string(),
+  suggestion: z.string(),
+  location: z.object({
+    line: z.number(),
+    column: z.number()
+  }).optional(),
+  relatedCalculations: z.array(z.string()).optional(),
+  worksheets: z.array(z.string()).optional()
+});
+
+type LintIssue = z.infer<typeof issueSchema>;
+
+/**
+ * Per-calculation complexity and issue count
+ */
+const calculationReportSchema = z.object({
+  caption: z.string(),
+  datasource: z.string(),
+  complexity: z.object({
+    score: z.number(),
+    rating: z.enum(["low", "moderate", "high", "very high"]),
+    breakdown: z.object({
+      branches: z.number(),
+      logicalOperators: z.number(),
+      functionCalls: z.number(),
+      lodExpressions: z.number(),
+      tableCalculations: z.number(),
+      maxConditionalNesting: z.number(),
+      fieldReferences: z.number()
+    })
+  }).nullable(),
+  issueCount: z.number(),
+  usedInWorksheets: z.array(z.string())
+});
+
+/**
+ * Structured output schema for lintTwbxCalculations tool
+ *
+ * Workbooks without calculations return only the summary counts and a message.
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  sourceFile: z.string(),
+  message: z.string().optional(),
+  summary: z.object({
+    totalCalculations: z.number(),
+    calculationsWithIssues: z.number(),
+    issueCount: z.number(),
+    bySeverity: z.record(severitySchema, z.number()),
+    byRule: z.record(z.number()),
+    averageComplexity: z.number().optional(),
+    maxComplexity: z.number().optional()
+  }),
+  issues: z.array(issueSchema),
+  calculations: z.array(calculationReportSchema).optional()
+});
+
+/**
+ * Calculated field with its parsed formula and resolved dependencies
+ */
+interface LintedCalculation {
+  key: string;
+  field: CalculatedField;
+  ast: CalcNode | null;
+  complexity: Complexity | null;
+  /** Keys of calculations this one references */
+  dependsOn: Set<string>;
+  /** Keys of calculations that reference this one */
+  usedBy: Set<string>;
+  /** Worksheets that use this calculation, directly or through other calculations */
+  worksheets: Set<string>;
+}
+
+/**
+ * Fields a worksheet uses and the filters it applies
+ */
+interface WorksheetUsage {
+  name: string;
+  fields: Set<string>;
+  /** Dimension filters not added to context */
+  dimensionFilters: string[];
+}
+
+/**
+ * Extract and parse every calculated field in the workbook
+ */
+function collectCalculations(workbook: Record<string, unknown>): Map<string, LintedCalculation> {
+  const calculations = new Map<string, LintedCalculation>();
+  const datasources = (workbook.datasources as Record<string, unknown> | undefined)?.datasource;
+
+  for (const ds of ensureArray(datasources)) {
+    if (!ds || typeof ds !== "object") continue;
+    const dsObj = ds as Record<string, unknown>;
+    const dsName = (dsObj["@_name"] as string) || (dsObj["@_caption"] as string) || "Unknown";
+    if (dsName === "Parameters") continue;
+
+    for (const field of parseColumns(dsObj["column"], dsName, true).calculatedFields) {
+      const parsed = parseCalculation(field.formula);
+      const key = `${dsName}/${field.name}`;
+      calculations.set(key, {
+        key,
+        field,
+        ast: parsed.success ? parsed.ast : null,
+        complexity: parsed.success ? measureComplexity(parsed.ast) : null,
+        dependsOn: new Set(),
+        usedBy: new Set(),
+        worksheets: new Set()
+      });
+    }
+  }
+
+  return calculations;
+}
+
+/**
+ * Link each calculation to the calculations it references
+ *
+ * Formulas reference calculations by internal name (or caption for older
+ * workbooks). Unqualified references prefer the calculation's own data source.
+ */
+function resolveDependencies(calculations: Map<string, LintedCalculation>): void {
+  const byName = new Map<string, LintedCalculation[]>();
+  for (const calc of calculations.values()) {
+    for (const name of new Set([calc.field.name, calc.field.caption])) {
+      byName.set(name, [...(byName.get(name) ?? []), calc]);
+    }
+  }
+
+  for (const calc of calculations.values()) {
+    const references = calc.ast
+      ? findCalcNodes(calc.ast, "FieldReference")
+        .filter(ref => !ref.isParameter)
+        .map(ref => ({ name: ref.name, datasource: ref.datasource }))
+      : calc.field.dependencies.map(name => ({ name, datasource: null }));
+
+    for (const ref of references) {
+      const candidates = byName.get(ref.name) ?? [];
+      const datasource = ref.datasource ?? calc.field.datasource;
+      const sameSource = candidates.filter(c => c.field.datasource === datasource);
+      const targets = sameSource.length > 0 || ref.datasource ? sameSource : candidates;
+
+      for (const target of targets) {
+        calc.dependsOn.add(target.key);
+        target.usedBy.add(calc.key);
+      }
+    }
+  }
+}
+
+/**
+ * Read the fields and filters of each worksheet
+ */
+function collectWorksheetUsage(workbook: Record<string, unknown>): WorksheetUsage[] {
+  const worksheets = (workbook.worksheets as Record<string, unknown> | undefined)?.worksheet;
+  const result: WorksheetUsage[] = [];
+
+  for (const ws of ensureArray(worksheets)) {
+    if (!ws || typeof ws !== "object") continue;
+    const wsObj = ws as Record<string, unknown>;
+    const table = wsObj["table"] as Record<string, unknown> | undefined;
+    const view = table?.["view"] as Record<string, unknown> | undefined;
+    const fields = new Set<string>();
+    const dimensionFilters: string[] = [];
+
+    if (view) {
+      // Tableau lists every column a worksheet needs under datasource-dependencies
+      for (const deps of ensureArray(view["datasource-dependencies"])) {
+        if (!deps || typeof deps !== "object") continue;
+        const depsObj = deps as Record<string, unknown>;
+        for (const col of ensureArray(depsObj["column"])) {
+          const name = (col as Record<string, unknown>)?.["@_name"] as string | undefined;
+          if (name) fields.add(name.replace(/^\[|\]$/g, ""));
+        }
+        for (const instance of ensureArray(depsObj["column-instance"])) {
+          const column = (instance as Record<string, unknown>)?.["@_column"] as string | undefined;
+          if (column) fields.add(column.replace(/^\[|\]$/g, ""));
+        }
+      }
+
+      // Shelves are children of <table> in saved workbooks, but accept them under <view> too
+      for (const shelf of ["rows", "cols"]) {
+        const content = (table?.[shelf] ?? view[shelf]) as string | undefined;
+        for (const name of parseShelfContent(content)) {
+          fields.add(name);
+        }
+      }
+
+      const encodings = parseEncodings(view["encodings"]);
+      for (const name of [encodings.color, encodings.size, encodings.shape, encodings.text, ...encodings.detail, ...encodings.tooltip]) {
+        if (name) fields.add(name);
+      }
+
+      for (const filter of ensureArray(view["filter"])) {
+        if (!filter || typeof filter !== "object") continue;
+        const filterObj = filter as Record<string, unknown>;
+        const column = filterObj["@_column"] as string | undefined;
+        if (!column) continue;
+
+        const { prefix, fieldName } = parseFieldReference(column);
+        fields.add(fieldName);
+
+        const isContext = filterObj["@_context"] === "true";
+        const isMeasure = prefix !== null && AGGREGATE_DERIVATIONS.has(prefix);
+        // Measure Names and other generated fields start with ":"
+        if (!isContext && !isMeasure && !fieldName.startsWith(":") && !dimensionFilters.includes(fieldName)) {
+          dimensionFilters.push(fieldName);
+        }
+      }
+    }
+
+    result.push({ name: (wsObj["@_name"] as string) || "", fields, dimensionFilters });
+  }
+
+  return result;
+}
+
+/**
+ * Record which worksheets use each calculation, following dependencies
+ */
+function assignWorksheets(calculations: Map<string, LintedCalculation>, worksheets: WorksheetUsage[]): void {
+  for (const ws of worksheets) {
+    const pending = Array.from(calculations.values())
+      .filter(c => ws.fields.has(c.field.name) || ws.fields.has(c.field.caption));
+
+    while (pending.length > 0) {
+      const calc = pending.pop()!;
+      if (calc.worksheets.has(ws.name)) continue;
+      calc.worksheets.add(ws.name);
+      for (const key of calc.dependsOn) {
+        const dep = calculations.get(key);
+        if (dep) pending.push(dep);
+      }
+    }
+  }
+}
+
+/**
+ * Find groups of calculations that reference each other (Tarjan's algorithm)
+ *
+ * @returns Each cycle as a list of calculation keys
+ */
+function findCycles(calculations: Map<string, LintedCalculation>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  function connect(key: string): void {
+    index.set(key, counter);
+    lowLink.set(key, counter);
+    counter++;
+    stack.push(key);
+    onStack.add(key);
+
+    for (const dep of calculations.get(key)?.dependsOn ?? []) {
+      if (!index.has(dep)) {
+        connect(dep);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(dep)!));
+      }
+    }
+
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.unshift(member);
+      } while (member !== key);
+
+      const selfReference = calculations.get(key)?.dependsOn.has(key);
+      if (component.length > 1 || selfReference) {
+        cycles.push(component);
+      }
+    }
+  }
+
+  for (const key of calculations.keys()) {
+    if (!index.has(key)) connect(key);
+  }
+
+  return cycles;
+}
+
+/**
+ * Create an issue with the rule's severity
+ */
+function createIssue(
+  rule: LintRule,
+  calc: LintedCalculation,
+  details: Omit<LintIssue, "rule" | "severity" | "calculation" | "datasource">
+): LintIssue {
+  return {
+    rule,
+    severity: RULE_SEVERITY[rule],
+    calculation: calc.field.caption,
+    datasource: calc.field.datasource,
+    ...details
+  };
+}
+
+/**
+ * Check each formula on its own: syntax, nesting and string booleans
+ */
+function lintFormulas(calculations: Map<string, LintedCalculation>, maxIfNesting: number): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const calc of calculations.values()) {
+    const { formula, parseError } = calc.field;
+
+    if (!calc.ast) {
+      if (parseError) {
+        issues.push(createIssue("parse-error", calc, {
+          message: `Formula could not be parsed: ${parseError.message}`,
+          suggestion: "Check the formula at the reported location; other rules were skipped for this calculation",
+          location: { line: parseError.line, column: parseError.column }
+        }));
+      }
+      continue;
+    }
+
+    const deepest = findDeepestConditional(calc.ast);
+    if (deepest && deepest.depth > maxIfNesting) {
+      issues.push(createIssue("deeply-nested-if", calc, {
+        message: `Conditionals are nested ${deepest.depth} levels deep (limit ${maxIfNesting})`,
+        suggestion: "Flatten with ELSEIF or CASE, or move inner branches into their own calculated fields",
+        location: getCalcLocation(formula, deepest.node.start)
+      }));
+    }
+
+    const stringBooleans = findStringBooleans(calc.ast);
+    if (stringBooleans.length > 0) {
+      const first = stringBooleans[0];
+      const values = [...new Set(stringBooleans.flatMap(m => m.values))].map(v => `"${v}"`).join(", ");
+      issues.push(createIssue("string-boolean", calc, {
+        message: first.kind === "result"
+          ? `Returns the strings ${values} where a boolean would do`
+          : `Compares against the string ${values} instead of a boolean`,
+        suggestion: "Return or test TRUE/FALSE directly; booleans are faster than strings and can be aliased for display",
+        location: getCalcLocation(formula, first.node.start)
+      }));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Flag calculations reached from no worksheet
+ */
+function lintUnused(calculations: Map<string, LintedCalculation>): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const calc of calculations.values()) {
+    if (calc.worksheets.size > 0) continue;
+
+    const referencedBy = Array.from(calc.usedBy)
+      .filter(key => key !== calc.key)
+      .map(key => calculations.get(key)!.field.caption);
+
+    issues.push(createIssue("unused-calculation", calc, {
+      message: referencedBy.length > 0
+        ? "Only referenced by calculations that no worksheet uses"
+        : "Not used by any worksheet or calculation",
+      suggestion: calc.field.hidden
+        ? "The field is already hidden; delete it if it is no longer needed"
+        : "Delete the calculation or hide it if it is kept for reference",
+      relatedCalculations: referencedBy.length > 0 ? referencedBy : undefined
+    }));
+  }
+
+  return issues;
+}
+
+/**
+ * Flag calculations whose formula matches an earlier one
+ *
+ * Formulas are compared by their normalized AST, so whitespace,
+ * comments and keyword case don't hide duplicates.
+ */
+function lintDuplicates(calculations: Map<string, LintedCalculation>): LintIssue[] {
+  const groups = new Map<string, LintedCalculation[]>();
+
+  for (const calc of calculations.values()) {
+    const signature = calc.ast
+      ? canonicalizeCalculation(calc.ast)
+      : calc.field.formula.replace(/\s+/g, " ").trim();
+    groups.set(signature, [...(groups.get(signature) ?? []), calc]);
+  }
+
+  const issues: LintIssue[] = [];
+  for (const group of groups.values()) {
+    const [original, ...duplicates] = group;
+    for (const calc of duplicates) {
+      issues.push(createIssue("duplicate-formula", calc, {
+        message: `Same formula as "${original.field.caption}"`,
+        suggestion: "Keep one calculation and point worksheets and other calculations at it",
+        relatedCalculations: [original.field.caption]
+      }));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Flag FIXED LODs used on worksheets that filter dimensions outside context
+ *
+ * FIXED LODs are computed before dimension filters, so those filters don't
+ * change the LOD's values unless they are added to context.
+ */
+function lintFixedLods(
+  calculations: Map<string, LintedCalculation>,
+  worksheets: WorksheetUsage[]
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const calc of calculations.values()) {
+    if (!calc.ast) continue;
+    const fixedLod = findCalcNodes(calc.ast, "LodExpression").find(lod => lod.lodType === "FIXED");
+    if (!fixedLod) continue;
+
+    const affected = worksheets
+      .filter(ws => calc.worksheets.has(ws.name))
+      .map(ws => ({
+        name: ws.name,
+        filters: ws.dimensionFilters.filter(f => f !== calc.field.name && f !== calc.field.caption)
+      }))
+      .filter(ws => ws.filters.length > 0);
+
+    if (affected.length === 0) continue;
+
+    const filters = [...new Set(affected.flatMap(ws => ws.filters))];
+    issues.push(createIssue("fixed-lod-ignores-filters", calc, {
+      message: `FIXED LOD is computed before the dimension filters on ${filters.join(", ")}`,
+      suggestion: "Add these filters to context if the LOD should respect them, or use INCLUDE/EXCLUDE",
+      location: getCalcLocation(calc.field.formula, fixedLod.start),
+      worksheets: affected.map(ws => ws.name)
+    }));
+  }
+
+  return issues;
+}
+
+/**
+ * Flag calculations that reference each other in a loop
+ */
+function lintCircularReferences(calculations: Map<string, LintedCalculation>): LintIssue[] {
+  return findCycles(calculations).map(cycle => {
+    const members = cycle.map(key => calculations.get(key)!);
+    const captions = members.map(c => c.field.caption);
+    return createIssue("circular-reference", members[0], {
+      message: captions.length === 1
+        ? "References itself"
+        : `Circular reference: ${[...captions, captions[0]].join(" -> ")}`,
+      suggestion: "Break the loop by moving the shared logic into a calculation that none of them depend on",
+      relatedCalculations: captions.length > 1 ? captions.slice(1) : undefined
+    });
+  });
+}
+
+/**
+ * Factory function to create the lintTwbxCalculations tool
+ */
+export function lintTwbxCalculationsTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "lint_twbx_calculations",
+    description: "Runs a quality check over the calculated fields of a Tableau workbook (.twb file). " +
+      "Flags unused calculations, duplicate formulas under different names, deeply nested IF/CASE blocks, " +
+      "string comparisons that should be booleans, FIXED LODs that ignore non-context filters, circular references " +
+      "and formulas that fail to parse. Each calculation gets a complexity score and rating. " +
+      "Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Lint TWBX Calculations",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: LintTwbxCalculationsParams): Promise<Ok<CallToolResult>> => {
+      const { twbFilePath, maxIfNesting = 3 } = args;
+
+      try {
+        console.error(`[lint_twbx_calculations] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        const calculations = collectCalculations(workbook);
+
+        if (calculations.size === 0) {
+          return createSuccessResult({
+            success: true,
+            sourceFile: twbFilePath,
+            message: "No calculated fields found in this workbook",
+            summary: {
+              totalCalculations: 0,
+              calculationsWithIssues: 0,
+              issueCount: 0,
+              bySeverity: { error: 0, warning: 0, info: 0 },
+              byRule: {}
+            },
+            issues: []
+          });
+        }
+
+        resolveDependencies(calculations);
+        const worksheets = collectWorksheetUsage(workbook);
+        assignWorksheets(calculations, worksheets);
+
+        const issues = [
+          ...lintFormulas(calculations, maxIfNesting),
+          ...lintCircularReferences(calculations),
+          // Usage can't be judged for workbooks without worksheets (e.g. data source templates)
+          ...(worksheets.length > 0 ? lintUnused(calculations) : []),
+          ...lintDuplicates(calculations),
+          ...lintFixedLods(calculations, worksheets)
+        ];
+
+        const ruleOrder = lintRuleSchema.options;
+        issues.sort((a, b) =>
+          ruleOrder.indexOf(a.rule) - ruleOrder.indexOf(b.rule) ||
+          a.calculation.localeCompare(b.calculation)
+        );
+
+        // Summaries
+        const bySeverity: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+        const byRule: Record<string, number> = {};
+        const issueCounts = new Map<string, number>();
+        for (const issue of issues) {
+          bySeverity[issue.severity]++;
+          byRule[issue.rule] = (byRule[issue.rule] ?? 0) + 1;
+          const key = `${issue.datasource}/${issue.calculation}`;
+          issueCounts.set(key, (issueCounts.get(key) ?? 0) + 1);
+        }
+
+        const reports = Array.from(calculations.values())
+          .map(calc => ({
+            caption: calc.field.caption,
+            datasource: calc.field.datasource,
+            complexity: calc.complexity,
+            issueCount: issueCounts.get(`${calc.field.datasource}/${calc.field.caption}`) ?? 0,
+            usedInWorksheets: Array.from(calc.worksheets)
+          }))
+          .sort((a, b) => (b.complexity?.score ?? 0) - (a.complexity?.score ?? 0));
+
+        const scores = reports.flatMap(r => (r.complexity ? [r.complexity.score] : []));
+
+        const result = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            totalCalculations: calculations.size,
+            calculationsWithIssues: issueCounts.size,
+            issueCount: issues.length,
+            bySeverity,
+            byRule,
+            averageComplexity: scores.length > 0
+              ? Math.round((scores.reduce((sum, s) => sum + s, 0) / scores.length) * 10) / 10
+              : undefined,
+            maxComplexity: scores.length > 0 ? Math.max(...scores) : undefined
+          },
+          issues,
+          calculations: reports.slice(0, 50) // Limit for readability
+        };
+
+        console.error(`[lint_twbx_calculations] Checked ${calculations.size} calculations, found ${issues.length} issues`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error linting TWB file",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
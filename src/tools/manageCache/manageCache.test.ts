@@ -0,0 +1,123 @@
+/**
+ * Tests for manageCache tool
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { manageCacheTool } from "./manageCache.js";
+import { cachedGet, invalidateCache } from "../../utils/cachedApiClient.js";
+
+vi.mock("../../utils/cachedApiClient.js", () => ({
+  cachedGet: vi.fn(),
+  invalidateCache: vi.fn()
+}));
+
+describe("manageCache", () => {
+  let server: Server;
+  let tool: ReturnType<typeof manageCacheTool>;
+
+  beforeEach(() => {
+    server = new Server(
+      { name: "test-server", version: "1.0.0" },
+      { capabilities: { tools: {} } }
+    );
+    tool = manageCacheTool(server);
+    vi.clearAllMocks();
+  });
+
+  it("should have correct metadata", () => {
+    expect(tool.name).toBe("manage_cache");
+    expect(tool.description).toContain("cache");
+    expect(tool.annotations?.title).toBe("Manage Cache");
+    expect(tool.annotations?.readOnlyHint).toBe(false);
+    expect(tool.annotations?.destructiveHint).toBe(true);
+  });
+
+  it("should report per-cache statistics", async () => {
+    const result = await tool.callback({ action: "stats" });
+
+    const value = result.unwrap();
+    expect(value.isError).toBe(false);
+    expect(value.structuredContent).toMatchObject({
+      action: "stats",
+      caches: {
+        profile: expect.objectContaining({ hitRate: expect.any(Number) }),
+        workbook: expect.any(Object),
+        search: expect.any(Object),
+        discovery: expect.any(Object)
+      }
+    });
+  });
+
+  it("should invalidate by pattern", async () => {
+    vi.mocked(invalidateCache).mockResolvedValueOnce(3);
+
+    const result = await tool.callback({ action: "invalidate", pattern: "/public/apis/bff/v1/search/" });
+
+    expect(result.unwrap().structuredContent).toMatchObject({ invalidated: 3 });
+    const regex = vi.mocked(invalidateCache).mock.calls[0][0];
+    expect(regex.test("/public/apis/bff/v1/search/query-workbooks")).toBe(true);
+  });
+
+  it("should invalidate every cached endpoint for a username", async () => {
+    vi.mocked(invalidateCache).mockResolvedValueOnce(5);
+
+    await tool.callback({ action: "invalidate", username: "john" });
+
+    const regex = vi.mocked(invalidateCache).mock.calls[0][0];
+    expect(regex.test("/profile/api/john")).toBe(true);
+    expect(regex.test("/profile/api/followers/john:{\"count\":24,\"index\":0}")).toBe(true);
+    expect(regex.test("/profile/api/favorite/john/workbook")).toBe(true);
+    expect(regex.test("/public/apis/bff/v2/author/john/categories:{\"pageSize\":500}")).toBe(true);
+    expect(regex.test("/public/apis/workbooks:{\"count\":50,\"profileName\":\"john\"}")).toBe(true);
+    expect(regex.test("/profile/api/johnny")).toBe(false);
+    expect(regex.test("/profile/api/followers/johnny:{}")).toBe(false);
+  });
+
+  it("should reject invalid patterns", async () => {
+    const result = await tool.callback({ action: "invalidate", pattern: "([" });
+
+    const value = result.unwrap();
+    expect(value.isError).toBe(true);
+    expect(value.content[0].text).toContain("Invalid pattern");
+    expect(invalidateCache).not.toHaveBeenCalled();
+  });
+
+  it("should require a pattern or username to invalidate", async () => {
+    const result = await tool.callback({ action: "invalidate" });
+
+    expect(result.unwrap().isError).toBe(true);
+  });
+
+  it("should warm a user's profile, workbooks and followers", async () => {
+    vi.mocked(cachedGet)
+      .mockResolvedValueOnce({ profileName: "john" })
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error("Network error"));
+
+    const result = await tool.callback({ action: "warm", username: "john" });
+
+    expect(cachedGet).toHaveBeenCalledWith("/profile/api/john", undefined, { bypassCache: true });
+    expect(cachedGet).toHaveBeenCalledWith(
+      "/public/apis/workbooks",
+      { profileName: "john", start: 0, count: 50, visibility: "NON_HIDDEN" },
+      { bypassCache: true }
+    );
+    expect(cachedGet).toHaveBeenCalledWith(
+      "/profile/api/followers/john",
+      { index: 0, count: 24 },
+      { bypassCache: true }
+    );
+
+    const warmed = (result.unwrap().structuredContent as { warmed: Array<{ status: string; error?: string }> }).warmed;
+    expect(warmed.map(w => w.status)).toEqual(["fulfilled", "fulfilled", "rejected"]);
+    expect(warmed[2].error).toBe("Network error");
+  });
+
+  it("should require a username to warm", async () => {
+    const result = await tool.callback({ action: "warm" });
+
+    expect(result.unwrap().isError).toBe(true);
+    expect(cachedGet).not.toHaveBeenCalled();
+  });
+});
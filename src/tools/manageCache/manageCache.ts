@@ -0,0 +1,277 @@
+/**
+ * Manage Cache Tool
+ *
+ * Exposes the API response caches over MCP so operators and agents can
+ * inspect hit rates, invalidate stale data and pre-warm a user's data
+ * without restarting the server.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import { Tool } from "../tool.js";
+import { cachedGet, invalidateCache } from "../../utils/cachedApiClient.js";
+import { getAllCacheStats, clearAllCaches } from "../../utils/cache.js";
+import { getDiskCache } from "../../utils/diskCache.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { getConfig } from "../../config.js";
+
+/**
+ * Parameter schema for manageCache tool
+ */
+const paramsSchema = z.object({
+  action: z.enum(["stats", "invalidate", "warm", "clear"])
+    .describe("'stats' shows per-cache hit rates, 'invalidate' removes entries by pattern or username, " +
+      "'warm' pre-fetches a user's profile, workbooks and followers, 'clear' empties every cache"),
+  pattern: z.string()
+    .min(1, "Pattern cannot be empty")
+    .optional()
+    .describe("Regular expression matched against cached endpoint keys (invalidate only), e.g. '/public/apis/bff/v1/search/'"),
+  username: z.string()
+    .min(1, "Username cannot be empty")
+    .optional()
+    .describe("Tableau Public username whose cached data to invalidate or warm")
+});
+
+type ManageCacheParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Statistics reported for each cache
+ */
+const cacheStatsSchema = z.object({
+  hits: z.number(),
+  staleHits: z.number(),
+  misses: z.number(),
+  evictions: z.number(),
+  size: z.number(),
+  hitRate: z.number()
+});
+
+/**
+ * Structured output schema for manageCache tool
+ */
+const outputSchema = z.object({
+  action: z.enum(["stats", "invalidate", "warm", "clear"]),
+  cacheEnabled: z.boolean().optional(),
+  caches: z.record(cacheStatsSchema).optional(),
+  disk: cacheStatsSchema.extend({
+    bytes: z.number(),
+    maxBytes: z.number()
+  }).nullable().optional(),
+  pattern: z.string().optional(),
+  invalidated: z.number().optional(),
+  username: z.string().optional(),
+  warmed: z.array(z.object({
+    resource: z.string(),
+    endpoint: z.string(),
+    status: z.enum(["fulfilled", "rejected"]),
+    error: z.string().optional()
+  })).optional()
+});
+
+/**
+ * Endpoints fetched when warming a user's cache
+ *
+ * Parameters match the tools' defaults so the warmed entries share cache
+ * keys with a first call to get_user_profile, get_workbooks_list and get_followers.
+ */
+function getWarmRequests(username: string): Array<{
+  resource: string;
+  endpoint: string;
+  params?: Record<string, unknown>;
+}> {
+  return [
+    { resource: "profile", endpoint: `/profile/api/${username}` },
+    {
+      resource: "workbooks",
+      endpoint: "/public/apis/workbooks",
+      params: { profileName: username, start: 0, count: 50, visibility: "NON_HIDDEN" }
+    },
+    {
+      resource: "followers",
+      endpoint: `/profile/api/followers/${username}`,
+      params: { index: 0, count: 24 }
+    }
+  ];
+}
+
+/**
+ * Build a pattern matching every cache key that belongs to a user
+ *
+ * Covers the profile, followers/following/favorites and categories
+ * endpoints (username in the path) and the workbooks and authors
+ * endpoints (username in the profileName query parameter).
+ */
+function buildUsernamePattern(username: string): RegExp {
+  const escaped = username.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  return new RegExp(
+    `^/profile/api/(?:followers/|following/|favorite/)?${escaped}(?:[/:]|$)` +
+    `|^/public/apis/bff/v2/author/${escaped}/` +
+    `|"profileName":"${escaped}"`,
+    "i"
+  );
+}
+
+/**
+ * Factory function to create the manageCache tool
+ *
+ * This tool administers the API response caches:
+ * 1. stats - per-cache hits, stale hits, misses, size and hit rate
+ * 2. invalidate - remove entries matching a pattern or belonging to a user
+ * 3. warm - fetch a user's profile, workbooks and followers into the cache
+ * 4. clear - empty the memory caches and the disk tier
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ *
+ * @example
+ * ```typescript
+ * // Request
+ * {
+ *   "action": "invalidate",
+ *   "username": "wjsutton"
+ * }
+ *
+ * // Response includes the number of entries removed
+ * ```
+ */
+export function manageCacheTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "manage_cache",
+    description: "Inspects and controls the server's Tableau Public API response caches. " +
+      "Actions: 'stats' returns hits, stale hits, misses, size and hit rate for each cache (and the disk tier if enabled); " +
+      "'invalidate' removes cached entries matching a regular expression (pattern) or all data for a username; " +
+      "'warm' pre-fetches a user's profile, first page of workbooks and followers; " +
+      "'clear' empties every cache. " +
+      "Use invalidate when you need fresh data after a user publishes or edits a workbook.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Manage Cache",
+      readOnlyHint: false,
+      // clear and invalidate drop every cache tier, including entries on disk
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true
+    },
+
+    callback: async (args: ManageCacheParams): Promise<Ok<CallToolResult>> => {
+      const { action, pattern, username } = args;
+      const config = getConfig();
+
+      try {
+        console.error(`[manage_cache] Action: ${action}`);
+
+        switch (action) {
+          case "stats":
+            return createSuccessResult({
+              action,
+              cacheEnabled: config.cacheEnabled,
+              caches: getAllCacheStats(),
+              disk: getDiskCache()?.getStats() ?? null
+            });
+
+          case "invalidate": {
+            if (!pattern && !username) {
+              return createErrorResult(
+                "Invalidate requires a pattern or username",
+                {
+                  suggestion: "Provide pattern (e.g. '/public/apis/bff/v1/search/') or username"
+                }
+              );
+            }
+
+            let regex: RegExp;
+            try {
+              regex = pattern ? new RegExp(pattern) : buildUsernamePattern(username!);
+            } catch (error) {
+              return createErrorResult(
+                "Invalid pattern",
+                {
+                  pattern,
+                  error: error instanceof Error ? error.message : String(error),
+                  suggestion: "Provide a valid JavaScript regular expression"
+                }
+              );
+            }
+
+            const invalidated = await invalidateCache(regex);
+            console.error(`[manage_cache] Invalidated ${invalidated} entries matching ${regex}`);
+
+            return createSuccessResult({
+              action,
+              pattern: regex.source,
+              username,
+              invalidated
+            });
+          }
+
+          case "warm": {
+            if (!username) {
+              return createErrorResult(
+                "Warm requires a username",
+                {
+                  suggestion: "Provide the Tableau Public username whose data to pre-fetch"
+                }
+              );
+            }
+
+            if (!config.cacheEnabled) {
+              return createErrorResult(
+                "Caching is disabled",
+                {
+                  suggestion: "Set CACHE_ENABLED to true to warm the cache"
+                }
+              );
+            }
+
+            // Bypass the cache so warming always refreshes the entries
+            const requests = getWarmRequests(username);
+            const results = await Promise.allSettled(
+              requests.map(({ endpoint, params }) => cachedGet(endpoint, params, { bypassCache: true }))
+            );
+
+            const warmed = requests.map(({ resource, endpoint }, i) => {
+              const result = results[i];
+              return result.status === "fulfilled"
+                ? { resource, endpoint, status: result.status }
+                : {
+                  resource,
+                  endpoint,
+                  status: result.status,
+                  error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+                };
+            });
+
+            const failed = warmed.filter(w => w.status === "rejected").length;
+            console.error(`[manage_cache] Warmed ${warmed.length - failed}/${warmed.length} resources for ${username}`);
+
+            return createSuccessResult({ action, username, warmed });
+          }
+
+          case "clear": {
+            clearAllCaches();
+            await getDiskCache()?.clear();
+            console.error(`[manage_cache] Cleared all caches`);
+
+            return createSuccessResult({
+              action,
+              caches: getAllCacheStats(),
+              disk: getDiskCache()?.getStats() ?? null
+            });
+          }
+        }
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error managing cache",
+          {
+            action,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Shared output schemas for Tableau Public API tools
+ *
+ * API tools pass Tableau Public responses through largely unchanged, and
+ * those responses are undocumented and vary between endpoints. These
+ * schemas describe only the envelope so clients can rely on the shape
+ * without the server rejecting new or missing upstream fields.
+ */
+
+import { z } from "zod";
+
+/**
+ * Output schema for tools returning a Tableau Public API object as-is
+ */
+export const apiObjectOutputSchema = z.object({}).passthrough();
+
+/**
+ * Output schema for tools returning a list of API records
+ *
+ * Arrays are wrapped as `{ items: [...] }` in structuredContent
+ * (see toStructuredContent).
+ */
+export const apiListOutputSchema = z.object({
+  items: z.array(z.record(z.unknown()))
+    .describe("Records returned by the Tableau Public API, enriched with directUrl where possible")
+});
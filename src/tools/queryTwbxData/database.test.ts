@@ -0,0 +1,143 @@
+/**
+ * Tests for loading and querying workbook data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs/promises";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { getCachedDatabase, loadDatabase, runQuery, toSqlValue } from "./database.js";
+import { findTableSources } from "./tableSources.js";
+
+const TWB = `<?xml version='1.0' encoding='utf-8' ?>
+<workbook>
+  <datasources>
+    <datasource caption='Sales Data' name='federated.1'>
+      <connection class='federated'>
+        <named-connections>
+          <named-connection name='textscan.a'>
+            <connection class='textscan' directory='C:/Users/me/Data' filename='orders.csv' />
+          </named-connection>
+          <named-connection name='excel-direct.b'>
+            <connection class='excel-direct' filename='C:\\Users\\me\\Book.xlsx' />
+          </named-connection>
+        </named-connections>
+        <_.fcp.ObjectModelEncapsulateLegacy.false...relation type='collection'>
+          <relation connection='textscan.a' name='Orders' table='[orders#csv]' type='table' />
+          <relation connection='excel-direct.b' name='People' table='[People$]' type='table' />
+        </_.fcp.ObjectModelEncapsulateLegacy.false...relation>
+      </connection>
+    </datasource>
+  </datasources>
+</workbook>`;
+
+describe("findTableSources", () => {
+  it("should map relations to the files and sheets they read", () => {
+    const result = parseTwbContent(TWB);
+    if (!result.success) throw new Error(result.error);
+
+    expect(findTableSources((result.data as { workbook: Record<string, unknown> }).workbook)).toEqual([
+      { name: "Orders", datasource: "Sales Data", fileName: "orders.csv" },
+      { name: "People", datasource: "Sales Data", fileName: "book.xlsx", sheet: "People" }
+    ]);
+  });
+});
+
+describe("toSqlValue", () => {
+  it("should store dates as ISO text and booleans as integers", () => {
+    expect(toSqlValue("1/5/2024")).toBe("2024-01-05");
+    expect(toSqlValue("2024-01-05 10:30:00")).toBe("2024-01-05 10:30:00");
+    expect(toSqlValue("TRUE")).toBe(1);
+    expect(toSqlValue("N/A")).toBeNull();
+  });
+
+  it("should keep codes with leading zeros and oversized IDs as text", () => {
+    expect(toSqlValue("02134")).toBe("02134");
+    expect(toSqlValue("-007")).toBe("-007");
+    expect(toSqlValue("9007199254740993")).toBe("9007199254740993");
+    expect(toSqlValue("9007199254740991")).toBe(9007199254740991);
+  });
+});
+
+describe("loadDatabase", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "query-twbx-test-"));
+    await fs.writeFile(path.join(directory, "orders.csv"), "Region,Sales\nEast,10\nWest,20\nEast,5\n");
+    await fs.writeFile(path.join(directory, "extra.csv"), "Region,Sales\nNorth,1\n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should name tables after workbook relations and run read-only queries", async () => {
+    const database = await loadDatabase(
+      [
+        { filePath: path.join(directory, "orders.csv"), format: "csv" },
+        { filePath: path.join(directory, "extra.csv"), format: "csv" }
+      ],
+      [{ name: "Orders", datasource: "Sales Data", fileName: "orders.csv" }],
+      2
+    );
+    const query = (sql: string) => runQuery(database, sql, 10, 5000);
+
+    expect(database.tables.map(t => [t.name, t.rowCount, t.truncated])).toEqual([["Orders", 2, true], ["extra", 1, false]]);
+    expect(await query("SELECT Region, SUM(Sales) FROM Orders GROUP BY Region ORDER BY Region")).toEqual({
+      success: true,
+      columns: ["Region", "SUM(Sales)"],
+      rows: [["East", 10], ["West", 20]],
+      truncated: false
+    });
+
+    expect(await query("DELETE FROM Orders")).toMatchObject({ success: false });
+    expect(await query("SELECT 1; DROP TABLE Orders")).toMatchObject({
+      success: false,
+      error: "Only one statement may be run at a time"
+    });
+    expect(await query("WITH x AS (SELECT 1) DELETE FROM Orders")).toMatchObject({ success: false });
+    expect(await query("SELECT COUNT(*) FROM Orders")).toMatchObject({ rows: [[2]] });
+    expect(await query("SELECT * FROM Missing")).toMatchObject({ success: false, error: "no such table: Missing" });
+    database.db.close();
+  });
+
+  it("should stop queries that run past the time limit", async () => {
+    const database = await loadDatabase([{ filePath: path.join(directory, "orders.csv"), format: "csv" }], [], 10);
+
+    const result = await runQuery(
+      database,
+      "WITH RECURSIVE r(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM r) SELECT COUNT(*) FROM r",
+      10,
+      500
+    );
+    expect(result).toEqual({ success: false, error: "Query timed out after 0.5 seconds", timedOut: true });
+
+    // The database is still usable afterwards
+    expect(await runQuery(database, "SELECT COUNT(*) FROM orders", 10, 5000)).toMatchObject({ rows: [[3]] });
+    database.db.close();
+  });
+
+  it("should load once for concurrent calls with the same key", async () => {
+    const files = [{ filePath: path.join(directory, "orders.csv"), format: "csv" as const }];
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return loadDatabase(files, [], 10);
+    };
+
+    const [first, second] = await Promise.all([
+      getCachedDatabase(directory, files, load),
+      getCachedDatabase(directory, files, load)
+    ]);
+    expect(loads).toBe(1);
+    expect(second.database).toBe(first.database);
+    expect([first.cached, second.cached]).toEqual([false, true]);
+
+    // A failed load is not cached
+    const failing = () => Promise.reject(new Error("unreadable"));
+    await expect(getCachedDatabase(`${directory}|failing`, files, failing)).rejects.toThrow("unreadable");
+    expect((await getCachedDatabase(`${directory}|failing`, files, load)).cached).toBe(false);
+  });
+});
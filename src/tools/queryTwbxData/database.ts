@@ -0,0 +1,381 @@
+/**
+ * Workbook Database
+ *
+ * Loads the CSV, Excel and JSON files of an extracted TWBX package into an
+ * in-memory SQLite database (sql.js, compiled to WebAssembly) and runs
+ * read-only queries against it. Loaded databases are cached per extraction
+ * and rebuilt when any data file changes. Queries run in a worker thread
+ * with a time limit (see queryWorker.ts).
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from "sql.js";
+import { classifyValue, RowSink } from "../getTwbxDataProfile/columnStats.js";
+import { readCsv } from "../getTwbxDataProfile/csvProfiler.js";
+import { readExcel } from "../getTwbxDataProfile/excelProfiler.js";
+import { TableSource } from "./tableSources.js";
+import { QueryResult, runQueryInWorker } from "./queryWorker.js";
+
+export type { QueryResult, QueryValue } from "./queryWorker.js";
+
+/** Databases kept loaded, most recently used last */
+const MAX_CACHED_DATABASES = 3;
+
+/** Statements a query may start with */
+const READ_ONLY_KEYWORDS = ["SELECT", "WITH", "VALUES", "EXPLAIN"];
+
+/**
+ * A data file to load
+ */
+export interface DataFile {
+  filePath: string;
+  format: "csv" | "excel" | "json";
+}
+
+/**
+ * A table loaded into the database
+ */
+export interface LoadedTable {
+  name: string;
+  datasource?: string;
+  sourceFile: string;
+  sheet?: string;
+  columns: string[];
+  rowCount: number;
+  truncated: boolean;
+}
+
+/**
+ * A data file that could not be loaded
+ */
+export interface SkippedFile {
+  fileName: string;
+  reason: string;
+}
+
+/**
+ * A loaded database and what it contains
+ */
+export interface WorkbookDatabase {
+  db: Database;
+  /** The database file contents, in shared memory so query workers read it without a copy */
+  image: Uint8Array;
+  tables: LoadedTable[];
+  skipped: SkippedFile[];
+}
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/** Loaded and loading databases; concurrent callers share a load in progress */
+const cache = new Map<string, { signature: string; database: Promise<WorkbookDatabase> }>();
+
+/**
+ * Quote an SQLite identifier
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, "\"\"")}"`;
+}
+
+/**
+ * Convert a raw cell to an SQLite value
+ *
+ * Values are typed the way the data profile types them. Dates are stored as
+ * ISO text, which SQLite's date functions accept, without a time when it
+ * is midnight; booleans as 1 and 0.
+ */
+export function toSqlValue(raw: unknown): SqlValue {
+  const value = classifyValue(raw);
+  if (!value) return null;
+
+  switch (value.type) {
+    case "integer":
+    case "number":
+    case "string":
+      return value.value;
+    case "boolean":
+      return value.value ? 1 : 0;
+    case "date": {
+      const iso = value.value.toISOString();
+      return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso.slice(0, 19).replace("T", " ");
+    }
+  }
+}
+
+/**
+ * Make names unique by appending _2, _3, ... to repeats
+ */
+function makeUnique(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let i = 2; used.has(unique.toLowerCase()); i++) {
+    unique = `${name}_${i}`;
+  }
+  used.add(unique.toLowerCase());
+  return unique;
+}
+
+/**
+ * Inserts rows into a new table
+ */
+class TableWriter implements RowSink {
+  private readonly insert;
+  readonly columns: string[];
+
+  constructor(db: Database, readonly name: string, headers: string[]) {
+    const used = new Set<string>();
+    this.columns = headers.map(header => makeUnique(header, used));
+
+    db.run(`CREATE TABLE ${quoteIdentifier(name)} (${this.columns.map(quoteIdentifier).join(", ")})`);
+    this.insert = db.prepare(
+      `INSERT INTO ${quoteIdentifier(name)} VALUES (${this.columns.map(() => "?").join(", ")})`
+    );
+  }
+
+  addRow(values: unknown[]): void {
+    this.insert.run(this.columns.map((_, i) => toSqlValue(values[i])));
+  }
+
+  /** Release the insert statement; safe to call more than once */
+  close(): void {
+    this.insert.free();
+  }
+}
+
+/**
+ * Load a JSON file holding an array of objects
+ *
+ * Columns are the keys of all objects; nested values are stored as JSON text.
+ */
+async function loadJson(
+  filePath: string,
+  maxRows: number,
+  createTable: (headers: string[]) => TableWriter
+): Promise<{ table: TableWriter; rowCount: number; truncated: boolean } | null> {
+  const data = JSON.parse(await fs.readFile(filePath, "utf-8")) as unknown;
+  if (!Array.isArray(data)) return null;
+
+  const records = data.filter((item): item is Record<string, unknown> => !!item && typeof item === "object" && !Array.isArray(item));
+  if (records.length === 0) return null;
+
+  const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+  const table = createTable(headers);
+  const rows = records.slice(0, maxRows);
+  for (const record of rows) {
+    table.addRow(headers.map(header => {
+      const value = record[header];
+      return value !== null && typeof value === "object" ? JSON.stringify(value) : value;
+    }));
+  }
+
+  return { table, rowCount: rows.length, truncated: records.length > rows.length };
+}
+
+/**
+ * Load data files into a new in-memory database
+ *
+ * Each file (or Excel sheet) becomes a table named after the workbook
+ * relation that reads it; files no relation reads are named after the file
+ * (CSV, JSON) or sheet (Excel).
+ *
+ * @param files - Data files to load
+ * @param sources - Workbook tables and the files they read
+ * @param maxRows - Maximum rows to load per table
+ * @returns The database with its tables and any files that could not be loaded
+ */
+export async function loadDatabase(
+  files: DataFile[],
+  sources: TableSource[],
+  maxRows: number
+): Promise<WorkbookDatabase> {
+  sqlJs ??= initSqlJs();
+  const db = new (await sqlJs).Database();
+  const tables: LoadedTable[] = [];
+  const skipped: SkippedFile[] = [];
+  const usedNames = new Set<string>();
+
+  const findSource = (fileName: string, sheet?: string) =>
+    sources.find(s => s.fileName === fileName.toLowerCase() && (sheet === undefined || s.sheet === sheet));
+
+  const writers: TableWriter[] = [];
+  const createTable = (preferredName: string, headers: string[]) => {
+    const writer = new TableWriter(db, makeUnique(preferredName, usedNames), headers);
+    writers.push(writer);
+    return writer;
+  };
+
+  const addTable = (
+    writer: TableWriter,
+    fileName: string,
+    rowCount: number,
+    truncated: boolean,
+    sheet?: string
+  ) => {
+    tables.push({
+      name: writer.name,
+      datasource: findSource(fileName, sheet)?.datasource,
+      sourceFile: fileName,
+      sheet,
+      columns: writer.columns,
+      rowCount,
+      truncated
+    });
+  };
+
+  db.run("BEGIN");
+
+  for (const { filePath, format } of files) {
+    const fileName = path.basename(filePath);
+    const fallbackName = path.basename(fileName, path.extname(fileName));
+    const firstWriter = writers.length;
+
+    try {
+      if (format === "csv") {
+        const { sink, rowCount, truncated } = await readCsv(filePath, maxRows,
+          headers => createTable(findSource(fileName)?.name ?? fallbackName, headers));
+        if (sink) {
+          addTable(sink, fileName, rowCount, truncated);
+        } else {
+          skipped.push({ fileName, reason: "The file is empty" });
+        }
+      } else if (format === "excel") {
+        const sheets = await readExcel(filePath, maxRows,
+          (sheet, headers) => createTable(findSource(fileName, sheet)?.name ?? sheet, headers));
+        for (const { name, sink, rowCount, totalRows } of sheets) {
+          if (sink) addTable(sink, fileName, rowCount, totalRows > rowCount, name);
+        }
+      } else {
+        const loaded = await loadJson(filePath, maxRows,
+          headers => createTable(findSource(fileName)?.name ?? fallbackName, headers));
+        if (loaded) {
+          addTable(loaded.table, fileName, loaded.rowCount, loaded.truncated);
+        } else {
+          skipped.push({ fileName, reason: "Only JSON arrays of objects can be loaded as tables" });
+        }
+      }
+    } catch (error) {
+      console.error(`[query_twbx_data] Failed to load ${filePath}:`, error);
+      // Drop tables the file had partly filled
+      for (const writer of writers.slice(firstWriter)) {
+        writer.close();
+        db.run(`DROP TABLE ${quoteIdentifier(writer.name)}`);
+      }
+      skipped.push({ fileName, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  db.run("COMMIT");
+  writers.forEach(writer => writer.close());
+
+  // Export before setting pragmas: exporting reopens the database and resets them
+  const exported = db.export();
+  const image = new Uint8Array(new SharedArrayBuffer(exported.length));
+  image.set(exported);
+
+  // Refuse writes from here on, as a backstop to the statement check
+  db.run("PRAGMA query_only = ON");
+
+  return { db, image, tables, skipped };
+}
+
+/**
+ * Get a loaded database for an extraction, loading it if the cache has none
+ * or the data files changed since it was loaded
+ *
+ * @param cacheKey - Identifies the extraction and load options
+ * @param files - Data files to load
+ * @param load - Loads the database on a cache miss
+ * @returns The database and whether it came from the cache
+ */
+export async function getCachedDatabase(
+  cacheKey: string,
+  files: DataFile[],
+  load: () => Promise<WorkbookDatabase>
+): Promise<{ database: WorkbookDatabase; cached: boolean }> {
+  const stats = await Promise.all(files.map(f => fs.stat(f.filePath)));
+  const signature = files.map((f, i) => `${f.filePath}:${stats[i].size}:${stats[i].mtimeMs}`).join("|");
+
+  const entry = cache.get(cacheKey);
+  cache.delete(cacheKey);
+  if (entry && entry.signature === signature) {
+    cache.set(cacheKey, entry);
+    return { database: await entry.database, cached: true };
+  }
+  if (entry) closeWhenLoaded(entry.database);
+
+  // Cache the load itself, so a concurrent call for the same key waits for it instead of loading again
+  const database = load();
+  cache.set(cacheKey, { signature, database });
+  database.catch(() => {
+    if (cache.get(cacheKey)?.database === database) cache.delete(cacheKey);
+  });
+
+  // Evict the least recently used
+  for (const [key, evicted] of cache) {
+    if (cache.size <= MAX_CACHED_DATABASES) break;
+    closeWhenLoaded(evicted.database);
+    cache.delete(key);
+  }
+
+  return { database: await database, cached: false };
+}
+
+/**
+ * Close a database once it has loaded (a failed load has nothing to close)
+ */
+function closeWhenLoaded(database: Promise<WorkbookDatabase>): void {
+  database.then(loaded => loaded.db.close(), () => {});
+}
+
+/**
+ * Check that SQL is a single read-only statement
+ *
+ * @returns An error message, or null if the query may run
+ */
+export function checkReadOnly(db: Database, sql: string): string | null {
+  const body = sql.replace(/^(\s+|--[^\n]*\n?|\/\*[\s\S]*?\*\/)+/, "");
+  const keyword = body.match(/^[A-Za-z]+/)?.[0].toUpperCase();
+  if (!keyword || !READ_ONLY_KEYWORDS.includes(keyword)) {
+    return `Only read-only queries are allowed (starting with ${READ_ONLY_KEYWORDS.join(", ")})`;
+  }
+
+  let count = 0;
+  for (const statement of db.iterateStatements(sql)) {
+    statement.free();
+    count++;
+  }
+  if (count > 1) {
+    return "Only one statement may be run at a time";
+  }
+
+  return null;
+}
+
+/**
+ * Run a read-only query, returning at most maxRows rows
+ *
+ * The statement is checked here (compiling it doesn't run it) and then run
+ * in a worker thread, which is terminated if it takes longer than timeoutMs.
+ *
+ * @param database - Database to query
+ * @param sql - A single SELECT (or WITH/VALUES/EXPLAIN) statement
+ * @param maxRows - Maximum rows to return
+ * @param timeoutMs - Time limit for running the query
+ * @returns Column names and rows, or the error
+ */
+export async function runQuery(
+  database: WorkbookDatabase,
+  sql: string,
+  maxRows: number,
+  timeoutMs: number
+): Promise<QueryResult> {
+  try {
+    const readOnlyError = checkReadOnly(database.db, sql);
+    if (readOnlyError) {
+      return { success: false, error: readOnlyError };
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  return runQueryInWorker(database.image, sql, maxRows, timeoutMs);
+}
@@ -0,0 +1,248 @@
+/**
+ * Query TWBX Data Tool
+ *
+ * Loads the CSV, Excel and JSON files of an extracted TWBX package into an
+ * embedded SQLite database and runs read-only SQL against them, so numbers
+ * shown in a viz can be checked against the data behind it. Tables are named
+ * after the workbook's data source tables where a file can be matched to one.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists, listFilesRecursive } from "../../utils/fileSystem.js";
+import { parseTwbContent } from "../../utils/twbParser.js";
+import { findTableSources, TableSource } from "./tableSources.js";
+import { DataFile, getCachedDatabase, loadDatabase, runQuery } from "./database.js";
+
+/**
+ * Parameter schema for queryTwbxData tool
+ */
+const paramsSchema = z.object({
+  extractionPath: z.string()
+    .min(1, "Extraction path cannot be empty")
+    .describe("Path to extracted TWBX contents (from unpack_twbx)"),
+  sql: z.string()
+    .optional()
+    .describe("A single read-only SQLite query (SELECT or WITH). Omit to list the available tables"),
+  maxRows: z.coerce.number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .default(100)
+    .describe("Maximum rows to return (default: 100, max: 1000)"),
+  maxLoadRows: z.coerce.number()
+    .int()
+    .min(1)
+    .optional()
+    .default(500000)
+    .describe("Maximum rows to load per table (default: 500000)"),
+  timeoutSeconds: z.coerce.number()
+    .int()
+    .min(1)
+    .max(300)
+    .optional()
+    .default(30)
+    .describe("Time limit for running the query, in seconds (default: 30, max: 300)"),
+  twbFilePath: z.string()
+    .optional()
+    .describe("Optional path to the .twb file whose data sources name the tables (default: the .twb in the extraction)")
+});
+
+type QueryTwbxDataParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Structured output schema for queryTwbxData tool
+ */
+const outputSchema = z.object({
+  success: z.literal(true),
+  extractionPath: z.string(),
+  tables: z.array(z.object({
+    name: z.string(),
+    datasource: z.string().optional(),
+    sourceFile: z.string(),
+    sheet: z.string().optional(),
+    columns: z.array(z.string()),
+    rowCount: z.number(),
+    truncated: z.boolean()
+  })),
+  skippedFiles: z.array(z.object({
+    fileName: z.string(),
+    reason: z.string()
+  })),
+  query: z.object({
+    sql: z.string(),
+    columns: z.array(z.string()),
+    rows: z.array(z.array(z.union([z.string(), z.number(), z.null()]))),
+    rowCount: z.number(),
+    truncated: z.boolean()
+  }).optional()
+});
+
+type QueryTwbxDataResult = z.infer<typeof outputSchema>;
+
+/**
+ * Read the workbook's file-backed tables, if the extraction has a workbook
+ */
+async function readTableSources(twbFilePath: string | undefined): Promise<TableSource[]> {
+  if (!twbFilePath || !(await fileExists(twbFilePath))) {
+    return [];
+  }
+
+  const parseResult = parseTwbContent(await fs.readFile(twbFilePath, "utf-8"));
+  if (!parseResult.success) {
+    console.error(`[query_twbx_data] Could not parse ${twbFilePath}: ${parseResult.error}`);
+    return [];
+  }
+
+  const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+  return workbook ? findTableSources(workbook) : [];
+}
+
+/**
+ * Factory function to create the queryTwbxData tool
+ *
+ * This tool queries the data bundled in a TWBX package:
+ * 1. Finds CSV, Excel and JSON files in the extraction directory
+ * 2. Names tables after the workbook's data source tables that read them
+ * 3. Loads them into an in-memory SQLite database (cached per extraction)
+ * 4. Runs one read-only query in a worker thread, within a time limit, and returns its rows
+ *
+ * @param server - The MCP server instance
+ * @returns Configured Tool instance
+ */
+export function queryTwbxDataTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "query_twbx_data",
+    description: "Runs read-only SQL (SQLite dialect) against the data files bundled in an extracted TWBX package, " +
+      "to verify the numbers shown in a viz. CSV files, Excel sheets and JSON arrays are loaded as tables named " +
+      "after the workbook's data source tables (e.g. \"Orders\"), or after the file or sheet when no data source " +
+      "reads them. Dates are stored as ISO text. Omit sql to list tables and columns. Queries that run longer " +
+      "than timeoutSeconds are stopped. " +
+      "Tableau extracts (.hyper, .tde) cannot be queried. Use with the extraction path from unpack_twbx.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Query TWBX Data",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: QueryTwbxDataParams): Promise<Ok<CallToolResult>> => {
+      const { extractionPath, sql, maxRows = 100, maxLoadRows = 500000, timeoutSeconds = 30, twbFilePath } = args;
+
+      try {
+        console.error(`[query_twbx_data] Loading data from: ${extractionPath}`);
+
+        // Validate extraction path
+        const exists = await fileExists(extractionPath);
+        if (!exists || !(await fs.stat(extractionPath)).isDirectory()) {
+          return createErrorResult(
+            "Extraction directory not found",
+            {
+              extractionPath,
+              suggestion: "Use unpack_twbx to extract a TWBX file first, then pass its extraction path"
+            }
+          );
+        }
+
+        // Find data files and the workbook
+        const files = (await listFilesRecursive(extractionPath)).filter(f => !f.isDirectory);
+        const dataFiles: DataFile[] = [];
+        let workbookPath = twbFilePath;
+        for (const file of files) {
+          const fullPath = path.join(extractionPath, file.path);
+          const ext = path.extname(file.path).toLowerCase();
+          if (ext === ".csv") {
+            dataFiles.push({ filePath: fullPath, format: "csv" });
+          } else if (ext === ".xlsx") {
+            dataFiles.push({ filePath: fullPath, format: "excel" });
+          } else if (ext === ".json") {
+            dataFiles.push({ filePath: fullPath, format: "json" });
+          } else if (ext === ".twb" && !workbookPath) {
+            workbookPath = fullPath;
+          }
+        }
+
+        if (dataFiles.length === 0) {
+          return createErrorResult(
+            "No queryable data files found",
+            {
+              extractionPath,
+              suggestion: "Only CSV, Excel (.xlsx) and JSON files can be queried. Use get_twbx_data_profile " +
+                "to see what data the package contains"
+            }
+          );
+        }
+
+        // Load (or reuse) the database
+        const { database, cached } = await getCachedDatabase(
+          `${extractionPath}|${workbookPath ?? ""}|${maxLoadRows}`,
+          dataFiles,
+          async () => loadDatabase(dataFiles, await readTableSources(workbookPath), maxLoadRows)
+        );
+        console.error(`[query_twbx_data] ${cached ? "Reusing" : "Loaded"} ${database.tables.length} tables`);
+
+        const result: QueryTwbxDataResult = {
+          success: true,
+          extractionPath,
+          tables: database.tables,
+          skippedFiles: database.skipped
+        };
+
+        if (sql && sql.trim()) {
+          const queryResult = await runQuery(database, sql, maxRows, timeoutSeconds * 1000);
+          if (!queryResult.success && queryResult.timedOut) {
+            return createErrorResult(
+              "SQL query timed out",
+              {
+                sql,
+                error: queryResult.error,
+                suggestion: "Add a LIMIT or WHERE clause, check recursive CTEs for a stopping condition, " +
+                  "or raise timeoutSeconds"
+              }
+            );
+          }
+          if (!queryResult.success) {
+            return createErrorResult(
+              "SQL query failed",
+              {
+                sql,
+                error: queryResult.error,
+                tables: database.tables.map(t => ({ name: t.name, columns: t.columns })),
+                suggestion: "Quote table and column names with spaces in double quotes, e.g. SELECT \"Order Date\" FROM \"Orders\""
+              }
+            );
+          }
+
+          result.query = {
+            sql,
+            columns: queryResult.columns,
+            rows: queryResult.rows,
+            rowCount: queryResult.rows.length,
+            truncated: queryResult.truncated
+          };
+          console.error(`[query_twbx_data] Query returned ${queryResult.rows.length} rows`);
+        }
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error querying TWBX data",
+          {
+            extractionPath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Query Worker
+ *
+ * sql.js runs queries synchronously, so a runaway query (an unbounded
+ * recursive CTE, a huge cross join) would block the event loop and with
+ * it every tool call and HTTP session. Queries therefore run in a worker
+ * thread on a copy of the database, and the worker is terminated when the
+ * query runs past its time limit.
+ */
+
+import { Worker } from "worker_threads";
+import { createRequire } from "module";
+
+/**
+ * A value in a query result; blobs are described rather than returned
+ */
+export type QueryValue = string | number | null;
+
+/**
+ * Result of running a query
+ */
+export type QueryResult =
+  | { success: true; columns: string[]; rows: QueryValue[][]; truncated: boolean }
+  | { success: false; error: string; timedOut?: boolean };
+
+/** Path to the sql.js entry point, for the worker to load */
+const SQL_JS_PATH = createRequire(import.meta.url).resolve("sql.js");
+
+/**
+ * Worker source, run as a CommonJS script so it needs no build step
+ *
+ * Opens the database image read-only, steps through the statement and
+ * posts back at most maxRows rows.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const { sqlJsPath, image, sql, maxRows } = workerData;
+
+require(sqlJsPath)().then(SQL => {
+  const db = new SQL.Database(image);
+  db.run("PRAGMA query_only = ON");
+  const statement = db.prepare(sql);
+  try {
+    const rows = [];
+    let truncated = false;
+    while (statement.step()) {
+      if (rows.length >= maxRows) {
+        truncated = true;
+        break;
+      }
+      rows.push(statement.get().map(value =>
+        value instanceof Uint8Array ? "<blob " + value.length + " bytes>" : value));
+    }
+    parentPort.postMessage({ success: true, columns: statement.getColumnNames(), rows, truncated });
+  } finally {
+    statement.free();
+    db.close();
+  }
+}).catch(error => {
+  parentPort.postMessage({ success: false, error: error instanceof Error ? error.message : String(error) });
+});
+`;
+
+/**
+ * Run a query in a worker thread with a time limit
+ *
+ * @param image - The database file contents (from Database.export()), shared with the worker
+ * @param sql - The statement to run; it must already have passed the read-only check
+ * @param maxRows - Maximum rows to return
+ * @param timeoutMs - Time after which the worker is terminated
+ * @returns Column names and rows, or the error
+ */
+export function runQueryInWorker(
+  image: Uint8Array,
+  sql: string,
+  maxRows: number,
+  timeoutMs: number
+): Promise<QueryResult> {
+  return new Promise(resolve => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { sqlJsPath: SQL_JS_PATH, image, sql, maxRows }
+    });
+
+    let settled = false;
+    const settle = (result: QueryResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(result);
+      void worker.terminate();
+    };
+
+    const timer = setTimeout(() => {
+      settle({
+        success: false,
+        error: `Query timed out after ${timeoutMs / 1000} seconds`,
+        timedOut: true
+      });
+    }, timeoutMs);
+
+    worker.on("message", (result: QueryResult) => settle(result));
+    worker.on("error", error => settle({ success: false, error: error.message }));
+    worker.on("exit", code => settle({ success: false, error: `Query worker exited with code ${code}` }));
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Table Sources
+ *
+ * Maps the tables of a workbook's data sources (the relations listed as
+ * ParsedDataSource.tables) to the files they were read from, so bundled
+ * data can be queried under the names the workbook uses.
+ */
+
+import * as path from "path";
+import { ensureArray, decodeHtmlEntities, getFlaggedElements } from "../../utils/twbParser.js";
+
+/**
+ * A workbook table backed by a file
+ */
+export interface TableSource {
+  /** Relation name, as shown in Tableau's data pane */
+  name: string;
+  /** Caption of the data source the table belongs to */
+  datasource: string;
+  /** Base name of the source file, lower-cased for matching */
+  fileName: string;
+  /** Sheet name, for Excel tables */
+  sheet?: string;
+}
+
+/**
+ * Work out the file and sheet a table relation reads
+ *
+ * Text files are named in the relation's table attribute with "#" for the
+ * extension dot ([orders#csv]); Excel sheets end in "$" ([Orders$]) and take
+ * the file from their connection.
+ */
+function resolveRelationFile(
+  relation: Record<string, unknown>,
+  connection: Record<string, unknown> | undefined
+): { fileName: string; sheet?: string } | null {
+  const table = decodeHtmlEntities(String(relation["@_table"] ?? "")).replace(/^\[|\]$/g, "");
+  const connectionClass = (connection?.["@_class"] as string | undefined) ?? "";
+  const connectionFile = connection?.["@_filename"] as string | undefined;
+
+  if (connectionClass.startsWith("excel") && connectionFile) {
+    return {
+      fileName: path.basename(connectionFile.replace(/\\/g, "/")).toLowerCase(),
+      sheet: table.replace(/\$$/, "")
+    };
+  }
+
+  if (connectionClass === "textscan" && table.includes("#")) {
+    return { fileName: table.replace(/#([^#]*)$/, ".$1").toLowerCase() };
+  }
+
+  if (connectionFile) {
+    return { fileName: path.basename(connectionFile.replace(/\\/g, "/")).toLowerCase() };
+  }
+
+  return null;
+}
+
+/**
+ * Find the file-backed tables of every data source in a workbook
+ *
+ * @param workbook - Parsed workbook element
+ * @returns Tables that read from a text, Excel or JSON file
+ */
+export function findTableSources(workbook: Record<string, unknown>): TableSource[] {
+  const sources: TableSource[] = [];
+  const datasources = (workbook.datasources as Record<string, unknown> | undefined)?.datasource;
+
+  for (const ds of ensureArray(datasources)) {
+    if (!ds || typeof ds !== "object") continue;
+    const dsObj = ds as Record<string, unknown>;
+    const dsName = (dsObj["@_name"] as string) || "";
+    if (dsName === "Parameters") continue;
+    const dsCaption = (dsObj["@_caption"] as string) || dsName;
+
+    const connection = dsObj["connection"] as Record<string, unknown> | undefined;
+    if (!connection) continue;
+
+    // Federated connections name the underlying connections each relation uses
+    const namedConnections = new Map<string, Record<string, unknown>>();
+    const named = (connection["named-connections"] as Record<string, unknown> | undefined)?.["named-connection"];
+    for (const nc of ensureArray(named)) {
+      if (!nc || typeof nc !== "object") continue;
+      const ncObj = nc as Record<string, unknown>;
+      const inner = ncObj["connection"] as Record<string, unknown> | undefined;
+      if (inner) namedConnections.set(ncObj["@_name"] as string, inner);
+    }
+
+    const visit = (relation: Record<string, unknown>): void => {
+      if (relation["@_type"] === "table" && relation["@_name"]) {
+        const relConnection = namedConnections.get(relation["@_connection"] as string) ?? connection;
+        const file = resolveRelationFile(relation, relConnection);
+        if (file) {
+          sources.push({ name: decodeHtmlEntities(relation["@_name"] as string), datasource: dsCaption, ...file });
+        }
+      }
+      // Joins, unions and collections nest their tables
+      getFlaggedElements(relation, "relation").forEach(visit);
+    };
+    getFlaggedElements(connection, "relation").forEach(visit);
+  }
+
+  return sources;
+}
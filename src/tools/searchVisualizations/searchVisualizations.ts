@@ -46,6 +46,13 @@ const paramsSchema = z.object({
 
 type SearchVisualizationsParams = z.infer<typeof paramsSchema>;
 
+/**
+ * Structured output schema for searchVisualizations tool
+ */
+const outputSchema = z.object({
+  results: z.array(z.unknown()).optional()
+}).passthrough();
+
 /**
  * Factory function to create the searchVisualizations tool
  *
@@ -91,8 +98,11 @@ export function searchVisualizationsTool(server: Server): Tool<typeof paramsSche
       "Supports pagination with start and count parameters (max 100 results per request). " +
       "Useful for content discovery, finding specific topics, and identifying relevant creators.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Search Visualizations"
+      title: "Search Visualizations",
+      readOnlyHint: true,
+      openWorldHint: true
     },
 
     callback: async (args: SearchVisualizationsParams): Promise<Ok<CallToolResult>> => {
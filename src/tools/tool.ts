@@ -6,9 +6,10 @@
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { z, ZodRawShape, ZodObject } from "zod";
+import { zodShapeToJsonSchema, ObjectJsonSchema } from "../utils/jsonSchema.js";
 
 /**
  * Parameters for constructing a Tool instance
@@ -36,13 +37,18 @@ export interface ToolParams<Args extends ZodRawShape | undefined> {
    */
   paramsSchema: Args;
 
+  /**
+   * Optional Zod schema shape describing the tool's structured output
+   */
+  outputSchema?: ZodRawShape;
+
   /**
    * Optional metadata annotations for the tool
+   *
+   * Behaviour hints (readOnlyHint, openWorldHint, etc.) are advertised
+   * to clients in tools/list.
    */
-  annotations?: {
-    title?: string;
-    [key: string]: unknown;
-  };
+  annotations?: ToolAnnotations;
 
   /**
    * Callback function that implements the tool's logic
@@ -105,10 +111,15 @@ export class Tool<Args extends ZodRawShape | undefined> {
    */
   public readonly paramsSchema: Args;
 
+  /**
+   * Optional Zod schema shape for the tool's structured output
+   */
+  public readonly outputSchema?: ZodRawShape;
+
   /**
    * Optional metadata for the tool
    */
-  public readonly annotations?: Record<string, unknown>;
+  public readonly annotations?: ToolAnnotations;
 
   /**
    * Function that executes the tool's logic
@@ -133,6 +144,7 @@ export class Tool<Args extends ZodRawShape | undefined> {
     this.name = params.name;
     this.description = params.description;
     this.paramsSchema = params.paramsSchema;
+    this.outputSchema = params.outputSchema;
     this.annotations = params.annotations;
     this.callback = params.callback;
 
@@ -142,6 +154,26 @@ export class Tool<Args extends ZodRawShape | undefined> {
       : null) as Args extends ZodRawShape ? ZodObject<Args> : null;
   }
 
+  /**
+   * Builds the JSON Schema advertised as the tool's inputSchema
+   *
+   * Optional and defaulted parameters are not marked as required.
+   *
+   * @returns JSON Schema for the tool parameters
+   */
+  public getInputSchema(): ObjectJsonSchema {
+    return zodShapeToJsonSchema(this.paramsSchema);
+  }
+
+  /**
+   * Builds the JSON Schema advertised as the tool's outputSchema
+   *
+   * @returns JSON Schema for the structured output, or undefined if the tool has none
+   */
+  public getOutputSchema(): ObjectJsonSchema | undefined {
+    return this.outputSchema ? zodShapeToJsonSchema(this.outputSchema) : undefined;
+  }
+
   /**
    * Parses and validates input arguments using the Zod schema.
    * Performs type coercion (e.g., string "800" -> number 800) when
@@ -44,7 +44,21 @@ export const TOOL_NAMES = [
   "get_twbx_workbook_structure",
   "get_twbx_calculation_dependencies",
   "get_twbx_lod_expressions",
-  "get_twbx_data_profile"
+  "get_twbx_data_profile",
+  "diff_twbx_workbooks",
+  "lint_twbx_calculations",
+  "translate_twbx_calculations",
+  "query_twbx_data",
+  "get_twbx_data_model",
+  "get_twbx_dashboard_layout",
+  "get_twbx_visual_spec",
+  "get_twbx_style_guide",
+  "get_twbx_sheet_text",
+  "get_twbx_action_graph",
+  "get_twbx_field_structures",
+
+  // Cache Tools
+  "manage_cache"
 ] as const;
 
 /**
@@ -41,6 +41,20 @@ import { getTwbxWorkbookStructureTool } from "./getTwbxWorkbookStructure/getTwbx
 import { getTwbxCalculationDependenciesTool } from "./getTwbxCalculationDependencies/getTwbxCalculationDependencies.js";
 import { getTwbxLodExpressionsTool } from "./getTwbxLodExpressions/getTwbxLodExpressions.js";
 import { getTwbxDataProfileTool } from "./getTwbxDataProfile/getTwbxDataProfile.js";
+import { diffTwbxWorkbooksTool } from "./diffTwbxWorkbooks/diffTwbxWorkbooks.js";
+import { lintTwbxCalculationsTool } from "./lintTwbxCalculations/lintTwbxCalculations.js";
+import { translateTwbxCalculationsTool } from "./translateTwbxCalculations/translateTwbxCalculations.js";
+import { queryTwbxDataTool } from "./queryTwbxData/queryTwbxData.js";
+import { getTwbxDataModelTool } from "./getTwbxDataModel/getTwbxDataModel.js";
+import { getTwbxDashboardLayoutTool } from "./getTwbxDashboardLayout/getTwbxDashboardLayout.js";
+import { getTwbxVisualSpecTool } from "./getTwbxVisualSpec/getTwbxVisualSpec.js";
+import { getTwbxStyleGuideTool } from "./getTwbxStyleGuide/getTwbxStyleGuide.js";
+import { getTwbxSheetTextTool } from "./getTwbxSheetText/getTwbxSheetText.js";
+import { getTwbxActionGraphTool } from "./getTwbxActionGraph/getTwbxActionGraph.js";
+import { getTwbxFieldStructuresTool } from "./getTwbxFieldStructures/getTwbxFieldStructures.js";
+
+// Cache Tools
+import { manageCacheTool } from "./manageCache/manageCache.js";
 
 /**
  * Type definition for tool factory functions
@@ -87,14 +101,28 @@ export const toolFactories: ToolFactory[] = [
   getWorkbookImageTool,
   getWorkbookThumbnailTool,
 
-  // TWBX Tools (7)
+  // TWBX Tools (18)
   downloadWorkbookTwbxTool,
   unpackTwbxTool,
   getTwbxCalculatedFieldsTool,
   getTwbxWorkbookStructureTool,
   getTwbxCalculationDependenciesTool,
   getTwbxLodExpressionsTool,
-  getTwbxDataProfileTool
+  getTwbxDataProfileTool,
+  diffTwbxWorkbooksTool,
+  lintTwbxCalculationsTool,
+  translateTwbxCalculationsTool,
+  queryTwbxDataTool,
+  getTwbxDataModelTool,
+  getTwbxDashboardLayoutTool,
+  getTwbxVisualSpecTool,
+  getTwbxStyleGuideTool,
+  getTwbxSheetTextTool,
+  getTwbxActionGraphTool,
+  getTwbxFieldStructuresTool,
+
+  // Cache Tools (1)
+  manageCacheTool
 ];
 
 /**
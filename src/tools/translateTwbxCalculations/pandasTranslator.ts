@@ -0,0 +1,804 @@
+/**
+ * Translate Tableau calculations to pandas
+ *
+ * Row-level calculations become a column on df, aggregates a groupby over
+ * the view's dimensions, and table calculations a second step over the
+ * aggregated frame. LOD expressions are computed first with a groupby and
+ * joined back to df. Expressions without fields (literals, parameters,
+ * aggregates of a group) are plain Python values, so they use Python
+ * operators instead of the Series ones.
+ */
+
+import {
+  BinaryExpressionNode,
+  CalcNode,
+  FunctionCallNode,
+  LodExpressionNode
+} from "../../utils/calcParser.js";
+import {
+  CalculationLevel,
+  Translation,
+  TranslationOptions,
+  TranslationParameter,
+  TranslationState,
+  TABLE_CALC_NOTE,
+  addImports,
+  containsAggregate,
+  containsField,
+  containsTableCalc,
+  findOutermostLods,
+  formatPythonParams,
+  getLodDimensions,
+  getNumericValue,
+  getPrecedence,
+  isNonZeroNumber,
+  getStringLiteral,
+  needsParentheses,
+  noteLodAssumptions
+} from "./translation.js";
+
+/**
+ * Where an expression is evaluated
+ */
+interface PandasContext {
+  /** DataFrame that fields are read from: df, a group g, or the aggregated agg */
+  frame: string;
+  /** True inside a table calculation, where aggregates are columns of agg */
+  tableCalc: boolean;
+}
+
+/** Series method for each aggregate */
+const AGGREGATE_METHODS: Record<string, string> = {
+  SUM: "sum()",
+  AVG: "mean()",
+  MIN: "min()",
+  MAX: "max()",
+  COUNT: "count()",
+  COUNTD: "nunique()",
+  MEDIAN: "median()",
+  STDEV: "std()",
+  STDEVP: "std(ddof=0)",
+  VAR: "var()",
+  VARP: "var(ddof=0)"
+};
+
+/** NumPy function for each math function */
+const NUMPY_FUNCTIONS: Record<string, string> = {
+  ABS: "np.abs",
+  CEILING: "np.ceil",
+  FLOOR: "np.floor",
+  SQRT: "np.sqrt",
+  EXP: "np.exp",
+  LN: "np.log",
+  SIGN: "np.sign",
+  SIN: "np.sin",
+  COS: "np.cos",
+  TAN: "np.tan",
+  ASIN: "np.arcsin",
+  ACOS: "np.arccos",
+  ATAN: "np.arctan",
+  ATAN2: "np.arctan2",
+  DEGREES: "np.degrees",
+  RADIANS: "np.radians"
+};
+
+/** Date parts that are attributes of a Timestamp (and of Series.dt) */
+const DATE_ATTRIBUTES = new Set(["year", "quarter", "month", "day", "hour", "minute", "second", "dayofyear"]);
+
+/** Period frequency for each DATETRUNC part; weeks end on Saturday so they start on Sunday */
+const PERIOD_FREQUENCIES: Record<string, string> = {
+  year: "Y",
+  quarter: "Q",
+  month: "M",
+  week: "W-SAT",
+  day: "D"
+};
+
+/** Frequency strings for floor, to_timedelta and Timedelta */
+const TIME_UNITS: Record<string, { floor: string; timedelta: string; keyword: string }> = {
+  day: { floor: "D", timedelta: "D", keyword: "days" },
+  hour: { floor: "h", timedelta: "h", keyword: "hours" },
+  minute: { floor: "min", timedelta: "min", keyword: "minutes" },
+  second: { floor: "s", timedelta: "s", keyword: "seconds" }
+};
+
+const COMPARISON_OPERATORS = new Set(["=", "<>", "<", "<=", ">", ">="]);
+
+/**
+ * Check whether a node is a comparison or IN test
+ */
+function isComparison(node: CalcNode): boolean {
+  return (node.type === "BinaryExpression" && COMPARISON_OPERATORS.has(node.operator)) || node.type === "InExpression";
+}
+
+const IMPORTS = {
+  np: "import numpy as np",
+  pd: "import pandas as pd",
+  re: "import re"
+};
+
+/**
+ * Format a column lookup such as df["Sales"]
+ */
+function column(frame: string, name: string): string {
+  return `${frame}[${JSON.stringify(name)}]`;
+}
+
+/**
+ * Parenthesize code unless it is a single atom (name, call, literal)
+ */
+function wrap(node: CalcNode, code: string): string {
+  return getPrecedence(node) === Infinity ? code : `(${code})`;
+}
+
+/**
+ * Format a literal as Python
+ */
+function pythonLiteral(node: CalcNode): string {
+  switch (node.type) {
+    case "NumberLiteral":
+      return String(node.value);
+    case "StringLiteral":
+      return JSON.stringify(node.value);
+    case "BooleanLiteral":
+      return node.value ? "True" : "False";
+    case "DateLiteral":
+      return `pd.Timestamp(${JSON.stringify(node.value)})`;
+    case "UnaryExpression":
+      return node.operator === "-" ? `-${pythonLiteral(node.operand)}` : "None";
+    default:
+      return "None";
+  }
+}
+
+/**
+ * Walks an AST and emits pandas code, collecting LOD and aggregation steps
+ */
+class PandasTranslator {
+  private readonly lodSteps: string[] = [];
+  /** Column of each LOD already computed, as operands can be translated more than once */
+  private readonly lodColumns = new Map<LodExpressionNode, string>();
+  private readonly aggColumns = new Map<string, string>();
+  private readonly parameters = new Map<string, TranslationParameter>();
+
+  constructor(
+    private readonly options: TranslationOptions,
+    private readonly state: TranslationState
+  ) {}
+
+  /**
+   * Build the full snippet for a calculation
+   */
+  translate(ast: CalcNode, level: CalculationLevel): string {
+    const name = JSON.stringify(this.options.name);
+    const dimensions = JSON.stringify(this.options.dimensions);
+    const grouped = this.options.dimensions.length > 0;
+    const lines: string[] = [];
+
+    if (level === "row") {
+      const expression = this.expr(ast, { frame: "df", tableCalc: false });
+      lines.push(`df[${name}] = ${expression}`);
+    } else if (level === "aggregate") {
+      if (grouped) {
+        const expression = this.expr(ast, { frame: "g", tableCalc: false });
+        lines.push([
+          "result = (",
+          `    df.groupby(${dimensions})`,
+          `    .apply(lambda g: ${expression})`,
+          `    .rename(${name})`,
+          "    .reset_index()",
+          ")"
+        ].join("\n"));
+      } else {
+        lines.push(`result = ${this.expr(ast, { frame: "df", tableCalc: false })}`);
+      }
+    } else {
+      this.state.note(TABLE_CALC_NOTE);
+      const expression = this.expr(ast, { frame: "agg", tableCalc: true });
+      lines.push(this.aggregationStep(), `agg[${name}] = ${expression}`);
+    }
+
+    const params = formatPythonParams(Array.from(this.parameters.values()), pythonLiteral);
+    const code = [...(params ? [params] : []), ...this.lodSteps, ...lines].join("\n");
+    return addImports(code, IMPORTS);
+  }
+
+  /**
+   * Build agg: one row per combination of dimensions with the aggregates a table calculation reads
+   */
+  private aggregationStep(): string {
+    const dimensions = JSON.stringify(this.options.dimensions);
+    const entries = Array.from(this.aggColumns, ([code, name]) => `        ${JSON.stringify(name)}: ${code},`);
+
+    if (this.options.dimensions.length === 0) {
+      return entries.length > 0
+        ? `agg = pd.DataFrame([{\n${entries.map(e => e.slice(4)).join("\n")}\n}])`
+        : "agg = pd.DataFrame(index=[0])";
+    }
+    if (entries.length === 0) {
+      return `agg = df[${dimensions}].drop_duplicates().sort_values(${dimensions}).reset_index(drop=True)`;
+    }
+    return [
+      "agg = (",
+      `    df.groupby(${dimensions})`,
+      "    .apply(lambda g: pd.Series({",
+      ...entries,
+      "    }))",
+      "    .reset_index()",
+      ")"
+    ].join("\n");
+  }
+
+  /**
+   * Check whether a node evaluates to a plain Python value rather than a Series
+   */
+  private isScalar(node: CalcNode, context: PandasContext): boolean {
+    if (context.tableCalc) {
+      return !containsField(node) && !containsAggregate(node) && !containsTableCalc(node);
+    }
+    return containsAggregate(node) || !containsField(node);
+  }
+
+  /**
+   * Translate a node as the target of a method call or accessor
+   */
+  private target(node: CalcNode, context: PandasContext): string {
+    return wrap(node, this.expr(node, context));
+  }
+
+  /** Prefix for string methods: .str on a Series */
+  private str(node: CalcNode, context: PandasContext): string {
+    return this.isScalar(node, context) ? this.target(node, context) : `${this.target(node, context)}.str`;
+  }
+
+  /** Prefix for date attributes: .dt on a Series */
+  private dt(node: CalcNode, context: PandasContext): string {
+    return this.isScalar(node, context) ? this.target(node, context) : `${this.target(node, context)}.dt`;
+  }
+
+  private operand(node: CalcNode, parent: CalcNode, side: "left" | "right", context: PandasContext): string {
+    const code = this.expr(node, context);
+    // Python chains comparisons (a < b == c), so nested comparisons always get parentheses
+    const chained = isComparison(parent) && isComparison(node);
+    return chained || needsParentheses(node, getPrecedence(parent), side) ? `(${code})` : code;
+  }
+
+  private expr(node: CalcNode, context: PandasContext): string {
+    switch (node.type) {
+      case "NumberLiteral":
+      case "StringLiteral":
+      case "BooleanLiteral":
+      case "NullLiteral":
+      case "DateLiteral":
+        return pythonLiteral(node);
+      case "FieldReference": {
+        if (!node.isParameter) return column(context.frame, node.name);
+        const parameter = this.options.parameters.get(node.name) ?? { caption: node.name, value: "NULL" };
+        this.parameters.set(parameter.caption, parameter);
+        return `params[${JSON.stringify(parameter.caption)}]`;
+      }
+      case "UnaryExpression": {
+        if (node.operator === "-") {
+          return `-${this.operand(node.operand, node, "right", context)}`;
+        }
+        return this.isScalar(node, context)
+          ? `not ${this.operand(node.operand, node, "right", context)}`
+          : `~${this.target(node.operand, context)}`;
+      }
+      case "BinaryExpression":
+        return this.binary(node, context);
+      case "InExpression": {
+        const operand = this.target(node.operand, context);
+        if (!node.values.every(v => !containsField(v))) {
+          return node.values.map(v => `(${operand} == ${this.target(v, context)})`).join(this.isScalar(node, context) ? " or " : " | ");
+        }
+        const values = node.values.map(v => this.expr(v, context)).join(", ");
+        return this.isScalar(node, context) ? `${operand} in [${values}]` : `${operand}.isin([${values}])`;
+      }
+      case "IfExpression":
+        return this.conditional(
+          node.branches.map((b): [CalcNode, CalcNode] => [b.condition, b.result]),
+          node.elseResult,
+          node,
+          context
+        );
+      case "CaseExpression":
+        return this.conditional(
+          node.branches.map((b): [CalcNode, CalcNode] => [
+            { type: "BinaryExpression", operator: "=", left: node.subject, right: b.when, start: b.when.start, end: b.when.end },
+            b.result
+          ]),
+          node.elseResult,
+          node,
+          context
+        );
+      case "LodExpression":
+        return this.lod(node, context);
+      case "FunctionCall":
+        if (context.tableCalc && node.isAggregate) {
+          return this.aggColumn(node);
+        }
+        return this.call(node, context);
+    }
+  }
+
+  private binary(node: BinaryExpressionNode, context: PandasContext): string {
+    const left = this.operand(node.left, node, "left", context);
+    const right = this.operand(node.right, node, "right", context);
+
+    switch (node.operator) {
+      case "AND":
+      case "OR":
+        if (this.isScalar(node, context)) {
+          return `${left} ${node.operator.toLowerCase()} ${right}`;
+        }
+        // & and | bind tighter than comparisons, so every compound operand needs parentheses
+        return `${this.target(node.left, context)} ${node.operator === "AND" ? "&" : "|"} ${this.target(node.right, context)}`;
+      case "=":
+        return `${left} == ${right}`;
+      case "<>":
+        return `${left} != ${right}`;
+      case "%":
+        // Python's % takes the sign of the divisor; Tableau's takes the sign of the dividend
+        return `np.fmod(${this.expr(node.left, context)}, ${this.expr(node.right, context)})`;
+      case "^":
+        return `${left} ** ${right}`;
+      case "/":
+        // Tableau gives NULL for a zero divisor; pandas gives inf and Python raises
+        if (isNonZeroNumber(node.right)) {
+          return `${left} / ${right}`;
+        }
+        if (!this.isScalar(node.right, context)) {
+          return `${left} / ${this.target(node.right, context)}.replace(0, np.nan)`;
+        }
+        return `(${left} / ${right} if ${right} else np.nan)`;
+      default:
+        return `${left} ${node.operator} ${right}`;
+    }
+  }
+
+  /**
+   * Translate IF/CASE/IIF: a Python conditional for scalars, np.select for Series
+   */
+  private conditional(
+    branches: Array<[CalcNode, CalcNode]>,
+    elseResult: CalcNode | null | undefined,
+    node: CalcNode,
+    context: PandasContext
+  ): string {
+    const otherwise = elseResult ? this.expr(elseResult, context) : "None";
+
+    if (this.isScalar(node, context)) {
+      const parts = branches.map(([condition, result]) => `${this.expr(result, context)} if ${this.expr(condition, context)} else`);
+      return `(${[...parts, otherwise].join(" ")})`;
+    }
+    if (branches.length === 1) {
+      const [condition, result] = branches[0];
+      return `np.where(${this.expr(condition, context)}, ${this.expr(result, context)}, ${otherwise})`;
+    }
+    const conditions = branches.map(([condition]) => this.expr(condition, context));
+    const results = branches.map(([, result]) => this.expr(result, context));
+    return `np.select([${conditions.join(", ")}], [${results.join(", ")}], default=${otherwise})`;
+  }
+
+  /**
+   * Compute an LOD with a groupby and join it to df
+   *
+   * @returns The joined column
+   */
+  private lod(node: LodExpressionNode, context: PandasContext): string {
+    const existing = this.lodColumns.get(node);
+    if (existing) return column(context.frame, existing);
+
+    noteLodAssumptions(node, null, this.options, this.state);
+
+    const dimensions = getLodDimensions(node, this.options.dimensions);
+    if (!dimensions) {
+      this.state.unsupportedFunction(`${node.lodType} with calculated dimensions`);
+      return "None";
+    }
+
+    // Nested LODs add their steps first, so each step can read the columns of earlier ones
+    const value = this.expr(node.expression, { frame: dimensions.length > 0 ? "g" : "df", tableCalc: false });
+    const index = this.lodSteps.length + 1;
+    const name = `_lod_${index}`;
+
+    if (dimensions.length > 0) {
+      const keys = JSON.stringify(dimensions);
+      this.lodSteps.push(
+        `lod_${index} = df.groupby(${keys}).apply(lambda g: ${value}).rename(${JSON.stringify(name)})\n` +
+        `df = df.join(lod_${index}, on=${keys})`
+      );
+    } else {
+      this.lodSteps.push(`${column("df", name)} = ${value}`);
+    }
+    this.lodColumns.set(node, name);
+
+    return column(context.frame, name);
+  }
+
+  /**
+   * Register an aggregate that a table calculation reads and return its agg column
+   */
+  private aggColumn(node: FunctionCallNode): string {
+    const code = this.call(node, { frame: this.options.dimensions.length > 0 ? "g" : "df", tableCalc: false });
+    let name = this.aggColumns.get(code);
+    if (!name) {
+      name = `_agg_${this.aggColumns.size + 1}`;
+      this.aggColumns.set(code, name);
+    }
+    return column("agg", name);
+  }
+
+  private call(node: FunctionCallNode, context: PandasContext): string {
+    const { name } = node;
+    const [argA, argB, argC] = node.args;
+
+    if (node.isAggregate) {
+      for (const lod of node.args.flatMap(findOutermostLods)) {
+        noteLodAssumptions(lod, name, this.options, this.state);
+      }
+      return this.aggregate(node, context);
+    }
+    if (node.isTableCalc) {
+      this.state.note(TABLE_CALC_NOTE);
+      return this.tableCalc(node, context);
+    }
+
+    const args = node.args.map(a => this.expr(a, context));
+    const [a, b, c] = args;
+
+    if (NUMPY_FUNCTIONS[name]) {
+      return `${NUMPY_FUNCTIONS[name]}(${args.join(", ")})`;
+    }
+
+    const scalar = this.isScalar(node, context);
+
+    switch (name) {
+      // Logical and null handling
+      case "IIF":
+        if (node.args.length > 3) {
+          this.state.note("IIF's unknown result is ignored; NULL tests fall through to the else value");
+        }
+        return this.conditional([[argA, argB]], argC, node, context);
+      case "IFNULL":
+        return scalar ? `(${b} if pd.isna(${a}) else ${a})` : `${this.target(argA, context)}.fillna(${b})`;
+      case "ZN":
+        return scalar ? `(0 if pd.isna(${a}) else ${a})` : `${this.target(argA, context)}.fillna(0)`;
+      case "ISNULL":
+        return scalar ? `pd.isna(${a})` : `${this.target(argA, context)}.isna()`;
+      case "MIN":
+      case "MAX":
+        return `${name === "MIN" ? "np.minimum" : "np.maximum"}(${a}, ${b})`;
+
+      // Numbers
+      case "ROUND":
+        this.state.note("np.round rounds halves to the nearest even number; Tableau rounds them away from zero");
+        return `np.round(${args.join(", ")})`;
+      case "POWER":
+        return `(${this.target(argA, context)} ** ${this.target(argB, context)})`;
+      case "SQUARE":
+        return `(${this.target(argA, context)} ** 2)`;
+      case "LOG":
+        return b !== undefined ? `(np.log(${a}) / np.log(${b}))` : `np.log10(${a})`;
+      case "COT":
+        return `(1 / np.tan(${a}))`;
+      case "PI":
+        return "np.pi";
+      case "DIV":
+        return `np.trunc(${this.target(argA, context)} / ${this.target(argB, context)})`;
+      case "INT":
+        return scalar ? `int(${a})` : `${this.target(argA, context)}.astype(int)`;
+      case "FLOAT":
+        return scalar ? `float(${a})` : `${this.target(argA, context)}.astype(float)`;
+
+      // Strings
+      case "STR":
+        return scalar ? `str(${a})` : `${this.target(argA, context)}.astype(str)`;
+      case "LEN":
+        return scalar ? `len(${a})` : `${this.str(argA, context)}.len()`;
+      case "UPPER":
+      case "LOWER":
+        return `${this.str(argA, context)}.${name.toLowerCase()}()`;
+      case "TRIM":
+        return `${this.str(argA, context)}.strip()`;
+      case "LTRIM":
+        return `${this.str(argA, context)}.lstrip()`;
+      case "RTRIM":
+        return `${this.str(argA, context)}.rstrip()`;
+      case "LEFT":
+      case "RIGHT":
+      case "MID":
+        return this.substring(node, context);
+      case "CONTAINS":
+        return scalar ? `(${b} in ${a})` : `${this.str(argA, context)}.contains(${b}, regex=False)`;
+      case "STARTSWITH":
+        return `${this.str(argA, context)}.startswith(${b})`;
+      case "ENDSWITH":
+        return `${this.str(argA, context)}.endswith(${b})`;
+      case "FIND":
+        return `(${this.str(argA, context)}.find(${b}) + 1)`;
+      case "REPLACE":
+        return scalar ? `${this.target(argA, context)}.replace(${b}, ${c})` : `${this.str(argA, context)}.replace(${b}, ${c}, regex=False)`;
+      case "SPLIT": {
+        const token = getNumericValue(argC);
+        if (token === null || token === 0) {
+          this.state.unsupportedFunction("SPLIT with a non-numeric token number");
+          return `${this.str(argA, context)}.split(${b})`;
+        }
+        // Tableau counts tokens from 1, or from the end when negative
+        const index = token > 0 ? token - 1 : token;
+        return scalar ? `${this.target(argA, context)}.split(${b})[${index}]` : `${this.str(argA, context)}.split(${b}).str[${index}]`;
+      }
+      case "ASCII":
+        return scalar ? `ord(${a}[0])` : `${this.str(argA, context)}[0].map(ord)`;
+      case "CHAR":
+        return scalar ? `chr(${a})` : `${this.target(argA, context)}.map(chr)`;
+      case "REGEXP_MATCH":
+        return scalar ? `(re.search(${b}, ${a}) is not None)` : `${this.str(argA, context)}.contains(${b}, regex=True)`;
+      case "REGEXP_EXTRACT":
+        return scalar ? `re.search(${b}, ${a}).group(1)` : `${this.str(argA, context)}.extract(${b}, expand=False)`;
+      case "REGEXP_REPLACE":
+        return scalar ? `re.sub(${b}, ${c}, ${a})` : `${this.str(argA, context)}.replace(${b}, ${c}, regex=True)`;
+
+      // Dates
+      case "TODAY":
+        return "pd.Timestamp.today().normalize()";
+      case "NOW":
+        return "pd.Timestamp.now()";
+      case "DATE":
+        return scalar ? `pd.Timestamp(${a}).normalize()` : `pd.to_datetime(${a}).dt.normalize()`;
+      case "DATETIME":
+        return scalar ? `pd.Timestamp(${a})` : `pd.to_datetime(${a})`;
+      case "MAKEDATE":
+        return scalar
+          ? `pd.Timestamp(year=${a}, month=${b}, day=${c})`
+          : `pd.to_datetime(pd.DataFrame({"year": ${a}, "month": ${b}, "day": ${c}}))`;
+      case "YEAR":
+      case "QUARTER":
+      case "MONTH":
+      case "DAY":
+        return `${this.dt(argA, context)}.${name.toLowerCase()}`;
+      case "DATEPART":
+        return this.datePart(getStringLiteral(argA), argB, context);
+      case "DATENAME": {
+        const part = getStringLiteral(argA);
+        if (part === "month") return `${this.dt(argB, context)}.month_name()`;
+        if (part === "weekday") return `${this.dt(argB, context)}.day_name()`;
+        const value = this.datePart(part, argB, context);
+        return scalar ? `str(${value})` : `${value}.astype(str)`;
+      }
+      case "DATETRUNC":
+        return this.dateTrunc(getStringLiteral(argA), argB, context);
+      case "DATEADD":
+        return this.dateAdd(getStringLiteral(argA), argB, argC, context);
+      case "DATEDIFF":
+        return this.dateDiff(getStringLiteral(argA), argB, argC, context);
+    }
+
+    this.state.unsupportedFunction(name);
+    return `${name}(${args.join(", ")})`;
+  }
+
+  /**
+   * Translate an aggregate over the rows of the current frame
+   */
+  private aggregate(node: FunctionCallNode, context: PandasContext): string {
+    const [argA, argB] = node.args;
+    const values = argA && this.isScalar(argA, context)
+      ? `pd.Series(${this.expr(argA, context)}, index=${context.frame}.index)`
+      : argA ? this.target(argA, context) : context.frame;
+
+    if (AGGREGATE_METHODS[node.name]) {
+      return `${values}.${AGGREGATE_METHODS[node.name]}`;
+    }
+    switch (node.name) {
+      case "PERCENTILE":
+        return `${values}.quantile(${this.expr(argB, context)})`;
+      case "CORR":
+        return `${values}.corr(${this.expr(argB, context)})`;
+      case "COVAR":
+        return `${values}.cov(${this.expr(argB, context)})`;
+      case "COVARP":
+        return `${values}.cov(${this.expr(argB, context)}, ddof=0)`;
+      case "ATTR":
+        return `(${values}.iloc[0] if ${values}.nunique() == 1 else None)`;
+    }
+
+    this.state.unsupportedFunction(node.name);
+    return `${node.name}(${values})`;
+  }
+
+  /**
+   * Translate a table calculation over the rows of agg
+   */
+  private tableCalc(node: FunctionCallNode, context: PandasContext): string {
+    const { name } = node;
+    const values = node.args[0] ? this.target(node.args[0], context) : "";
+
+    // RUNNING_SUM, WINDOW_AVG, ...
+    const windowMatch = name.match(/^(RUNNING|WINDOW)_(.+)$/);
+    const method = windowMatch ? AGGREGATE_METHODS[windowMatch[2]] : undefined;
+    if (windowMatch && method && windowMatch[2] !== "COUNTD") {
+      if (windowMatch[1] === "RUNNING") {
+        return `${values}.expanding().${method}`;
+      }
+      if (node.args.length === 1) {
+        return `${values}.${method}`;
+      }
+      const start = getNumericValue(node.args[1]);
+      const end = getNumericValue(node.args[2]);
+      if (start === null || end === null || end < start) {
+        this.state.unsupportedFunction(`${name} with non-numeric offsets`);
+        return `${values}.${method}`;
+      }
+      // rolling() ends its window on the current row; shift moves the end to the requested offset
+      const rolling = `${values}.rolling(${end - start + 1}, min_periods=1).${method}`;
+      if (end === 0) return rolling;
+      if (end > 0) {
+        this.state.note("Windows that extend past the last row are NaN; Tableau shortens them instead");
+      }
+      return `${rolling}.shift(${-end})`;
+    }
+
+    switch (name) {
+      case "INDEX":
+        return "np.arange(1, len(agg) + 1)";
+      case "FIRST":
+        return "-np.arange(len(agg))";
+      case "LAST":
+        return "np.arange(len(agg) - 1, -1, -1)";
+      case "SIZE":
+        return "len(agg)";
+      case "LOOKUP": {
+        const offset = node.args.length > 1 ? getNumericValue(node.args[1]) : 0;
+        if (offset === null) {
+          this.state.unsupportedFunction("LOOKUP with a non-numeric offset");
+          return `${values}.shift(1)`;
+        }
+        return offset === 0 ? values : `${values}.shift(${-offset})`;
+      }
+      case "RANK":
+      case "RANK_DENSE":
+      case "RANK_UNIQUE":
+      case "RANK_MODIFIED":
+      case "RANK_PERCENTILE": {
+        // RANK_PERCENTILE defaults to ascending, the others to descending
+        const direction = getStringLiteral(node.args[1]) ?? (name === "RANK_PERCENTILE" ? "asc" : "desc");
+        const ascending = direction === "asc" ? "True" : "False";
+        if (name === "RANK_PERCENTILE") {
+          this.state.note("rank(pct=True) divides by the row count; check the scale against Tableau's RANK_PERCENTILE");
+          return `${values}.rank(method="max", ascending=${ascending}, pct=True)`;
+        }
+        const methods: Record<string, string> = { RANK: "min", RANK_DENSE: "dense", RANK_UNIQUE: "first", RANK_MODIFIED: "max" };
+        return `${values}.rank(method="${methods[name]}", ascending=${ascending})`;
+      }
+      case "TOTAL":
+        // TOTAL evaluates its aggregate over all rows: a scalar from df
+        return node.args[0] ? wrap(node.args[0], this.expr(node.args[0], { frame: "df", tableCalc: false })) : "None";
+    }
+
+    this.state.unsupportedFunction(name);
+    return `${name}(${values})`;
+  }
+
+  private substring(node: FunctionCallNode, context: PandasContext): string {
+    const [text, first, second] = node.args;
+    if ((first && !this.isScalar(first, context)) || (second && !this.isScalar(second, context))) {
+      this.state.unsupportedFunction(`${node.name} with a position read from a column`);
+    }
+
+    const prefix = this.str(text, context);
+    const literal = (n: CalcNode | undefined) => getNumericValue(n);
+    const value = (n: CalcNode) => this.target(n, context);
+
+    switch (node.name) {
+      case "LEFT":
+        return `${prefix}[:${value(first)}]`;
+      case "RIGHT": {
+        const length = literal(first);
+        return `${prefix}[${length !== null ? -length : `-${value(first)}`}:]`;
+      }
+      default: {
+        // MID counts from 1
+        const start = literal(first);
+        const from = start !== null ? String(start - 1) : `${value(first)} - 1`;
+        if (!second) return `${prefix}[${from}:]`;
+        const length = literal(second);
+        const to = start !== null && length !== null ? String(start - 1 + length) : `${from} + ${value(second)}`;
+        return `${prefix}[${from}:${to}]`;
+      }
+    }
+  }
+
+  private datePart(part: string | null, date: CalcNode, context: PandasContext): string {
+    const dt = this.dt(date, context);
+    if (part && DATE_ATTRIBUTES.has(part)) {
+      return `${dt}.${part}`;
+    }
+    switch (part) {
+      case "week":
+        this.state.note("isocalendar() returns ISO weeks, which start on Monday; Tableau's weeks start on Sunday");
+        return this.isScalar(date, context) ? `${dt}.isocalendar()[1]` : `${dt}.isocalendar().week`;
+      case "weekday":
+        // dayofweek is 0 for Monday; Tableau's weekday is 1 for Sunday
+        return `((${dt}.dayofweek + 1) % 7 + 1)`;
+    }
+    this.state.unsupportedFunction(`DATEPART('${part ?? "?"}')`);
+    return `${dt}.day`;
+  }
+
+  private dateTrunc(part: string | null, date: CalcNode, context: PandasContext): string {
+    const dt = this.dt(date, context);
+    if (part && PERIOD_FREQUENCIES[part]) {
+      const toTimestamp = this.isScalar(date, context) ? "to_timestamp()" : "dt.to_timestamp()";
+      return `${dt}.to_period("${PERIOD_FREQUENCIES[part]}").${toTimestamp}`;
+    }
+    if (part && TIME_UNITS[part]) {
+      return `${dt}.floor("${TIME_UNITS[part].floor}")`;
+    }
+    this.state.unsupportedFunction(`DATETRUNC('${part ?? "?"}')`);
+    return this.expr(date, context);
+  }
+
+  private dateAdd(part: string | null, amount: CalcNode, date: CalcNode, context: PandasContext): string {
+    const base = this.target(date, context);
+    const count = this.target(amount, context);
+
+    if (part === "week" || (part && TIME_UNITS[part])) {
+      const unit = part === "week" ? "W" : TIME_UNITS[part].timedelta;
+      return `(${base} + pd.to_timedelta(${this.expr(amount, context)}, unit="${unit}"))`;
+    }
+    if (part === "year" || part === "quarter" || part === "month") {
+      if (!this.isScalar(amount, context)) {
+        this.state.unsupportedFunction(`DATEADD('${part}') with an amount read from a column`);
+      }
+      const offset = part === "year" ? `years=${count}` : part === "quarter" ? `months=3 * ${count}` : `months=${count}`;
+      return `(${base} + pd.DateOffset(${offset}))`;
+    }
+    this.state.unsupportedFunction(`DATEADD('${part ?? "?"}')`);
+    return base;
+  }
+
+  private dateDiff(part: string | null, start: CalcNode, end: CalcNode, context: PandasContext): string {
+    const scalar = this.isScalar(start, context) && this.isScalar(end, context);
+    const days = scalar ? "days" : "dt.days";
+
+    switch (part) {
+      case "year":
+        return `(${this.dt(end, context)}.year - ${this.dt(start, context)}.year)`;
+      case "quarter":
+      case "month": {
+        const [unit, perYear] = part === "quarter" ? ["quarter", 4] : ["month", 12];
+        const years = `(${this.dt(end, context)}.year - ${this.dt(start, context)}.year)`;
+        return `(${years} * ${perYear} + ${this.dt(end, context)}.${unit} - ${this.dt(start, context)}.${unit})`;
+      }
+      case "week":
+        // Tableau counts the week boundaries crossed, so compare the weeks' first days
+        return `((${this.dateTrunc("week", end, context)} - ${this.dateTrunc("week", start, context)}).${days} // 7)`;
+      case "day":
+        return `(${this.dt(end, context)}.normalize() - ${this.dt(start, context)}.normalize()).${days}`;
+      case "hour":
+      case "minute":
+      case "second":
+        return `((${this.dateTrunc(part, end, context)} - ${this.dateTrunc(part, start, context)}) // ` +
+          `pd.Timedelta(${TIME_UNITS[part].keyword}=1))`;
+    }
+    this.state.unsupportedFunction(`DATEDIFF('${part ?? "?"}')`);
+    return `(${this.target(end, context)} - ${this.target(start, context)}).${days}`;
+  }
+}
+
+/**
+ * Translate a calculation AST to pandas
+ *
+ * The snippet expects the source data in a DataFrame named df.
+ *
+ * @param ast - Calculation with referenced calculations already inlined
+ * @param level - Result of classifyCalculation
+ */
+export function translateToPandas(ast: CalcNode, level: CalculationLevel, options: TranslationOptions): Translation {
+  const state = new TranslationState();
+  const code = new PandasTranslator(options, state).translate(ast, level);
+  return state.finish(code);
+}
@@ -0,0 +1,736 @@
+/**
+ * Translate Tableau calculations to Polars
+ *
+ * Every value is a Polars expression, so the same translation works in
+ * with_columns, group_by().agg() and select. Row-level calculations become
+ * a column on df, aggregates a group_by over the view's dimensions, and
+ * table calculations a second with_columns over the aggregated frame. LOD
+ * expressions are window expressions: inner.over(dimensions).
+ */
+
+import {
+  BinaryExpressionNode,
+  CalcNode,
+  FunctionCallNode,
+  LodExpressionNode
+} from "../../utils/calcParser.js";
+import {
+  CalculationLevel,
+  Translation,
+  TranslationOptions,
+  TranslationParameter,
+  TranslationState,
+  TABLE_CALC_NOTE,
+  addImports,
+  findOutermostLods,
+  formatPythonParams,
+  getLodDimensions,
+  getNumericValue,
+  getPrecedence,
+  isNonZeroNumber,
+  getStringLiteral,
+  needsParentheses,
+  noteLodAssumptions
+} from "./translation.js";
+
+/** Expression method for each aggregate */
+const AGGREGATE_METHODS: Record<string, string> = {
+  SUM: "sum()",
+  AVG: "mean()",
+  MIN: "min()",
+  MAX: "max()",
+  COUNT: "count()",
+  COUNTD: "drop_nulls().n_unique()",
+  MEDIAN: "median()",
+  STDEV: "std()",
+  STDEVP: "std(ddof=0)",
+  VAR: "var()",
+  VARP: "var(ddof=0)"
+};
+
+/** Rolling method for each WINDOW_ aggregate with offsets */
+const ROLLING_METHODS: Record<string, string> = {
+  SUM: "rolling_sum",
+  AVG: "rolling_mean",
+  MIN: "rolling_min",
+  MAX: "rolling_max",
+  MEDIAN: "rolling_median",
+  STDEV: "rolling_std",
+  VAR: "rolling_var"
+};
+
+/** Expression method for each math function */
+const MATH_METHODS: Record<string, string> = {
+  ABS: "abs",
+  CEILING: "ceil",
+  FLOOR: "floor",
+  SQRT: "sqrt",
+  EXP: "exp",
+  LN: "log",
+  SIGN: "sign",
+  SIN: "sin",
+  COS: "cos",
+  TAN: "tan",
+  COT: "cot",
+  ASIN: "arcsin",
+  ACOS: "arccos",
+  ATAN: "arctan",
+  DEGREES: "degrees",
+  RADIANS: "radians"
+};
+
+/** Expression method for each string function taking only the string */
+const STRING_METHODS: Record<string, string> = {
+  LEN: "str.len_chars()",
+  UPPER: "str.to_uppercase()",
+  LOWER: "str.to_lowercase()",
+  TRIM: "str.strip_chars()",
+  LTRIM: "str.strip_chars_start()",
+  RTRIM: "str.strip_chars_end()"
+};
+
+/** Date parts with a .dt method of their own */
+const DATE_METHODS: Record<string, string> = {
+  year: "year",
+  quarter: "quarter",
+  month: "month",
+  day: "day",
+  hour: "hour",
+  minute: "minute",
+  second: "second",
+  dayofyear: "ordinal_day"
+};
+
+/** Duration suffix for truncate and offset_by */
+const DURATION_UNITS: Record<string, string> = {
+  year: "y",
+  quarter: "q",
+  month: "mo",
+  week: "w",
+  day: "d",
+  hour: "h",
+  minute: "m",
+  second: "s"
+};
+
+/** Method that converts a duration to a count of each unit */
+const DURATION_TOTALS: Record<string, string> = {
+  day: "total_days",
+  hour: "total_hours",
+  minute: "total_minutes",
+  second: "total_seconds"
+};
+
+const IMPORTS = {
+  pl: "import polars as pl",
+  math: "import math",
+  datetime: "import datetime"
+};
+
+/**
+ * Parenthesize code unless it is a single atom (name, call, literal)
+ */
+function wrap(node: CalcNode, code: string): string {
+  return getPrecedence(node) === Infinity ? code : `(${code})`;
+}
+
+/**
+ * Check whether a node translates to a Python number rather than an expression
+ */
+function isPythonNumber(node: CalcNode): boolean {
+  switch (node.type) {
+    case "NumberLiteral":
+      return true;
+    case "UnaryExpression":
+      return node.operator === "-" && isPythonNumber(node.operand);
+    case "BinaryExpression":
+      return ["+", "-", "*", "/"].includes(node.operator) && isPythonNumber(node.left) && isPythonNumber(node.right);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Format a date literal such as 2024-01-31 or 2024-01-31 10:30:00 as a Python date
+ */
+function pythonDate(value: string): string {
+  const parts = value.match(/\d+/g)?.map(Number) ?? [];
+  if (parts.length < 3) return `datetime.date.fromisoformat(${JSON.stringify(value)})`;
+  return parts.length > 3
+    ? `datetime.datetime(${parts.slice(0, 6).join(", ")})`
+    : `datetime.date(${parts.join(", ")})`;
+}
+
+/**
+ * Format a parameter value as Python
+ */
+function pythonLiteral(node: CalcNode): string {
+  switch (node.type) {
+    case "NumberLiteral":
+      return String(node.value);
+    case "StringLiteral":
+      return JSON.stringify(node.value);
+    case "BooleanLiteral":
+      return node.value ? "True" : "False";
+    case "DateLiteral":
+      return pythonDate(node.value);
+    case "UnaryExpression":
+      return node.operator === "-" ? `-${pythonLiteral(node.operand)}` : "None";
+    default:
+      return "None";
+  }
+}
+
+/**
+ * Walks an AST and emits Polars code, collecting LOD and aggregation steps
+ */
+class PolarsTranslator {
+  private readonly lodSteps: string[] = [];
+  /** Column of each LOD already computed, as operands can be translated more than once */
+  private readonly lodColumns = new Map<LodExpressionNode, string>();
+  private readonly aggColumns = new Map<string, string>();
+  private readonly parameters = new Map<string, TranslationParameter>();
+  private tableCalc = false;
+
+  constructor(
+    private readonly options: TranslationOptions,
+    private readonly state: TranslationState
+  ) {}
+
+  /**
+   * Build the full snippet for a calculation
+   */
+  translate(ast: CalcNode, level: CalculationLevel): string {
+    const name = JSON.stringify(this.options.name);
+    const dimensions = JSON.stringify(this.options.dimensions);
+    const grouped = this.options.dimensions.length > 0;
+    const lines: string[] = [];
+
+    if (level === "row") {
+      lines.push(`df = df.with_columns(${this.expression(ast)}.alias(${name}))`);
+    } else if (level === "aggregate") {
+      const output = `${this.expression(ast)}.alias(${name})`;
+      lines.push(grouped
+        ? `result = df.group_by(${dimensions}).agg(${output}).sort(${dimensions})`
+        : `result = df.select(${output})`);
+    } else {
+      this.state.note(TABLE_CALC_NOTE);
+      this.tableCalc = true;
+      const output = `${this.expression(ast)}.alias(${name})`;
+      this.tableCalc = false;
+      lines.push(this.aggregationStep(), `agg = agg.with_columns(${output})`);
+    }
+
+    const params = formatPythonParams(Array.from(this.parameters.values()), pythonLiteral);
+    const code = [...(params ? [params] : []), ...this.lodSteps, ...lines].join("\n");
+    return addImports(code, IMPORTS);
+  }
+
+  /**
+   * Build agg: one row per combination of dimensions with the aggregates a table calculation reads
+   */
+  private aggregationStep(): string {
+    const dimensions = JSON.stringify(this.options.dimensions);
+    const columns = Array.from(this.aggColumns, ([code, name]) => `    ${code}.alias(${JSON.stringify(name)}),`);
+
+    if (this.options.dimensions.length === 0) {
+      return columns.length > 0
+        ? `agg = df.select(\n${columns.join("\n")}\n)`
+        : "agg = pl.DataFrame({\"_row\": [0]})";
+    }
+    if (columns.length === 0) {
+      return `agg = df.select(${dimensions}).unique().sort(${dimensions})`;
+    }
+    return `agg = df.group_by(${dimensions}).agg(\n${columns.join("\n")}\n).sort(${dimensions})`;
+  }
+
+  /**
+   * Translate a node, wrapping Python numbers in pl.lit so methods can be called on them
+   */
+  private expression(node: CalcNode): string {
+    const code = this.expr(node);
+    return isPythonNumber(node) ? `pl.lit(${code})` : wrap(node, code);
+  }
+
+  private operand(node: CalcNode, parent: CalcNode, side: "left" | "right"): string {
+    const code = this.expr(node);
+    return needsParentheses(node, getPrecedence(parent), side) ? `(${code})` : code;
+  }
+
+  private expr(node: CalcNode): string {
+    switch (node.type) {
+      case "NumberLiteral":
+        return String(node.value);
+      case "StringLiteral":
+        return `pl.lit(${JSON.stringify(node.value)})`;
+      case "BooleanLiteral":
+        return `pl.lit(${node.value ? "True" : "False"})`;
+      case "NullLiteral":
+        return "pl.lit(None)";
+      case "DateLiteral":
+        return `pl.lit(${pythonDate(node.value)})`;
+      case "FieldReference": {
+        if (!node.isParameter) return `pl.col(${JSON.stringify(node.name)})`;
+        const parameter = this.options.parameters.get(node.name) ?? { caption: node.name, value: "NULL" };
+        this.parameters.set(parameter.caption, parameter);
+        return `pl.lit(params[${JSON.stringify(parameter.caption)}])`;
+      }
+      case "UnaryExpression":
+        return node.operator === "NOT"
+          ? `~${this.expression(node.operand)}`
+          : `-${this.operand(node.operand, node, "right")}`;
+      case "BinaryExpression":
+        return this.binary(node);
+      case "InExpression": {
+        const operand = this.expression(node.operand);
+        const literals = node.values.every(v => ["NumberLiteral", "StringLiteral", "BooleanLiteral", "DateLiteral"].includes(v.type));
+        if (!literals) {
+          return node.values.map(v => `(${operand} == ${this.expr(v)})`).join(" | ");
+        }
+        return `${operand}.is_in([${node.values.map(pythonLiteral).join(", ")}])`;
+      }
+      case "IfExpression":
+        return this.conditional(node.branches.map(b => [b.condition, b.result]), node.elseResult);
+      case "CaseExpression": {
+        const subject = this.expression(node.subject);
+        return this.conditional(
+          node.branches.map(b => [`${subject} == ${this.expr(b.when)}`, b.result]),
+          node.elseResult
+        );
+      }
+      case "LodExpression":
+        return this.lod(node);
+      case "FunctionCall":
+        if (this.tableCalc && node.isAggregate) {
+          return this.aggColumn(node);
+        }
+        return this.call(node);
+    }
+  }
+
+  private binary(node: BinaryExpressionNode): string {
+    switch (node.operator) {
+      case "AND":
+      case "OR":
+        // & and | bind tighter than comparisons, so every compound operand needs parentheses
+        return `${this.expression(node.left)} ${node.operator === "AND" ? "&" : "|"} ${this.expression(node.right)}`;
+      case "=":
+        return `${this.operand(node.left, node, "left")} == ${this.operand(node.right, node, "right")}`;
+      case "<>":
+        return `${this.operand(node.left, node, "left")} != ${this.operand(node.right, node, "right")}`;
+      case "%":
+        this.state.note("Polars % takes the sign of the divisor; Tableau's takes the sign of the dividend");
+        return `${this.operand(node.left, node, "left")} % ${this.operand(node.right, node, "right")}`;
+      case "^":
+        return `${this.operand(node.left, node, "left")} ** ${this.operand(node.right, node, "right")}`;
+      case "/": {
+        const division = `${this.operand(node.left, node, "left")} / ${this.operand(node.right, node, "right")}`;
+        // Tableau gives NULL for a zero divisor; Polars gives inf (when/then without otherwise gives null)
+        return isNonZeroNumber(node.right)
+          ? division
+          : `pl.when(${this.expression(node.right)} != 0).then(${division})`;
+      }
+      default:
+        return `${this.operand(node.left, node, "left")} ${node.operator} ${this.operand(node.right, node, "right")}`;
+    }
+  }
+
+  /**
+   * Translate IF/CASE/IIF to pl.when().then().otherwise()
+   *
+   * @param branches - Conditions as nodes or already translated code, with their results
+   */
+  private conditional(branches: Array<[CalcNode | string, CalcNode]>, elseResult: CalcNode | null | undefined): string {
+    const chain = branches.map(([condition, result]) => {
+      const test = typeof condition === "string" ? condition : this.expr(condition);
+      return `.when(${test}).then(${this.expr(result)})`;
+    });
+    const otherwise = elseResult ? `.otherwise(${this.expr(elseResult)})` : "";
+    return `pl${chain.join("")}${otherwise}`;
+  }
+
+  /**
+   * Add an LOD column with a window expression over its dimensions
+   *
+   * @returns The new column
+   */
+  private lod(node: LodExpressionNode): string {
+    const existing = this.lodColumns.get(node);
+    if (existing) return `pl.col(${JSON.stringify(existing)})`;
+
+    noteLodAssumptions(node, null, this.options, this.state);
+
+    const dimensions = getLodDimensions(node, this.options.dimensions);
+    if (!dimensions) {
+      this.state.unsupportedFunction(`${node.lodType} with calculated dimensions`);
+      return "pl.lit(None)";
+    }
+
+    // Nested LODs add their columns first, so each step can read earlier ones
+    const tableCalc = this.tableCalc;
+    this.tableCalc = false;
+    const value = this.expression(node.expression);
+    this.tableCalc = tableCalc;
+
+    const name = `_lod_${this.lodSteps.length + 1}`;
+    const window = dimensions.length > 0 ? `${value}.over(${JSON.stringify(dimensions)})` : value;
+    this.lodSteps.push(`df = df.with_columns(${window}.alias(${JSON.stringify(name)}))`);
+    this.lodColumns.set(node, name);
+
+    return `pl.col(${JSON.stringify(name)})`;
+  }
+
+  /**
+   * Register an aggregate that a table calculation reads and return its agg column
+   */
+  private aggColumn(node: FunctionCallNode): string {
+    this.tableCalc = false;
+    const code = this.call(node);
+    this.tableCalc = true;
+
+    let name = this.aggColumns.get(code);
+    if (!name) {
+      name = `_agg_${this.aggColumns.size + 1}`;
+      this.aggColumns.set(code, name);
+    }
+    return `pl.col(${JSON.stringify(name)})`;
+  }
+
+  private call(node: FunctionCallNode): string {
+    const { name } = node;
+    const [argA, argB, argC] = node.args;
+    const target = (n: CalcNode) => this.expression(n);
+
+    if (node.isAggregate) {
+      for (const lod of node.args.flatMap(findOutermostLods)) {
+        noteLodAssumptions(lod, name, this.options, this.state);
+      }
+      return this.aggregate(node);
+    }
+    if (node.isTableCalc) {
+      this.state.note(TABLE_CALC_NOTE);
+      return this.tableCalcFunction(node);
+    }
+
+    const args = node.args.map(a => this.expr(a));
+    const [a, b, c] = args;
+
+    if (MATH_METHODS[name]) {
+      return `${target(argA)}.${MATH_METHODS[name]}()`;
+    }
+    if (STRING_METHODS[name]) {
+      return `${target(argA)}.${STRING_METHODS[name]}`;
+    }
+
+    switch (name) {
+      // Logical and null handling
+      case "IIF":
+        if (node.args.length > 3) {
+          this.state.note("IIF's unknown result is ignored; NULL tests fall through to the otherwise value");
+        }
+        return this.conditional([[argA, argB]], argC);
+      case "IFNULL":
+        return `${target(argA)}.fill_null(${b})`;
+      case "ZN":
+        return `${target(argA)}.fill_null(0)`;
+      case "ISNULL":
+        return `${target(argA)}.is_null()`;
+      case "MIN":
+      case "MAX":
+        return `pl.${name === "MIN" ? "min" : "max"}_horizontal(${a}, ${b})`;
+
+      // Numbers
+      case "ROUND":
+        return `${target(argA)}.round(${b ?? 0}, mode="half_away_from_zero")`;
+      case "POWER":
+        return `(${target(argA)} ** ${wrap(argB, b)})`;
+      case "SQUARE":
+        return `(${target(argA)} ** 2)`;
+      case "LOG":
+        return b !== undefined ? `${target(argA)}.log(${b})` : `${target(argA)}.log10()`;
+      case "ATAN2":
+        return `pl.arctan2(${a}, ${b})`;
+      case "PI":
+        return "pl.lit(math.pi)";
+      case "DIV":
+        return `(${target(argA)} / ${wrap(argB, b)}).cast(pl.Int64)`;
+      case "INT":
+        return `${target(argA)}.cast(pl.Int64)`;
+      case "FLOAT":
+        return `${target(argA)}.cast(pl.Float64)`;
+
+      // Strings
+      case "STR":
+        return `${target(argA)}.cast(pl.Utf8)`;
+      case "LEFT":
+        return `${target(argA)}.str.head(${b})`;
+      case "RIGHT":
+        return `${target(argA)}.str.tail(${b})`;
+      case "MID": {
+        // MID counts from 1
+        const start = getNumericValue(argB);
+        const offset = start !== null ? String(start - 1) : `${wrap(argB, b)} - 1`;
+        return `${target(argA)}.str.slice(${offset}${c !== undefined ? `, ${c}` : ""})`;
+      }
+      case "CONTAINS":
+        return `${target(argA)}.str.contains(${b}, literal=True)`;
+      case "STARTSWITH":
+        return `${target(argA)}.str.starts_with(${b})`;
+      case "ENDSWITH":
+        return `${target(argA)}.str.ends_with(${b})`;
+      case "FIND":
+        // find is null when the substring is missing; Tableau returns 0
+        return `(${target(argA)}.str.find(${b}, literal=True).fill_null(-1) + 1)`;
+      case "REPLACE":
+        return `${target(argA)}.str.replace_all(${b}, ${c}, literal=True)`;
+      case "SPLIT": {
+        const token = getNumericValue(argC);
+        if (token === null || token === 0) {
+          this.state.unsupportedFunction("SPLIT with a non-numeric token number");
+          return `${target(argA)}.str.split(${b})`;
+        }
+        // Tableau counts tokens from 1, or from the end when negative
+        return `${target(argA)}.str.split(${b}).list.get(${token > 0 ? token - 1 : token}, null_on_oob=True)`;
+      }
+      case "REGEXP_MATCH":
+        return `${target(argA)}.str.contains(${b})`;
+      case "REGEXP_EXTRACT":
+        return `${target(argA)}.str.extract(${b}, 1)`;
+      case "REGEXP_REPLACE":
+        return `${target(argA)}.str.replace_all(${b}, ${c})`;
+
+      // Dates
+      case "TODAY":
+        return "pl.lit(datetime.date.today())";
+      case "NOW":
+        return "pl.lit(datetime.datetime.now())";
+      case "DATE":
+        return `${target(argA)}.cast(pl.Date)`;
+      case "DATETIME":
+        return `${target(argA)}.cast(pl.Datetime)`;
+      case "MAKEDATE":
+        return `pl.date(${a}, ${b}, ${c})`;
+      case "YEAR":
+      case "QUARTER":
+      case "MONTH":
+      case "DAY":
+        return `${target(argA)}.dt.${name.toLowerCase()}()`;
+      case "DATEPART":
+        return this.datePart(getStringLiteral(argA), argB);
+      case "DATENAME": {
+        const part = getStringLiteral(argA);
+        if (part === "month") return `${target(argB)}.dt.strftime("%B")`;
+        if (part === "weekday") return `${target(argB)}.dt.strftime("%A")`;
+        return `${this.datePart(part, argB)}.cast(pl.Utf8)`;
+      }
+      case "DATETRUNC":
+        return this.dateTrunc(getStringLiteral(argA), argB);
+      case "DATEADD":
+        return this.dateAdd(getStringLiteral(argA), argB, argC);
+      case "DATEDIFF":
+        return this.dateDiff(getStringLiteral(argA), argB, argC);
+    }
+
+    this.state.unsupportedFunction(name);
+    return `${name}(${args.join(", ")})`;
+  }
+
+  /**
+   * Translate an aggregate; Polars aggregates per group inside agg() and over everything in select()
+   */
+  private aggregate(node: FunctionCallNode): string {
+    const [argA, argB] = node.args;
+    const values = argA ? this.expression(argA) : "pl.len()";
+
+    if (AGGREGATE_METHODS[node.name]) {
+      return `${values}.${AGGREGATE_METHODS[node.name]}`;
+    }
+    switch (node.name) {
+      case "PERCENTILE":
+        return `${values}.quantile(${this.expr(argB)}, interpolation="linear")`;
+      case "CORR":
+        return `pl.corr(${values}, ${this.expr(argB)})`;
+      case "COVAR":
+        return `pl.cov(${values}, ${this.expr(argB)})`;
+      case "COVARP":
+        return `pl.cov(${values}, ${this.expr(argB)}, ddof=0)`;
+      case "ATTR":
+        return `pl.when(${values}.n_unique() == 1).then(${values}.first())`;
+    }
+
+    this.state.unsupportedFunction(node.name);
+    return `${node.name}(${values})`;
+  }
+
+  /**
+   * Translate a table calculation over the rows of agg
+   */
+  private tableCalcFunction(node: FunctionCallNode): string {
+    const { name } = node;
+    const values = node.args[0] ? this.expression(node.args[0]) : "";
+
+    // RUNNING_SUM, WINDOW_AVG, ...
+    const windowMatch = name.match(/^(RUNNING|WINDOW)_(.+)$/);
+    const aggregate = windowMatch?.[2];
+    if (windowMatch && aggregate && AGGREGATE_METHODS[aggregate] && aggregate !== "COUNTD") {
+      if (windowMatch[1] === "RUNNING") {
+        switch (aggregate) {
+          case "SUM":
+            return `${values}.cum_sum()`;
+          case "MIN":
+            return `${values}.cum_min()`;
+          case "MAX":
+            return `${values}.cum_max()`;
+          case "COUNT":
+            return `${values}.is_not_null().cum_sum()`;
+          default:
+            return `${values}.cumulative_eval(pl.element().${AGGREGATE_METHODS[aggregate]})`;
+        }
+      }
+      if (node.args.length === 1) {
+        return `${values}.${AGGREGATE_METHODS[aggregate]}`;
+      }
+      const start = getNumericValue(node.args[1]);
+      const end = getNumericValue(node.args[2]);
+      const method = ROLLING_METHODS[aggregate];
+      if (start === null || end === null || end < start || !method) {
+        this.state.unsupportedFunction(`${name} with these offsets`);
+        return `${values}.${AGGREGATE_METHODS[aggregate]}`;
+      }
+      // Rolling windows end on the current row; shift moves the end to the requested offset
+      const rolling = `${values}.${method}(window_size=${end - start + 1}, min_samples=1)`;
+      if (end === 0) return rolling;
+      if (end > 0) {
+        this.state.note("Windows that extend past the last row are null; Tableau shortens them instead");
+      }
+      return `${rolling}.shift(${-end})`;
+    }
+
+    switch (name) {
+      case "INDEX":
+        return "pl.int_range(1, pl.len() + 1)";
+      case "FIRST":
+        return "-pl.int_range(0, pl.len())";
+      case "LAST":
+        return "pl.int_range(pl.len() - 1, -1, step=-1)";
+      case "SIZE":
+        return "pl.len()";
+      case "LOOKUP": {
+        const offset = node.args.length > 1 ? getNumericValue(node.args[1]) : 0;
+        if (offset === null) {
+          this.state.unsupportedFunction("LOOKUP with a non-numeric offset");
+          return `${values}.shift(1)`;
+        }
+        return offset === 0 ? values : `${values}.shift(${-offset})`;
+      }
+      case "RANK":
+      case "RANK_DENSE":
+      case "RANK_UNIQUE":
+      case "RANK_MODIFIED":
+      case "RANK_PERCENTILE": {
+        // RANK_PERCENTILE defaults to ascending, the others to descending
+        const direction = getStringLiteral(node.args[1]) ?? (name === "RANK_PERCENTILE" ? "asc" : "desc");
+        const descending = direction === "asc" ? "False" : "True";
+        if (name === "RANK_PERCENTILE") {
+          this.state.note("rank / len divides by the row count; check the scale against Tableau's RANK_PERCENTILE");
+          return `(${values}.rank(method="max", descending=${descending}) / pl.len())`;
+        }
+        const methods: Record<string, string> = { RANK: "min", RANK_DENSE: "dense", RANK_UNIQUE: "ordinal", RANK_MODIFIED: "max" };
+        return `${values}.rank(method="${methods[name]}", descending=${descending})`;
+      }
+      case "TOTAL": {
+        // TOTAL evaluates its aggregate over all rows: a single value from df
+        if (!node.args[0]) return "pl.lit(None)";
+        this.tableCalc = false;
+        const total = this.expression(node.args[0]);
+        this.tableCalc = true;
+        return `pl.lit(df.select(${total}).item())`;
+      }
+    }
+
+    this.state.unsupportedFunction(name);
+    return `${name}(${values})`;
+  }
+
+  private datePart(part: string | null, date: CalcNode): string {
+    const target = this.expression(date);
+    if (part && DATE_METHODS[part]) {
+      return `${target}.dt.${DATE_METHODS[part]}()`;
+    }
+    switch (part) {
+      case "week":
+        this.state.note("dt.week() returns ISO weeks, which start on Monday; Tableau's weeks start on Sunday");
+        return `${target}.dt.week()`;
+      case "weekday":
+        // dt.weekday() is 1 for Monday; Tableau's weekday is 1 for Sunday
+        return `(${target}.dt.weekday() % 7 + 1)`;
+    }
+    this.state.unsupportedFunction(`DATEPART('${part ?? "?"}')`);
+    return `${target}.dt.day()`;
+  }
+
+  private dateTrunc(part: string | null, date: CalcNode): string {
+    const target = this.expression(date);
+    if (part === "week") {
+      // truncate("1w") starts weeks on Monday; shift by a day so they start on Sunday
+      return `${target}.dt.offset_by("1d").dt.truncate("1w").dt.offset_by("-1d")`;
+    }
+    if (part && DURATION_UNITS[part]) {
+      return `${target}.dt.truncate("1${DURATION_UNITS[part]}")`;
+    }
+    this.state.unsupportedFunction(`DATETRUNC('${part ?? "?"}')`);
+    return target;
+  }
+
+  private dateAdd(part: string | null, amount: CalcNode, date: CalcNode): string {
+    const target = this.expression(date);
+    if (!part || !DURATION_UNITS[part]) {
+      this.state.unsupportedFunction(`DATEADD('${part ?? "?"}')`);
+      return target;
+    }
+    const unit = DURATION_UNITS[part];
+    const count = getNumericValue(amount);
+    const offset = count !== null ? JSON.stringify(`${count}${unit}`) : `pl.format("{}${unit}", ${this.expr(amount)})`;
+    return `${target}.dt.offset_by(${offset})`;
+  }
+
+  private dateDiff(part: string | null, start: CalcNode, end: CalcNode): string {
+    const from = this.expression(start);
+    const to = this.expression(end);
+    const years = `(${to}.dt.year() - ${from}.dt.year())`;
+
+    switch (part) {
+      case "year":
+        return years;
+      case "quarter":
+        return `(${years} * 4 + ${to}.dt.quarter() - ${from}.dt.quarter())`;
+      case "month":
+        return `(${years} * 12 + ${to}.dt.month() - ${from}.dt.month())`;
+      case "week":
+        // Tableau counts the week boundaries crossed, so compare the weeks' first days
+        return `((${this.dateTrunc("week", end)} - ${this.dateTrunc("week", start)}).dt.total_days() // 7)`;
+      case "day":
+        return `(${to}.cast(pl.Date) - ${from}.cast(pl.Date)).dt.total_days()`;
+      case "hour":
+      case "minute":
+      case "second":
+        return `(${this.dateTrunc(part, end)} - ${this.dateTrunc(part, start)}).dt.${DURATION_TOTALS[part]}()`;
+    }
+    this.state.unsupportedFunction(`DATEDIFF('${part ?? "?"}')`);
+    return `(${to}.cast(pl.Date) - ${from}.cast(pl.Date)).dt.total_days()`;
+  }
+}
+
+/**
+ * Translate a calculation AST to Polars
+ *
+ * The snippet expects the source data in a DataFrame named df.
+ *
+ * @param ast - Calculation with referenced calculations already inlined
+ * @param level - Result of classifyCalculation
+ */
+export function translateToPolars(ast: CalcNode, level: CalculationLevel, options: TranslationOptions): Translation {
+  const state = new TranslationState();
+  const code = new PolarsTranslator(options, state).translate(ast, level);
+  return state.finish(code);
+}
@@ -0,0 +1,588 @@
+/**
+ * Translate Tableau calculations to ANSI SQL
+ *
+ * Row-level calculations become a column on SELECT *, aggregates a
+ * GROUP BY over the view's dimensions, table calculations window
+ * functions, and each LOD expression a CTE joined back on its dimensions.
+ */
+
+import {
+  CalcNode,
+  FunctionCallNode,
+  LodExpressionNode
+} from "../../utils/calcParser.js";
+import {
+  CalculationLevel,
+  Translation,
+  TranslationOptions,
+  TranslationState,
+  TABLE_CALC_NOTE,
+  findOutermostLods,
+  getStringLiteral,
+  getLodDimensions,
+  getNumericValue,
+  getPrecedence,
+  isNonZeroNumber,
+  needsParentheses,
+  noteLodAssumptions
+} from "./translation.js";
+
+/**
+ * Columns and joins of one SELECT
+ */
+interface SqlScope {
+  /** Alias of the source table, set when the query joins LOD CTEs */
+  alias: string | null;
+  joins: string[];
+}
+
+/** Aggregates with a direct SQL equivalent */
+const SQL_AGGREGATES: Record<string, string> = {
+  SUM: "SUM",
+  AVG: "AVG",
+  MIN: "MIN",
+  MAX: "MAX",
+  COUNT: "COUNT",
+  STDEV: "STDDEV_SAMP",
+  STDEVP: "STDDEV_POP",
+  VAR: "VAR_SAMP",
+  VARP: "VAR_POP",
+  CORR: "CORR",
+  COVAR: "COVAR_SAMP",
+  COVARP: "COVAR_POP"
+};
+
+/** Aggregate applied by each RUNNING_ and WINDOW_ function */
+const WINDOW_AGGREGATES: Record<string, string> = {
+  SUM: "SUM",
+  AVG: "AVG",
+  MIN: "MIN",
+  MAX: "MAX",
+  COUNT: "COUNT",
+  STDEV: "STDDEV_SAMP",
+  STDEVP: "STDDEV_POP",
+  VAR: "VAR_SAMP",
+  VARP: "VAR_POP"
+};
+
+/** Functions that are the same in Tableau and SQL */
+const SAME_NAME_FUNCTIONS = new Set([
+  "ABS", "CEILING", "FLOOR", "SQRT", "EXP", "LN", "POWER", "SIGN", "UPPER", "LOWER", "TRIM",
+  "SIN", "COS", "TAN", "ASIN", "ACOS", "ATAN"
+]);
+
+/** Widely supported functions outside the ANSI standard, with their common name */
+const NON_ANSI_FUNCTIONS: Record<string, string> = {
+  REPLACE: "REPLACE",
+  SPLIT: "SPLIT_PART",
+  ASCII: "ASCII",
+  CHAR: "CHR",
+  ATAN2: "ATAN2",
+  DEGREES: "DEGREES",
+  RADIANS: "RADIANS",
+  PI: "PI",
+  MAKEDATE: "MAKE_DATE",
+  REGEXP_MATCH: "REGEXP_LIKE",
+  REGEXP_EXTRACT: "REGEXP_SUBSTR",
+  REGEXP_REPLACE: "REGEXP_REPLACE"
+};
+
+/** Functions returning strings, used to pick || over + */
+const STRING_FUNCTIONS = new Set([
+  "LEFT", "RIGHT", "MID", "UPPER", "LOWER", "TRIM", "LTRIM", "RTRIM", "REPLACE",
+  "STR", "SPLIT", "DATENAME", "CHAR", "REGEXP_EXTRACT", "REGEXP_REPLACE"
+]);
+
+/** Date parts EXTRACT understands */
+const EXTRACT_PARTS = new Set(["year", "quarter", "month", "day", "hour", "minute", "second"]);
+
+/**
+ * Quote a column or CTE name
+ */
+export function quoteSqlIdentifier(name: string): string {
+  return `"${name.replace(/"/g, "\"\"")}"`;
+}
+
+/**
+ * Quote a string literal
+ */
+function quoteSqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Format a table name, quoting it unless it is a plain (optionally schema-qualified) name
+ */
+function formatTableName(table: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(table) ? table : quoteSqlIdentifier(table);
+}
+
+/**
+ * Convert a parameter name to a named placeholder such as :top_n
+ */
+function parameterPlaceholder(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return `:${slug || "parameter"}`;
+}
+
+/**
+ * Check whether an expression produces a string, so + means concatenation
+ */
+function isStringExpression(node: CalcNode): boolean {
+  switch (node.type) {
+    case "StringLiteral":
+      return true;
+    case "FunctionCall":
+      return STRING_FUNCTIONS.has(node.name);
+    case "BinaryExpression":
+      return node.operator === "+" && (isStringExpression(node.left) || isStringExpression(node.right));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Walks an AST and emits SQL, collecting LOD CTEs along the way
+ */
+class SqlTranslator {
+  private readonly ctes: string[] = [];
+
+  constructor(
+    private readonly options: TranslationOptions,
+    private readonly state: TranslationState
+  ) {}
+
+  /**
+   * Build the full query for a calculation
+   */
+  translate(ast: CalcNode, level: CalculationLevel): string {
+    const scope = this.createScope(ast);
+    const expression = this.expr(ast, scope);
+    const output = `${expression} AS ${quoteSqlIdentifier(this.options.name)}`;
+    const dimensions = this.options.dimensions.map(d => this.column(d, scope));
+
+    const select = level === "row"
+      ? [scope.alias ? `${scope.alias}.*` : "*", output]
+      : [...dimensions, output];
+
+    const lines: string[] = [];
+    if (this.ctes.length > 0) {
+      lines.push(`WITH ${this.ctes.join(",\n")}`);
+    }
+    lines.push(`SELECT ${select.join(", ")}`);
+    lines.push(...this.fromClause(scope));
+    if (level !== "row" && dimensions.length > 0) {
+      lines.push(`GROUP BY ${dimensions.join(", ")}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Start a SELECT, aliasing the source table if LODs will be joined to it
+   */
+  private createScope(node: CalcNode): SqlScope {
+    return { alias: findOutermostLods(node).length > 0 ? "t" : null, joins: [] };
+  }
+
+  private fromClause(scope: SqlScope): string[] {
+    const table = formatTableName(this.options.table);
+    return [`FROM ${table}${scope.alias ? ` AS ${scope.alias}` : ""}`, ...scope.joins];
+  }
+
+  private column(name: string, scope: SqlScope): string {
+    return scope.alias ? `${scope.alias}.${quoteSqlIdentifier(name)}` : quoteSqlIdentifier(name);
+  }
+
+  /**
+   * Translate an operand, adding parentheses where the SQL grouping would differ
+   */
+  private operand(node: CalcNode, parent: CalcNode, side: "left" | "right", scope: SqlScope): string {
+    const code = this.expr(node, scope);
+    return needsParentheses(node, getPrecedence(parent), side) ? `(${code})` : code;
+  }
+
+  private expr(node: CalcNode, scope: SqlScope): string {
+    switch (node.type) {
+      case "NumberLiteral":
+        return String(node.value);
+      case "StringLiteral":
+        return quoteSqlString(node.value);
+      case "BooleanLiteral":
+        return node.value ? "TRUE" : "FALSE";
+      case "NullLiteral":
+        return "NULL";
+      case "DateLiteral":
+        return /\d:\d/.test(node.value) ? `TIMESTAMP '${node.value}'` : `DATE '${node.value}'`;
+      case "FieldReference":
+        return node.isParameter
+          ? parameterPlaceholder(this.options.parameters.get(node.name)?.caption ?? node.name)
+          : this.column(node.name, scope);
+      case "UnaryExpression":
+        return node.operator === "NOT"
+          ? `NOT ${this.operand(node.operand, node, "right", scope)}`
+          : `-${this.operand(node.operand, node, "right", scope)}`;
+      case "BinaryExpression": {
+        if (node.operator === "%") {
+          return `MOD(${this.expr(node.left, scope)}, ${this.expr(node.right, scope)})`;
+        }
+        if (node.operator === "^") {
+          return `POWER(${this.expr(node.left, scope)}, ${this.expr(node.right, scope)})`;
+        }
+        if (node.operator === "/") {
+          // Tableau divides as floating point and gives NULL for a zero divisor;
+          // SQL divides integers as integers and most engines fail on zero
+          const divisor = isNonZeroNumber(node.right)
+            ? this.operand(node.right, node, "right", scope)
+            : `NULLIF(${this.expr(node.right, scope)}, 0)`;
+          return `CAST(${this.expr(node.left, scope)} AS DOUBLE PRECISION) / ${divisor}`;
+        }
+        const operator = node.operator === "+" && isStringExpression(node) ? "||" : node.operator;
+        return `${this.operand(node.left, node, "left", scope)} ${operator} ${this.operand(node.right, node, "right", scope)}`;
+      }
+      case "InExpression":
+        return `${this.operand(node.operand, node, "left", scope)} IN (${node.values.map(v => this.expr(v, scope)).join(", ")})`;
+      case "IfExpression":
+        return [
+          "CASE",
+          ...node.branches.map(b => `WHEN ${this.expr(b.condition, scope)} THEN ${this.expr(b.result, scope)}`),
+          ...(node.elseResult ? [`ELSE ${this.expr(node.elseResult, scope)}`] : []),
+          "END"
+        ].join(" ");
+      case "CaseExpression":
+        return [
+          `CASE ${this.expr(node.subject, scope)}`,
+          ...node.branches.map(b => `WHEN ${this.expr(b.when, scope)} THEN ${this.expr(b.result, scope)}`),
+          ...(node.elseResult ? [`ELSE ${this.expr(node.elseResult, scope)}`] : []),
+          "END"
+        ].join(" ");
+      case "LodExpression":
+        return this.lod(node, scope);
+      case "FunctionCall":
+        return this.call(node, scope);
+    }
+  }
+
+  /**
+   * Compute an LOD in a CTE and join it to the current query
+   *
+   * @returns The joined value column
+   */
+  private lod(node: LodExpressionNode, scope: SqlScope): string {
+    noteLodAssumptions(node, null, this.options, this.state);
+
+    const dimensions = getLodDimensions(node, this.options.dimensions);
+    if (!dimensions) {
+      this.state.unsupportedFunction(`${node.lodType} with calculated dimensions`);
+      return "NULL";
+    }
+
+    // Nested LODs add their CTEs first, so each CTE only joins earlier ones
+    const inner = this.createScope(node.expression);
+    const value = this.expr(node.expression, inner);
+    const name = `lod_${this.ctes.length + 1}`;
+    const groupColumns = dimensions.map(d => this.column(d, inner));
+    const body = [
+      `SELECT ${[...groupColumns, `${value} AS lod_value`].join(", ")}`,
+      ...this.fromClause(inner),
+      ...(groupColumns.length > 0 ? [`GROUP BY ${groupColumns.join(", ")}`] : [])
+    ];
+    this.ctes.push(`${name} AS (\n  ${body.join("\n  ")}\n)`);
+
+    scope.joins.push(dimensions.length > 0
+      ? `LEFT JOIN ${name} ON ${dimensions.map(d => `${this.column(d, scope)} = ${name}.${quoteSqlIdentifier(d)}`).join(" AND ")}`
+      : `CROSS JOIN ${name}`);
+
+    return `${name}.lod_value`;
+  }
+
+  /**
+   * Build an OVER clause ordered by the view's dimensions
+   */
+  private over(scope: SqlScope, frame = ""): string {
+    const order = this.options.dimensions.map(d => this.column(d, scope)).join(", ");
+    const clauses = [order ? `ORDER BY ${order}` : "", frame].filter(Boolean);
+    return `OVER (${clauses.join(" ")})`;
+  }
+
+  private call(node: FunctionCallNode, scope: SqlScope): string {
+    const { name } = node;
+    const args = node.args.map(a => this.expr(a, scope));
+    const [a, b, c] = args;
+
+    if (node.isAggregate) {
+      for (const lod of node.args.flatMap(findOutermostLods)) {
+        noteLodAssumptions(lod, name, this.options, this.state);
+      }
+    }
+    if (node.isTableCalc) {
+      this.state.note(TABLE_CALC_NOTE);
+    }
+
+    if (SAME_NAME_FUNCTIONS.has(name)) {
+      return `${name}(${args.join(", ")})`;
+    }
+    if (NON_ANSI_FUNCTIONS[name]) {
+      this.state.note(`${NON_ANSI_FUNCTIONS[name]} is not ANSI SQL but is available in most engines`);
+      return `${NON_ANSI_FUNCTIONS[name]}(${args.join(", ")})`;
+    }
+    if (node.isAggregate && SQL_AGGREGATES[name]) {
+      return `${SQL_AGGREGATES[name]}(${args.join(", ")})`;
+    }
+
+    // RUNNING_SUM, WINDOW_AVG, ...
+    const windowMatch = name.match(/^(RUNNING|WINDOW)_(.+)$/);
+    if (windowMatch && WINDOW_AGGREGATES[windowMatch[2]]) {
+      const aggregate = WINDOW_AGGREGATES[windowMatch[2]];
+      if (windowMatch[1] === "RUNNING") {
+        return `${aggregate}(${a}) ${this.over(scope, "ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW")}`;
+      }
+      if (node.args.length === 1) {
+        return `${aggregate}(${a}) OVER ()`;
+      }
+      const start = getNumericValue(node.args[1]);
+      const end = getNumericValue(node.args[2]);
+      if (start === null || end === null) {
+        this.state.unsupportedFunction(`${name} with non-numeric offsets`);
+        return `${aggregate}(${a}) OVER ()`;
+      }
+      const bound = (offset: number) =>
+        offset === 0 ? "CURRENT ROW" : `${Math.abs(offset)} ${offset < 0 ? "PRECEDING" : "FOLLOWING"}`;
+      return `${aggregate}(${a}) ${this.over(scope, `ROWS BETWEEN ${bound(start)} AND ${bound(end)}`)}`;
+    }
+
+    switch (name) {
+      // Aggregates without a same-name equivalent
+      case "COUNTD":
+        return `COUNT(DISTINCT ${a})`;
+      case "MEDIAN":
+        return `PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${a})`;
+      case "PERCENTILE":
+        return `PERCENTILE_CONT(${b}) WITHIN GROUP (ORDER BY ${a})`;
+      case "ATTR":
+        return `CASE WHEN MIN(${a}) = MAX(${a}) THEN MIN(${a}) END`;
+      case "MIN":
+      case "MAX":
+        this.state.note(`${name === "MIN" ? "LEAST" : "GREATEST"} is not ANSI SQL but is available in most engines`);
+        return `${name === "MIN" ? "LEAST" : "GREATEST"}(${args.join(", ")})`;
+
+      // Logical and null handling
+      case "IIF":
+        if (node.args.length > 3) {
+          this.state.note("IIF's unknown result is ignored; NULL tests fall through to the ELSE value");
+        }
+        return `CASE WHEN ${a} THEN ${b}${c !== undefined ? ` ELSE ${c}` : ""} END`;
+      case "IFNULL":
+        return `COALESCE(${a}, ${b})`;
+      case "ZN":
+        return `COALESCE(${a}, 0)`;
+      case "ISNULL":
+        return `(${a} IS NULL)`;
+
+      // Numbers
+      case "ROUND":
+        return `ROUND(${args.join(", ")})`;
+      case "SQUARE":
+        return `POWER(${a}, 2)`;
+      case "LOG":
+        return b !== undefined ? `LOG(${b}, ${a})` : `LOG10(${a})`;
+      case "DIV":
+        return `((${a} - MOD(${a}, ${b})) / ${b})`;
+      case "INT":
+        return `CAST(${a} AS INTEGER)`;
+      case "FLOAT":
+        return `CAST(${a} AS DOUBLE PRECISION)`;
+
+      // Strings
+      case "STR":
+        return `CAST(${a} AS VARCHAR)`;
+      case "LEN":
+        return `CHAR_LENGTH(${a})`;
+      case "LEFT":
+        return `SUBSTRING(${a} FROM 1 FOR ${b})`;
+      case "RIGHT":
+        return `SUBSTRING(${a} FROM CHAR_LENGTH(${a}) - (${b}) + 1)`;
+      case "MID":
+        return `SUBSTRING(${a} FROM ${b}${c !== undefined ? ` FOR ${c}` : ""})`;
+      case "LTRIM":
+        return `TRIM(LEADING FROM ${a})`;
+      case "RTRIM":
+        return `TRIM(TRAILING FROM ${a})`;
+      case "CONTAINS":
+        return `(POSITION(${b} IN ${a}) > 0)`;
+      case "FIND":
+        return `POSITION(${b} IN ${a})`;
+      case "STARTSWITH":
+        return `(SUBSTRING(${a} FROM 1 FOR CHAR_LENGTH(${b})) = ${b})`;
+      case "ENDSWITH":
+        return `(SUBSTRING(${a} FROM CHAR_LENGTH(${a}) - CHAR_LENGTH(${b}) + 1) = ${b})`;
+
+      // Dates
+      case "TODAY":
+        return "CURRENT_DATE";
+      case "NOW":
+        return "CURRENT_TIMESTAMP";
+      case "DATE":
+        return `CAST(${a} AS DATE)`;
+      case "DATETIME":
+        return `CAST(${a} AS TIMESTAMP)`;
+      case "YEAR":
+      case "QUARTER":
+      case "MONTH":
+      case "DAY":
+        return `EXTRACT(${name} FROM ${a})`;
+      case "DATEPART":
+        return this.datePart(getStringLiteral(node.args[0]), b);
+      case "DATETRUNC": {
+        const part = getStringLiteral(node.args[0]);
+        this.state.note("DATE_TRUNC is not ANSI SQL but is available in most engines");
+        if (part === "week") {
+          this.state.note("DATE_TRUNC('week') usually starts weeks on Monday; Tableau's default is Sunday");
+        }
+        return `DATE_TRUNC(${quoteSqlString(part ?? "day")}, ${b})`;
+      }
+      case "DATEADD":
+        return this.dateAdd(getStringLiteral(node.args[0]), b, c);
+      case "DATEDIFF":
+        return this.dateDiff(getStringLiteral(node.args[0]), b, c);
+
+      // Table calculations
+      case "INDEX":
+        return `ROW_NUMBER() ${this.over(scope)}`;
+      case "FIRST":
+        return `(1 - ROW_NUMBER() ${this.over(scope)})`;
+      case "LAST":
+        return `(COUNT(*) OVER () - ROW_NUMBER() ${this.over(scope)})`;
+      case "SIZE":
+        return "COUNT(*) OVER ()";
+      case "LOOKUP": {
+        const offset = node.args.length > 1 ? getNumericValue(node.args[1]) : 0;
+        if (offset === null) {
+          this.state.unsupportedFunction("LOOKUP with a non-numeric offset");
+          return `LAG(${a}) ${this.over(scope)}`;
+        }
+        if (offset === 0) return a;
+        return `${offset < 0 ? "LAG" : "LEAD"}(${a}, ${Math.abs(offset)}) ${this.over(scope)}`;
+      }
+      case "RANK":
+      case "RANK_DENSE":
+      case "RANK_UNIQUE":
+      case "RANK_MODIFIED":
+      case "RANK_PERCENTILE":
+        return this.rank(node, a);
+      case "TOTAL":
+        return this.total(node.args[0]);
+    }
+
+    this.state.unsupportedFunction(name);
+    return `${name}(${args.join(", ")})`;
+  }
+
+  private datePart(part: string | null, date: string): string {
+    if (part && EXTRACT_PARTS.has(part)) {
+      return `EXTRACT(${part.toUpperCase()} FROM ${date})`;
+    }
+    switch (part) {
+      case "week":
+        this.state.note("EXTRACT(WEEK) returns ISO weeks, which start on Monday");
+        return `EXTRACT(WEEK FROM ${date})`;
+      case "weekday":
+        this.state.note("EXTRACT(DOW) is not ANSI SQL; it returns 0 for Sunday in PostgreSQL and DuckDB");
+        return `(EXTRACT(DOW FROM ${date}) + 1)`;
+      case "dayofyear":
+        this.state.note("EXTRACT(DOY) is not ANSI SQL but is available in most engines");
+        return `EXTRACT(DOY FROM ${date})`;
+    }
+    this.state.unsupportedFunction(`DATEPART('${part ?? "?"}')`);
+    return `EXTRACT(${(part ?? "day").toUpperCase()} FROM ${date})`;
+  }
+
+  private dateAdd(part: string | null, amount: string, date: string): string {
+    switch (part) {
+      case "year":
+      case "month":
+      case "day":
+      case "hour":
+      case "minute":
+      case "second":
+        return `(${date} + (${amount}) * INTERVAL '1' ${part.toUpperCase()})`;
+      case "quarter":
+        return `(${date} + (${amount}) * INTERVAL '3' MONTH)`;
+      case "week":
+        return `(${date} + (${amount}) * INTERVAL '7' DAY)`;
+    }
+    this.state.unsupportedFunction(`DATEADD('${part ?? "?"}')`);
+    return `(${date} + (${amount}) * INTERVAL '1' DAY)`;
+  }
+
+  private dateDiff(part: string | null, start: string, end: string): string {
+    const years = `(EXTRACT(YEAR FROM ${end}) - EXTRACT(YEAR FROM ${start}))`;
+    switch (part) {
+      case "year":
+        return years;
+      case "quarter":
+        return `(${years} * 4 + EXTRACT(QUARTER FROM ${end}) - EXTRACT(QUARTER FROM ${start}))`;
+      case "month":
+        return `(${years} * 12 + EXTRACT(MONTH FROM ${end}) - EXTRACT(MONTH FROM ${start}))`;
+      case "day":
+      case "week":
+        this.state.note("Subtracting dates returns a day count in PostgreSQL and DuckDB; other engines return an interval");
+        return part === "day"
+          ? `(CAST(${end} AS DATE) - CAST(${start} AS DATE))`
+          : `((CAST(${end} AS DATE) - CAST(${start} AS DATE)) / 7)`;
+      case "hour":
+      case "minute":
+      case "second": {
+        this.state.note("EXTRACT(EPOCH) is not ANSI SQL but is available in most engines");
+        const divisor = { hour: 3600, minute: 60, second: 1 }[part];
+        return `FLOOR(EXTRACT(EPOCH FROM ${end} - ${start}) / ${divisor})`;
+      }
+    }
+    this.state.unsupportedFunction(`DATEDIFF('${part ?? "?"}')`);
+    return `(CAST(${end} AS DATE) - CAST(${start} AS DATE))`;
+  }
+
+  private rank(node: FunctionCallNode, value: string): string {
+    // RANK_PERCENTILE defaults to ascending, the others to descending
+    const direction = getStringLiteral(node.args[1]) ?? (node.name === "RANK_PERCENTILE" ? "asc" : "desc");
+    const order = `ORDER BY ${value} ${direction === "asc" ? "ASC" : "DESC"}`;
+
+    switch (node.name) {
+      case "RANK_DENSE":
+        return `DENSE_RANK() OVER (${order})`;
+      case "RANK_UNIQUE":
+        return `ROW_NUMBER() OVER (${order})`;
+      case "RANK_MODIFIED":
+        return `COUNT(*) OVER (${order} RANGE BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW)`;
+      case "RANK_PERCENTILE":
+        this.state.note("PERCENT_RANK is 0 for the lowest value; Tableau's RANK_PERCENTILE starts above 0");
+        return `PERCENT_RANK() OVER (${order})`;
+      default:
+        return `RANK() OVER (${order})`;
+    }
+  }
+
+  /**
+   * TOTAL evaluates its aggregate over the whole partition: a scalar subquery
+   */
+  private total(argument: CalcNode | undefined): string {
+    if (!argument || findOutermostLods(argument).length > 0) {
+      this.state.unsupportedFunction("TOTAL over an LOD expression");
+      return "NULL";
+    }
+    const scope: SqlScope = { alias: null, joins: [] };
+    return `(SELECT ${this.expr(argument, scope)} ${this.fromClause(scope).join(" ")})`;
+  }
+}
+
+/**
+ * Translate a calculation AST to an ANSI SQL query
+ *
+ * @param ast - Calculation with referenced calculations already inlined
+ * @param level - Result of classifyCalculation
+ */
+export function translateToSql(ast: CalcNode, level: CalculationLevel, options: TranslationOptions): Translation {
+  const state = new TranslationState();
+  const code = new SqlTranslator(options, state).translate(ast, level);
+  return state.finish(code);
+}
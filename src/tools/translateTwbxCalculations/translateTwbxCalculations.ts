@@ -0,0 +1,377 @@
+/**
+ * Translate TWBX Calculations Tool
+ *
+ * Converts the calculated fields of a Tableau workbook to ANSI SQL, pandas
+ * and Polars, for porting dashboards to other tools. Referenced calculations
+ * are inlined so each translation stands on its own, and every translation
+ * carries a confidence flag with the assumptions it makes.
+ */
+
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Ok } from "ts-results-es";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Tool } from "../tool.js";
+import { createSuccessResult, createErrorResult } from "../../utils/errorHandling.js";
+import { fileExists } from "../../utils/fileSystem.js";
+import { parseTwbContent, ensureArray } from "../../utils/twbParser.js";
+import { parseCalculation, FieldReferenceNode, CalcNode } from "../../utils/calcParser.js";
+import {
+  parseColumns,
+  parseParameters,
+  CalculatedField
+} from "../getTwbxCalculatedFields/getTwbxCalculatedFields.js";
+import {
+  CalculationLevel,
+  CalculationSource,
+  Confidence,
+  Translation,
+  TranslationOptions,
+  TranslationParameter,
+  TranslationTarget,
+  classifyCalculation,
+  expandCalculation
+} from "./translation.js";
+import { translateToSql } from "./sqlTranslator.js";
+import { translateToPandas } from "./pandasTranslator.js";
+import { translateToPolars } from "./polarsTranslator.js";
+
+const targetSchema = z.enum(["sql", "pandas", "polars"]);
+
+/**
+ * Parameter schema for translateTwbxCalculations tool
+ */
+const paramsSchema = z.object({
+  twbFilePath: z.string()
+    .min(1, "TWB file path cannot be empty")
+    .describe("Full path to the .twb file (from unpack_twbx extraction)"),
+  targets: z.array(targetSchema)
+    .min(1)
+    .optional()
+    .default(["sql", "pandas", "polars"])
+    .describe("Languages to translate to (default: sql, pandas and polars)"),
+  calculations: z.array(z.string())
+    .optional()
+    .describe("Names or captions of the calculations to translate (default: all)"),
+  dimensions: z.array(z.string())
+    .optional()
+    .default([])
+    .describe("Dimensions in the view, used to group aggregates and as the base level of INCLUDE/EXCLUDE LODs"),
+  tableName: z.string()
+    .min(1)
+    .optional()
+    .default("data")
+    .describe("Source table name for SQL (default: data)")
+});
+
+type TranslateTwbxCalculationsParams = z.infer<typeof paramsSchema>;
+
+const translationSchema = z.object({
+  code: z.string(),
+  confidence: z.enum(["high", "medium", "low"]),
+  notes: z.array(z.string()),
+  unsupportedFunctions: z.array(z.string())
+});
+
+/**
+ * A calculation with its translations
+ */
+const calculationSchema = z.object({
+  caption: z.string(),
+  datasource: z.string(),
+  formula: z.string(),
+  level: z.enum(["row", "aggregate", "table calculation"]).optional(),
+  inlinedCalculations: z.array(z.string()),
+  translations: z.object({
+    sql: translationSchema.optional(),
+    pandas: translationSchema.optional(),
+    polars: translationSchema.optional()
+  }),
+  error: z.string().optional()
+});
+
+type TranslatedCalculation = z.infer<typeof calculationSchema>;
+
+/**
+ * Structured output schema for translateTwbxCalculations tool
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  sourceFile: z.string(),
+  message: z.string().optional(),
+  summary: z.object({
+    totalCalculations: z.number(),
+    translated: z.number(),
+    failed: z.number(),
+    byLevel: z.record(z.number()),
+    byConfidence: z.record(z.record(z.number()))
+  }),
+  calculations: z.array(calculationSchema)
+});
+
+/** Translator for each target */
+const TRANSLATORS: Record<
+  TranslationTarget,
+  (ast: CalcNode, level: CalculationLevel, options: TranslationOptions) => Translation
+> = {
+  sql: translateToSql,
+  pandas: translateToPandas,
+  polars: translateToPolars
+};
+
+/**
+ * Read the calculated fields and parameters of every data source
+ */
+function collectFields(workbook: Record<string, unknown>): {
+  calculations: CalculatedField[];
+  parameters: Map<string, TranslationParameter>;
+} {
+  const calculations: CalculatedField[] = [];
+  const parameters = new Map<string, TranslationParameter>();
+  const datasources = (workbook.datasources as Record<string, unknown> | undefined)?.datasource;
+
+  for (const ds of ensureArray(datasources)) {
+    if (!ds || typeof ds !== "object") continue;
+    const dsObj = ds as Record<string, unknown>;
+    const dsName = (dsObj["@_name"] as string) || (dsObj["@_caption"] as string) || "Unknown";
+
+    if (dsName === "Parameters") {
+      for (const parameter of parseParameters(dsObj["column"])) {
+        const entry = { caption: parameter.caption, value: parameter.currentValue };
+        parameters.set(parameter.name, entry);
+        parameters.set(parameter.caption, entry);
+      }
+    } else {
+      calculations.push(...parseColumns(dsObj["column"], dsName, true).calculatedFields);
+    }
+  }
+
+  return { calculations, parameters };
+}
+
+/**
+ * Build a lookup from field references to the calculations they point at
+ *
+ * Formulas reference calculations by internal name (or caption for older
+ * workbooks). Unqualified references prefer the calculation's own data source.
+ */
+function createCalculationLookup(
+  calculations: CalculatedField[]
+): (ref: FieldReferenceNode, datasource: string) => CalculationSource | undefined {
+  const sources = new Map<CalculatedField, CalculationSource>();
+  const byName = new Map<string, CalculatedField[]>();
+  for (const field of calculations) {
+    const parsed = parseCalculation(field.formula);
+    sources.set(field, { caption: field.caption, ast: parsed.success ? parsed.ast : null });
+    for (const name of new Set([field.name, field.caption])) {
+      byName.set(name, [...(byName.get(name) ?? []), field]);
+    }
+  }
+
+  return (ref, datasource) => {
+    const candidates = byName.get(ref.name) ?? [];
+    const target = candidates.find(c => c.datasource === (ref.datasource ?? datasource)) ??
+      (ref.datasource ? undefined : candidates[0]);
+    return target ? sources.get(target) : undefined;
+  };
+}
+
+/**
+ * Translate one calculation to each requested target
+ */
+function translateCalculation(
+  field: CalculatedField,
+  lookup: ReturnType<typeof createCalculationLookup>,
+  targets: TranslationTarget[],
+  options: Omit<TranslationOptions, "name">
+): TranslatedCalculation {
+  const base = {
+    caption: field.caption,
+    datasource: field.datasource,
+    formula: field.formula,
+    inlinedCalculations: [] as string[],
+    translations: {}
+  };
+
+  const parsed = parseCalculation(field.formula);
+  if (!parsed.success) {
+    return { ...base, error: `Formula could not be parsed: ${parsed.error.message} (line ${parsed.error.line}, column ${parsed.error.column})` };
+  }
+
+  const expanded = expandCalculation(parsed.ast, ref => lookup(ref, field.datasource));
+  if (!expanded.success) {
+    return { ...base, error: expanded.error };
+  }
+
+  const level = classifyCalculation(expanded.ast);
+  const translations: Partial<Record<TranslationTarget, Translation>> = {};
+  for (const target of targets) {
+    translations[target] = TRANSLATORS[target](expanded.ast, level, { ...options, name: field.caption });
+  }
+
+  return { ...base, level, inlinedCalculations: expanded.inlined, translations };
+}
+
+/**
+ * Factory function to create the translateTwbxCalculations tool
+ */
+export function translateTwbxCalculationsTool(server: Server): Tool<typeof paramsSchema.shape> {
+  return new Tool({
+    server,
+    name: "translate_twbx_calculations",
+    description: "Translates the calculated fields of a Tableau workbook (.twb file) to ANSI SQL, pandas and Polars. " +
+      "Row-level calculations become new columns, aggregates a GROUP BY / groupby over the given dimensions, " +
+      "table calculations window functions, and LOD expressions CTEs (SQL) or grouped pre-steps (pandas, Polars). " +
+      "Referenced calculations are inlined. Each translation has a confidence (high, medium, low), notes on the " +
+      "assumptions it makes and a list of functions with no equivalent. " +
+      "Use with the mainTwbPath from unpack_twbx output.",
+    paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
+    annotations: {
+      title: "Translate TWBX Calculations",
+      readOnlyHint: true,
+      openWorldHint: false
+    },
+
+    callback: async (args: TranslateTwbxCalculationsParams): Promise<Ok<CallToolResult>> => {
+      const {
+        twbFilePath,
+        targets = ["sql", "pandas", "polars"],
+        calculations: requested,
+        dimensions = [],
+        tableName = "data"
+      } = args;
+
+      try {
+        console.error(`[translate_twbx_calculations] Parsing: ${twbFilePath}`);
+
+        // Validate file exists
+        const exists = await fileExists(twbFilePath);
+        if (!exists) {
+          return createErrorResult(
+            "TWB file not found",
+            {
+              twbFilePath,
+              suggestion: "Use unpack_twbx first to extract the workbook, then use the mainTwbPath from the result"
+            }
+          );
+        }
+
+        // Validate file extension
+        const ext = path.extname(twbFilePath).toLowerCase();
+        if (ext !== ".twb") {
+          return createErrorResult(
+            "Invalid file type",
+            {
+              twbFilePath,
+              expected: ".twb",
+              received: ext || "(no extension)",
+              suggestion: "Provide the path to the .twb file inside the extracted TWBX"
+            }
+          );
+        }
+
+        // Read and parse the TWB file
+        const twbContent = await fs.readFile(twbFilePath, "utf-8");
+        const parseResult = parseTwbContent(twbContent);
+
+        if (!parseResult.success) {
+          return createErrorResult(
+            "Failed to parse TWB XML",
+            {
+              twbFilePath,
+              error: parseResult.error,
+              filePreview: parseResult.preview
+            }
+          );
+        }
+
+        const workbook = (parseResult.data as { workbook?: Record<string, unknown> })?.workbook;
+        if (!workbook) {
+          return createErrorResult(
+            "Invalid TWB file structure",
+            {
+              twbFilePath,
+              suggestion: "The file may be corrupted or not a valid Tableau workbook"
+            }
+          );
+        }
+
+        const { calculations, parameters } = collectFields(workbook);
+
+        const selected = requested && requested.length > 0
+          ? calculations.filter(c => requested.includes(c.caption) || requested.includes(c.name))
+          : calculations;
+
+        if (requested && requested.length > 0 && selected.length === 0) {
+          return createErrorResult(
+            "No matching calculations found",
+            {
+              twbFilePath,
+              requested,
+              available: calculations.map(c => c.caption).slice(0, 50),
+              suggestion: "Use get_twbx_calculated_fields to list the workbook's calculations"
+            }
+          );
+        }
+
+        if (selected.length === 0) {
+          return createSuccessResult({
+            success: true,
+            sourceFile: twbFilePath,
+            message: "No calculated fields found in this workbook",
+            summary: { totalCalculations: 0, translated: 0, failed: 0, byLevel: {}, byConfidence: {} },
+            calculations: []
+          });
+        }
+
+        const options = { table: tableName, dimensions, parameters };
+        const lookup = createCalculationLookup(calculations);
+        const translated = selected.map(field => translateCalculation(field, lookup, targets, options));
+
+        // Summaries
+        const byLevel: Record<string, number> = {};
+        const byConfidence: Record<string, Record<Confidence, number>> = {};
+        for (const target of targets) {
+          byConfidence[target] = { high: 0, medium: 0, low: 0 };
+        }
+        for (const calc of translated) {
+          if (calc.level) byLevel[calc.level] = (byLevel[calc.level] ?? 0) + 1;
+          for (const target of targets) {
+            const translation = calc.translations[target];
+            if (translation) byConfidence[target][translation.confidence]++;
+          }
+        }
+        const failed = translated.filter(c => c.error).length;
+
+        const result = {
+          success: true,
+          sourceFile: twbFilePath,
+          summary: {
+            totalCalculations: selected.length,
+            translated: selected.length - failed,
+            failed,
+            byLevel,
+            byConfidence
+          },
+          calculations: translated.slice(0, 50) // Limit for readability
+        };
+
+        console.error(`[translate_twbx_calculations] Translated ${selected.length - failed} of ${selected.length} calculations to ${targets.join(", ")}`);
+
+        return createSuccessResult(result);
+
+      } catch (error) {
+        return createErrorResult(
+          "Unexpected error translating TWB calculations",
+          {
+            twbFilePath,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+      }
+    }
+  });
+}
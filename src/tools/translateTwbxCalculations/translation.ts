@@ -0,0 +1,418 @@
+/**
+ * Shared pieces of the calculation translators
+ *
+ * Each translator (SQL, pandas, Polars) walks the same AST from
+ * parseCalculation. This module prepares that AST - inlining referenced
+ * calculations and classifying its level - and collects the notes that
+ * decide a translation's confidence.
+ */
+
+import {
+  CalcNode,
+  FieldReferenceNode,
+  LodExpressionNode,
+  parseCalculation,
+  walkCalcAst
+} from "../../utils/calcParser.js";
+
+/** Languages a calculation can be translated to */
+export type TranslationTarget = "sql" | "pandas" | "polars";
+
+/**
+ * How closely a translation matches Tableau
+ *
+ * - high: every construct has an exact equivalent
+ * - medium: translated, but relies on an assumption listed in the notes
+ * - low: contains functions with no equivalent, emitted as placeholders
+ */
+export type Confidence = "high" | "medium" | "low";
+
+/** Where Tableau evaluates a calculation */
+export type CalculationLevel = "row" | "aggregate" | "table calculation";
+
+/**
+ * Translated code for one calculation in one target language
+ */
+export interface Translation {
+  code: string;
+  confidence: Confidence;
+  notes: string[];
+  unsupportedFunctions: string[];
+}
+
+/**
+ * Settings shared by all translators
+ */
+export interface TranslationOptions {
+  /** Name of the output column (the calculation's caption) */
+  name: string;
+  /** Source table for SQL */
+  table: string;
+  /** Dimensions in the view: the GROUP BY for aggregates and the base level for INCLUDE/EXCLUDE */
+  dimensions: string[];
+  /** Parameters keyed by internal name and caption */
+  parameters: Map<string, TranslationParameter>;
+}
+
+/**
+ * A workbook parameter referenced from formulas
+ */
+export interface TranslationParameter {
+  caption: string;
+  /** Current value as a Tableau literal, e.g. 10 or "East" */
+  value: string;
+}
+
+/**
+ * Collects notes and unsupported functions while a translator runs
+ */
+export class TranslationState {
+  private readonly notes = new Set<string>();
+  private readonly unsupported = new Set<string>();
+
+  /**
+   * Record an assumption the translation relies on
+   */
+  note(message: string): void {
+    this.notes.add(message);
+  }
+
+  /**
+   * Record a function with no equivalent in the target language
+   */
+  unsupportedFunction(name: string): void {
+    this.unsupported.add(name);
+  }
+
+  /**
+   * Build the final translation
+   */
+  finish(code: string): Translation {
+    let confidence: Confidence = "high";
+    if (this.unsupported.size > 0) confidence = "low";
+    else if (this.notes.size > 0) confidence = "medium";
+
+    return {
+      code,
+      confidence,
+      notes: Array.from(this.notes),
+      unsupportedFunctions: Array.from(this.unsupported)
+    };
+  }
+}
+
+/**
+ * A calculation that other formulas can reference
+ */
+export interface CalculationSource {
+  caption: string;
+  ast: CalcNode | null;
+}
+
+/** Result type for expandCalculation */
+export type ExpandResult = {
+  success: true;
+  ast: CalcNode;
+  /** Captions of the calculations that were inlined */
+  inlined: string[];
+} | {
+  success: false;
+  error: string;
+};
+
+/**
+ * Rebuild a node with each direct child replaced
+ */
+function mapChildren(node: CalcNode, fn: (child: CalcNode) => CalcNode): CalcNode {
+  switch (node.type) {
+    case "FunctionCall":
+      return { ...node, args: node.args.map(fn) };
+    case "UnaryExpression":
+      return { ...node, operand: fn(node.operand) };
+    case "BinaryExpression":
+      return { ...node, left: fn(node.left), right: fn(node.right) };
+    case "InExpression":
+      return { ...node, operand: fn(node.operand), values: node.values.map(fn) };
+    case "IfExpression":
+      return {
+        ...node,
+        branches: node.branches.map(b => ({ condition: fn(b.condition), result: fn(b.result) })),
+        elseResult: node.elseResult ? fn(node.elseResult) : null
+      };
+    case "CaseExpression":
+      return {
+        ...node,
+        subject: fn(node.subject),
+        branches: node.branches.map(b => ({ when: fn(b.when), result: fn(b.result) })),
+        elseResult: node.elseResult ? fn(node.elseResult) : null
+      };
+    case "LodExpression":
+      return { ...node, dimensions: node.dimensions.map(fn), expression: fn(node.expression) };
+    default:
+      return node;
+  }
+}
+
+/**
+ * Replace references to other calculations with their formulas
+ *
+ * The translated code then only reads source columns and parameters, so
+ * each calculation can be ported on its own.
+ *
+ * @param lookup - Returns the calculation a field reference points to, if any
+ */
+export function expandCalculation(
+  ast: CalcNode,
+  lookup: (ref: FieldReferenceNode) => CalculationSource | undefined
+): ExpandResult {
+  const inlined = new Set<string>();
+
+  function expand(node: CalcNode, path: string[]): CalcNode {
+    if (node.type === "FieldReference" && !node.isParameter) {
+      const source = lookup(node);
+      if (source) {
+        if (path.includes(source.caption)) {
+          throw new Error(`Circular reference: ${[...path, source.caption].join(" -> ")}`);
+        }
+        if (!source.ast) {
+          throw new Error(`Referenced calculation "${source.caption}" could not be parsed`);
+        }
+        inlined.add(source.caption);
+        return expand(source.ast, [...path, source.caption]);
+      }
+    }
+    return mapChildren(node, child => expand(child, path));
+  }
+
+  try {
+    return { success: true, ast: expand(ast, []), inlined: Array.from(inlined) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Check whether a node contains an aggregate outside any LOD expression
+ */
+export function containsAggregate(node: CalcNode): boolean {
+  let found = false;
+  walkCalcAst(node, (n, ancestors) => {
+    if (n.type === "FunctionCall" && n.isAggregate && !ancestors.some(a => a.type === "LodExpression")) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/**
+ * Check whether a node contains a table calculation
+ */
+export function containsTableCalc(node: CalcNode): boolean {
+  let found = false;
+  walkCalcAst(node, n => {
+    if (n.type === "FunctionCall" && n.isTableCalc) found = true;
+  });
+  return found;
+}
+
+/**
+ * Check whether a node reads any field (as opposed to literals and parameters)
+ */
+export function containsField(node: CalcNode): boolean {
+  let found = false;
+  walkCalcAst(node, n => {
+    if ((n.type === "FieldReference" && !n.isParameter) || n.type === "LodExpression") found = true;
+  });
+  return found;
+}
+
+/**
+ * Classify where Tableau evaluates a calculation
+ *
+ * LOD expressions produce row-level values, so aggregates inside them
+ * don't make the calculation an aggregate.
+ */
+export function classifyCalculation(ast: CalcNode): CalculationLevel {
+  if (containsTableCalc(ast)) return "table calculation";
+  if (containsAggregate(ast)) return "aggregate";
+  return "row";
+}
+
+/**
+ * Find the LOD expressions in a node that aren't nested in another LOD
+ */
+export function findOutermostLods(node: CalcNode): LodExpressionNode[] {
+  const lods: LodExpressionNode[] = [];
+  walkCalcAst(node, (n, ancestors) => {
+    if (n.type === "LodExpression" && !ancestors.some(a => a.type === "LodExpression")) {
+      lods.push(n);
+    }
+  });
+  return lods;
+}
+
+/**
+ * Get the dimension names an LOD is computed at
+ *
+ * FIXED uses its own dimensions; INCLUDE adds to and EXCLUDE removes
+ * from the view's dimensions.
+ *
+ * @returns Field names, or null if a dimension is an expression rather than a field
+ */
+export function getLodDimensions(lod: LodExpressionNode, viewDimensions: string[]): string[] | null {
+  const names: string[] = [];
+  for (const dimension of lod.dimensions) {
+    if (dimension.type !== "FieldReference") return null;
+    names.push(dimension.name);
+  }
+
+  switch (lod.lodType) {
+    case "FIXED":
+      return names;
+    case "INCLUDE":
+      return [...viewDimensions, ...names.filter(n => !viewDimensions.includes(n))];
+    case "EXCLUDE":
+      return viewDimensions.filter(d => !names.includes(d));
+  }
+}
+
+/**
+ * Read a string literal argument such as 'month' or 'asc'
+ *
+ * @returns The lower-case value, or null if the argument isn't a string literal
+ */
+export function getStringLiteral(node: CalcNode | undefined): string | null {
+  return node?.type === "StringLiteral" ? node.value.trim().toLowerCase() : null;
+}
+
+/**
+ * Binding strength of each operator in the generated SQL and Python, loosest first
+ *
+ * Operands are parenthesized wherever these would group the AST (which
+ * follows Tableau) differently. Tableau's negation binds tighter than ^,
+ * but Python's ** binds tighter than negation, so (-[a])^2 comes out as
+ * (-df["a"]) ** 2.
+ */
+const PRECEDENCE: Record<string, number> = {
+  OR: 1,
+  AND: 2,
+  NOT: 3,
+  "=": 4, "<>": 4, "<": 4, "<=": 4, ">": 4, ">=": 4, IN: 4,
+  "+": 5, "-": 5,
+  "*": 6, "/": 6, "%": 6,
+  NEGATE: 7,
+  "^": 8
+};
+
+/**
+ * Get the binding strength of a node (atoms bind tightest)
+ */
+export function getPrecedence(node: CalcNode): number {
+  switch (node.type) {
+    case "BinaryExpression":
+      return PRECEDENCE[node.operator];
+    case "UnaryExpression":
+      return node.operator === "NOT" ? PRECEDENCE.NOT : PRECEDENCE.NEGATE;
+    case "InExpression":
+      return PRECEDENCE.IN;
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Check whether an operand needs parentheses to keep its grouping
+ *
+ * @param side - Which side of the parent operator the operand sits on
+ */
+export function needsParentheses(operand: CalcNode, parentPrecedence: number, side: "left" | "right"): boolean {
+  const precedence = getPrecedence(operand);
+  if (precedence !== parentPrecedence) return precedence < parentPrecedence;
+  // ^ groups right to left, everything else left to right
+  return parentPrecedence === PRECEDENCE["^"] ? side === "left" : side === "right";
+}
+
+/**
+ * Prefix a snippet with the import lines it uses
+ *
+ * @param imports - Import line for each module alias, e.g. { np: "import numpy as np" }
+ */
+export function addImports(code: string, imports: Record<string, string>): string {
+  const used = Object.entries(imports)
+    .filter(([alias]) => new RegExp(`(?<![\\w.])${alias}\\.`).test(code))
+    .map(([, line]) => line);
+  return used.length > 0 ? `${used.join("\n")}\n\n${code}` : code;
+}
+
+/** Aggregates that give the same result however often a value repeats */
+const REPETITION_SAFE_AGGREGATES = new Set(["MIN", "MAX", "ATTR", "COUNTD"]);
+
+/**
+ * Record the assumptions behind an LOD expression
+ *
+ * @param insideAggregate - Name of the aggregate the LOD is wrapped in, if any
+ */
+export function noteLodAssumptions(
+  lod: LodExpressionNode,
+  insideAggregate: string | null,
+  options: TranslationOptions,
+  state: TranslationState
+): void {
+  if (lod.lodType !== "FIXED" && options.dimensions.length === 0) {
+    const level = lod.lodType === "INCLUDE" ? "only its own dimensions" : "the whole table";
+    state.note(`${lod.lodType} is relative to the view's dimensions; none were given, so it is computed over ${level}`);
+  }
+  if (insideAggregate && !REPETITION_SAFE_AGGREGATES.has(insideAggregate)) {
+    state.note(
+      `LOD values are joined to every row, so ${insideAggregate} counts each value once per row; ` +
+      "Tableau aggregates them once per LOD dimension value"
+    );
+  }
+}
+
+/** Assumption made for every table calculation */
+export const TABLE_CALC_NOTE = "Table calculations are computed across all view dimensions in order (Compute Using: Table); " +
+  "adjust the partitioning and ordering to match the worksheet";
+
+/**
+ * Check whether a divisor is a number literal other than zero
+ *
+ * Tableau's / always divides as floating point and returns NULL when the
+ * divisor is zero; dividing by any other literal needs no guard.
+ */
+export function isNonZeroNumber(node: CalcNode): boolean {
+  const value = getNumericValue(node);
+  return value !== null && value !== 0;
+}
+
+/**
+ * Read a number literal, including negated ones such as -2
+ */
+export function getNumericValue(node: CalcNode | undefined): number | null {
+  if (node?.type === "NumberLiteral") return node.value;
+  if (node?.type === "UnaryExpression" && node.operator === "-" && node.operand.type === "NumberLiteral") {
+    return -node.operand.value;
+  }
+  return null;
+}
+
+/**
+ * Build the params dict that Python translations read parameters from
+ *
+ * @param parameters - Parameters the formula uses
+ * @param literal - Formats a parsed literal value in the target's syntax
+ * @returns The assignment, or null when no parameters are used
+ */
+export function formatPythonParams(
+  parameters: TranslationParameter[],
+  literal: (node: CalcNode) => string
+): string | null {
+  if (parameters.length === 0) return null;
+
+  const entries = parameters.map(p => {
+    const parsed = parseCalculation(p.value);
+    const value = parsed.success ? literal(parsed.ast) : JSON.stringify(p.value);
+    return `    ${JSON.stringify(p.caption)}: ${value},`;
+  });
+  return `params = {\n${entries.join("\n")}\n}`;
+}
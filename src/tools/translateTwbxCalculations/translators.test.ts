@@ -0,0 +1,173 @@
+/**
+ * Tests for the calculation translators
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseCalculation, CalcNode } from "../../utils/calcParser.js";
+import {
+  CalculationSource,
+  TranslationOptions,
+  classifyCalculation,
+  expandCalculation
+} from "./translation.js";
+import { translateToSql } from "./sqlTranslator.js";
+import { translateToPandas } from "./pandasTranslator.js";
+import { translateToPolars } from "./polarsTranslator.js";
+
+/**
+ * Parse a formula that is expected to be valid
+ */
+function parse(formula: string): CalcNode {
+  const result = parseCalculation(formula);
+  if (!result.success) {
+    throw new Error(`Unexpected parse error: ${result.error.message}`);
+  }
+  return result.ast;
+}
+
+function createOptions(overrides: Partial<TranslationOptions> = {}): TranslationOptions {
+  return { name: "Result", table: "orders", dimensions: [], parameters: new Map(), ...overrides };
+}
+
+describe("expandCalculation", () => {
+  const calculations = new Map<string, CalculationSource>([
+    ["Calculation_1", { caption: "Profit Ratio", ast: parse("SUM([Profit]) / SUM([Sales])") }],
+    ["Calculation_2", { caption: "Loop A", ast: parse("[Calculation_3] + 1") }],
+    ["Calculation_3", { caption: "Loop B", ast: parse("[Calculation_2] * 2") }]
+  ]);
+  const lookup = (ref: { name: string }) => calculations.get(ref.name);
+
+  it("should inline referenced calculations", () => {
+    const result = expandCalculation(parse("IF [Calculation_1] > 0.1 THEN 'Good' END"), lookup);
+
+    expect(result).toMatchObject({ success: true, inlined: ["Profit Ratio"] });
+    if (result.success) {
+      expect(classifyCalculation(result.ast)).toBe("aggregate");
+    }
+  });
+
+  it("should report circular references", () => {
+    const result = expandCalculation(parse("[Calculation_2]"), lookup);
+
+    expect(result).toMatchObject({ success: false, error: "Circular reference: Loop A -> Loop B -> Loop A" });
+  });
+});
+
+describe("operator precedence", () => {
+  it("should keep Tableau's grouping of negation and ^", () => {
+    const negatedBase = parse("-[a]^2");
+    const negatedPower = parse("-([a]^2)");
+    const options = createOptions();
+
+    expect(translateToSql(negatedBase, "row", options).code).toContain("POWER(-\"a\", 2) AS \"Result\"");
+    expect(translateToSql(negatedPower, "row", options).code).toContain("-POWER(\"a\", 2) AS \"Result\"");
+    expect(translateToPandas(negatedBase, "row", options).code).toBe("df[\"Result\"] = (-df[\"a\"]) ** 2");
+    expect(translateToPandas(negatedPower, "row", options).code).toBe("df[\"Result\"] = -df[\"a\"] ** 2");
+    expect(translateToPolars(negatedBase, "row", options).code).toContain("((-pl.col(\"a\")) ** 2).alias(\"Result\")");
+  });
+});
+
+describe("division", () => {
+  it("should divide as floating point and give NULL for a zero divisor", () => {
+    const ratio = parse("[Sales] / [Qty]");
+    const halved = parse("INT([Qty] / 2)");
+    const byZero = parse("ZN([x]) / 0");
+    const options = createOptions();
+
+    expect(translateToSql(ratio, "row", options).code)
+      .toContain("CAST(\"Sales\" AS DOUBLE PRECISION) / NULLIF(\"Qty\", 0) AS \"Result\"");
+    // An integer column halved is 3.5 before truncating, not 3
+    expect(translateToSql(halved, "row", options).code)
+      .toContain("CAST(CAST(\"Qty\" AS DOUBLE PRECISION) / 2 AS INTEGER) AS \"Result\"");
+
+    expect(translateToPandas(ratio, "row", options).code)
+      .toBe("import numpy as np\n\ndf[\"Result\"] = df[\"Sales\"] / df[\"Qty\"].replace(0, np.nan)");
+    expect(translateToPandas(halved, "row", options).code).toBe("df[\"Result\"] = (df[\"Qty\"] / 2).astype(int)");
+    expect(translateToPandas(byZero, "row", options).code)
+      .toContain("df[\"Result\"] = (df[\"x\"].fillna(0) / 0 if 0 else np.nan)");
+
+    expect(translateToPolars(ratio, "row", options).code)
+      .toContain("pl.when(pl.col(\"Qty\") != 0).then(pl.col(\"Sales\") / pl.col(\"Qty\"))");
+    expect(translateToPolars(halved, "row", options).code).toContain("(pl.col(\"Qty\") / 2).cast(pl.Int64)");
+
+    for (const translate of [translateToSql, translateToPandas, translateToPolars]) {
+      expect(translate(ratio, "row", options).confidence).toBe("high");
+    }
+  });
+});
+
+describe("translateToSql", () => {
+  it("should compute LODs in CTEs joined on their dimensions", () => {
+    const ast = parse("AVG({FIXED [Customer] : SUM([Sales])})");
+    const result = translateToSql(ast, classifyCalculation(ast), createOptions({ dimensions: ["Region"] }));
+
+    expect(result.code).toBe([
+      "WITH lod_1 AS (",
+      "  SELECT \"Customer\", SUM(\"Sales\") AS lod_value",
+      "  FROM orders",
+      "  GROUP BY \"Customer\"",
+      ")",
+      "SELECT t.\"Region\", AVG(lod_1.lod_value) AS \"Result\"",
+      "FROM orders AS t",
+      "LEFT JOIN lod_1 ON t.\"Customer\" = lod_1.\"Customer\"",
+      "GROUP BY t.\"Region\""
+    ].join("\n"));
+    expect(result.confidence).toBe("medium");
+  });
+
+  it("should use window functions for table calculations and || for strings", () => {
+    const running = parse("RUNNING_SUM(SUM([Sales]))");
+    expect(translateToSql(running, "table calculation", createOptions({ dimensions: ["Month"] })).code)
+      .toContain("SUM(SUM(\"Sales\")) OVER (ORDER BY \"Month\" ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW)");
+
+    const label = parse("[City] + ', ' + UPPER([State])");
+    expect(translateToSql(label, "row", createOptions()).code).toContain("\"City\" || ', ' || UPPER(\"State\")");
+  });
+});
+
+describe("translateToPandas", () => {
+  it("should use Series operators for columns and np.select for IF", () => {
+    const ast = parse("IF [Sales] > [Parameters].[Parameter 1] AND NOT [Returned] THEN 'Big' ELSE 'Small' END");
+    const parameters = new Map([["Parameter 1", { caption: "Threshold", value: "500" }]]);
+    const result = translateToPandas(ast, "row", createOptions({ parameters }));
+
+    expect(result.code).toBe([
+      "import numpy as np",
+      "",
+      "params = {",
+      "    \"Threshold\": 500,",
+      "}",
+      "df[\"Result\"] = np.where((df[\"Sales\"] > params[\"Threshold\"]) & (~df[\"Returned\"]), \"Big\", \"Small\")"
+    ].join("\n"));
+    expect(result.confidence).toBe("high");
+  });
+
+  it("should aggregate by the view's dimensions before a table calculation", () => {
+    const ast = parse("RANK(SUM([Sales])) <= 10");
+    const result = translateToPandas(ast, "table calculation", createOptions({ dimensions: ["Product"] }));
+
+    expect(result.code).toContain("\"_agg_1\": g[\"Sales\"].sum(),");
+    expect(result.code).toContain("agg[\"Result\"] = agg[\"_agg_1\"].rank(method=\"min\", ascending=False) <= 10");
+  });
+});
+
+describe("translateToPolars", () => {
+  it("should compute LODs as window expressions", () => {
+    const ast = parse("[Sales] / {FIXED [Region] : SUM([Sales])}");
+    const result = translateToPolars(ast, "row", createOptions());
+
+    expect(result.code).toBe([
+      "import polars as pl",
+      "",
+      "df = df.with_columns(pl.col(\"Sales\").sum().over([\"Region\"]).alias(\"_lod_1\"))",
+      "df = df.with_columns((pl.when(pl.col(\"_lod_1\") != 0).then(pl.col(\"Sales\") / pl.col(\"_lod_1\"))).alias(\"Result\"))"
+    ].join("\n"));
+  });
+
+  it("should flag functions with no equivalent", () => {
+    const ast = parse("HEXBINX([x], [y])");
+    const result = translateToPolars(ast, "row", createOptions());
+
+    expect(result).toMatchObject({ confidence: "low", unsupportedFunctions: ["HEXBINX"] });
+  });
+});
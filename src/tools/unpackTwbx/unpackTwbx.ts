@@ -38,12 +38,43 @@ type UnpackTwbxParams = z.infer<typeof paramsSchema>;
 /**
  * Summary of files by category
  */
-interface CategorySummary {
-  twbFiles: string[];
-  dataFiles: string[];
-  imageFiles: string[];
-  otherFiles: string[];
-}
+const categorySummarySchema = z.object({
+  twbFiles: z.array(z.string()),
+  dataFiles: z.array(z.string()),
+  imageFiles: z.array(z.string()),
+  otherFiles: z.array(z.string())
+});
+
+type CategorySummary = z.infer<typeof categorySummarySchema>;
+
+/**
+ * Structured output schema for unpackTwbx tool
+ */
+const outputSchema = z.object({
+  success: z.boolean(),
+  sourceFile: z.string(),
+  extractionPath: z.string(),
+  mainTwbFile: z.string().nullable(),
+  mainTwbPath: z.string().nullable(),
+  summary: z.object({
+    totalFiles: z.number(),
+    totalSize: z.number(),
+    totalSizeFormatted: z.string(),
+    twbCount: z.number(),
+    dataCount: z.number(),
+    imageCount: z.number(),
+    otherCount: z.number()
+  }),
+  categories: categorySummarySchema,
+  fileInventory: z.array(z.object({
+    path: z.string(),
+    size: z.number(),
+    sizeFormatted: z.string(),
+    extension: z.string(),
+    category: z.enum(["twb", "data", "image", "other"]),
+    isDirectory: z.boolean()
+  }))
+});
 
 /**
  * Factory function to create the unpackTwbx tool
@@ -78,8 +109,13 @@ export function unpackTwbxTool(server: Server): Tool<typeof paramsSchema.shape>
       "Categories: twb (workbook XML), data (extracts like .hyper/.tde), image (embedded images), other. " +
       "Use with files downloaded via download_workbook_twbx tool.",
     paramsSchema: paramsSchema.shape,
+    outputSchema: outputSchema.shape,
     annotations: {
-      title: "Unpack TWBX"
+      title: "Unpack TWBX",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
     },
 
     callback: async (args: UnpackTwbxParams): Promise<Ok<CallToolResult>> => {
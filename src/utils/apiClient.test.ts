@@ -0,0 +1,127 @@
+/**
+ * Tests for apiClient retry policy
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { apiClient, getRetryDelay, parseRetryAfter } from "./apiClient.js";
+
+type Outcome = { status: number; headers?: Record<string, string> } | { code: string };
+
+/**
+ * Install a fake adapter that plays back the given outcomes in order
+ */
+function playBack(outcomes: Outcome[]): { calls: number } {
+  const counter = { calls: 0 };
+
+  apiClient.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const outcome = outcomes[counter.calls++];
+
+    if ("code" in outcome) {
+      throw new AxiosError("timeout", outcome.code, config, {});
+    }
+
+    const response = {
+      status: outcome.status,
+      statusText: "",
+      headers: outcome.headers ?? {},
+      data: { ok: outcome.status === 200 },
+      config
+    } as AxiosResponse;
+
+    if (outcome.status >= 400) {
+      throw new AxiosError("failed", AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+    }
+    return response;
+  };
+
+  return counter;
+}
+
+describe("apiClient retries", () => {
+  const originalAdapter = apiClient.defaults.adapter;
+
+  beforeEach(() => {
+    process.env.RETRY_BASE_DELAY_MS = "1";
+    process.env.RETRY_MAX_DELAY_MS = "50";
+    process.env.RETRY_MAX_ATTEMPTS = "3";
+  });
+
+  afterEach(() => {
+    apiClient.defaults.adapter = originalAdapter;
+    delete process.env.RETRY_BASE_DELAY_MS;
+    delete process.env.RETRY_MAX_DELAY_MS;
+    delete process.env.RETRY_MAX_ATTEMPTS;
+  });
+
+  it("should retry 5xx responses until success", async () => {
+    const counter = playBack([{ status: 503 }, { status: 502 }, { status: 200 }]);
+
+    const response = await apiClient.get("/profile/api/john");
+
+    expect(response.data).toEqual({ ok: true });
+    expect(counter.calls).toBe(3);
+  });
+
+  it("should retry network timeouts", async () => {
+    const counter = playBack([{ code: "ECONNABORTED" }, { status: 200 }]);
+
+    await apiClient.get("/profile/api/john");
+
+    expect(counter.calls).toBe(2);
+  });
+
+  it("should stop after the maximum number of attempts", async () => {
+    const counter = playBack([{ status: 500 }, { status: 500 }, { status: 500 }, { status: 200 }]);
+
+    await expect(apiClient.get("/profile/api/john")).rejects.toMatchObject({
+      response: { status: 500 }
+    });
+    expect(counter.calls).toBe(3);
+  });
+
+  it("should not retry client errors", async () => {
+    const counter = playBack([{ status: 404 }, { status: 200 }]);
+
+    await expect(apiClient.get("/profile/api/nobody")).rejects.toBeInstanceOf(AxiosError);
+    expect(counter.calls).toBe(1);
+  });
+
+  it("should give up when Retry-After exceeds the maximum delay", async () => {
+    const counter = playBack([{ status: 429, headers: { "retry-after": "120" } }, { status: 200 }]);
+
+    await expect(apiClient.get("/profile/api/john")).rejects.toMatchObject({
+      response: { status: 429 }
+    });
+    expect(counter.calls).toBe(1);
+  });
+});
+
+describe("getRetryDelay", () => {
+  const retryConfig = { retryBaseDelayMs: 500, retryMaxDelayMs: 10000 };
+
+  it("should back off exponentially with jitter", () => {
+    expect(getRetryDelay(1, undefined, retryConfig, () => 0)).toBe(250);
+    expect(getRetryDelay(1, undefined, retryConfig, () => 0.999)).toBe(500);
+    expect(getRetryDelay(3, undefined, retryConfig, () => 0)).toBe(1000);
+  });
+
+  it("should cap the backoff at the maximum delay", () => {
+    expect(getRetryDelay(10, undefined, retryConfig, () => 0.999)).toBe(9995);
+  });
+
+  it("should honour Retry-After", () => {
+    expect(getRetryDelay(1, "2", retryConfig)).toBe(2000);
+    expect(getRetryDelay(1, "60", retryConfig)).toBeNull();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+    expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
+    expect(parseRetryAfter("soon")).toBeNull();
+    expect(parseRetryAfter(undefined)).toBeNull();
+  });
+});
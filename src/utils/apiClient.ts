@@ -1,15 +1,39 @@
 /**
  * HTTP client for Tableau Public API interactions
  *
- * Provides a configured Axios instance with interceptors for logging
- * and error handling. All API requests should use this client.
+ * Provides a configured Axios instance with interceptors for logging,
+ * error handling and retries. All API requests should use this client.
  */
 
 import axios, { AxiosInstance, AxiosError } from "axios";
-import { getConfig } from "../config.js";
+import { getConfig, Config } from "../config.js";
+import { getRateLimiter } from "./rateLimiter.js";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** Attempt number of this request (1 for the first try), set by the retry interceptor */
+    retryAttempt?: number;
+  }
+}
 
 const config = getConfig();
 
+/**
+ * HTTP statuses worth retrying: rate limiting and transient server errors
+ */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Network error codes worth retrying: timeouts and dropped connections
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "EAI_AGAIN",
+  "ERR_NETWORK"
+]);
+
 /**
  * Configured Axios instance for Tableau Public API requests
  *
@@ -17,6 +41,8 @@ const config = getConfig();
  * - Automatic base URL configuration
  * - Request/response logging to stderr (stdout reserved for MCP protocol)
  * - Timeout handling
+ * - Retries with jittered exponential backoff for 429, 5xx and network timeouts
+ * - Process-wide rate limiting shared by every tool (including retries)
  * - Custom user agent
  *
  * @example
@@ -34,6 +60,24 @@ export const apiClient: AxiosInstance = axios.create({
   }
 });
 
+/**
+ * Request interceptor - waits for the shared rate limiter
+ *
+ * Registered before the logging interceptor so it runs after it (axios
+ * runs request interceptors in reverse order) and requests are logged
+ * when queued rather than when sent.
+ */
+apiClient.interceptors.request.use(async (config) => {
+  const limiter = getRateLimiter();
+  if (limiter) {
+    const method = config.method?.toUpperCase() || "GET";
+    const url = config.url || "";
+    const pathname = new URL(url, config.baseURL || "http://localhost").pathname;
+    await limiter.acquire(pathname, `${method} ${url}`);
+  }
+  return config;
+});
+
 /**
  * Request interceptor - logs outgoing API requests
  */
@@ -85,6 +129,122 @@ apiClient.interceptors.response.use(
   }
 );
 
+/**
+ * Response interceptor - retries transient failures
+ *
+ * Registered after the logging interceptor so every failed attempt is
+ * logged. Only idempotent (GET/HEAD) requests are retried.
+ */
+apiClient.interceptors.response.use(
+  undefined,
+  async (error: AxiosError) => {
+    const requestConfig = error.config;
+    if (!requestConfig || !isRetryableError(error)) {
+      return Promise.reject(error);
+    }
+
+    const retryConfig = getConfig();
+    const attempt = requestConfig.retryAttempt ?? 1;
+    if (attempt >= retryConfig.retryMaxAttempts) {
+      return Promise.reject(error);
+    }
+
+    const delay = getRetryDelay(attempt, error.response?.headers?.["retry-after"], retryConfig);
+    const reason = error.response ? String(error.response.status) : error.code;
+
+    if (delay === null) {
+      console.error(
+        `[API Retry] ${reason} ${requestConfig.url}: Retry-After exceeds ${retryConfig.retryMaxDelayMs}ms, not retrying`
+      );
+      return Promise.reject(error);
+    }
+
+    console.error(
+      `[API Retry] ${reason} ${requestConfig.url}: attempt ${attempt + 1}/${retryConfig.retryMaxAttempts} in ${delay}ms`
+    );
+    await new Promise(resolve => setTimeout(resolve, delay));
+
+    return apiClient.request({ ...requestConfig, retryAttempt: attempt + 1 });
+  }
+);
+
+/**
+ * Check whether a failed request should be retried
+ *
+ * @param error - The Axios error from a failed request
+ * @returns True for idempotent requests that hit 429, 5xx or a network timeout
+ */
+export function isRetryableError(error: AxiosError): boolean {
+  const method = (error.config?.method || "get").toLowerCase();
+  if (method !== "get" && method !== "head") {
+    return false;
+  }
+
+  if (error.response) {
+    return RETRYABLE_STATUSES.has(error.response.status);
+  }
+
+  return error.code !== undefined && RETRYABLE_ERROR_CODES.has(error.code);
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ *
+ * @param value - Header value: delay in seconds or an HTTP date
+ * @returns Delay in milliseconds, or null if absent or unparseable
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+
+  const date = Date.parse(text);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Compute the delay before the next retry
+ *
+ * Honours Retry-After when the server sends it; otherwise uses exponential
+ * backoff (base * 2^(attempt-1), capped at the max delay) with equal jitter
+ * so concurrent clients don't retry in lockstep.
+ *
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param retryAfter - Retry-After header value, if any
+ * @param retryConfig - Backoff settings from Config
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds, or null if Retry-After exceeds the max delay
+ *
+ * @example
+ * ```typescript
+ * getRetryDelay(1, undefined, { retryBaseDelayMs: 500, retryMaxDelayMs: 10000 }); // 250-500
+ * getRetryDelay(3, undefined, { retryBaseDelayMs: 500, retryMaxDelayMs: 10000 }); // 1000-2000
+ * getRetryDelay(1, "2", { retryBaseDelayMs: 500, retryMaxDelayMs: 10000 });       // 2000
+ * ```
+ */
+export function getRetryDelay(
+  attempt: number,
+  retryAfter: unknown,
+  retryConfig: Pick<Config, "retryBaseDelayMs" | "retryMaxDelayMs">,
+  random: () => number = Math.random
+): number | null {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  if (retryAfterMs !== null) {
+    return retryAfterMs > retryConfig.retryMaxDelayMs ? null : retryAfterMs;
+  }
+
+  const backoff = Math.min(
+    retryConfig.retryMaxDelayMs,
+    retryConfig.retryBaseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+}
+
 /**
  * Type guard to check if an error is an Axios error
  *
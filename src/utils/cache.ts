@@ -5,6 +5,7 @@
  * - LRU (Least Recently Used) eviction when max entries reached
  * - Cache hit/miss statistics for monitoring
  * - Configurable TTL per entry
+ * - Stale window for stale-while-revalidate, with HTTP validators
  *
  * @see https://github.com/tableau/tableau-mcp/blob/main/src/utils/expiringMap.ts
  */
@@ -17,7 +18,29 @@ import { getConfig } from "../config.js";
 interface CacheEntry<T> {
   data: T;
   expiresAt: number;
+  staleUntil: number;
   lastAccessed: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * HTTP validators stored with an entry for conditional revalidation
+ */
+export interface CacheValidators {
+  /** ETag response header, sent back as If-None-Match */
+  etag?: string;
+  /** Last-Modified response header, sent back as If-Modified-Since */
+  lastModified?: string;
+}
+
+/**
+ * Result of looking up an entry that may be stale
+ */
+export interface CacheLookup<T> extends CacheValidators {
+  data: T;
+  /** True when the TTL has passed but the entry is within its stale window */
+  stale: boolean;
 }
 
 /**
@@ -25,6 +48,7 @@ interface CacheEntry<T> {
  */
 export interface CacheStats {
   hits: number;
+  staleHits: number;
   misses: number;
   evictions: number;
   size: number;
@@ -58,6 +82,8 @@ export const TTL = {
  * - LRU eviction when max entries reached (enhancement)
  * - Hit/miss statistics for monitoring (enhancement)
  * - Pattern-based invalidation (enhancement)
+ * - Stale window: expired entries are kept for staleTTL so they can be
+ *   served while a refresh happens (see lookup)
  *
  * @example
  * ```typescript
@@ -72,6 +98,7 @@ export class Cache<T = unknown> {
   private timeouts = new Map<string, NodeJS.Timeout>();
   private stats: CacheStats = {
     hits: 0,
+    staleHits: 0,
     misses: 0,
     evictions: 0,
     size: 0,
@@ -80,7 +107,8 @@ export class Cache<T = unknown> {
 
   constructor(
     private readonly defaultTTL: number,
-    private readonly maxEntries: number = 1000
+    private readonly maxEntries: number = 1000,
+    private readonly staleTTL: number = 0
   ) {}
 
   /**
@@ -107,46 +135,76 @@ export class Cache<T = unknown> {
   }
 
   /**
-   * Get a value from the cache
+   * Get a fresh value from the cache
    * Updates lastAccessed for LRU tracking
    */
   get(key: string): T | undefined {
-    const entry = this.cache.get(key);
+    const entry = this.getLiveEntry(key);
 
-    if (!entry) {
+    if (!entry || Date.now() > entry.expiresAt) {
       this.stats.misses++;
       this.updateHitRate();
       return undefined;
     }
 
-    // Check if expired (belt and suspenders - timeout should handle this)
-    if (Date.now() > entry.expiresAt) {
-      this.delete(key);
+    // Update lastAccessed for LRU
+    entry.lastAccessed = Date.now();
+    this.stats.hits++;
+    this.updateHitRate();
+
+    return entry.data;
+  }
+
+  /**
+   * Look up a value, including entries within their stale window
+   * Updates lastAccessed for LRU tracking
+   *
+   * @returns The entry data, staleness and validators, or undefined on a miss
+   */
+  lookup(key: string): CacheLookup<T> | undefined {
+    const entry = this.getLiveEntry(key);
+
+    if (!entry) {
       this.stats.misses++;
       this.updateHitRate();
       return undefined;
     }
 
+    const now = Date.now();
+    const stale = now > entry.expiresAt;
+
     // Update lastAccessed for LRU
-    entry.lastAccessed = Date.now();
-    this.stats.hits++;
+    entry.lastAccessed = now;
+    if (stale) {
+      this.stats.staleHits++;
+    } else {
+      this.stats.hits++;
+    }
     this.updateHitRate();
 
-    return entry.data;
+    return {
+      data: entry.data,
+      stale,
+      etag: entry.etag,
+      lastModified: entry.lastModified,
+    };
   }
 
   /**
    * Store a value in the cache with optional custom TTL
    * Triggers LRU eviction if max entries reached
+   *
+   * @param validators - Optional ETag/Last-Modified for conditional revalidation
    */
-  set(key: string, data: T, ttl?: number): void {
+  set(key: string, data: T, ttl?: number, validators: CacheValidators = {}): void {
     const effectiveTTL = ttl ?? this.defaultTTL;
+    const lifetime = effectiveTTL + this.staleTTL;
 
     // Validate TTL (like official Tableau MCP)
     if (effectiveTTL <= 0) {
       throw new Error("TTL must be greater than 0");
     }
-    if (effectiveTTL > 2 ** 31 - 1) {
+    if (lifetime > 2 ** 31 - 1) {
       throw new Error("TTL exceeds maximum setTimeout value");
     }
 
@@ -165,13 +223,16 @@ export class Cache<T = unknown> {
     this.cache.set(key, {
       data,
       expiresAt: now + effectiveTTL,
+      staleUntil: now + lifetime,
       lastAccessed: now,
+      etag: validators.etag,
+      lastModified: validators.lastModified,
     });
 
-    // Set expiration timeout (like official Tableau MCP)
+    // Set expiration timeout at the end of the stale window (like official Tableau MCP)
     const timeout = setTimeout(() => {
       this.delete(key);
-    }, effectiveTTL);
+    }, lifetime);
 
     this.timeouts.set(key, timeout);
     this.stats.size = this.cache.size;
@@ -223,13 +284,8 @@ export class Cache<T = unknown> {
    * Check if a key exists and is not expired
    */
   has(key: string): boolean {
-    const entry = this.cache.get(key);
-    if (!entry) return false;
-    if (Date.now() > entry.expiresAt) {
-      this.delete(key);
-      return false;
-    }
-    return true;
+    const entry = this.getLiveEntry(key);
+    return entry !== undefined && Date.now() <= entry.expiresAt;
   }
 
   /**
@@ -251,11 +307,27 @@ export class Cache<T = unknown> {
    */
   resetStats(): void {
     this.stats.hits = 0;
+    this.stats.staleHits = 0;
     this.stats.misses = 0;
     this.stats.evictions = 0;
     this.updateHitRate();
   }
 
+  /**
+   * Get an entry that is fresh or within its stale window
+   * Removes entries past the stale window (belt and suspenders - timeout should handle this)
+   */
+  private getLiveEntry(key: string): CacheEntry<T> | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() > entry.staleUntil) {
+      this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
   /**
    * Evict the least recently used entry
    */
@@ -277,11 +349,12 @@ export class Cache<T = unknown> {
   }
 
   /**
-   * Update hit rate percentage
+   * Update hit rate percentage (stale hits count as hits)
    */
   private updateHitRate(): void {
-    const total = this.stats.hits + this.stats.misses;
-    this.stats.hitRate = total > 0 ? (this.stats.hits / total) * 100 : 0;
+    const served = this.stats.hits + this.stats.staleHits;
+    const total = served + this.stats.misses;
+    this.stats.hitRate = total > 0 ? (served / total) * 100 : 0;
   }
 
   /**
@@ -305,7 +378,7 @@ let _discoveryCache: Cache | undefined;
 export function getProfileCache(): Cache {
   if (!_profileCache) {
     const config = getConfig();
-    _profileCache = new Cache(TTL.PROFILE, config.cacheMaxEntries);
+    _profileCache = new Cache(TTL.PROFILE, config.cacheMaxEntries, config.cacheStaleTTL);
   }
   return _profileCache;
 }
@@ -316,7 +389,7 @@ export function getProfileCache(): Cache {
 export function getWorkbookCache(): Cache {
   if (!_workbookCache) {
     const config = getConfig();
-    _workbookCache = new Cache(TTL.WORKBOOKS, config.cacheMaxEntries);
+    _workbookCache = new Cache(TTL.WORKBOOKS, config.cacheMaxEntries, config.cacheStaleTTL);
   }
   return _workbookCache;
 }
@@ -327,7 +400,7 @@ export function getWorkbookCache(): Cache {
 export function getSearchCache(): Cache {
   if (!_searchCache) {
     const config = getConfig();
-    _searchCache = new Cache(TTL.SEARCH, config.cacheMaxEntries);
+    _searchCache = new Cache(TTL.SEARCH, config.cacheMaxEntries, config.cacheStaleTTL);
   }
   return _searchCache;
 }
@@ -338,7 +411,7 @@ export function getSearchCache(): Cache {
 export function getDiscoveryCache(): Cache {
   if (!_discoveryCache) {
     const config = getConfig();
-    _discoveryCache = new Cache(TTL.VOTD, config.cacheMaxEntries);
+    _discoveryCache = new Cache(TTL.VOTD, config.cacheMaxEntries, config.cacheStaleTTL);
   }
   return _discoveryCache;
 }
@@ -350,6 +423,7 @@ export function getAllCacheStats(): Record<string, CacheStats> {
   return {
     profile: _profileCache?.getStats() ?? {
       hits: 0,
+      staleHits: 0,
       misses: 0,
       evictions: 0,
       size: 0,
@@ -357,6 +431,7 @@ export function getAllCacheStats(): Record<string, CacheStats> {
     },
     workbook: _workbookCache?.getStats() ?? {
       hits: 0,
+      staleHits: 0,
       misses: 0,
       evictions: 0,
       size: 0,
@@ -364,6 +439,7 @@ export function getAllCacheStats(): Record<string, CacheStats> {
     },
     search: _searchCache?.getStats() ?? {
       hits: 0,
+      staleHits: 0,
       misses: 0,
       evictions: 0,
       size: 0,
@@ -371,6 +447,7 @@ export function getAllCacheStats(): Record<string, CacheStats> {
     },
     discovery: _discoveryCache?.getStats() ?? {
       hits: 0,
+      staleHits: 0,
       misses: 0,
       evictions: 0,
       size: 0,
@@ -0,0 +1,123 @@
+/**
+ * Tests for cachedGet revalidation and request coalescing
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { cachedGet } from "./cachedApiClient.js";
+import { apiClient } from "./apiClient.js";
+import { clearAllCaches } from "./cache.js";
+import { getDiskCache } from "./diskCache.js";
+
+vi.mock("./apiClient.js", () => ({
+  apiClient: { get: vi.fn() }
+}));
+
+vi.mock("./diskCache.js", () => ({
+  getDiskCache: vi.fn().mockReturnValue(null)
+}));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("cachedGet", () => {
+  beforeEach(() => {
+    clearAllCaches();
+    vi.clearAllMocks();
+  });
+
+  it("should coalesce concurrent identical requests", async () => {
+    vi.mocked(apiClient.get).mockImplementation(async () => {
+      await sleep(5);
+      return { status: 200, data: { name: "John" }, headers: {} };
+    });
+
+    const [first, second] = await Promise.all([
+      cachedGet("/profile/api/john"),
+      cachedGet("/profile/api/john", undefined, { bypassCache: true })
+    ]);
+
+    expect(first).toEqual({ name: "John" });
+    expect(second).toBe(first);
+    expect(apiClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("should serve stale entries immediately and refresh them in the background", async () => {
+    vi.mocked(apiClient.get)
+      .mockResolvedValueOnce({ status: 200, data: { version: 1 }, headers: {} })
+      .mockResolvedValue({ status: 200, data: { version: 2 }, headers: {} });
+
+    await cachedGet("/profile/api/john", undefined, { ttl: 1 });
+    await sleep(5);
+
+    const stale = await cachedGet("/profile/api/john", undefined, { ttl: 1 });
+    expect(stale).toEqual({ version: 1 });
+    expect(apiClient.get).toHaveBeenCalledTimes(2);
+
+    // Once the background refresh lands, the new data is served
+    await sleep(5);
+    expect(await cachedGet("/profile/api/john")).toEqual({ version: 2 });
+  });
+
+  it("should send validators on revalidation and reuse data on 304", async () => {
+    vi.mocked(apiClient.get)
+      .mockResolvedValueOnce({
+        status: 200,
+        data: { version: 1 },
+        headers: { etag: "\"abc\"", "last-modified": "Mon, 19 Oct 2026 10:00:00 GMT" }
+      })
+      .mockResolvedValue({ status: 304, data: "", headers: {} });
+
+    await cachedGet("/profile/api/john", undefined, { ttl: 1 });
+    await sleep(5);
+    await cachedGet("/profile/api/john", undefined, { ttl: 1 });
+    await sleep(5);
+
+    const [, config] = vi.mocked(apiClient.get).mock.calls[1];
+    expect(config?.headers).toEqual({
+      "If-None-Match": "\"abc\"",
+      "If-Modified-Since": "Mon, 19 Oct 2026 10:00:00 GMT"
+    });
+
+    // The 304 refreshed the entry with the original data
+    expect(await cachedGet("/profile/api/john")).toEqual({ version: 1 });
+  });
+
+  it("should not send validators on a cold miss", async () => {
+    vi.mocked(apiClient.get).mockResolvedValueOnce({ status: 200, data: [], headers: {} });
+
+    await cachedGet("/public/apis/workbooks", { profileName: "john" });
+
+    const [, config] = vi.mocked(apiClient.get).mock.calls[0];
+    expect(config?.headers).toEqual({});
+    expect(config?.params).toEqual({ profileName: "john" });
+  });
+
+  it("should serve stale disk entries and revalidate them with their validators", async () => {
+    const diskCache = {
+      lookup: vi.fn().mockResolvedValue({
+        data: { version: 1 },
+        stale: true,
+        expiresAt: Date.now() - 1000,
+        etag: "\"abc\""
+      }),
+      set: vi.fn().mockResolvedValue(undefined)
+    };
+    vi.mocked(getDiskCache).mockReturnValue(diskCache as unknown as ReturnType<typeof getDiskCache>);
+    vi.mocked(apiClient.get).mockResolvedValue({ status: 304, data: "", headers: {} });
+
+    try {
+      expect(await cachedGet("/profile/api/john")).toEqual({ version: 1 });
+      await sleep(5);
+
+      const [, config] = vi.mocked(apiClient.get).mock.calls[0];
+      expect(config?.headers).toEqual({ "If-None-Match": "\"abc\"" });
+      expect(diskCache.set).toHaveBeenCalledWith(
+        "/profile/api/john",
+        { version: 1 },
+        expect.any(Number),
+        { etag: "\"abc\"", lastModified: undefined }
+      );
+    } finally {
+      vi.mocked(getDiskCache).mockReturnValue(null);
+    }
+  });
+});
@@ -3,6 +3,9 @@
  *
  * Provides transparent caching for API responses based on endpoint patterns.
  * Automatically selects the appropriate cache and TTL based on the endpoint.
+ * When the disk tier is enabled (DISK_CACHE_ENABLED), lookups check memory,
+ * then disk, then the network. Expired entries are served stale while they
+ * are revalidated, and identical concurrent requests share one API call.
  *
  * @example
  * ```typescript
@@ -17,12 +20,14 @@
 import { apiClient } from "./apiClient.js";
 import {
   Cache,
+  CacheLookup,
   TTL,
   getProfileCache,
   getWorkbookCache,
   getSearchCache,
   getDiscoveryCache,
 } from "./cache.js";
+import { getDiskCache } from "./diskCache.js";
 import { getConfig } from "../config.js";
 
 /**
@@ -139,11 +144,95 @@ function getCacheMapping(endpoint: string): CacheMapping | null {
   return null;
 }
 
+/**
+ * Requests currently on the wire, keyed by cache key
+ * Concurrent identical requests share one promise instead of each hitting the API
+ */
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a fetch once per key, sharing the promise with concurrent callers
+ */
+function coalesce<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const existing = inFlight.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+
+  const request = fetcher().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Fetch from the API and store the response in the cache tiers
+ *
+ * When a previous entry is supplied, its ETag/Last-Modified validators are
+ * sent as If-None-Match/If-Modified-Since and a 304 reuses its data.
+ */
+async function fetchAndStore<T>(
+  endpoint: string,
+  params: Record<string, unknown> | undefined,
+  cacheKey: string,
+  cacheMapping: CacheMapping | null,
+  ttl: number | undefined,
+  previous?: CacheLookup<unknown>
+): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (previous?.etag) {
+    headers["If-None-Match"] = previous.etag;
+  }
+  if (previous?.lastModified) {
+    headers["If-Modified-Since"] = previous.lastModified;
+  }
+
+  const response = await apiClient.get(endpoint, {
+    params,
+    headers,
+    validateStatus: (status) => (status >= 200 && status < 300) || (status === 304 && previous !== undefined),
+  });
+
+  const notModified = response.status === 304 && previous !== undefined;
+  const data = (notModified ? previous.data : response.data) as T;
+
+  if (cacheMapping) {
+    const cache = cacheMapping.getCache();
+    const effectiveTTL = ttl ?? cacheMapping.ttl;
+    const etag = response.headers?.["etag"];
+    const lastModified = response.headers?.["last-modified"];
+    const validators = {
+      etag: typeof etag === "string" ? etag : previous?.etag,
+      lastModified: typeof lastModified === "string" ? lastModified : previous?.lastModified,
+    };
+
+    cache.set(cacheKey, data, effectiveTTL, validators);
+
+    const diskCache = getDiskCache();
+    if (diskCache) {
+      try {
+        await diskCache.set(cacheKey, data, effectiveTTL, validators);
+      } catch (error) {
+        // A failed disk write should never fail the request
+        console.error(`[Cache] Disk write failed for ${endpoint}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  return data;
+}
+
 /**
  * Make a cached GET request
  *
- * Checks the cache first (if enabled), falls back to API call,
- * and stores the result in cache for future requests.
+ * Checks the memory cache first (if enabled), then the disk tier, and
+ * falls back to an API call whose result is stored for future requests.
+ *
+ * Stale-while-revalidate: an entry (in memory or on disk) whose TTL has
+ * passed but is still within the stale window (CACHE_STALE_TTL) is returned
+ * immediately and refreshed in the background with a conditional request.
+ * Concurrent identical requests are coalesced into a single API call.
  *
  * @param endpoint - The API endpoint path
  * @param params - Query parameters
@@ -165,26 +254,54 @@ export async function cachedGet<T>(
   options: CachedRequestOptions = {}
 ): Promise<T> {
   const config = getConfig();
+  const cacheKey = Cache.generateKey(endpoint, params);
 
   // If caching is disabled globally, skip cache logic
   if (!config.cacheEnabled) {
-    const response = await apiClient.get(endpoint, { params });
-    return response.data as T;
+    return coalesce(cacheKey, () => fetchAndStore<T>(endpoint, params, cacheKey, null, undefined));
   }
 
   const cacheMapping = getCacheMapping(endpoint);
-  const cacheKey = Cache.generateKey(endpoint, params);
 
   // Try to get from cache (unless bypassing)
   if (cacheMapping && !options.bypassCache) {
     const cache = cacheMapping.getCache();
-    const cached = cache.get(cacheKey);
+    const cached = cache.lookup(cacheKey);
 
-    if (cached !== undefined) {
+    if (cached && !cached.stale) {
       if (config.logLevel === "debug") {
         console.error(`[Cache] HIT (${cacheMapping.name}): ${endpoint}`);
       }
-      return cached as T;
+      return cached.data as T;
+    }
+
+    // Fall back to the persistent disk tier
+    const diskCache = getDiskCache();
+    const stored = cached ? undefined : await diskCache?.lookup(cacheKey);
+
+    if (stored && !stored.stale) {
+      if (config.logLevel === "debug") {
+        console.error(`[Cache] DISK HIT (${cacheMapping.name}): ${endpoint}`);
+      }
+      // Promote to memory for the rest of the entry's lifetime
+      cache.set(cacheKey, stored.data, Math.max(1, stored.expiresAt - Date.now()), {
+        etag: stored.etag,
+        lastModified: stored.lastModified,
+      });
+      return stored.data as T;
+    }
+
+    const stale = cached ?? stored;
+    if (stale) {
+      if (config.logLevel === "debug") {
+        const tier = cached ? "STALE" : "DISK STALE";
+        console.error(`[Cache] ${tier} (${cacheMapping.name}): ${endpoint} - revalidating in background`);
+      }
+      coalesce(cacheKey, () => fetchAndStore<T>(endpoint, params, cacheKey, cacheMapping, options.ttl, stale))
+        .catch((error) => {
+          console.error(`[Cache] Background revalidation failed for ${endpoint}:`, error instanceof Error ? error.message : error);
+        });
+      return stale.data as T;
     }
 
     if (config.logLevel === "debug") {
@@ -193,35 +310,28 @@ export async function cachedGet<T>(
   }
 
   // Fetch from API
-  const response = await apiClient.get(endpoint, { params });
-  const data = response.data as T;
-
-  // Store in cache
-  if (cacheMapping) {
-    const cache = cacheMapping.getCache();
-    const ttl = options.ttl ?? cacheMapping.ttl;
-    cache.set(cacheKey, data, ttl);
-  }
-
-  return data;
+  return coalesce(cacheKey, () => fetchAndStore<T>(endpoint, params, cacheKey, cacheMapping, options.ttl));
 }
 
 /**
  * Invalidate cache entries for a specific endpoint pattern
  *
+ * Removes matching entries from every memory cache and, when enabled,
+ * from the disk tier.
+ *
  * @param endpointPattern - Regex pattern matching endpoints to invalidate
  * @returns Number of entries invalidated
  *
  * @example
  * ```typescript
  * // Invalidate all profile cache entries for a user
- * invalidateCache(/\/profile\/api\/john/);
+ * await invalidateCache(/\/profile\/api\/john/);
  *
  * // Invalidate all search results
- * invalidateCache(/\/public\/apis\/bff\/v1\/search\//);
+ * await invalidateCache(/\/public\/apis\/bff\/v1\/search\//);
  * ```
  */
-export function invalidateCache(endpointPattern: RegExp): number {
+export async function invalidateCache(endpointPattern: RegExp): Promise<number> {
   let total = 0;
 
   // Check each cache for matching entries
@@ -236,6 +346,11 @@ export function invalidateCache(endpointPattern: RegExp): number {
     total += cache.invalidatePattern(endpointPattern);
   }
 
+  const diskCache = getDiskCache();
+  if (diskCache) {
+    total += await diskCache.invalidatePattern(endpointPattern);
+  }
+
   return total;
 }
 
@@ -0,0 +1,182 @@
+/**
+ * Tests for the Tableau calculation parser
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseCalculation, findCalcNodes, getCalcNodeSource, CalcNode } from "./calcParser.js";
+import { extractFieldReferences, parseLodExpressions, containsLodExpression } from "./twbParser.js";
+
+/**
+ * Parse a formula that is expected to be valid
+ */
+function parse(formula: string): CalcNode {
+  const result = parseCalculation(formula);
+  if (!result.success) {
+    throw new Error(`Unexpected parse error: ${result.error.message}`);
+  }
+  return result.ast;
+}
+
+describe("parseCalculation", () => {
+  it("should respect operator precedence", () => {
+    const ast = parse("[a] + [b] * 2 > 10 AND NOT [c] OR [d]");
+
+    expect(ast).toMatchObject({
+      type: "BinaryExpression",
+      operator: "OR",
+      left: {
+        operator: "AND",
+        left: {
+          operator: ">",
+          left: { operator: "+", right: { operator: "*" } }
+        },
+        right: { type: "UnaryExpression", operator: "NOT" }
+      },
+      right: { type: "FieldReference", name: "d" }
+    });
+  });
+
+  it("should bind negation tighter than ^, and ^ to the right", () => {
+    expect(parse("-2^2")).toMatchObject({
+      type: "BinaryExpression",
+      operator: "^",
+      left: { type: "UnaryExpression", operator: "-", operand: { value: 2 } },
+      right: { value: 2 }
+    });
+    expect(parse("[a] * -[b]^2")).toMatchObject({
+      operator: "*",
+      right: { operator: "^", left: { type: "UnaryExpression", operand: { name: "b" } } }
+    });
+    expect(parse("2^-3^2")).toMatchObject({
+      operator: "^",
+      left: { value: 2 },
+      right: { operator: "^", left: { type: "UnaryExpression" }, right: { value: 2 } }
+    });
+  });
+
+  it("should parse function calls and classify aggregates and table calcs", () => {
+    const ast = parse("RUNNING_SUM(SUM([Sales])) / MAX([a], [b])");
+
+    const calls = findCalcNodes(ast, "FunctionCall");
+    expect(calls.map(c => [c.name, c.isAggregate, c.isTableCalc])).toEqual([
+      ["RUNNING_SUM", false, true],
+      ["SUM", true, false],
+      ["MAX", false, false]
+    ]);
+  });
+
+  it("should parse IF/ELSEIF/ELSE and CASE blocks", () => {
+    const ifAst = parse("IF [x] > 1 THEN 'big' ELSEIF [x] > 0 THEN 'small' ELSE 'none' END");
+    expect(ifAst).toMatchObject({
+      type: "IfExpression",
+      branches: [{ result: { value: "big" } }, { result: { value: "small" } }],
+      elseResult: { value: "none" }
+    });
+
+    const caseAst = parse("case [Region] when 'East' then 1 when 'West' then 2 end");
+    expect(caseAst).toMatchObject({
+      type: "CaseExpression",
+      subject: { name: "Region" },
+      elseResult: null
+    });
+  });
+
+  it("should parse nested LOD scopes", () => {
+    const ast = parse("{FIXED [Region], [Segment] : AVG({INCLUDE [Customer] : SUM([Sales])})}");
+
+    expect(ast).toMatchObject({
+      type: "LodExpression",
+      lodType: "FIXED",
+      dimensions: [{ name: "Region" }, { name: "Segment" }],
+      expression: {
+        type: "FunctionCall",
+        name: "AVG",
+        args: [{ type: "LodExpression", lodType: "INCLUDE" }]
+      }
+    });
+    expect(parse("{ SUM([Sales]) }")).toMatchObject({ type: "LodExpression", lodType: "FIXED", dimensions: [] });
+  });
+
+  it("should read parameters, escaped brackets, IN lists and date literals", () => {
+    const ast = parse("[Parameters].[Top N] > [Rank [1]]] AND [Region] IN ('East', 'West') OR [Date] >= #2024-01-01#");
+
+    const fields = findCalcNodes(ast, "FieldReference");
+    expect(fields.map(f => [f.name, f.isParameter])).toEqual([
+      ["Top N", true],
+      ["Rank [1]", false],
+      ["Region", false],
+      ["Date", false]
+    ]);
+    expect(findCalcNodes(ast, "InExpression")[0].values).toHaveLength(2);
+    expect(findCalcNodes(ast, "DateLiteral")[0].value).toBe("2024-01-01");
+  });
+
+  it("should read field names written without brackets", () => {
+    expect(parse("SUM(Sales)")).toMatchObject({
+      type: "FunctionCall",
+      name: "SUM",
+      isAggregate: true,
+      args: [{ type: "FieldReference", name: "Sales", datasource: null }]
+    });
+    expect(parse("[Profit] / Sales")).toMatchObject({
+      type: "BinaryExpression",
+      operator: "/",
+      left: { type: "FieldReference", name: "Profit" },
+      right: { type: "FieldReference", name: "Sales", start: 11, end: 16 }
+    });
+  });
+
+  it("should ignore brackets in comments and strings", () => {
+    const formula = "// uses [Not A Field]\nIF CONTAINS([Name], '[draft]') /* {FIXED [x] : 1} */ THEN 1 END";
+    const ast = parse(formula);
+
+    expect(findCalcNodes(ast, "FieldReference").map(f => f.name)).toEqual(["Name"]);
+    expect(findCalcNodes(ast, "LodExpression")).toHaveLength(0);
+    expect(getCalcNodeSource(formula, ast).startsWith("IF")).toBe(true);
+  });
+
+  it("should report the location of syntax errors", () => {
+    const result = parseCalculation("IF [x] > 1\nTHEN 'a'\nELSE 'b'");
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatchObject({ line: 3, column: 9 });
+      expect(result.error.message).toContain("Expected END");
+    }
+  });
+
+  it("should reject unterminated literals and unknown characters", () => {
+    const unterminated = parseCalculation("[Sales] + 'abc");
+    expect(unterminated).toMatchObject({ success: false, error: { message: "Unterminated string", column: 11 } });
+
+    expect(parseCalculation("[a] @ [b]")).toMatchObject({ success: false, error: { column: 5 } });
+    expect(parseCalculation("   ")).toMatchObject({ success: false, error: { message: "Formula is empty" } });
+  });
+});
+
+describe("twbParser helpers built on the calculation parser", () => {
+  it("should extract field references without datasource prefixes or string contents", () => {
+    expect(extractFieldReferences("[Parameters].[Target] - SUM([Sales]) + LEN('[x]')")).toEqual(["Target", "Sales"]);
+  });
+
+  it("should fall back to a bracket scan for unparseable formulas", () => {
+    expect(extractFieldReferences("SUM([Sales]")).toEqual(["Sales"]);
+  });
+
+  it("should return outermost LODs with nested LOD flags", () => {
+    const lods = parseLodExpressions("{FIXED [Region] : AVG({INCLUDE [Customer] : SUM([Sales])})} / 2");
+
+    expect(lods).toHaveLength(1);
+    expect(lods[0]).toMatchObject({
+      lodType: "FIXED",
+      dimensions: ["Region"],
+      aggregation: "AVG",
+      hasNestedLod: true
+    });
+    expect(parseLodExpressions(lods[0].aggregatedExpression)[0]).toMatchObject({
+      lodType: "INCLUDE",
+      aggregation: "SUM"
+    });
+    expect(containsLodExpression("SUM([x]) // {FIXED : 1}")).toBe(false);
+  });
+});
@@ -0,0 +1,841 @@
+/**
+ * Tableau Calculation Language Parser
+ *
+ * Tokenizes and parses calculated field formulas into an abstract syntax
+ * tree. Shared by the TWBX analysis tools so they see the same structure:
+ * functions, operators, field and parameter references, IF/CASE blocks,
+ * LOD scopes and table calculations. Comments and string literals are
+ * handled properly, so brackets or braces inside them are not mistaken
+ * for fields or LODs.
+ *
+ * Malformed formulas produce an error with the line and column of the
+ * offending token instead of a partial result.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/** Token categories produced by the tokenizer */
+export type CalcTokenType =
+  | "number"
+  | "string"
+  | "date"
+  | "field"
+  | "identifier"
+  | "keyword"
+  | "operator"
+  | "punctuation"
+  | "eof";
+
+/** A token with its position in the formula */
+export interface CalcToken {
+  type: CalcTokenType;
+  /** Token text; unescaped contents for strings, fields and dates, upper case for keywords */
+  value: string;
+  /** Offset of the first character */
+  start: number;
+  /** Offset after the last character */
+  end: number;
+}
+
+/** Position of a node in the formula (offsets into the formula string) */
+interface CalcNodeBase {
+  start: number;
+  end: number;
+}
+
+export interface NumberLiteralNode extends CalcNodeBase {
+  type: "NumberLiteral";
+  value: number;
+}
+
+export interface StringLiteralNode extends CalcNodeBase {
+  type: "StringLiteral";
+  value: string;
+}
+
+export interface BooleanLiteralNode extends CalcNodeBase {
+  type: "BooleanLiteral";
+  value: boolean;
+}
+
+export interface NullLiteralNode extends CalcNodeBase {
+  type: "NullLiteral";
+}
+
+/** Date literal such as #2024-01-31# */
+export interface DateLiteralNode extends CalcNodeBase {
+  type: "DateLiteral";
+  value: string;
+}
+
+/** Field or parameter reference such as [Sales] or [Parameters].[Top N] */
+export interface FieldReferenceNode extends CalcNodeBase {
+  type: "FieldReference";
+  /** Field name without brackets */
+  name: string;
+  /** Qualifying data source, if any (e.g. "Parameters") */
+  datasource: string | null;
+  isParameter: boolean;
+}
+
+export interface FunctionCallNode extends CalcNodeBase {
+  type: "FunctionCall";
+  /** Function name in upper case */
+  name: string;
+  args: CalcNode[];
+  /** SUM, AVG, COUNTD, ... (MIN/MAX only with one argument) */
+  isAggregate: boolean;
+  /** RUNNING_SUM, WINDOW_AVG, INDEX, LOOKUP, ... */
+  isTableCalc: boolean;
+}
+
+export interface UnaryExpressionNode extends CalcNodeBase {
+  type: "UnaryExpression";
+  operator: "-" | "NOT";
+  operand: CalcNode;
+}
+
+/** Binary operation; "==" is normalized to "=" and "!=" to "<>" */
+export interface BinaryExpressionNode extends CalcNodeBase {
+  type: "BinaryExpression";
+  operator: "+" | "-" | "*" | "/" | "%" | "^" | "=" | "<>" | "<" | "<=" | ">" | ">=" | "AND" | "OR";
+  left: CalcNode;
+  right: CalcNode;
+}
+
+/** Membership test such as [Region] IN ("East", "West") */
+export interface InExpressionNode extends CalcNodeBase {
+  type: "InExpression";
+  operand: CalcNode;
+  values: CalcNode[];
+}
+
+export interface IfExpressionNode extends CalcNodeBase {
+  type: "IfExpression";
+  /** IF and ELSEIF branches in order */
+  branches: Array<{ condition: CalcNode; result: CalcNode }>;
+  elseResult: CalcNode | null;
+}
+
+export interface CaseExpressionNode extends CalcNodeBase {
+  type: "CaseExpression";
+  subject: CalcNode;
+  branches: Array<{ when: CalcNode; result: CalcNode }>;
+  elseResult: CalcNode | null;
+}
+
+/** Level of detail expression; {SUM([x])} is parsed as FIXED with no dimensions */
+export interface LodExpressionNode extends CalcNodeBase {
+  type: "LodExpression";
+  lodType: "FIXED" | "INCLUDE" | "EXCLUDE";
+  dimensions: CalcNode[];
+  expression: CalcNode;
+}
+
+/** Any node in a calculation AST */
+export type CalcNode =
+  | NumberLiteralNode
+  | StringLiteralNode
+  | BooleanLiteralNode
+  | NullLiteralNode
+  | DateLiteralNode
+  | FieldReferenceNode
+  | FunctionCallNode
+  | UnaryExpressionNode
+  | BinaryExpressionNode
+  | InExpressionNode
+  | IfExpressionNode
+  | CaseExpressionNode
+  | LodExpressionNode;
+
+/** Location of a syntax error */
+export interface CalcParseError {
+  message: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  offset: number;
+}
+
+/** Result type for parseCalculation */
+export type ParseCalcResult = {
+  success: true;
+  ast: CalcNode;
+} | {
+  success: false;
+  error: CalcParseError;
+};
+
+// ============================================
+// FUNCTION CATALOG
+// ============================================
+
+/** Aggregate functions */
+export const AGGREGATE_FUNCTIONS = new Set([
+  "SUM", "AVG", "COUNT", "COUNTD", "MIN", "MAX", "MEDIAN", "ATTR",
+  "STDEV", "STDEVP", "VAR", "VARP", "PERCENTILE", "COLLECT",
+  "CORR", "COVAR", "COVARP"
+]);
+
+/** Table calculation functions */
+export const TABLE_CALC_FUNCTIONS = new Set([
+  "FIRST", "LAST", "INDEX", "LOOKUP", "PREVIOUS_VALUE", "SIZE", "TOTAL",
+  "RANK", "RANK_DENSE", "RANK_MODIFIED", "RANK_PERCENTILE", "RANK_UNIQUE",
+  "RUNNING_AVG", "RUNNING_COUNT", "RUNNING_MAX", "RUNNING_MIN", "RUNNING_SUM",
+  "WINDOW_AVG", "WINDOW_CORR", "WINDOW_COUNT", "WINDOW_COVAR", "WINDOW_COVARP",
+  "WINDOW_MAX", "WINDOW_MEDIAN", "WINDOW_MIN", "WINDOW_PERCENTILE",
+  "WINDOW_STDEV", "WINDOW_STDEVP", "WINDOW_SUM", "WINDOW_VAR", "WINDOW_VARP",
+  "SCRIPT_BOOL", "SCRIPT_INT", "SCRIPT_REAL", "SCRIPT_STR"
+]);
+
+/** Reserved words, matched case-insensitively */
+const KEYWORDS = new Set([
+  "IF", "THEN", "ELSEIF", "ELSE", "END", "CASE", "WHEN",
+  "AND", "OR", "NOT", "IN", "FIXED", "INCLUDE", "EXCLUDE",
+  "TRUE", "FALSE", "NULL"
+]);
+
+/** Operators, longest first so "<=" wins over "<" */
+const OPERATORS = ["<=", ">=", "<>", "!=", "==", "=", "<", ">", "+", "-", "*", "/", "%", "^"];
+
+const PUNCTUATION = new Set(["(", ")", ",", "{", "}", ":", "."]);
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+/** Syntax error raised internally and converted to a CalcParseError */
+class CalcSyntaxError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+/**
+ * Read a delimited literal where the closing delimiter is escaped by doubling it
+ *
+ * @returns Unescaped contents and the offset after the closing delimiter
+ */
+function readDelimited(formula: string, start: number, close: string, what: string): { value: string; end: number } {
+  let value = "";
+  let i = start + 1;
+  while (i < formula.length) {
+    if (formula[i] === close) {
+      if (formula[i + 1] === close) {
+        value += close;
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += formula[i++];
+  }
+  throw new CalcSyntaxError(`Unterminated ${what}`, start);
+}
+
+/**
+ * Split a formula into tokens, skipping whitespace and comments
+ */
+function tokenize(formula: string): CalcToken[] {
+  const tokens: CalcToken[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const ch = formula[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (formula.startsWith("//", i)) {
+      const newline = formula.indexOf("\n", i);
+      i = newline === -1 ? formula.length : newline + 1;
+      continue;
+    }
+
+    // Block comment
+    if (formula.startsWith("/*", i)) {
+      const close = formula.indexOf("*/", i + 2);
+      if (close === -1) {
+        throw new CalcSyntaxError("Unterminated comment", i);
+      }
+      i = close + 2;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const { value, end } = readDelimited(formula, i, ch, "string");
+      tokens.push({ type: "string", value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    if (ch === "[") {
+      const { value, end } = readDelimited(formula, i, "]", "field reference");
+      tokens.push({ type: "field", value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    if (ch === "#") {
+      const { value, end } = readDelimited(formula, i, "#", "date literal");
+      tokens.push({ type: "date", value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    const numberMatch = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(formula.slice(i));
+    if (numberMatch) {
+      tokens.push({ type: "number", value: numberMatch[0], start: i, end: i + numberMatch[0].length });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const wordMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(formula.slice(i));
+    if (wordMatch) {
+      const upper = wordMatch[0].toUpperCase();
+      const isKeyword = KEYWORDS.has(upper);
+      tokens.push({
+        type: isKeyword ? "keyword" : "identifier",
+        value: isKeyword ? upper : wordMatch[0],
+        start: i,
+        end: i + wordMatch[0].length
+      });
+      i += wordMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => formula.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.has(ch)) {
+      tokens.push({ type: "punctuation", value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new CalcSyntaxError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ type: "eof", value: "", start: formula.length, end: formula.length });
+  return tokens;
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+/**
+ * Recursive descent parser over the token stream
+ *
+ * Precedence, lowest first: OR, AND, NOT, comparison and IN, + -,
+ * * / %, ^, unary minus (as in Tableau, -2^2 is (-2)^2 = 4).
+ */
+class CalcParser {
+  private index = 0;
+
+  constructor(private readonly tokens: CalcToken[]) {}
+
+  parse(): CalcNode {
+    if (this.peek().type === "eof") {
+      throw new CalcSyntaxError("Formula is empty", 0);
+    }
+    const node = this.parseExpression();
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new CalcSyntaxError(`Unexpected ${describe(next)} after end of expression`, next.start);
+    }
+    return node;
+  }
+
+  private peek(): CalcToken {
+    return this.tokens[this.index];
+  }
+
+  private advance(): CalcToken {
+    const token = this.tokens[this.index];
+    if (token.type !== "eof") this.index++;
+    return token;
+  }
+
+  private isKeyword(...keywords: string[]): boolean {
+    const token = this.peek();
+    return token.type === "keyword" && keywords.includes(token.value);
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token.type === "operator" && operators.includes(token.value);
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === "punctuation" && token.value === value;
+  }
+
+  private expectKeyword(keyword: string, context: string): CalcToken {
+    if (!this.isKeyword(keyword)) {
+      const token = this.peek();
+      throw new CalcSyntaxError(`Expected ${keyword} ${context} but found ${describe(token)}`, token.start);
+    }
+    return this.advance();
+  }
+
+  private expectPunctuation(value: string, context: string): CalcToken {
+    if (!this.isPunctuation(value)) {
+      const token = this.peek();
+      throw new CalcSyntaxError(`Expected '${value}' ${context} but found ${describe(token)}`, token.start);
+    }
+    return this.advance();
+  }
+
+  private parseExpression(): CalcNode {
+    return this.parseOr();
+  }
+
+  private parseOr(): CalcNode {
+    let left = this.parseAnd();
+    while (this.isKeyword("OR")) {
+      this.advance();
+      const right = this.parseAnd();
+      left = binary("OR", left, right);
+    }
+    return left;
+  }
+
+  private parseAnd(): CalcNode {
+    let left = this.parseNot();
+    while (this.isKeyword("AND")) {
+      this.advance();
+      const right = this.parseNot();
+      left = binary("AND", left, right);
+    }
+    return left;
+  }
+
+  private parseNot(): CalcNode {
+    if (this.isKeyword("NOT")) {
+      const token = this.advance();
+      const operand = this.parseNot();
+      return { type: "UnaryExpression", operator: "NOT", operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): CalcNode {
+    let left = this.parseAdditive();
+
+    for (;;) {
+      if (this.isOperator("=", "==", "<>", "!=", "<", "<=", ">", ">=")) {
+        const raw = this.advance().value;
+        const operator = raw === "==" ? "=" : raw === "!=" ? "<>" : raw;
+        const right = this.parseAdditive();
+        left = binary(operator as BinaryExpressionNode["operator"], left, right);
+      } else if (this.isKeyword("IN")) {
+        this.advance();
+        this.expectPunctuation("(", "after IN");
+        const values = this.parseList(")", "IN list");
+        const close = this.expectPunctuation(")", "to close IN list");
+        left = { type: "InExpression", operand: left, values, start: left.start, end: close.end };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseAdditive(): CalcNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator("+", "-")) {
+      const operator = this.advance().value as "+" | "-";
+      const right = this.parseMultiplicative();
+      left = binary(operator, left, right);
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): CalcNode {
+    let left = this.parsePower();
+    while (this.isOperator("*", "/", "%")) {
+      const operator = this.advance().value as "*" | "/" | "%";
+      const right = this.parsePower();
+      left = binary(operator, left, right);
+    }
+    return left;
+  }
+
+  private parsePower(): CalcNode {
+    const base = this.parseUnary();
+    if (this.isOperator("^")) {
+      this.advance();
+      // Right-associative: 2^3^2 = 2^(3^2)
+      const exponent = this.parsePower();
+      return binary("^", base, exponent);
+    }
+    return base;
+  }
+
+  private parseUnary(): CalcNode {
+    if (this.isOperator("-")) {
+      const token = this.advance();
+      const operand = this.parseUnary();
+      return { type: "UnaryExpression", operator: "-", operand, start: token.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): CalcNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case "number":
+        this.advance();
+        return { type: "NumberLiteral", value: parseFloat(token.value), start: token.start, end: token.end };
+
+      case "string":
+        this.advance();
+        return { type: "StringLiteral", value: token.value, start: token.start, end: token.end };
+
+      case "date":
+        this.advance();
+        return { type: "DateLiteral", value: token.value, start: token.start, end: token.end };
+
+      case "field":
+        return this.parseFieldReference();
+
+      case "identifier":
+        // Field names without spaces may be written without brackets (SUM(Sales))
+        if (this.tokens[this.index + 1]?.type === "punctuation" && this.tokens[this.index + 1].value === "(") {
+          return this.parseFunctionCall();
+        }
+        this.advance();
+        return {
+          type: "FieldReference",
+          name: token.value,
+          datasource: null,
+          isParameter: false,
+          start: token.start,
+          end: token.end
+        };
+
+      case "keyword":
+        switch (token.value) {
+          case "TRUE":
+          case "FALSE":
+            this.advance();
+            return { type: "BooleanLiteral", value: token.value === "TRUE", start: token.start, end: token.end };
+          case "NULL":
+            this.advance();
+            return { type: "NullLiteral", start: token.start, end: token.end };
+          case "IF":
+            return this.parseIf();
+          case "CASE":
+            return this.parseCase();
+        }
+        break;
+
+      case "punctuation":
+        if (token.value === "(") {
+          this.advance();
+          const inner = this.parseExpression();
+          this.expectPunctuation(")", "to close parenthesis");
+          return inner;
+        }
+        if (token.value === "{") {
+          return this.parseLod();
+        }
+        break;
+    }
+
+    if (token.type === "eof") {
+      throw new CalcSyntaxError("Unexpected end of formula", token.start);
+    }
+    throw new CalcSyntaxError(`Unexpected ${describe(token)}`, token.start);
+  }
+
+  private parseFieldReference(): FieldReferenceNode {
+    const first = this.advance();
+
+    // Qualified reference: [Data Source].[Field]
+    if (this.isPunctuation(".") && this.tokens[this.index + 1]?.type === "field") {
+      this.advance();
+      const second = this.advance();
+      return {
+        type: "FieldReference",
+        name: second.value,
+        datasource: first.value,
+        isParameter: first.value === "Parameters",
+        start: first.start,
+        end: second.end
+      };
+    }
+
+    return {
+      type: "FieldReference",
+      name: first.value,
+      datasource: null,
+      isParameter: false,
+      start: first.start,
+      end: first.end
+    };
+  }
+
+  private parseFunctionCall(): FunctionCallNode {
+    const nameToken = this.advance();
+    const name = nameToken.value.toUpperCase();
+    this.expectPunctuation("(", `after function name ${nameToken.value}`);
+    const args = this.parseList(")", `arguments of ${name}`);
+    const close = this.expectPunctuation(")", `to close ${name}(`);
+
+    return {
+      type: "FunctionCall",
+      name,
+      args,
+      isAggregate: AGGREGATE_FUNCTIONS.has(name) && !((name === "MIN" || name === "MAX") && args.length > 1),
+      isTableCalc: TABLE_CALC_FUNCTIONS.has(name),
+      start: nameToken.start,
+      end: close.end
+    };
+  }
+
+  /**
+   * Parse a comma-separated list of expressions up to (not including) a closing token
+   */
+  private parseList(close: string, context: string): CalcNode[] {
+    const items: CalcNode[] = [];
+    if (this.isPunctuation(close)) return items;
+
+    items.push(this.parseExpression());
+    while (this.isPunctuation(",")) {
+      this.advance();
+      if (this.isPunctuation(close)) {
+        const token = this.peek();
+        throw new CalcSyntaxError(`Expected an expression in ${context} but found '${close}'`, token.start);
+      }
+      items.push(this.parseExpression());
+    }
+    return items;
+  }
+
+  private parseIf(): IfExpressionNode {
+    const ifToken = this.advance();
+    const branches: IfExpressionNode["branches"] = [];
+
+    const condition = this.parseExpression();
+    this.expectKeyword("THEN", "after IF condition");
+    branches.push({ condition, result: this.parseExpression() });
+
+    while (this.isKeyword("ELSEIF")) {
+      this.advance();
+      const elseIfCondition = this.parseExpression();
+      this.expectKeyword("THEN", "after ELSEIF condition");
+      branches.push({ condition: elseIfCondition, result: this.parseExpression() });
+    }
+
+    let elseResult: CalcNode | null = null;
+    if (this.isKeyword("ELSE")) {
+      this.advance();
+      elseResult = this.parseExpression();
+    }
+
+    const end = this.expectKeyword("END", "to close IF");
+    return { type: "IfExpression", branches, elseResult, start: ifToken.start, end: end.end };
+  }
+
+  private parseCase(): CaseExpressionNode {
+    const caseToken = this.advance();
+    const subject = this.parseExpression();
+    const branches: CaseExpressionNode["branches"] = [];
+
+    if (!this.isKeyword("WHEN")) {
+      const token = this.peek();
+      throw new CalcSyntaxError(`Expected WHEN after CASE expression but found ${describe(token)}`, token.start);
+    }
+
+    while (this.isKeyword("WHEN")) {
+      this.advance();
+      const when = this.parseExpression();
+      this.expectKeyword("THEN", "after WHEN value");
+      branches.push({ when, result: this.parseExpression() });
+    }
+
+    let elseResult: CalcNode | null = null;
+    if (this.isKeyword("ELSE")) {
+      this.advance();
+      elseResult = this.parseExpression();
+    }
+
+    const end = this.expectKeyword("END", "to close CASE");
+    return { type: "CaseExpression", subject, branches, elseResult, start: caseToken.start, end: end.end };
+  }
+
+  private parseLod(): LodExpressionNode {
+    const open = this.advance();
+    let lodType: LodExpressionNode["lodType"] = "FIXED";
+    const dimensions: CalcNode[] = [];
+
+    if (this.isKeyword("FIXED", "INCLUDE", "EXCLUDE")) {
+      lodType = this.advance().value as LodExpressionNode["lodType"];
+      if (!this.isPunctuation(":")) {
+        dimensions.push(...this.parseList(":", `${lodType} dimensions`));
+      }
+      this.expectPunctuation(":", `after ${lodType} dimensions`);
+    }
+
+    const expression = this.parseExpression();
+    const close = this.expectPunctuation("}", "to close level of detail expression");
+
+    return { type: "LodExpression", lodType, dimensions, expression, start: open.start, end: close.end };
+  }
+}
+
+/**
+ * Build a binary expression spanning both operands
+ */
+function binary(operator: BinaryExpressionNode["operator"], left: CalcNode, right: CalcNode): BinaryExpressionNode {
+  return { type: "BinaryExpression", operator, left, right, start: left.start, end: right.end };
+}
+
+/**
+ * Describe a token for error messages
+ */
+function describe(token: CalcToken): string {
+  switch (token.type) {
+    case "eof":
+      return "end of formula";
+    case "field":
+      return `field [${token.value}]`;
+    case "string":
+      return `string '${token.value}'`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Parse a calculated field formula into an AST
+ *
+ * @param formula - Decoded formula text (see decodeHtmlEntities)
+ * @returns Parse result with either the AST or the error location
+ *
+ * @example
+ * ```typescript
+ * const result = parseCalculation("{FIXED [Customer] : MIN([Order Date])}");
+ * if (result.success) {
+ *   console.log(result.ast.type); // "LodExpression"
+ * } else {
+ *   console.log(`${result.error.message} at line ${result.error.line}, column ${result.error.column}`);
+ * }
+ * ```
+ */
+export function parseCalculation(formula: string): ParseCalcResult {
+  try {
+    const ast = new CalcParser(tokenize(formula)).parse();
+    return { success: true, ast };
+  } catch (error) {
+    if (error instanceof CalcSyntaxError) {
+      return {
+        success: false,
+        error: { message: error.message, ...getCalcLocation(formula, error.offset), offset: error.offset }
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the direct children of a node, in source order
+ */
+export function getCalcNodeChildren(node: CalcNode): CalcNode[] {
+  switch (node.type) {
+    case "FunctionCall":
+      return node.args;
+    case "UnaryExpression":
+      return [node.operand];
+    case "BinaryExpression":
+      return [node.left, node.right];
+    case "InExpression":
+      return [node.operand, ...node.values];
+    case "IfExpression":
+      return [
+        ...node.branches.flatMap(b => [b.condition, b.result]),
+        ...(node.elseResult ? [node.elseResult] : [])
+      ];
+    case "CaseExpression":
+      return [
+        node.subject,
+        ...node.branches.flatMap(b => [b.when, b.result]),
+        ...(node.elseResult ? [node.elseResult] : [])
+      ];
+    case "LodExpression":
+      return [...node.dimensions, node.expression];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Visit every node depth-first, parents before children
+ *
+ * @param visitor - Called with each node and its ancestors (outermost first)
+ */
+export function walkCalcAst(
+  node: CalcNode,
+  visitor: (node: CalcNode, ancestors: CalcNode[]) => void,
+  ancestors: CalcNode[] = []
+): void {
+  visitor(node, ancestors);
+  const path = [...ancestors, node];
+  for (const child of getCalcNodeChildren(node)) {
+    walkCalcAst(child, visitor, path);
+  }
+}
+
+/**
+ * Collect every node of a given type
+ *
+ * @example
+ * ```typescript
+ * const fields = findCalcNodes(ast, "FieldReference").map(f => f.name);
+ * ```
+ */
+export function findCalcNodes<K extends CalcNode["type"]>(
+  node: CalcNode,
+  type: K
+): Array<Extract<CalcNode, { type: K }>> {
+  const found: Array<Extract<CalcNode, { type: K }>> = [];
+  walkCalcAst(node, n => {
+    if (n.type === type) {
+      found.push(n as Extract<CalcNode, { type: K }>);
+    }
+  });
+  return found;
+}
+
+/**
+ * Convert an offset into the formula to a 1-based line and column
+ */
+export function getCalcLocation(formula: string, offset: number): { line: number; column: number } {
+  const before = formula.slice(0, offset);
+  const lines = before.split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Get the formula text a node was parsed from
+ */
+export function getCalcNodeSource(formula: string, node: CalcNode): string {
+  return formula.slice(node.start, node.end);
+}
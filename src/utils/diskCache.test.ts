@@ -0,0 +1,114 @@
+/**
+ * Tests for the disk-backed cache tier
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as os from "os";
+import * as path from "path";
+import * as fs from "fs/promises";
+import { DiskCache } from "./diskCache.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("DiskCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "disk-cache-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should store and read back entries with their expiry", async () => {
+    const cache = new DiskCache(directory, 1024 * 1024);
+    await cache.set("/profile/api/john", { name: "John" }, 60_000);
+
+    const hit = await cache.get("/profile/api/john");
+    expect(hit?.data).toEqual({ name: "John" });
+    expect(hit?.expiresAt).toBeGreaterThan(Date.now());
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 0, size: 1 });
+  });
+
+  it("should survive a restart by reloading entries from disk", async () => {
+    await new DiskCache(directory, 1024 * 1024).set("/profile/api/john", { name: "John" }, 60_000);
+
+    const reloaded = new DiskCache(directory, 1024 * 1024);
+    const hit = await reloaded.get("/profile/api/john");
+
+    expect(hit?.data).toEqual({ name: "John" });
+  });
+
+  it("should keep stale entries and their validators for the stale window", async () => {
+    await new DiskCache(directory, 1024 * 1024, 60_000).set(
+      "/profile/api/john",
+      { name: "John" },
+      1,
+      { etag: "\"abc\"", lastModified: "Mon, 19 Oct 2026 10:00:00 GMT" }
+    );
+    await sleep(10);
+
+    // After a restart the entry is past its TTL but inside its stale window
+    const reloaded = new DiskCache(directory, 1024 * 1024, 60_000);
+    expect(await reloaded.get("/profile/api/john")).toBeUndefined();
+    expect(await reloaded.lookup("/profile/api/john")).toMatchObject({
+      data: { name: "John" },
+      stale: true,
+      etag: "\"abc\"",
+      lastModified: "Mon, 19 Oct 2026 10:00:00 GMT"
+    });
+    expect(reloaded.getStats()).toMatchObject({ staleHits: 1, misses: 1, size: 1 });
+  });
+
+  it("should treat expired entries as misses and remove them", async () => {
+    const cache = new DiskCache(directory, 1024 * 1024);
+    await cache.set("/profile/api/john", { name: "John" }, 1);
+    await sleep(10);
+
+    expect(await cache.get("/profile/api/john")).toBeUndefined();
+    expect(await fs.readdir(directory)).toHaveLength(0);
+  });
+
+  it("should evict least recently used entries beyond the size limit", async () => {
+    const cache = new DiskCache(directory, 500);
+    const payload = "x".repeat(100);
+
+    // Space out writes and reads so access times are distinct
+    await cache.set("first", payload, 60_000);
+    await sleep(5);
+    await cache.set("second", payload, 60_000);
+    await sleep(5);
+    await cache.get("first");
+    await sleep(5);
+    await cache.set("third", payload, 60_000);
+
+    expect(await cache.get("second")).toBeUndefined();
+    expect((await cache.get("first"))?.data).toBe(payload);
+    expect((await cache.get("third"))?.data).toBe(payload);
+    expect(cache.getStats().bytes).toBeLessThanOrEqual(500);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it("should invalidate entries matching a pattern", async () => {
+    const cache = new DiskCache(directory, 1024 * 1024);
+    await cache.set("/profile/api/john", 1, 60_000);
+    await cache.set("/profile/api/followers/john", 2, 60_000);
+    await cache.set("/profile/api/jane", 3, 60_000);
+
+    const removed = await cache.invalidatePattern(/john/);
+
+    expect(removed).toBe(2);
+    expect(cache.size()).toBe(1);
+    expect((await cache.get("/profile/api/jane"))?.data).toBe(3);
+  });
+
+  it("should drop corrupt entry files instead of failing", async () => {
+    const cache = new DiskCache(directory, 1024 * 1024);
+    await cache.set("/profile/api/john", { name: "John" }, 60_000);
+    await fs.writeFile(path.join(directory, DiskCache.fileNameForKey("/profile/api/john")), "{not json");
+
+    expect(await cache.get("/profile/api/john")).toBeUndefined();
+    expect(cache.size()).toBe(0);
+  });
+});
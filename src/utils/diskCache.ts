@@ -0,0 +1,408 @@
+/**
+ * Persistent disk-backed caching tier for Tableau Public API responses
+ *
+ * Sits behind the in-memory Cache class so responses survive server
+ * restarts. Each entry is stored as a JSON file named by a hash of its
+ * cache key, under TABLEAU_TEMP_DIR/cache by default.
+ *
+ * Features:
+ * - Per-entry expiry using the same TTL constants as the memory tier, plus
+ *   the same stale window, so stale-while-revalidate works after a restart
+ * - ETag/Last-Modified validators kept with each entry for conditional requests
+ * - Total size limit with LRU eviction
+ * - Hit/miss statistics compatible with CacheStats
+ * - Pattern-based invalidation
+ */
+
+import * as path from "path";
+import * as fs from "fs/promises";
+import { createHash } from "crypto";
+import { getConfig } from "../config.js";
+import { TABLEAU_TEMP_DIR } from "./fileSystem.js";
+import { CacheLookup, CacheStats, CacheValidators } from "./cache.js";
+
+/**
+ * Default directory for the disk cache
+ */
+export const DISK_CACHE_DIR = path.join(TABLEAU_TEMP_DIR, "cache");
+
+/**
+ * Shape of an entry file on disk
+ */
+interface StoredEntry<T> extends CacheValidators {
+  key: string;
+  data: T;
+  storedAt: number;
+  expiresAt: number;
+  /** End of the stale window; absent in files written before it was stored */
+  staleUntil?: number;
+}
+
+/**
+ * In-memory index record for an entry file
+ */
+interface IndexEntry {
+  fileName: string;
+  bytes: number;
+  expiresAt: number;
+  staleUntil: number;
+  lastAccessed: number;
+}
+
+/**
+ * A value read back from the disk cache, with its staleness and validators
+ */
+export interface DiskCacheHit<T> extends CacheLookup<T> {
+  expiresAt: number;
+}
+
+/**
+ * Disk cache statistics, extending the memory cache stats with byte usage
+ */
+export interface DiskCacheStats extends CacheStats {
+  bytes: number;
+  maxBytes: number;
+}
+
+/**
+ * File-based cache with TTL, size limit and LRU eviction
+ *
+ * The entry index is built from the cache directory on first use, so
+ * entries written by a previous server process are picked up and
+ * entries past their stale window are removed.
+ *
+ * @example
+ * ```typescript
+ * const disk = new DiskCache(DISK_CACHE_DIR, 100 * 1024 * 1024, 10 * 60 * 1000);
+ * await disk.set('/profile/api/john', profile, TTL.PROFILE, { etag: '"abc"' });
+ * const hit = await disk.lookup('/profile/api/john'); // { data, stale, expiresAt, etag, lastModified }
+ * ```
+ */
+export class DiskCache<T = unknown> {
+  private index = new Map<string, IndexEntry>();
+  private totalBytes = 0;
+  private loading: Promise<void> | undefined;
+  private stats: CacheStats = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    evictions: 0,
+    size: 0,
+    hitRate: 0,
+  };
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxBytes: number,
+    private readonly staleTTL: number = 0
+  ) {}
+
+  /**
+   * Get a fresh value from the disk cache
+   *
+   * I/O and parse errors are treated as misses (and the entry dropped)
+   * so a corrupt cache never fails a request.
+   */
+  async get(key: string): Promise<DiskCacheHit<T> | undefined> {
+    return this.read(key, false);
+  }
+
+  /**
+   * Look up a value, including entries within their stale window
+   *
+   * @returns The entry data, staleness and validators, or undefined on a miss
+   */
+  async lookup(key: string): Promise<DiskCacheHit<T> | undefined> {
+    return this.read(key, true);
+  }
+
+  private async read(key: string, allowStale: boolean): Promise<DiskCacheHit<T> | undefined> {
+    try {
+      await this.load();
+    } catch {
+      this.recordMiss();
+      return undefined;
+    }
+
+    const entry = this.index.get(key);
+    if (!entry) {
+      this.recordMiss();
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (now > entry.staleUntil) {
+      await this.delete(key);
+      this.recordMiss();
+      return undefined;
+    }
+
+    const stale = now > entry.expiresAt;
+    if (stale && !allowStale) {
+      this.recordMiss();
+      return undefined;
+    }
+
+    try {
+      const content = await fs.readFile(path.join(this.directory, entry.fileName), "utf-8");
+      const stored = JSON.parse(content) as StoredEntry<T>;
+
+      entry.lastAccessed = now;
+      if (stale) {
+        this.stats.staleHits++;
+      } else {
+        this.stats.hits++;
+      }
+      this.updateHitRate();
+
+      return {
+        data: stored.data,
+        stale,
+        expiresAt: stored.expiresAt,
+        etag: stored.etag,
+        lastModified: stored.lastModified,
+      };
+    } catch {
+      await this.delete(key);
+      this.recordMiss();
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a value on disk with the given TTL
+   * Triggers LRU eviction if the size limit is exceeded
+   *
+   * @param validators - Optional ETag/Last-Modified for conditional revalidation
+   */
+  async set(key: string, data: T, ttl: number, validators: CacheValidators = {}): Promise<void> {
+    if (ttl <= 0) {
+      throw new Error("TTL must be greater than 0");
+    }
+
+    await this.load();
+
+    const now = Date.now();
+    const staleUntil = now + ttl + this.staleTTL;
+    const stored: StoredEntry<T> = {
+      key,
+      data,
+      storedAt: now,
+      expiresAt: now + ttl,
+      staleUntil,
+      etag: validators.etag,
+      lastModified: validators.lastModified,
+    };
+    const content = JSON.stringify(stored);
+    const bytes = Buffer.byteLength(content);
+
+    // An entry larger than the whole cache can never be kept
+    if (bytes > this.maxBytes) {
+      await this.delete(key);
+      return;
+    }
+
+    const fileName = DiskCache.fileNameForKey(key);
+    const filePath = path.join(this.directory, fileName);
+
+    // Write then rename so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content, "utf-8");
+    await fs.rename(tempPath, filePath);
+
+    const previous = this.index.get(key);
+    if (previous) {
+      this.totalBytes -= previous.bytes;
+    }
+
+    this.index.set(key, {
+      fileName,
+      bytes,
+      expiresAt: stored.expiresAt,
+      staleUntil,
+      lastAccessed: now,
+    });
+    this.totalBytes += bytes;
+    this.stats.size = this.index.size;
+
+    await this.evictToLimit(key);
+  }
+
+  /**
+   * Delete a specific key from the disk cache
+   */
+  async delete(key: string): Promise<boolean> {
+    const entry = this.index.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.index.delete(key);
+    this.totalBytes -= entry.bytes;
+    this.stats.size = this.index.size;
+    await fs.rm(path.join(this.directory, entry.fileName), { force: true });
+    return true;
+  }
+
+  /**
+   * Invalidate all entries whose key matches a pattern
+   */
+  async invalidatePattern(pattern: RegExp): Promise<number> {
+    await this.load();
+
+    let count = 0;
+    for (const key of [...this.index.keys()]) {
+      if (pattern.test(key)) {
+        await this.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Remove all entries from disk
+   */
+  async clear(): Promise<void> {
+    await this.load();
+
+    for (const key of [...this.index.keys()]) {
+      await this.delete(key);
+    }
+  }
+
+  /**
+   * Get the number of entries currently indexed
+   */
+  size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Get cache statistics for monitoring
+   */
+  getStats(): DiskCacheStats {
+    return { ...this.stats, bytes: this.totalBytes, maxBytes: this.maxBytes };
+  }
+
+  /**
+   * Derive the entry file name for a cache key
+   */
+  static fileNameForKey(key: string): string {
+    return `${createHash("sha256").update(key).digest("hex")}.json`;
+  }
+
+  /**
+   * Build the index from existing entry files (once)
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadIndex().catch((error) => {
+        // Allow a retry on the next call (e.g. directory permissions fixed)
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadIndex(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileNames = await fs.readdir(this.directory);
+    const now = Date.now();
+
+    for (const fileName of fileNames) {
+      const filePath = path.join(this.directory, fileName);
+
+      // Leftovers from an interrupted write
+      if (fileName.endsWith(".tmp")) {
+        await fs.rm(filePath, { force: true });
+        continue;
+      }
+      if (!fileName.endsWith(".json")) continue;
+
+      try {
+        const content = await fs.readFile(filePath, "utf-8");
+        const stored = JSON.parse(content) as StoredEntry<T>;
+        const staleUntil = stored.staleUntil ?? stored.expiresAt;
+
+        if (typeof stored.key !== "string" || now > staleUntil) {
+          await fs.rm(filePath, { force: true });
+          continue;
+        }
+
+        const bytes = Buffer.byteLength(content);
+        this.index.set(stored.key, {
+          fileName,
+          bytes,
+          expiresAt: stored.expiresAt,
+          staleUntil,
+          lastAccessed: stored.storedAt,
+        });
+        this.totalBytes += bytes;
+      } catch {
+        await fs.rm(filePath, { force: true });
+      }
+    }
+
+    this.stats.size = this.index.size;
+    await this.evictToLimit();
+  }
+
+  /**
+   * Evict least recently used entries until within the size limit
+   *
+   * @param keep - Key that must not be evicted (the entry just written)
+   */
+  private async evictToLimit(keep?: string): Promise<void> {
+    while (this.totalBytes > this.maxBytes) {
+      let oldestKey: string | undefined;
+      let oldestAccess = Infinity;
+
+      for (const [key, entry] of this.index.entries()) {
+        if (key !== keep && entry.lastAccessed < oldestAccess) {
+          oldestAccess = entry.lastAccessed;
+          oldestKey = key;
+        }
+      }
+
+      if (!oldestKey) return;
+
+      await this.delete(oldestKey);
+      this.stats.evictions++;
+    }
+  }
+
+  private recordMiss(): void {
+    this.stats.misses++;
+    this.updateHitRate();
+  }
+
+  /**
+   * Update hit rate percentage
+   */
+  private updateHitRate(): void {
+    const total = this.stats.hits + this.stats.misses;
+    this.stats.hitRate = total > 0 ? (this.stats.hits / total) * 100 : 0;
+  }
+}
+
+// Singleton disk cache, created lazily to respect config
+let _diskCache: DiskCache | undefined;
+
+/**
+ * Get the disk cache instance (lazy initialization)
+ *
+ * @returns The shared DiskCache, or null when caching or the disk tier is disabled
+ */
+export function getDiskCache(): DiskCache | null {
+  const config = getConfig();
+  if (!config.cacheEnabled || !config.diskCacheEnabled) {
+    return null;
+  }
+
+  if (!_diskCache) {
+    _diskCache = new DiskCache(DISK_CACHE_DIR, config.diskCacheMaxSizeMb * 1024 * 1024, config.cacheStaleTTL);
+  }
+  return _diskCache;
+}
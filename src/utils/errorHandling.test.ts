@@ -0,0 +1,51 @@
+/**
+ * Tests for API error results
+ */
+
+import { describe, it, expect } from "vitest";
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { handleApiError } from "./errorHandling.js";
+
+/**
+ * Build a 429 error as apiClient would reject with it
+ */
+function rateLimited(retryAfter: string | undefined, retryAttempt?: number): AxiosError {
+  const config = { url: "/profile/api/john", headers: new AxiosHeaders(), retryAttempt } as InternalAxiosRequestConfig;
+  const response = {
+    status: 429,
+    statusText: "Too Many Requests",
+    headers: retryAfter ? { "retry-after": retryAfter } : {},
+    data: {},
+    config
+  } as AxiosResponse;
+  return new AxiosError("failed", AxiosError.ERR_BAD_REQUEST, config, {}, response);
+}
+
+/** Get the error details of a result */
+function details(error: AxiosError): Record<string, unknown> {
+  const value = handleApiError(error, "fetching profile").unwrap();
+  expect(value.isError).toBe(true);
+  const text = (value.content[0] as { text: string }).text;
+  return JSON.parse(text.slice(text.indexOf("Details: ") + "Details: ".length));
+}
+
+describe("handleApiError", () => {
+  it("should only mention retries when the request was retried", () => {
+    expect(details(rateLimited("5", 3))).toMatchObject({
+      retryAfterSeconds: 5,
+      suggestion: "Still rate limited after 3 attempts. Wait 5 seconds before making more requests"
+    });
+    expect(details(rateLimited(undefined))).toMatchObject({
+      suggestion: "Please wait before making more requests"
+    });
+  });
+
+  it("should turn an HTTP date Retry-After into seconds", () => {
+    const inTwoMinutes = new Date(Date.now() + 120000).toUTCString();
+    const result = details(rateLimited(inTwoMinutes));
+
+    expect(result.retryAfterSeconds).toBeGreaterThanOrEqual(118);
+    expect(result.retryAfterSeconds).toBeLessThanOrEqual(120);
+    expect(result.suggestion).toMatch(/^Wait \d+ seconds before making more requests$/);
+  });
+});
@@ -8,6 +8,7 @@
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { Ok } from "ts-results-es";
 import { AxiosError } from "axios";
+import { parseRetryAfter } from "./apiClient.js";
 
 /**
  * Creates a standardized error result for MCP tool responses
@@ -40,9 +41,35 @@ export function createErrorResult(
   });
 }
 
+/**
+ * Converts tool output into an MCP structuredContent object
+ *
+ * structuredContent must be a JSON object, so arrays are wrapped as
+ * `{ items: [...] }` and other values as `{ value }`. The data is
+ * round-tripped through JSON so it matches the text content exactly
+ * (undefined fields dropped, dates serialized).
+ *
+ * @param data - The tool output
+ * @returns A JSON object suitable for structuredContent
+ */
+export function toStructuredContent(data: unknown): Record<string, unknown> {
+  const json: unknown = data === undefined ? null : JSON.parse(JSON.stringify(data));
+
+  if (Array.isArray(json)) {
+    return { items: json };
+  }
+  if (json !== null && typeof json === "object") {
+    return json as Record<string, unknown>;
+  }
+  return { value: json };
+}
+
 /**
  * Creates a standardized success result for MCP tool responses
  *
+ * Non-string data is also returned as structuredContent so clients can
+ * validate it against the tool's outputSchema.
+ *
  * @param data - The data to return (will be stringified if not a string)
  * @returns An Ok result containing the success data
  *
@@ -52,17 +79,26 @@ export function createErrorResult(
  * ```
  */
 export function createSuccessResult(data: unknown): Ok<CallToolResult> {
-  const text = typeof data === "string"
-    ? data
-    : JSON.stringify(data, null, 2);
+  if (typeof data === "string") {
+    return Ok({
+      content: [
+        {
+          type: "text",
+          text: data
+        }
+      ],
+      isError: false
+    });
+  }
 
   return Ok({
     content: [
       {
         type: "text",
-        text
+        text: JSON.stringify(data, null, 2)
       }
     ],
+    structuredContent: toStructuredContent(data),
     isError: false
   });
 }
@@ -128,15 +164,25 @@ export function handleApiError(
             }
           );
 
-        case 429:
+        case 429: {
+          // apiClient sets retryAttempt on each retry; it may not have retried at all
+          // (retries disabled, or Retry-After longer than the maximum delay)
+          const attempts = error.config?.retryAttempt ?? 1;
+          const retryAfterMs = parseRetryAfter(error.response.headers?.["retry-after"]);
+          const retryAfterSeconds = retryAfterMs !== null ? Math.ceil(retryAfterMs / 1000) : null;
+          const retried = attempts > 1 ? `Still rate limited after ${attempts} attempts. ` : "";
           return createErrorResult(
             `Rate limit exceeded while ${context}`,
             {
               url,
               status,
-              suggestion: "Please wait before making more requests"
+              ...(retryAfterSeconds !== null ? { retryAfterSeconds } : {}),
+              suggestion: retryAfterSeconds !== null
+                ? `${retried}Wait ${retryAfterSeconds} seconds before making more requests`
+                : `${retried}Please wait before making more requests`
             }
           );
+        }
 
         case 500:
         case 502:
@@ -203,6 +249,7 @@ export function handleApiError(
  * Creates a result containing image data for MCP tool responses
  *
  * Returns an image content block along with optional metadata text.
+ * The metadata is also returned as structuredContent.
  * The image is returned as base64-encoded data with the specified MIME type.
  *
  * @param imageData - Base64-encoded image data
@@ -243,6 +290,7 @@ export function createImageResult(
 
   return Ok({
     content,
+    ...(metadata ? { structuredContent: toStructuredContent(metadata) } : {}),
     isError: false
   });
 }
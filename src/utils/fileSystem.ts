@@ -228,3 +228,17 @@ export async function fileExists(filePath: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Checks whether a path lies inside the Tableau temp directory
+ *
+ * Used to restrict file access exposed over MCP to files this server
+ * downloaded or extracted.
+ *
+ * @param filePath - Path to check
+ * @returns True if the resolved path is within TABLEAU_TEMP_DIR
+ */
+export function isWithinTempDir(filePath: string): boolean {
+  const relative = path.relative(TABLEAU_TEMP_DIR, path.resolve(filePath));
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
@@ -0,0 +1,51 @@
+/**
+ * Tests for image fetching and optimization
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import sharp from "sharp";
+import { apiClient } from "./apiClient.js";
+import { fetchAndOptimizeImage } from "./imageProcessing.js";
+
+describe("fetchAndOptimizeImage", () => {
+  const originalAdapter = apiClient.defaults.adapter;
+
+  beforeEach(() => {
+    process.env.RETRY_BASE_DELAY_MS = "1";
+    process.env.RETRY_MAX_DELAY_MS = "50";
+    process.env.RETRY_MAX_ATTEMPTS = "3";
+  });
+
+  afterEach(() => {
+    apiClient.defaults.adapter = originalAdapter;
+    delete process.env.RETRY_BASE_DELAY_MS;
+    delete process.env.RETRY_MAX_DELAY_MS;
+    delete process.env.RETRY_MAX_ATTEMPTS;
+  });
+
+  it("should retry a transient server error", async () => {
+    const png = await sharp({
+      create: { width: 40, height: 20, channels: 3, background: { r: 255, g: 0, b: 0 } }
+    }).png().toBuffer();
+
+    const requests: InternalAxiosRequestConfig[] = [];
+    apiClient.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      requests.push(config);
+      const status = requests.length === 1 ? 503 : 200;
+      const response = { status, statusText: "", headers: {}, data: png, config } as AxiosResponse;
+      if (status >= 400) {
+        throw new AxiosError("failed", AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+      }
+      return response;
+    };
+
+    const image = await fetchAndOptimizeImage("https://public.tableau.com/static/images/vi/viz.png", {
+      format: "png"
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1]).toMatchObject({ responseType: "arraybuffer", retryAttempt: 2 });
+    expect(image).toMatchObject({ mimeType: "image/png", width: 40, height: 20, originalSize: png.length });
+  });
+});
@@ -6,7 +6,7 @@
  */
 
 import sharp from "sharp";
-import axios from "axios";
+import { apiClient } from "./apiClient.js";
 import * as fs from "fs/promises";
 
 /**
@@ -78,6 +78,28 @@ const DEFAULT_OPTIONS: Required<ImageOptimizationOptions> = {
   format: "jpeg",
 };
 
+/**
+ * Fetches an image through the shared API client
+ *
+ * Going through apiClient gives image downloads the same rate limiting
+ * and retries (with backoff and Retry-After) as every other request.
+ *
+ * @param imageUrl - Absolute URL of the image
+ * @returns The image bytes
+ */
+async function fetchImage(imageUrl: string): Promise<Buffer> {
+  const response = await apiClient.get<ArrayBuffer>(imageUrl, {
+    responseType: "arraybuffer",
+    timeout: 30000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+      "Accept": "image/*",
+    },
+  });
+
+  return Buffer.from(response.data);
+}
+
 /**
  * Fetches an image from a URL and optimizes it for MCP responses
  *
@@ -104,16 +126,7 @@ export async function fetchAndOptimizeImage(
   const opts = { ...DEFAULT_OPTIONS, ...options };
 
   // Fetch the image
-  const response = await axios.get(imageUrl, {
-    responseType: "arraybuffer",
-    timeout: 30000,
-    headers: {
-      "User-Agent":
-        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-    },
-  });
-
-  const originalBuffer = Buffer.from(response.data);
+  const originalBuffer = await fetchImage(imageUrl);
   const originalSize = originalBuffer.length;
 
   // Process with Sharp
@@ -197,15 +210,7 @@ export async function fetchResizeAndSave(
   const opts = { ...DEFAULT_OPTIONS, ...options };
 
   // Fetch the image
-  const response = await axios.get(imageUrl, {
-    responseType: "arraybuffer",
-    timeout: 30000,
-    headers: {
-      "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-    },
-  });
-
-  const originalBuffer = Buffer.from(response.data);
+  const originalBuffer = await fetchImage(imageUrl);
   const originalSize = originalBuffer.length;
 
   // Get original image metadata
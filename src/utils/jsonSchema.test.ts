@@ -0,0 +1,68 @@
+/**
+ * Tests for Zod to JSON Schema conversion
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { zodShapeToJsonSchema } from "./jsonSchema.js";
+import { getWorkbooksListTool } from "../tools/getWorkbooksList/getWorkbooksList.js";
+
+describe("zodShapeToJsonSchema", () => {
+  it("should only mark required fields as required", () => {
+    const schema = zodShapeToJsonSchema({
+      username: z.string(),
+      count: z.coerce.number().optional().default(12),
+      language: z.string().optional()
+    });
+
+    expect(schema.type).toBe("object");
+    expect(schema.required).toEqual(["username"]);
+  });
+
+  it("should preserve defaults, enums, bounds and descriptions", () => {
+    const schema = zodShapeToJsonSchema({
+      count: z.coerce.number().int().min(1).max(50).optional().default(12).describe("Results per page"),
+      visibility: z.enum(["NON_HIDDEN", "ALL"]).optional()
+    });
+    const properties = schema.properties as Record<string, Record<string, unknown>>;
+
+    expect(properties.count).toMatchObject({
+      type: "integer",
+      minimum: 1,
+      maximum: 50,
+      default: 12,
+      description: "Results per page"
+    });
+    expect(properties.visibility).toMatchObject({
+      type: "string",
+      enum: ["NON_HIDDEN", "ALL"]
+    });
+  });
+
+  it("should omit the $schema marker and empty required lists", () => {
+    const schema = zodShapeToJsonSchema({ flag: z.boolean().optional() });
+    expect(schema).not.toHaveProperty("$schema");
+    expect(schema).not.toHaveProperty("required");
+  });
+
+  it("should return an empty object schema when there are no parameters", () => {
+    expect(zodShapeToJsonSchema(undefined)).toEqual({ type: "object", properties: {} });
+  });
+
+  it("should produce a valid schema for a real tool", () => {
+    const server = new Server(
+      { name: "test-server", version: "1.0.0" },
+      { capabilities: { tools: {} } }
+    );
+    const tool = getWorkbooksListTool(server);
+    const schema = tool.getInputSchema();
+
+    expect(schema.required).toEqual(["username"]);
+    expect(Object.keys(schema.properties ?? {})).toEqual(
+      expect.arrayContaining(["username", "start", "count", "visibility"])
+    );
+    expect(tool.annotations?.readOnlyHint).toBe(true);
+    expect(tool.annotations?.openWorldHint).toBe(true);
+  });
+});
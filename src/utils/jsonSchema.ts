@@ -0,0 +1,67 @@
+/**
+ * Zod to JSON Schema conversion for MCP tool listings
+ *
+ * MCP clients validate tool calls against the advertised JSON Schema,
+ * so tool parameter shapes must be converted faithfully: optional and
+ * defaulted fields are not required, and enums, min/max constraints and
+ * descriptions are preserved.
+ */
+
+import { z, ZodRawShape } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * JSON Schema for an object, as required by MCP inputSchema/outputSchema
+ */
+export interface ObjectJsonSchema {
+  type: "object";
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Convert a Zod object shape into an MCP-compatible JSON Schema
+ *
+ * @param shape - Zod raw shape (e.g. `paramsSchema.shape`), or undefined for no parameters
+ * @returns JSON Schema object with `type: "object"`
+ *
+ * @example
+ * ```typescript
+ * const schema = zodShapeToJsonSchema({
+ *   username: z.string().describe("Tableau Public username"),
+ *   count: z.coerce.number().min(1).max(50).optional().default(12)
+ * });
+ * // {
+ * //   type: "object",
+ * //   properties: {
+ * //     username: { type: "string", description: "Tableau Public username" },
+ * //     count: { type: "number", minimum: 1, maximum: 50, default: 12 }
+ * //   },
+ * //   required: ["username"]
+ * // }
+ * ```
+ */
+export function zodShapeToJsonSchema(shape: ZodRawShape | undefined): ObjectJsonSchema {
+  if (!shape) {
+    return { type: "object", properties: {} };
+  }
+
+  const jsonSchema = zodToJsonSchema(z.object(shape), {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+    pipeStrategy: "input"
+  }) as Record<string, unknown>;
+
+  // MCP embeds the schema in a larger document, so drop the draft marker
+  // and the closed-object flag (clients may send extra metadata fields)
+  delete jsonSchema["$schema"];
+  delete jsonSchema["additionalProperties"];
+
+  const required = jsonSchema["required"] as string[] | undefined;
+  if (required && required.length === 0) {
+    delete jsonSchema["required"];
+  }
+
+  return { ...jsonSchema, type: "object" };
+}
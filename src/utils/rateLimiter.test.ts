@@ -0,0 +1,104 @@
+/**
+ * Tests for the client-side rate limiter
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RateLimiter, TokenBucket } from "./rateLimiter.js";
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow a burst up to capacity and then refill over time", () => {
+    const bucket = new TokenBucket(2, 3);
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+    expect(bucket.msUntilToken()).toBe(500);
+
+    vi.advanceTimersByTime(500);
+    expect(bucket.tryTake()).toBe(true);
+  });
+});
+
+describe("RateLimiter", () => {
+  const settings = {
+    rateLimitRps: 10,
+    rateLimitBurst: 2,
+    rateLimitMaxQueue: 3,
+    rateLimitGroupRps: { search: 1 }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should classify request paths into endpoint groups", () => {
+    expect(RateLimiter.getGroup("/workbooks/Sales.twb")).toBe("download");
+    expect(RateLimiter.getGroup("/static/images/Sa/Sales/Overview/1.png")).toBe("image");
+    expect(RateLimiter.getGroup("/public/apis/bff/v1/search/query-workbooks")).toBe("search");
+    expect(RateLimiter.getGroup("/profile/api/john")).toBe("profile");
+    expect(RateLimiter.getGroup("/api/gallery")).toBe("api");
+  });
+
+  it("should queue requests beyond the burst and release them in order", async () => {
+    const limiter = new RateLimiter(settings);
+    const released: number[] = [];
+
+    await limiter.acquire("/profile/api/john");
+    await limiter.acquire("/profile/api/john");
+    const queued = [1, 2].map(n => limiter.acquire("/profile/api/john").then(() => released.push(n)));
+
+    expect(limiter.getStats().queued).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(released).toEqual([1]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all(queued);
+    expect(released).toEqual([1, 2]);
+    expect(limiter.getStats()).toMatchObject({ queued: 0, granted: 4, delayed: 2 });
+  });
+
+  it("should apply group quotas without holding up other groups", async () => {
+    const limiter = new RateLimiter({ ...settings, rateLimitBurst: 5 });
+    const released: string[] = [];
+
+    await limiter.acquire("/public/apis/bff/v1/search/query-workbooks");
+    const search = limiter.acquire("/public/apis/bff/v1/search/query-workbooks").then(() => released.push("search"));
+    const profile = limiter.acquire("/profile/api/john").then(() => released.push("profile"));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(released).toEqual(["profile"]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([search, profile]);
+    expect(released).toEqual(["profile", "search"]);
+  });
+
+  it("should reject requests when the queue is full", async () => {
+    const limiter = new RateLimiter({ ...settings, rateLimitBurst: 1 });
+
+    await limiter.acquire("/profile/api/john");
+    const queued = [1, 2, 3].map(() => limiter.acquire("/profile/api/john"));
+
+    await expect(limiter.acquire("/profile/api/john")).rejects.toThrow("queue is full");
+    expect(limiter.getStats().rejected).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(queued);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Process-wide client-side rate limiter for Tableau Public requests
+ *
+ * Every request made through apiClient takes a token from a global
+ * token bucket, and from its endpoint group's bucket when the group has
+ * its own quota. Requests that can't get a token wait in a bounded FIFO
+ * queue, so tools running in parallel share one request budget instead
+ * of each pacing only its own pagination.
+ */
+
+import { getConfig, Config } from "../config.js";
+
+/**
+ * Endpoint group used for per-group quotas
+ */
+interface EndpointGroup {
+  pattern: RegExp;
+  name: string;
+}
+
+/**
+ * Mapping of request paths to endpoint groups
+ * Order matters - first match wins; unmatched requests are in "api"
+ */
+const ENDPOINT_GROUPS: EndpointGroup[] = [
+  { pattern: /^\/workbooks\//, name: "download" },
+  { pattern: /^\/(?:views|static|thumb)\//, name: "image" },
+  { pattern: /^\/public\/apis\/bff\/v1\/search\//, name: "search" },
+  { pattern: /^\/public\/apis\/bff\/discover\//, name: "discovery" },
+  { pattern: /^\/profile\/api\//, name: "profile" },
+  { pattern: /^\/public\/apis\/workbooks/, name: "workbooks" },
+];
+
+/**
+ * Token bucket refilled continuously at a fixed rate
+ *
+ * @example
+ * ```typescript
+ * const bucket = new TokenBucket(5, 10); // 5 tokens/s, bursts of up to 10
+ * if (bucket.tryTake()) {
+ *   // send request
+ * } else {
+ *   setTimeout(retry, bucket.msUntilToken());
+ * }
+ * ```
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number
+  ) {
+    if (ratePerSecond <= 0) {
+      throw new Error("Rate must be greater than 0");
+    }
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Check whether a token is available without taking it
+   */
+  hasToken(): boolean {
+    this.refill();
+    return this.tokens >= 1;
+  }
+
+  /**
+   * Take a token if one is available
+   */
+  tryTake(): boolean {
+    if (!this.hasToken()) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Milliseconds until the next token is available (0 if one is now)
+   */
+  msUntilToken(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Request waiting for tokens
+ */
+interface QueuedRequest {
+  label: string;
+  group: string;
+  buckets: TokenBucket[];
+  enqueuedAt: number;
+  resolve: () => void;
+}
+
+/**
+ * Snapshot of limiter state for monitoring
+ */
+export interface RateLimiterStats {
+  queued: number;
+  granted: number;
+  delayed: number;
+  rejected: number;
+}
+
+/**
+ * Global token-bucket limiter with per-group quotas and a bounded queue
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ rateLimitRps: 5, rateLimitBurst: 10, rateLimitMaxQueue: 100, rateLimitGroupRps: { search: 2 } });
+ * await limiter.acquire("/public/apis/bff/v1/search/query-workbooks", "GET /public/apis/bff/v1/search/query-workbooks");
+ * ```
+ */
+export class RateLimiter {
+  private readonly globalBucket: TokenBucket;
+  private readonly groupBuckets = new Map<string, TokenBucket>();
+  private readonly queue: QueuedRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private stats: RateLimiterStats = {
+    queued: 0,
+    granted: 0,
+    delayed: 0,
+    rejected: 0,
+  };
+
+  constructor(
+    private readonly settings: Pick<Config, "rateLimitRps" | "rateLimitBurst" | "rateLimitMaxQueue" | "rateLimitGroupRps">
+  ) {
+    this.globalBucket = new TokenBucket(settings.rateLimitRps, settings.rateLimitBurst);
+
+    for (const [group, rps] of Object.entries(settings.rateLimitGroupRps)) {
+      if (rps > 0) {
+        // Group buckets allow a burst of at least one request
+        this.groupBuckets.set(group, new TokenBucket(rps, Math.max(1, Math.min(rps, settings.rateLimitBurst))));
+      }
+    }
+  }
+
+  /**
+   * Get the endpoint group for a request path
+   */
+  static getGroup(pathname: string): string {
+    for (const group of ENDPOINT_GROUPS) {
+      if (group.pattern.test(pathname)) {
+        return group.name;
+      }
+    }
+    return "api";
+  }
+
+  /**
+   * Wait until the request may be sent
+   *
+   * @param pathname - Request path, used to select the endpoint group
+   * @param label - Description for log messages (e.g. "GET /profile/api/john")
+   * @throws Error if the queue is full
+   */
+  acquire(pathname: string, label: string = pathname): Promise<void> {
+    const group = RateLimiter.getGroup(pathname);
+    const groupBucket = this.groupBuckets.get(group);
+    const buckets = groupBucket ? [this.globalBucket, groupBucket] : [this.globalBucket];
+
+    // Fast path: nothing queued ahead and tokens available
+    if (this.queue.length === 0 && buckets.every(b => b.hasToken())) {
+      buckets.forEach(b => b.tryTake());
+      this.stats.granted++;
+      return Promise.resolve();
+    }
+
+    if (this.queue.length >= this.settings.rateLimitMaxQueue) {
+      this.stats.rejected++;
+      console.error(`[Rate Limit] Queue full (${this.queue.length}), rejecting ${label}`);
+      return Promise.reject(new Error(
+        `Client rate limit queue is full (${this.queue.length} requests waiting). Try again shortly.`
+      ));
+    }
+
+    return new Promise<void>((resolve) => {
+      this.queue.push({ label, group, buckets, enqueuedAt: Date.now(), resolve });
+      this.stats.queued = this.queue.length;
+      console.error(`[Rate Limit] Queued ${label} (group: ${group}, queue: ${this.queue.length})`);
+      this.drain();
+    });
+  }
+
+  /**
+   * Get limiter statistics for monitoring
+   */
+  getStats(): RateLimiterStats {
+    return { ...this.stats, queued: this.queue.length };
+  }
+
+  /**
+   * Release queued requests whose buckets have tokens, in FIFO order
+   *
+   * A request blocked only by its group quota doesn't hold up requests
+   * for other groups behind it.
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    let nextWake = Infinity;
+
+    for (let i = 0; i < this.queue.length;) {
+      if (!this.globalBucket.hasToken()) {
+        nextWake = Math.min(nextWake, this.globalBucket.msUntilToken());
+        break;
+      }
+
+      const request = this.queue[i];
+      if (request.buckets.every(b => b.hasToken())) {
+        request.buckets.forEach(b => b.tryTake());
+        this.queue.splice(i, 1);
+        this.stats.granted++;
+        this.stats.delayed++;
+        console.error(`[Rate Limit] Released ${request.label} after ${Date.now() - request.enqueuedAt}ms`);
+        request.resolve();
+        continue;
+      }
+
+      nextWake = Math.min(nextWake, ...request.buckets.map(b => b.msUntilToken()));
+      i++;
+    }
+
+    this.stats.queued = this.queue.length;
+
+    if (this.queue.length > 0 && nextWake !== Infinity) {
+      this.timer = setTimeout(() => this.drain(), Math.max(1, nextWake));
+    }
+  }
+}
+
+// Singleton limiter, created lazily to respect config
+let _rateLimiter: RateLimiter | undefined;
+
+/**
+ * Get the process-wide rate limiter (lazy initialization)
+ *
+ * @returns The shared RateLimiter, or null when rate limiting is disabled
+ */
+export function getRateLimiter(): RateLimiter | null {
+  const config = getConfig();
+  if (!config.rateLimitEnabled) {
+    return null;
+  }
+
+  if (!_rateLimiter) {
+    _rateLimiter = new RateLimiter(config);
+  }
+  return _rateLimiter;
+}
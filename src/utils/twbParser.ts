@@ -6,6 +6,7 @@
  */
 
 import { XMLParser } from "fast-xml-parser";
+import { parseCalculation, findCalcNodes, getCalcNodeSource, LodExpressionNode } from "./calcParser.js";
 
 // ============================================
 // INTERFACES
@@ -45,6 +46,41 @@ export interface FilterInfo {
   datasource: string;
 }
 
+/** Filter with the values, range or condition it keeps */
+export interface ParsedFilter extends FilterInfo {
+  mode: "include" | "exclude" | "all" | "range" | "relative-date" | "condition";
+  members: string[];
+  range: { min: string | null; max: string | null } | null;
+  relativeDate: { periodType: string; firstPeriod: number; lastPeriod: number } | null;
+  condition: string | null;
+  isContext: boolean;
+}
+
+/** Dashboard or worksheet action */
+export interface ParsedAction {
+  name: string;
+  caption: string;
+  actionType: "filter" | "highlight" | "url" | "navigation" | "parameter" | "set" | "unknown";
+  command: string;
+  trigger: string;
+  sourceDashboard: string | null;
+  sourceSheets: string[];
+  /** Dashboard sheets the action doesn't run from (<exclude-sheet> under <source>) */
+  excludedSourceSheets: string[];
+  target: string | null;
+  excludedSheets: string[];
+  fieldMappings: { source: string; target: string }[];
+  autoClear: boolean | null;
+  params: Record<string, string>;
+}
+
+/** Custom colour palette saved in the workbook's preferences */
+export interface ParsedColorPalette {
+  name: string;
+  type: string;
+  colors: string[];
+}
+
 /** Mark encoding information */
 export interface EncodingInfo {
   color: string | null;
@@ -209,12 +245,30 @@ export function decodeHtmlEntities(text: string): string {
     .replace(/&amp;/g, "&")
     .replace(/&apos;/g, "'")
     .replace(/&quot;/g, '"')
+    .replace(/&#9;/g, "\t")
     .replace(/&#10;/g, "\n")
     .replace(/&#13;/g, "\r");
 }
 
-/** Extract field references [field] from formula */
+/**
+ * Extract field references [field] from formula
+ *
+ * Uses the calculation parser so brackets inside strings and comments are
+ * ignored and [Parameters].[Name] yields just the parameter name. Falls
+ * back to a bracket scan for formulas the parser can't read.
+ */
 export function extractFieldReferences(formula: string): string[] {
+  const parsed = parseCalculation(formula);
+  if (parsed.success) {
+    const references: string[] = [];
+    for (const field of findCalcNodes(parsed.ast, "FieldReference")) {
+      if (!references.includes(field.name)) {
+        references.push(field.name);
+      }
+    }
+    return references;
+  }
+
   const references: string[] = [];
   const fieldPattern = /\[([^\]]+)\]/g;
   let match;
@@ -322,27 +376,57 @@ export function extractMarkType(table: unknown): string | null {
 /** LOD regex pattern - matches {FIXED|INCLUDE|EXCLUDE [dims] : expr} */
 export const LOD_PATTERN = /\{(FIXED|INCLUDE|EXCLUDE)\s*([^:]*):([^}]+)\}/gi;
 
+/** LOD expression found in a formula */
+export interface LodMatch {
+  lodType: "FIXED" | "INCLUDE" | "EXCLUDE";
+  dimensions: string[];
+  aggregation: string | null;
+  aggregatedExpression: string;
+  hasNestedLod: boolean;
+}
+
 /** Check if formula contains LOD expression */
 export function containsLodExpression(formula: string): boolean {
+  const parsed = parseCalculation(formula);
+  if (parsed.success) {
+    return findCalcNodes(parsed.ast, "LodExpression").length > 0;
+  }
+
   LOD_PATTERN.lastIndex = 0;
   return LOD_PATTERN.test(formula);
 }
 
-/** Parse LOD expressions from a formula */
-export function parseLodExpressions(formula: string): Array<{
-  lodType: "FIXED" | "INCLUDE" | "EXCLUDE";
-  dimensions: string[];
-  aggregation: string | null;
-  aggregatedExpression: string;
-  hasNestedLod: boolean;
-}> {
-  const results: Array<{
-    lodType: "FIXED" | "INCLUDE" | "EXCLUDE";
-    dimensions: string[];
-    aggregation: string | null;
-    aggregatedExpression: string;
-    hasNestedLod: boolean;
-  }> = [];
+/**
+ * Parse LOD expressions from a formula
+ *
+ * Returns the outermost LODs; nested LODs are flagged with hasNestedLod
+ * and can be read by parsing the aggregatedExpression again. Falls back
+ * to LOD_PATTERN for formulas the calculation parser can't read.
+ */
+export function parseLodExpressions(formula: string): LodMatch[] {
+  const parsed = parseCalculation(formula);
+  if (parsed.success) {
+    const lods = findCalcNodes(parsed.ast, "LodExpression");
+    const nested = new Set<LodExpressionNode>(
+      lods.flatMap(lod => findCalcNodes(lod.expression, "LodExpression"))
+    );
+
+    return lods
+      .filter(lod => !nested.has(lod))
+      .map(lod => ({
+        lodType: lod.lodType,
+        dimensions: lod.dimensions.map(d =>
+          d.type === "FieldReference" ? d.name : getCalcNodeSource(formula, d)
+        ),
+        aggregation: lod.expression.type === "FunctionCall" && lod.expression.isAggregate
+          ? lod.expression.name
+          : null,
+        aggregatedExpression: getCalcNodeSource(formula, lod.expression).trim(),
+        hasNestedLod: findCalcNodes(lod.expression, "LodExpression").length > 0
+      }));
+  }
+
+  const results: LodMatch[] = [];
 
   LOD_PATTERN.lastIndex = 0;
   let match;
@@ -587,3 +671,298 @@ export function parseEncodings(encodings: unknown): EncodingInfo {
 
   return result;
 }
+
+/**
+ * Get child elements by name, including ones prefixed with object model flags
+ *
+ * Workbooks saved since Tableau 2020.2 prefix some elements with feature
+ * flags (e.g. "_.fcp.ObjectModelEncapsulateLegacy.false...relation").
+ */
+export function getFlaggedElements(element: Record<string, unknown>, name: string): Record<string, unknown>[] {
+  return Object.keys(element)
+    .filter(key => key === name || key.endsWith(`...${name}`))
+    .flatMap(key => ensureArray(element[key]))
+    .filter((child): child is Record<string, unknown> => !!child && typeof child === "object");
+}
+
+/** Strip the quotes Tableau puts around string members ("East" -> East) */
+export function parseMemberValue(member: string): string {
+  const decoded = decodeHtmlEntities(member);
+  return /^".*"$/.test(decoded) ? decoded.slice(1, -1).replace(/""/g, "\"") : decoded;
+}
+
+/** Collect the members selected by a groupfilter and its children */
+function collectFilterMembers(groupFilter: Record<string, unknown>): string[] {
+  if (groupFilter["@_function"] === "member" && groupFilter["@_member"] !== undefined) {
+    return [parseMemberValue(String(groupFilter["@_member"]))];
+  }
+  return ensureArray(groupFilter["groupfilter"])
+    .filter((child): child is Record<string, unknown> => !!child && typeof child === "object")
+    .flatMap(collectFilterMembers);
+}
+
+/** Describe a groupfilter that isn't a member list (conditions, top N) */
+function describeGroupFilter(groupFilter: Record<string, unknown>): string {
+  const fn = String(groupFilter["@_function"] ?? "unknown");
+  const children = ensureArray(groupFilter["groupfilter"])
+    .filter((child): child is Record<string, unknown> => !!child && typeof child === "object");
+
+  if (fn === "filter" && groupFilter["@_expression"] !== undefined) {
+    return decodeHtmlEntities(String(groupFilter["@_expression"]));
+  }
+  if (fn === "end") {
+    const order = children.find(child => child["@_function"] === "order");
+    const by = order?.["@_expression"] !== undefined ? ` by ${decodeHtmlEntities(String(order["@_expression"]))}` : "";
+    return `${groupFilter["@_end"] ?? "top"} ${groupFilter["@_count"] ?? ""}${by}`.replace(/\s+/g, " ").trim();
+  }
+  return children.length > 0 ? `${fn}(${children.map(describeGroupFilter).join(", ")})` : fn;
+}
+
+/**
+ * Parse a <filter> element (worksheet, data source or extract filter)
+ *
+ * Categorical filters list their members in nested groupfilters: "member"
+ * and "union" keep the listed values, "except" drops them from all values
+ * ("level-members"). Quantitative filters hold <min>/<max>, relative date
+ * filters a period type with first/last offsets.
+ *
+ * @param filter - The filter element
+ * @param datasource - Data source to report when the column isn't qualified
+ */
+export function parseFilterElement(filter: Record<string, unknown>, datasource = ""): ParsedFilter {
+  const column = decodeHtmlEntities(String(filter["@_column"] ?? ""));
+  const reference = parseFieldReference(column);
+  const filterClass = String(filter["@_class"] ?? "unknown");
+
+  const result: ParsedFilter = {
+    column: reference.fieldName,
+    filterClass,
+    datasource: reference.datasource ?? datasource,
+    mode: "all",
+    members: [],
+    range: null,
+    relativeDate: null,
+    condition: null,
+    isContext: filter["@_context"] === "true"
+  };
+
+  if (filterClass === "quantitative") {
+    const min = filter["min"];
+    const max = filter["max"];
+    result.mode = "range";
+    result.range = {
+      min: min === undefined || min === "" ? null : decodeHtmlEntities(String(min)),
+      max: max === undefined || max === "" ? null : decodeHtmlEntities(String(max))
+    };
+    if (filter["@_included-values"] && filter["@_included-values"] !== "in-range") {
+      result.condition = String(filter["@_included-values"]);
+    }
+    return result;
+  }
+
+  if (filterClass === "relative-date") {
+    result.mode = "relative-date";
+    result.relativeDate = {
+      periodType: String(filter["@_period-type"] ?? "day"),
+      firstPeriod: Number(filter["@_first-period"] ?? 0),
+      lastPeriod: Number(filter["@_last-period"] ?? 0)
+    };
+    return result;
+  }
+
+  const groupFilter = filter["groupfilter"];
+  if (!groupFilter || typeof groupFilter !== "object" || Array.isArray(groupFilter)) {
+    return result;
+  }
+  const gf = groupFilter as Record<string, unknown>;
+
+  switch (gf["@_function"]) {
+    case "level-members":
+      break;
+    case "member":
+    case "union":
+      result.mode = "include";
+      result.members = collectFilterMembers(gf);
+      break;
+    case "except": {
+      // The first child is the set taken from (usually all members)
+      const [, ...excluded] = ensureArray(gf["groupfilter"])
+        .filter((child): child is Record<string, unknown> => !!child && typeof child === "object");
+      result.mode = "exclude";
+      result.members = excluded.flatMap(collectFilterMembers);
+      break;
+    }
+    case "range":
+      result.mode = "range";
+      result.range = {
+        min: gf["@_from"] === undefined ? null : parseMemberValue(String(gf["@_from"])),
+        max: gf["@_to"] === undefined ? null : parseMemberValue(String(gf["@_to"]))
+      };
+      break;
+    default:
+      result.mode = "condition";
+      result.condition = describeGroupFilter(gf);
+  }
+
+  return result;
+}
+
+/**
+ * Extract the plain text of a <formatted-text> element
+ *
+ * Text zones, titles, captions and tooltips store their text as runs, each
+ * with its own formatting; field placeholders appear as <Field Name> and
+ * line breaks as "Æ" followed by a newline.
+ */
+export function extractFormattedText(formattedText: unknown): string {
+  if (!formattedText || typeof formattedText !== "object") return "";
+  return ensureArray((formattedText as Record<string, unknown>)["run"])
+    .map(run => {
+      if (run && typeof run === "object") {
+        return String((run as Record<string, unknown>)["#text"] ?? "");
+      }
+      return run === undefined || run === null ? "" : String(run);
+    })
+    .map(decodeHtmlEntities)
+    .join("")
+    .replace(/Æ(\r?\n)/g, "$1");
+}
+
+/** Classify an action from its command (e.g. "tsc:tsl-filter" is a filter action) */
+function classifyActionCommand(command: string): ParsedAction["actionType"] {
+  if (command.includes("filter")) return "filter";
+  if (command.includes("brush") || command.includes("highlight")) return "highlight";
+  if (command.includes("url")) return "url";
+  if (command.includes("param")) return "parameter";
+  if (command.includes("set")) return "set";
+  if (command.includes("sheet") || command.includes("goto") || command.includes("navigate")) return "navigation";
+  return "unknown";
+}
+
+/**
+ * Read the fields an action passes from its source to its target
+ *
+ * Filter and highlight actions on selected fields list them as
+ * source~s0~target pairs in field-mapping, or only by caption in
+ * field-captions when both sides use the same field; parameter and set
+ * actions name a single source-field.
+ */
+function parseActionFieldMappings(params: Record<string, string>): ParsedAction["fieldMappings"] {
+  if (params["field-mapping"]) {
+    return params["field-mapping"].split(",")
+      .map(pair => pair.split("~s0~"))
+      .filter(parts => parts.length === 2)
+      .map(([source, target]) => ({ source: extractFieldName(source.trim()), target: extractFieldName(target.trim()) }));
+  }
+  if (params["source-field"]) {
+    const target = params["target-parameter"] ?? params["target-set"] ?? params["target-field"];
+    return [{
+      source: extractFieldName(params["source-field"]),
+      target: target ? extractFieldName(target) : extractFieldName(params["source-field"])
+    }];
+  }
+  if (params["field-captions"]) {
+    return params["field-captions"].split(",")
+      .map(caption => caption.trim())
+      .filter(Boolean)
+      .map(caption => ({ source: caption, target: caption }));
+  }
+  return [];
+}
+
+/**
+ * Parse the workbook's actions (the <actions> element of the workbook)
+ *
+ * Each action names its source (a dashboard and optionally its sheets, or
+ * a worksheet, minus any excluded sheets), how it is triggered, and a command whose params hold the
+ * target sheet, URL, parameter or set and the fields passed to it. URL
+ * actions may instead keep their URL in a <link> element.
+ */
+export function parseActions(workbook: Record<string, unknown>): ParsedAction[] {
+  const actions = (workbook["actions"] as Record<string, unknown> | undefined)?.["action"];
+  const result: ParsedAction[] = [];
+
+  for (const action of ensureArray(actions)) {
+    if (!action || typeof action !== "object") continue;
+    const actionObj = action as Record<string, unknown>;
+    const name = decodeHtmlEntities(String(actionObj["@_name"] ?? ""));
+
+    const command = actionObj["command"] as Record<string, unknown> | undefined;
+    const commandName = String(command?.["@_command"] ?? "");
+    const params: Record<string, string> = {};
+    for (const param of ensureArray(command?.["param"])) {
+      if (!param || typeof param !== "object") continue;
+      const paramObj = param as Record<string, unknown>;
+      params[String(paramObj["@_name"] ?? "")] = decodeHtmlEntities(String(paramObj["@_value"] ?? ""));
+    }
+
+    let sourceDashboard: string | null = null;
+    const sourceSheets: string[] = [];
+    const excludedSourceSheets: string[] = [];
+    for (const source of ensureArray(actionObj["source"])) {
+      if (!source || typeof source !== "object") continue;
+      const sourceObj = source as Record<string, unknown>;
+      if (sourceObj["@_dashboard"] !== undefined) {
+        sourceDashboard = decodeHtmlEntities(String(sourceObj["@_dashboard"]));
+      }
+      if (sourceObj["@_worksheet"] !== undefined) {
+        sourceSheets.push(decodeHtmlEntities(String(sourceObj["@_worksheet"])));
+      }
+      for (const excluded of ensureArray(sourceObj["exclude-sheet"])) {
+        if (!excluded || typeof excluded !== "object") continue;
+        const excludedName = (excluded as Record<string, unknown>)["@_name"];
+        if (excludedName !== undefined) excludedSourceSheets.push(decodeHtmlEntities(String(excludedName)));
+      }
+    }
+
+    const activation = actionObj["activation"] as Record<string, unknown> | undefined;
+    const autoClear = activation?.["@_auto-clear"];
+    const targetKey = Object.keys(params).find(key => key === "url" || key.startsWith("target"));
+
+    // URL actions keep their URL in a <link> rather than a command param
+    const link = actionObj["link"] as Record<string, unknown> | undefined;
+    const linkExpression = link?.["@_expression"] !== undefined ? decodeHtmlEntities(String(link["@_expression"])) : null;
+
+    result.push({
+      name,
+      caption: decodeHtmlEntities(String(actionObj["@_caption"] ?? name)),
+      actionType: linkExpression !== null ? "url" : classifyActionCommand(commandName),
+      command: commandName,
+      trigger: String(activation?.["@_type"] ?? "on-select"),
+      sourceDashboard,
+      sourceSheets,
+      excludedSourceSheets,
+      target: targetKey ? params[targetKey] : linkExpression,
+      excludedSheets: params["exclude"] ? params["exclude"].split(",").map(sheet => sheet.trim()).filter(Boolean) : [],
+      fieldMappings: parseActionFieldMappings(params),
+      autoClear: autoClear === undefined ? null : String(autoClear) === "true",
+      params
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Parse the custom colour palettes saved in a workbook's preferences
+ *
+ * Palettes are regular (categorical), ordered-sequential or
+ * ordered-diverging, as in Tableau's Preferences.tps.
+ */
+export function parseColorPalettes(workbook: Record<string, unknown>): ParsedColorPalette[] {
+  const preferences = workbook["preferences"] as Record<string, unknown> | undefined;
+  const result: ParsedColorPalette[] = [];
+
+  for (const palette of ensureArray(preferences?.["color-palette"])) {
+    if (!palette || typeof palette !== "object") continue;
+    const paletteObj = palette as Record<string, unknown>;
+    if (paletteObj["@_name"] === undefined) continue;
+    result.push({
+      name: decodeHtmlEntities(String(paletteObj["@_name"])),
+      type: String(paletteObj["@_type"] ?? "regular"),
+      colors: ensureArray(paletteObj["color"]).map(color => String(color))
+    });
+  }
+
+  return result;
+}